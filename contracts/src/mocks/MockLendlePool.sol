@@ -149,6 +149,29 @@ contract MockLendlePool is ILendlePool {
         return IERC20(asset).balanceOf(reserve.aTokenAddress);
     }
 
+    /// @notice Move underlying out of the aToken as if it had been borrowed (for testing low liquidity)
+    /// @dev aToken balances are unchanged, so holders keep their claim but `withdraw` reverts past what is left
+    /// @param asset The address of the underlying asset
+    /// @param amount The amount of liquidity to remove
+    /// @param to The address that receives the underlying
+    function simulateBorrow(address asset, uint256 amount, address to) external {
+        Reserve memory reserve = reserves[asset];
+        if (!reserve.isActive) revert MockLendlePool__ReserveNotActive();
+        if (amount > IERC20(asset).balanceOf(reserve.aTokenAddress)) revert MockLendlePool__InsufficientLiquidity();
+
+        MockAToken(reserve.aTokenAddress).transferUnderlyingTo(to, amount);
+    }
+
+    /// @notice Return underlying to the aToken, restoring liquidity removed by `simulateBorrow`
+    /// @param asset The address of the underlying asset
+    /// @param amount The amount to pull from the caller
+    function simulateRepay(address asset, uint256 amount) external {
+        Reserve memory reserve = reserves[asset];
+        if (!reserve.isActive) revert MockLendlePool__ReserveNotActive();
+
+        IERC20(asset).safeTransferFrom(msg.sender, reserve.aTokenAddress, amount);
+    }
+
     /// @notice Advance time to simulate yield accrual (for testing)
     /// @param asset The address of the underlying asset
     function simulateYieldAccrual(address asset) external {
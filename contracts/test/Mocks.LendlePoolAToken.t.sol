@@ -77,4 +77,25 @@ contract MocksLendlePoolATokenTest is Test {
         assertGe(afterUnderlying, afterBal);
         assertGt(afterUnderlying, beforeUnderlying);
     }
+
+    function test_SimulateBorrow_limitsLiquidity_untilRepaid() public {
+        vm.prank(user);
+        pool.supply(address(usdc), 250e6, user, 0);
+
+        pool.simulateBorrow(address(usdc), 200e6, address(this));
+
+        assertEq(pool.getAvailableLiquidity(address(usdc)), 50e6);
+        assertEq(aUSDC.balanceOf(user), 250e6);
+
+        vm.prank(user);
+        vm.expectRevert(MockLendlePool.MockLendlePool__InsufficientLiquidity.selector);
+        pool.withdraw(address(usdc), 100e6, user);
+
+        usdc.approve(address(pool), 200e6);
+        pool.simulateRepay(address(usdc), 200e6);
+
+        vm.prank(user);
+        uint256 withdrawn = pool.withdraw(address(usdc), 100e6, user);
+        assertEq(withdrawn, 100e6);
+    }
 }
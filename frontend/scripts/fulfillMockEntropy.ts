@@ -0,0 +1,46 @@
+import { randomBytes } from "node:crypto";
+
+import { createPublicClient, createWalletClient, http, toHex, type Address, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { mockEntropyAbi, welotVaultAbi } from "../src/lib/abis";
+
+// Testnet helper for vaults wired to MockEntropyV2: fulfills the current
+// epoch's pending randomness request so the keeper can finalize the draw.
+const REQUIRED_ENVS = ["RPC_URL", "PRIVATE_KEY", "MOCK_ENTROPY", "WELOT_VAULT"];
+for (const key of REQUIRED_ENVS) {
+  if (!process.env[key]) {
+    console.error(`Missing env var: ${key}`);
+    process.exit(1);
+  }
+}
+
+const RPC_URL = process.env.RPC_URL!;
+const MOCK_ENTROPY = process.env.MOCK_ENTROPY! as Address;
+const WELOT_VAULT = process.env.WELOT_VAULT! as Address;
+
+async function main() {
+  const account = privateKeyToAccount(process.env.PRIVATE_KEY! as Hex);
+  const client = createPublicClient({ transport: http(RPC_URL) });
+  const wallet = createWalletClient({ account, transport: http(RPC_URL) });
+
+  const epoch = await client.readContract({ address: WELOT_VAULT, abi: welotVaultAbi, functionName: "getCurrentEpoch" });
+  if (epoch.entropySequence === 0n) {
+    console.log("No randomness request pending");
+    return;
+  }
+
+  const hash = await wallet.writeContract({
+    address: MOCK_ENTROPY,
+    abi: mockEntropyAbi,
+    functionName: "fulfill",
+    args: [epoch.entropySequence, toHex(randomBytes(32))],
+    chain: null,
+  });
+  console.log("Fulfilled entropy:", hash);
+}
+
+main().catch((err) => {
+  console.error("[fulfill-mock-entropy] fatal:", err);
+  process.exit(1);
+});
@@ -0,0 +1,147 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+// Generates `src/lib/generated/abis.ts` from the Foundry artifacts in
+// `contracts/out` (run `forge build` in `contracts/` first). With `--check` it
+// only compares and exits 1 when the checked-in module is stale.
+
+const ROOT = path.resolve(__dirname, "..");
+const FOUNDRY_OUT = path.resolve(ROOT, process.env.FOUNDRY_OUT ?? "../contracts/out");
+const TARGET = path.join(ROOT, "src/lib/generated/abis.ts");
+const CHECK = process.argv.includes("--check");
+
+// Contract name in `out/<Source>.sol/<Contract>.json` → exported constant
+const CONTRACTS: { source: string; contract: string; exportName: string }[] = [
+  { source: "WelotVault.sol", contract: "WelotVault", exportName: "welotVaultAbi" },
+  { source: "IEntropyV2.sol", contract: "IEntropyV2", exportName: "entropyAbi" },
+  { source: "MockEntropyV2.sol", contract: "MockEntropyV2", exportName: "mockEntropyAbi" },
+  { source: "MockFaucet.sol", contract: "MockFaucet", exportName: "faucetAbi" },
+];
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+type AbiParam = { name?: string; type: string; indexed?: boolean; components?: AbiParam[] };
+type AbiItem = {
+  type: string;
+  name?: string;
+  stateMutability?: string;
+  inputs?: AbiParam[];
+  outputs?: AbiParam[];
+  anonymous?: boolean;
+};
+
+const TYPE_ORDER = ["constructor", "function", "event", "error", "receive", "fallback"];
+
+// Keeps what viem needs, in a fixed key order, dropping `internalType`
+function normalizeParam(p: AbiParam): AbiParam {
+  return {
+    name: p.name ?? "",
+    type: p.type,
+    ...(p.indexed !== undefined ? { indexed: p.indexed } : {}),
+    ...(p.components ? { components: p.components.map(normalizeParam) } : {}),
+  };
+}
+
+function normalizeItem(item: AbiItem): AbiItem {
+  return {
+    type: item.type,
+    ...(item.name !== undefined ? { name: item.name } : {}),
+    ...(item.stateMutability !== undefined ? { stateMutability: item.stateMutability } : {}),
+    ...(item.inputs ? { inputs: item.inputs.map(normalizeParam) } : {}),
+    ...(item.outputs ? { outputs: item.outputs.map(normalizeParam) } : {}),
+    ...(item.type === "event" ? { anonymous: item.anonymous ?? false } : {}),
+  };
+}
+
+function paramTypes(params: AbiParam[] = []): string {
+  return params.map((p) => (p.components ? `(${paramTypes(p.components)})${p.type.slice(5)}` : p.type)).join(",");
+}
+
+// Code-point order, so the output does not depend on the machine's locale
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Artifact order depends on the compiler; sort so the output only changes with the ABI
+function compareItems(a: AbiItem, b: AbiItem): number {
+  return (
+    TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) ||
+    compareStrings(a.name ?? "", b.name ?? "") ||
+    compareStrings(paramTypes(a.inputs), paramTypes(b.inputs))
+  );
+}
+
+function isFlat(value: { [key: string]: Json }): boolean {
+  return Object.values(value).every((v) => v === null || typeof v !== "object");
+}
+
+// Prints in the style of the hand-written ABIs: bare keys, double quotes,
+// flat objects (most params) on one line
+function toTs(value: Json, indent = ""): string {
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    const [only] = value;
+    if (value.length === 1 && only !== null && typeof only === "object" && !Array.isArray(only) && isFlat(only)) {
+      return `[${toTs(only, indent)}]`;
+    }
+    return `[\n${value.map((v) => `${inner}${toTs(v, inner)},\n`).join("")}${indent}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value);
+    if (isFlat(value)) return `{ ${entries.map(([k, v]) => `${k}: ${toTs(v)}`).join(", ")} }`;
+    return `{\n${entries.map(([k, v]) => `${inner}${k}: ${toTs(v, inner)},\n`).join("")}${indent}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function readAbi(source: string, contract: string): AbiItem[] {
+  const file = path.join(FOUNDRY_OUT, source, `${contract}.json`);
+  if (!existsSync(file)) {
+    throw new Error(`Missing artifact ${path.relative(ROOT, file)}: run \`forge build\` in contracts/ first`);
+  }
+  const artifact = JSON.parse(readFileSync(file, "utf8")) as { abi?: AbiItem[] };
+  if (!Array.isArray(artifact.abi)) throw new Error(`${path.relative(ROOT, file)} has no abi`);
+  return artifact.abi.map(normalizeItem).sort(compareItems);
+}
+
+function render(): string {
+  const modules = CONTRACTS.map(({ source, contract, exportName }) => {
+    const abi = readAbi(source, contract) as unknown as Json;
+    return `// ${contract}\nexport const ${exportName} = ${toTs(abi)} as const;\n`;
+  });
+  return [
+    "// Generated by scripts/generateAbis.ts from the Foundry artifacts in contracts/out.",
+    "// Do not edit: change the contracts, `forge build`, then `npm run abis`.",
+    "",
+    modules.join("\n"),
+  ].join("\n");
+}
+
+function main() {
+  const next = render();
+  const current = existsSync(TARGET) ? readFileSync(TARGET, "utf8") : null;
+  const rel = path.relative(ROOT, TARGET);
+
+  if (CHECK) {
+    if (current !== next) {
+      console.error(`${rel} is stale: run \`npm run abis\` after \`forge build\` and commit the result`);
+      process.exit(1);
+    }
+    console.log(`${rel} is up to date`);
+    return;
+  }
+
+  if (current === next) {
+    console.log(`${rel} unchanged`);
+    return;
+  }
+  writeFileSync(TARGET, next);
+  console.log(`Wrote ${rel} (${CONTRACTS.map((c) => c.contract).join(", ")})`);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error("[abis]", err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -0,0 +1,379 @@
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { getAddress, isAddress, type Address } from "viem";
+
+// Reads the Foundry broadcasts in `contracts/broadcast/<Script>/<chainId>/run-latest.json`
+// and writes the deployment manifest `src/lib/generated/deployments.ts`.
+//
+//   npm run deployments                  # regenerate the manifest
+//   npm run deployments -- --env 31337   # also write that chain's addresses to .env.local
+//   npm run deployments -- --check       # exit 1 if the checked-in manifest is stale
+//
+// Anvil (31337) broadcasts are not committed, so they only feed `--env`.
+
+const ROOT = path.resolve(__dirname, "..");
+const BROADCAST_DIR = path.resolve(ROOT, process.env.FOUNDRY_BROADCAST ?? "../contracts/broadcast");
+const TARGET = path.join(ROOT, "src/lib/generated/deployments.ts");
+const ENV_FILE = path.join(ROOT, ".env.local");
+const SCRIPTS = ["DeployMantle.s.sol", "DeployLocal.s.sol"];
+const LOCAL_CHAIN_ID = 31337;
+
+const CHECK = process.argv.includes("--check");
+const envFlag = process.argv.indexOf("--env");
+const ENV_CHAIN_ID = envFlag >= 0 ? Number(process.argv[envFlag + 1]) : undefined;
+
+// Real tokens have no constructor args in the broadcast to read these from
+const KNOWN_TOKENS: Record<string, { name: string; decimals: number }> = {
+  USDC: { name: "USD Coin", decimals: 6 },
+  USDT: { name: "Tether USD", decimals: 6 },
+};
+
+type BroadcastTx = {
+  hash: string;
+  transactionType: string;
+  contractName: string | null;
+  contractAddress: string | null;
+  function: string | null;
+  arguments: string[] | null;
+  transaction: { to?: string | null };
+};
+type Broadcast = {
+  transactions: BroadcastTx[];
+  receipts: { transactionHash: string; blockNumber: string; status: string }[];
+  pending: unknown[];
+  timestamp: number;
+  chain: number;
+  commit?: string;
+};
+
+type Token = { address: Address; symbol: string; name: string; decimals: number; vaultAddress?: Address };
+type Manifest = {
+  chainId: number;
+  vault: Address;
+  vaultDeployBlock: bigint;
+  entropy: Address;
+  faucet?: Address;
+  lendlePool?: Address;
+  tokens: Token[];
+  source: { script: string; commit?: string; timestamp: number };
+};
+
+// Problems are collected per broadcast so one run reports all of them
+class Problems {
+  readonly errors: string[] = [];
+  readonly warnings: string[] = [];
+  constructor(private readonly label: string) {}
+  error(msg: string) {
+    this.errors.push(`${this.label}: ${msg}`);
+  }
+  warn(msg: string) {
+    this.warnings.push(`${this.label}: ${msg}`);
+  }
+}
+
+function toAddress(value: string | null | undefined, what: string, problems: Problems): Address | undefined {
+  if (value && isAddress(value, { strict: false })) return getAddress(value);
+  problems.error(`${what} has no valid address (${value ?? "missing"})`);
+  return undefined;
+}
+
+// The one deployment of a contract the stack needs exactly one of
+function single(creates: BroadcastTx[], name: string, problems: Problems, required: boolean): BroadcastTx | undefined {
+  const found = creates.filter((tx) => tx.contractName === name);
+  if (found.length > 1) {
+    const addresses = found.map((tx) => tx.contractAddress).join(", ");
+    problems.error(`${found.length} ${name} deployments (${addresses}); cannot tell which one is live`);
+    return undefined;
+  }
+  if (found.length === 0 && required) problems.error(`no ${name} deployment`);
+  return found[0];
+}
+
+function parseBroadcast(script: string, broadcast: Broadcast, problems: Problems): Manifest | undefined {
+  const blockOf = new Map(broadcast.receipts.map((r) => [r.transactionHash.toLowerCase(), r]));
+  const creates = broadcast.transactions.filter((tx) => tx.transactionType === "CREATE");
+  const calls = broadcast.transactions.filter((tx) => tx.transactionType === "CALL");
+
+  if (broadcast.pending.length > 0) {
+    problems.warn(`${broadcast.pending.length} transaction(s) still pending; the run may be incomplete`);
+  }
+  for (const tx of creates) {
+    if (blockOf.get(tx.hash.toLowerCase())?.status === "0x0") {
+      problems.error(`${tx.contractName} deployment ${tx.hash} reverted`);
+    }
+  }
+
+  // Mock tokens: both are `MockERC20`, told apart by the constructor's symbol
+  const mockTokens = new Map<Address, { symbol: string; name: string; decimals: number }>();
+  const bySymbol = new Map<string, string>();
+  for (const tx of creates.filter((t) => t.contractName === "MockERC20")) {
+    const address = toAddress(tx.contractAddress, "MockERC20", problems);
+    const [name, symbol, decimals] = tx.arguments ?? [];
+    if (!address) continue;
+    if (!symbol) {
+      problems.error(`MockERC20 ${address} has no constructor args; cannot tell which token it is`);
+      continue;
+    }
+    const previous = bySymbol.get(symbol);
+    if (previous) {
+      problems.error(`two MockERC20 deployments with symbol ${symbol} (${previous}, ${address})`);
+      continue;
+    }
+    bySymbol.set(symbol, address);
+    mockTokens.set(address, { symbol, name: name ?? symbol, decimals: Number(decimals ?? 18) });
+  }
+
+  // Yield vaults by asset (constructor arg 0); the symbol ("wUSDC") names real tokens
+  const yieldVaults = new Map<Address, { address: Address; symbol?: string }>();
+  for (const tx of creates.filter((t) => t.contractName === "LendleYieldVault")) {
+    const address = toAddress(tx.contractAddress, "LendleYieldVault", problems);
+    const asset = tx.arguments?.[0];
+    if (!address) continue;
+    if (!asset || !isAddress(asset, { strict: false })) {
+      problems.error(`LendleYieldVault ${address} has no asset constructor arg`);
+      continue;
+    }
+    const key = getAddress(asset);
+    if (yieldVaults.has(key)) {
+      problems.error(`two LendleYieldVault deployments for asset ${key} (${yieldVaults.get(key)!.address}, ${address})`);
+      continue;
+    }
+    yieldVaults.set(key, { address, symbol: tx.arguments?.[4]?.replace(/^w/, "") });
+  }
+
+  const vaultTx = single(creates, "WelotVault", problems, true);
+  const vault = vaultTx && toAddress(vaultTx.contractAddress, "WelotVault", problems);
+  if (!vaultTx || !vault) return undefined;
+  const vaultReceipt = blockOf.get(vaultTx.hash.toLowerCase());
+  if (!vaultReceipt) problems.warn("no receipt for the WelotVault deployment; vaultDeployBlock set to 0");
+
+  // The vault's constructor takes the Entropy address, mock or real
+  const entropy = toAddress(vaultTx.arguments?.[0], "WelotVault's Entropy constructor arg", problems);
+  const mockEntropy = single(creates, "MockEntropyV2", problems, false);
+  if (mockEntropy && entropy && mockEntropy.contractAddress?.toLowerCase() !== entropy.toLowerCase()) {
+    problems.warn(`MockEntropyV2 ${mockEntropy.contractAddress} was deployed but the vault uses ${entropy}`);
+  }
+  const faucetTx = single(creates, "MockFaucet", problems, false);
+  const poolTx = single(creates, "MockLendlePool", problems, false);
+
+  // Supported tokens are what the script registered on the vault
+  const tokens: Token[] = [];
+  const registered = calls.filter(
+    (tx) => tx.contractName === "WelotVault" && tx.function?.startsWith("addSupportedToken(")
+  );
+  if (registered.length === 0) problems.warn("no addSupportedToken calls; the vault supports no tokens yet");
+  for (const tx of registered) {
+    const [tokenArg, yieldVaultArg] = tx.arguments ?? [];
+    const address = toAddress(tokenArg, "addSupportedToken token", problems);
+    const vaultAddress = toAddress(yieldVaultArg, "addSupportedToken yield vault", problems);
+    if (!address || !vaultAddress) continue;
+
+    const mock = mockTokens.get(address);
+    const yieldVault = yieldVaults.get(address);
+    if (yieldVault && yieldVault.address !== vaultAddress) {
+      problems.warn(`${address} was registered with ${vaultAddress}, not the ${yieldVault.address} deployed for it`);
+    }
+    const symbol = mock?.symbol ?? yieldVault?.symbol;
+    const known = symbol ? KNOWN_TOKENS[symbol] : undefined;
+    if (!symbol || (!mock && !known)) {
+      problems.error(`cannot tell the symbol and decimals of registered token ${address}`);
+      continue;
+    }
+    if (tokens.some((t) => t.symbol === symbol)) {
+      problems.error(`two registered tokens with symbol ${symbol}`);
+      continue;
+    }
+    tokens.push({
+      address,
+      symbol,
+      name: mock?.name ?? known!.name,
+      decimals: mock?.decimals ?? known!.decimals,
+      vaultAddress,
+    });
+  }
+
+  if (!entropy) return undefined;
+  return {
+    chainId: broadcast.chain,
+    vault,
+    vaultDeployBlock: vaultReceipt ? BigInt(vaultReceipt.blockNumber) : 0n,
+    entropy,
+    faucet: faucetTx ? toAddress(faucetTx.contractAddress, "MockFaucet", problems) : undefined,
+    lendlePool: poolTx ? toAddress(poolTx.contractAddress, "MockLendlePool", problems) : undefined,
+    tokens,
+    source: { script, commit: broadcast.commit, timestamp: broadcast.timestamp },
+  };
+}
+
+// Latest run of every deploy script, newest first per chain
+function readBroadcasts(): { script: string; chainId: number; file: string; broadcast: Broadcast }[] {
+  const found: { script: string; chainId: number; file: string; broadcast: Broadcast }[] = [];
+  for (const script of SCRIPTS) {
+    const dir = path.join(BROADCAST_DIR, script);
+    if (!existsSync(dir)) continue;
+    for (const chainDir of readdirSync(dir)) {
+      const file = path.join(dir, chainDir, "run-latest.json");
+      if (!/^\d+$/.test(chainDir) || !existsSync(file)) continue;
+      const broadcast = JSON.parse(readFileSync(file, "utf8")) as Broadcast;
+      found.push({ script, chainId: Number(chainDir), file, broadcast });
+    }
+  }
+  return found.sort((a, b) => a.chainId - b.chainId || b.broadcast.timestamp - a.broadcast.timestamp);
+}
+
+const str = (value: string) => JSON.stringify(value);
+
+function renderToken(t: Token): string {
+  const vault = t.vaultAddress ? `, vaultAddress: ${str(t.vaultAddress)}` : "";
+  const icon = str(`/icons/${t.symbol.toLowerCase()}.svg`);
+  return `{ address: ${str(t.address)}, symbol: ${str(t.symbol)}, name: ${str(t.name)}, decimals: ${t.decimals}, icon: ${icon}${vault} }`;
+}
+
+function renderManifest(m: Manifest): string {
+  const optional = (key: string, value: Address | undefined) => (value ? `    ${key}: ${str(value)},\n` : "");
+  const commit = m.source.commit ? `, commit: ${str(m.source.commit)}` : "";
+  return (
+    `  ${m.chainId}: {\n` +
+    `    chainId: ${m.chainId},\n` +
+    `    vault: ${str(m.vault)},\n` +
+    `    vaultDeployBlock: ${m.vaultDeployBlock}n,\n` +
+    `    entropy: ${str(m.entropy)},\n` +
+    optional("faucet", m.faucet) +
+    optional("lendlePool", m.lendlePool) +
+    `    tokens: [\n${m.tokens.map((t) => `      ${renderToken(t)},\n`).join("")}    ],\n` +
+    `    source: { script: ${str(m.source.script)}${commit}, timestamp: ${m.source.timestamp} },\n` +
+    `  },\n`
+  );
+}
+
+function render(manifests: Manifest[]): string {
+  return [
+    "// Generated by scripts/importDeployments.ts from contracts/broadcast/*/<chainId>/run-latest.json.",
+    "// Do not edit: redeploy, then `npm run deployments`.",
+    'import type { Deployment } from "../deployments";',
+    "",
+    `export const importedDeployments: Record<number, Deployment> = {\n${manifests.map(renderManifest).join("")}};`,
+    "",
+  ].join("\n");
+}
+
+// Frontend and keeper variables for one deployment
+function envVars(m: Manifest): Record<string, string | undefined> {
+  const vars: Record<string, string | undefined> = {
+    NEXT_PUBLIC_CHAIN_ID: String(m.chainId),
+    NEXT_PUBLIC_WELOT_VAULT: m.vault,
+    NEXT_PUBLIC_WELOT_VAULT_DEPLOY_BLOCK: String(m.vaultDeployBlock),
+    NEXT_PUBLIC_ENTROPY: m.entropy,
+    NEXT_PUBLIC_FAUCET: m.faucet,
+    NEXT_PUBLIC_USDC: undefined,
+    NEXT_PUBLIC_SUSDC: undefined,
+    NEXT_PUBLIC_USDT: undefined,
+    NEXT_PUBLIC_SUSDT: undefined,
+    // Keeper, indexer and monitor
+    CHAIN_ID: String(m.chainId),
+    WELOT_VAULT: m.vault,
+    FROM_BLOCK: String(m.vaultDeployBlock),
+  };
+  for (const t of m.tokens) {
+    if (!(`NEXT_PUBLIC_${t.symbol}` in vars)) {
+      console.warn(`[deployments] ${t.symbol} has no NEXT_PUBLIC_* variable; it is only in the manifest`);
+      continue;
+    }
+    vars[`NEXT_PUBLIC_${t.symbol}`] = t.address;
+    vars[`NEXT_PUBLIC_S${t.symbol}`] = t.vaultAddress;
+  }
+  return vars;
+}
+
+// Replaces the managed keys in place, keeps every other line (RPC URLs, comments),
+// appends keys that were missing and drops ones this deployment has no value for
+function updateEnvFile(content: string, vars: Record<string, string | undefined>, header: string): string {
+  const seen = new Set<string>();
+  const lines: string[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const key = line.match(/^\s*([^#=\s]+)\s*=/)?.[1];
+    if (!key || !(key in vars)) {
+      lines.push(line);
+      continue;
+    }
+    seen.add(key);
+    if (vars[key] !== undefined) lines.push(`${key}=${vars[key]}`);
+  }
+  const missing = Object.entries(vars).filter(([key, value]) => !seen.has(key) && value !== undefined);
+  while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+  if (missing.length > 0) {
+    if (lines.length > 0) lines.push("");
+    lines.push(header, ...missing.map(([key, value]) => `${key}=${value}`));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function main() {
+  if (ENV_CHAIN_ID !== undefined && !Number.isSafeInteger(ENV_CHAIN_ID)) {
+    throw new Error("--env needs a chain id, e.g. --env 31337");
+  }
+  const broadcasts = readBroadcasts();
+  if (broadcasts.length === 0) {
+    throw new Error(`No run-latest.json under ${path.relative(ROOT, BROADCAST_DIR)}: run a deploy script first`);
+  }
+
+  const manifests = new Map<number, Manifest>();
+  const errors: string[] = [];
+  for (const { script, chainId, file, broadcast } of broadcasts) {
+    const rel = path.relative(ROOT, file);
+    if (manifests.has(chainId)) {
+      console.warn(`[deployments] ${rel}: older than another deploy on chain ${chainId}; skipped`);
+      continue;
+    }
+    if (broadcast.chain !== chainId) {
+      errors.push(`${rel}: says chain ${broadcast.chain} but sits in the ${chainId} directory`);
+      continue;
+    }
+    const problems = new Problems(rel);
+    const manifest = parseBroadcast(script, broadcast, problems);
+    problems.warnings.forEach((w) => console.warn(`[deployments] warning: ${w}`));
+    errors.push(...problems.errors);
+    if (manifest && problems.errors.length === 0) manifests.set(chainId, manifest);
+  }
+  if (errors.length > 0) {
+    errors.forEach((e) => console.error(`[deployments] error: ${e}`));
+    throw new Error(`${errors.length} problem(s) in the broadcasts; nothing written`);
+  }
+
+  const committed = [...manifests.values()].filter((m) => m.chainId !== LOCAL_CHAIN_ID);
+  const next = render(committed);
+  const current = existsSync(TARGET) ? readFileSync(TARGET, "utf8") : null;
+  const rel = path.relative(ROOT, TARGET);
+
+  if (CHECK) {
+    if (current !== next) {
+      console.error(`${rel} is stale: run \`npm run deployments\` and commit the result`);
+      process.exit(1);
+    }
+    console.log(`${rel} is up to date`);
+    return;
+  }
+
+  if (current === next) {
+    console.log(`${rel} unchanged`);
+  } else {
+    writeFileSync(TARGET, next);
+    console.log(`Wrote ${rel} (chains ${committed.map((m) => m.chainId).join(", ") || "none"})`);
+  }
+
+  if (ENV_CHAIN_ID !== undefined) {
+    const manifest = manifests.get(ENV_CHAIN_ID);
+    if (!manifest) throw new Error(`No deployment for chain ${ENV_CHAIN_ID} in the broadcasts`);
+    const existing = existsSync(ENV_FILE) ? readFileSync(ENV_FILE, "utf8") : "";
+    const header = `# Imported from ${manifest.source.script} on chain ${manifest.chainId} by \`npm run deployments\``;
+    writeFileSync(ENV_FILE, updateEnvFile(existing, envVars(manifest), header));
+    console.log(`Wrote ${path.relative(ROOT, ENV_FILE)} for chain ${manifest.chainId} (${manifest.vault})`);
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  console.error("[deployments]", err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -0,0 +1,145 @@
+import http from "node:http";
+import path from "node:path";
+
+import { createPublicClient, getAddress, http as httpTransport, isAddress } from "viem";
+
+import { resolveChain } from "../src/lib/chains";
+import {
+  VaultIndexer,
+  buildUserLedger,
+  getDraw,
+  getDraws,
+  getUserEvents,
+  getWinsByPool,
+} from "../src/lib/indexer";
+import { JsonFileStore } from "../src/lib/indexer/jsonFileStore";
+
+const REQUIRED_ENVS = ["RPC_URL", "CHAIN_ID", "WELOT_VAULT"];
+for (const key of REQUIRED_ENVS) {
+  if (!process.env[key]) {
+    console.error(`Missing env var: ${key}`);
+    process.exit(1);
+  }
+}
+
+const RPC_URL = process.env.RPC_URL!;
+const CHAIN_ID = Number(process.env.CHAIN_ID);
+const WELOT_VAULT = getAddress(process.env.WELOT_VAULT!);
+
+const FROM_BLOCK = BigInt(process.env.FROM_BLOCK ?? "0");
+const CHUNK_SIZE = BigInt(process.env.CHUNK_SIZE ?? "2000");
+const CONFIRMATIONS = BigInt(process.env.CONFIRMATIONS ?? "0");
+const POLL_INTERVAL_MS = Number(process.env.POLL_INTERVAL_MS ?? "5000");
+const INDEXER_PORT = Number(process.env.INDEXER_PORT ?? "8787");
+const INDEXER_DB =
+  process.env.INDEXER_DB ?? path.join(".indexer", `${CHAIN_ID}-${WELOT_VAULT.toLowerCase()}.json`);
+const ONCE = process.env.ONCE === "1";
+
+const client = createPublicClient({
+  chain: resolveChain(CHAIN_ID, RPC_URL),
+  transport: httpTransport(RPC_URL),
+});
+
+const indexer = new VaultIndexer({
+  client,
+  vaultAddress: WELOT_VAULT,
+  store: new JsonFileStore(INDEXER_DB),
+  fromBlock: FROM_BLOCK,
+  chunkSize: CHUNK_SIZE,
+  confirmations: CONFIRMATIONS,
+});
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body, (_key, value) => (typeof value === "bigint" ? value.toString() : value)));
+}
+
+// Read-only query API:
+//   GET /status                 cursor and event count
+//   GET /draws?limit=N          draw history, newest first
+//   GET /draws/:epochId         a single draw with per-token prizes
+//   GET /users/:address         deposits, withdrawals and claims
+//   GET /users/:address/ledger  ledger with per-epoch winnings and totals
+//   GET /pools/wins             number of wins per pool
+function startServer() {
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const parts = url.pathname.split("/").filter(Boolean);
+    const events = indexer.events;
+
+    if (req.method !== "GET") return sendJson(res, 405, { error: "method not allowed" });
+
+    if (parts[0] === "status") {
+      return sendJson(res, 200, {
+        chainId: CHAIN_ID,
+        vault: WELOT_VAULT,
+        cursor: indexer.cursor,
+        events: events.length,
+      });
+    }
+
+    if (parts[0] === "draws" && parts.length === 1) {
+      const limit = url.searchParams.get("limit");
+      if (limit && !/^\d+$/.test(limit)) return sendJson(res, 400, { error: "invalid limit" });
+      return sendJson(res, 200, getDraws(events, limit ? Number(limit) : undefined));
+    }
+
+    if (parts[0] === "draws" && parts.length === 2 && /^\d+$/.test(parts[1])) {
+      const draw = getDraw(events, BigInt(parts[1]));
+      return draw ? sendJson(res, 200, draw) : sendJson(res, 404, { error: "draw not found" });
+    }
+
+    if (parts[0] === "users" && parts.length === 2) {
+      if (!isAddress(parts[1])) return sendJson(res, 400, { error: "invalid address" });
+      return sendJson(res, 200, getUserEvents(events, parts[1]));
+    }
+
+    if (parts[0] === "users" && parts.length === 3 && parts[2] === "ledger") {
+      if (!isAddress(parts[1])) return sendJson(res, 400, { error: "invalid address" });
+      return sendJson(res, 200, buildUserLedger(events, parts[1]));
+    }
+
+    if (parts[0] === "pools" && parts[1] === "wins") {
+      return sendJson(res, 200, Object.fromEntries(getWinsByPool(events)));
+    }
+
+    return sendJson(res, 404, { error: "not found" });
+  });
+
+  server.listen(INDEXER_PORT, () => {
+    console.log(`[indexer] query API on http://localhost:${INDEXER_PORT}`);
+  });
+  return server;
+}
+
+async function main() {
+  console.log(`[indexer] vault=${WELOT_VAULT}`);
+  console.log(`[indexer] rpc=${RPC_URL}`);
+  console.log(`[indexer] chainId=${CHAIN_ID}`);
+  console.log(`[indexer] db=${INDEXER_DB}`);
+  console.log(
+    `[indexer] fromBlock=${FROM_BLOCK} chunkSize=${CHUNK_SIZE} confirmations=${CONFIRMATIONS} once=${ONCE}`
+  );
+
+  await indexer.init();
+  const result = await indexer.sync();
+  console.log(`[indexer] backfilled to block ${result.toBlock} (${indexer.events.length} events)`);
+
+  if (ONCE) return;
+
+  const server = startServer();
+  const controller = new AbortController();
+  const stop = () => {
+    controller.abort();
+    server.close();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  await indexer.follow({ pollIntervalMs: POLL_INTERVAL_MS, signal: controller.signal });
+}
+
+main().catch((err) => {
+  console.error("[indexer] fatal:", err);
+  process.exit(1);
+});
@@ -0,0 +1,208 @@
+import { readFileSync } from "node:fs";
+
+import { createPublicClient, http, parseEther, type Chain, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { resolveChain } from "../src/lib/chains";
+import {
+  AlertManager,
+  Keeper,
+  KeeperMetrics,
+  createJsonLogger,
+  gasStrategyFromConfig,
+  isLogLevel,
+  parseKeeperConfig,
+  privateKeySigner,
+  stdoutNotifier,
+  webhookNotifier,
+  type AlertNotifier,
+  type GasConfig,
+  type GasStrategy,
+  type KeeperSigner,
+  type KeeperVaultConfig,
+  type KeeperVaultDefaults,
+  type ParsedKeeperConfig,
+} from "../src/lib/keeper";
+import { fileNotifier } from "../src/lib/keeper/fileNotifier";
+import { startKeeperServer } from "../src/lib/keeper/server";
+
+// KEEPER_CONFIG points at a JSON file listing vaults; without it the keeper
+// runs the single vault described by these env vars.
+const KEEPER_CONFIG = process.env.KEEPER_CONFIG;
+const REQUIRED_ENVS = KEEPER_CONFIG ? [] : ["RPC_URL", "CHAIN_ID", "WELOT_VAULT", "PRIVATE_KEY"];
+for (const key of REQUIRED_ENVS) {
+  if (!process.env[key]) {
+    console.error(`Missing env var: ${key}`);
+    process.exit(1);
+  }
+}
+
+// Defaults for every vault (config entries can override them)
+const POLL_INTERVAL_MS = Number(process.env.POLL_INTERVAL_MS ?? "30000");
+const MAX_STEPS_PER_RUN = Number(process.env.MAX_STEPS_PER_RUN ?? "5");
+const DRY_RUN = process.env.DRY_RUN === "1";
+const TOPUP_BUDGET = process.env.TOPUP_BUDGET;
+const TOPUP_BUDGET_WINDOW_HOURS = Number(process.env.TOPUP_BUDGET_WINDOW_HOURS ?? "24");
+
+const ONCE = process.env.ONCE === "1";
+const KEEPER_PORT = Number(process.env.KEEPER_PORT ?? "8788");
+const RETRY_ATTEMPTS = Number(process.env.RETRY_ATTEMPTS ?? "3");
+const RETRY_BASE_DELAY_MS = Number(process.env.RETRY_BASE_DELAY_MS ?? "1000");
+const LOG_LEVEL = process.env.LOG_LEVEL ?? "info";
+
+const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL;
+const ALERT_FILE = process.env.ALERT_FILE;
+const ALERT_STDOUT = process.env.ALERT_STDOUT !== "0";
+const ALERT_OVERDUE_MINUTES = BigInt(process.env.ALERT_OVERDUE_MINUTES ?? "15");
+const ALERT_RANDOMNESS_BLOCKS = BigInt(process.env.ALERT_RANDOMNESS_BLOCKS ?? "150");
+const ALERT_REPEAT_MINUTES = Number(process.env.ALERT_REPEAT_MINUTES ?? "60");
+
+// GAS_STRATEGY=provider (default) | fixed (GAS_PRICE_GWEI) | bumped (GAS_MULTIPLIER, MAX_FEE_GWEI)
+function gasConfigFromEnv(): GasConfig {
+  const strategy = process.env.GAS_STRATEGY ?? "provider";
+  if (strategy !== "provider" && strategy !== "fixed" && strategy !== "bumped") {
+    throw new Error(`Unknown GAS_STRATEGY: ${strategy}`);
+  }
+  if (strategy === "fixed" && !process.env.GAS_PRICE_GWEI) throw new Error("GAS_STRATEGY=fixed requires GAS_PRICE_GWEI");
+  return {
+    strategy,
+    gasPriceGwei: process.env.GAS_PRICE_GWEI,
+    multiplier: process.env.GAS_MULTIPLIER ? Number(process.env.GAS_MULTIPLIER) : undefined,
+    maxFeeGwei: process.env.MAX_FEE_GWEI,
+  };
+}
+
+function loadVaults(): ParsedKeeperConfig {
+  const defaults: KeeperVaultDefaults = {
+    privateKeyEnv: "PRIVATE_KEY",
+    pollIntervalMs: POLL_INTERVAL_MS,
+    maxStepsPerRun: MAX_STEPS_PER_RUN,
+    dryRun: DRY_RUN,
+    gas: gasConfigFromEnv(),
+    topUpBudget: TOPUP_BUDGET
+      ? { amount: parseEther(TOPUP_BUDGET), windowMs: TOPUP_BUDGET_WINDOW_HOURS * 3_600_000 }
+      : null,
+  };
+  const raw = KEEPER_CONFIG
+    ? JSON.parse(readFileSync(KEEPER_CONFIG, "utf8"))
+    : { vaults: [{ chainId: Number(process.env.CHAIN_ID), rpcUrl: process.env.RPC_URL, vault: process.env.WELOT_VAULT }] };
+  return parseKeeperConfig(raw, defaults, process.env);
+}
+
+function alertNotifiersFromEnv(): AlertNotifier[] {
+  const notifiers: AlertNotifier[] = [];
+  if (ALERT_STDOUT) notifiers.push(stdoutNotifier());
+  if (ALERT_WEBHOOK_URL) notifiers.push(webhookNotifier(ALERT_WEBHOOK_URL));
+  if (ALERT_FILE) notifiers.push(fileNotifier(ALERT_FILE));
+  return notifiers;
+}
+
+async function main() {
+  if (!isLogLevel(LOG_LEVEL)) throw new Error(`Unknown LOG_LEVEL: ${LOG_LEVEL}`);
+  const logger = createJsonLogger({ level: LOG_LEVEL, fields: { service: "keeper" } });
+  const { vaults: configured, skipped } = loadVaults();
+  for (const s of skipped) logger.error("vault skipped", { name: s.name, reason: s.reason });
+  const notifiers = alertNotifiersFromEnv();
+
+  // Vaults using the same key on the same chain share a signer, and with it
+  // the signer's nonce sequence
+  const signers = new Map<string, KeeperSigner>();
+  const signerFor = (cfg: KeeperVaultConfig, chain: Chain) => {
+    const privateKey = process.env[cfg.privateKeyEnv]! as Hex;
+    const key = `${cfg.chainId}:${privateKeyToAccount(privateKey).address}`;
+    let signer = signers.get(key);
+    if (!signer) {
+      signer = privateKeySigner(privateKey, chain, cfg.rpcUrl);
+      signers.set(key, signer);
+    }
+    return signer;
+  };
+
+  // A vault whose key or gas settings do not work is skipped like one with missing env vars
+  const keepers = configured.flatMap((cfg) => {
+    const log = logger.child({ vault: cfg.vault, chainId: cfg.chainId, name: cfg.name });
+    const chain = resolveChain(cfg.chainId, cfg.rpcUrl);
+    let signer: KeeperSigner;
+    let gasStrategy: GasStrategy;
+    try {
+      signer = signerFor(cfg, chain);
+      gasStrategy = gasStrategyFromConfig(cfg.gas);
+    } catch (err) {
+      log.error("vault skipped", { reason: err instanceof Error ? err.message : String(err) });
+      return [];
+    }
+    const keeper = new Keeper({
+      client: createPublicClient({ chain, transport: http(cfg.rpcUrl) }),
+      vaultAddress: cfg.vault,
+      signer,
+      gasStrategy,
+      logger: log,
+      metrics: new KeeperMetrics(cfg.vault, cfg.chainId),
+      maxStepsPerRun: cfg.maxStepsPerRun,
+      retry: { attempts: RETRY_ATTEMPTS, baseDelayMs: RETRY_BASE_DELAY_MS },
+      alerts: new AlertManager({
+        vaultAddress: cfg.vault,
+        chainId: cfg.chainId,
+        notifiers,
+        repeatAfterMs: ALERT_REPEAT_MINUTES * 60_000,
+        logger: log,
+      }),
+      stallThresholds: {
+        overdueAfterSec: ALERT_OVERDUE_MINUTES * 60n,
+        randomnessPendingBlocks: ALERT_RANDOMNESS_BLOCKS,
+      },
+      dryRun: cfg.dryRun,
+      topUpBudget: cfg.topUpBudget,
+    });
+    log.info("starting", {
+      account: signer.address,
+      rpc: cfg.rpcUrl,
+      pollIntervalMs: cfg.pollIntervalMs,
+      once: ONCE,
+      dryRun: cfg.dryRun,
+      maxStepsPerRun: cfg.maxStepsPerRun,
+      gas: gasStrategy.name,
+      topUpBudget: cfg.topUpBudget?.amount,
+      alerts: notifiers.map((n) => n.name),
+    });
+    return [{ cfg, keeper }];
+  });
+  if (keepers.length === 0) throw new Error("No runnable vault: every configured vault was skipped");
+  const vaults = keepers.map(({ cfg }) => cfg);
+
+  // Each vault runs its own loop; `Keeper.run` never throws on a failed tick,
+  // so one broken vault or RPC does not hold up the others
+  if (ONCE) {
+    await Promise.all(keepers.map(({ keeper }) => keeper.run({ once: true })));
+    return;
+  }
+
+  const healthStaleMs = Number(
+    process.env.HEALTH_STALE_MS ?? String(Math.max(...vaults.map((v) => v.pollIntervalMs)) * 3)
+  );
+  const server = startKeeperServer({
+    port: KEEPER_PORT,
+    metrics: () => keepers.map(({ keeper }) => keeper.metrics),
+    staleAfterMs: healthStaleMs,
+    previews: () =>
+      keepers.map(({ cfg, keeper }) => ({ vault: cfg.vault, chainId: cfg.chainId, preview: keeper.lastPreview })),
+    logger,
+  });
+  const controller = new AbortController();
+  const stop = () => {
+    logger.info("stopping");
+    controller.abort();
+    server.close();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  await Promise.all(
+    keepers.map(({ cfg, keeper }) => keeper.run({ pollIntervalMs: cfg.pollIntervalMs, signal: controller.signal }))
+  );
+}
+
+main().catch((err) => {
+  console.error("[keeper] fatal:", err);
+  process.exit(1);
+});
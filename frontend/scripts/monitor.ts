@@ -0,0 +1,95 @@
+import { createPublicClient, http, type Address } from "viem";
+
+import { resolveChain } from "../src/lib/chains";
+import {
+  AlertManager,
+  createJsonLogger,
+  isLogLevel,
+  stdoutNotifier,
+  webhookNotifier,
+  type AlertNotifier,
+} from "../src/lib/keeper";
+import { fileNotifier } from "../src/lib/keeper/fileNotifier";
+import { InvariantMonitor } from "../src/lib/monitor";
+
+const REQUIRED_ENVS = ["RPC_URL", "CHAIN_ID", "WELOT_VAULT"];
+for (const key of REQUIRED_ENVS) {
+  if (!process.env[key]) {
+    console.error(`Missing env var: ${key}`);
+    process.exit(1);
+  }
+}
+
+const RPC_URL = process.env.RPC_URL!;
+const CHAIN_ID = Number(process.env.CHAIN_ID);
+const WELOT_VAULT = process.env.WELOT_VAULT! as Address;
+
+// MONITOR_MODE=block (default) checks each new block once; interval checks
+// the latest block every POLL_INTERVAL_MS whether or not it changed
+const MONITOR_MODE = process.env.MONITOR_MODE ?? "block";
+const POLL_INTERVAL_MS = Number(process.env.POLL_INTERVAL_MS ?? (MONITOR_MODE === "block" ? "2000" : "30000"));
+const ONCE = process.env.ONCE === "1";
+const LOG_LEVEL = process.env.LOG_LEVEL ?? "info";
+
+const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL;
+const ALERT_FILE = process.env.ALERT_FILE;
+const ALERT_STDOUT = process.env.ALERT_STDOUT !== "0";
+const ALERT_REPEAT_MINUTES = Number(process.env.ALERT_REPEAT_MINUTES ?? "60");
+
+function alertNotifiersFromEnv(): AlertNotifier[] {
+  const notifiers: AlertNotifier[] = [];
+  if (ALERT_STDOUT) notifiers.push(stdoutNotifier());
+  if (ALERT_WEBHOOK_URL) notifiers.push(webhookNotifier(ALERT_WEBHOOK_URL));
+  if (ALERT_FILE) notifiers.push(fileNotifier(ALERT_FILE));
+  return notifiers;
+}
+
+async function main() {
+  if (!isLogLevel(LOG_LEVEL)) throw new Error(`Unknown LOG_LEVEL: ${LOG_LEVEL}`);
+  if (MONITOR_MODE !== "block" && MONITOR_MODE !== "interval") throw new Error(`Unknown MONITOR_MODE: ${MONITOR_MODE}`);
+  const logger = createJsonLogger({ level: LOG_LEVEL, fields: { service: "monitor", vault: WELOT_VAULT, chainId: CHAIN_ID } });
+  const notifiers = alertNotifiersFromEnv();
+
+  const chain = resolveChain(CHAIN_ID, RPC_URL);
+  const monitor = new InvariantMonitor({
+    client: createPublicClient({ chain, transport: http(RPC_URL) }),
+    vaultAddress: WELOT_VAULT,
+    logger,
+    alerts: new AlertManager({
+      vaultAddress: WELOT_VAULT,
+      chainId: CHAIN_ID,
+      notifiers,
+      repeatAfterMs: ALERT_REPEAT_MINUTES * 60_000,
+      logger,
+    }),
+  });
+  logger.info("starting", {
+    rpc: RPC_URL,
+    mode: MONITOR_MODE,
+    pollIntervalMs: POLL_INTERVAL_MS,
+    once: ONCE,
+    alerts: notifiers.map((n) => n.name),
+  });
+
+  // One check; the exit code tells CI or cron whether the books balance
+  if (ONCE) {
+    const { violations } = await monitor.check();
+    logger.info("check done", { violations: violations.length });
+    process.exit(violations.length > 0 ? 1 : 0);
+  }
+
+  const controller = new AbortController();
+  const stop = () => {
+    logger.info("stopping");
+    controller.abort();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  await monitor.run({ pollIntervalMs: POLL_INTERVAL_MS, everyBlock: MONITOR_MODE === "block", signal: controller.signal });
+}
+
+main().catch((err) => {
+  console.error("[monitor] fatal:", err);
+  process.exit(1);
+});
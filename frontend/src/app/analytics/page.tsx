@@ -0,0 +1,264 @@
+"use client";
+
+import Link from "next/link";
+import Image from "next/image";
+import { useCallback, useEffect, useState } from "react";
+import { formatUnits } from "viem";
+
+import { getChain } from "@/lib/chains";
+import { shortAddr } from "@/lib/clients";
+import { CONFIG } from "@/lib/config";
+import { getErrorMessage, getWelotClient, summarizeProtocol, type ProtocolAnalytics } from "@/lib/welot";
+
+// `getPastWinners` window: one year of weekly draws
+const PRIZE_HISTORY_LIMIT = 52n;
+const REFRESH_MS = 30000;
+
+function formatAmount(amount: bigint, decimals = 18): string {
+  const num = parseFloat(formatUnits(amount, decimals));
+  if (num === 0) return "0";
+  if (num < 0.01) return "<0.01";
+  return num.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function formatShare(share: number): string {
+  return `${(share * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+}
+
+function Stat({ label, value, tone = "text-zinc-950" }: { label: string; value: string; tone?: string }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-zinc-800">{label}</span>
+      <span className={`font-black ${tone}`}>{value}</span>
+    </div>
+  );
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// MAIN PAGE
+// ════════════════════════════════════════════════════════════════════════════
+
+export default function AnalyticsPage() {
+  const [analytics, setAnalytics] = useState<ProtocolAnalytics | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const configOk = Boolean(CONFIG.vaultAddress);
+
+  // One batched snapshot without a user: token configs, assets, prize pools,
+  // deposits of every pool and the prize history
+  const refresh = useCallback(async () => {
+    if (!configOk) return;
+    setLoading(true);
+    try {
+      const snapshot = await getWelotClient().getVaultSnapshot({ pastWinnersLimit: PRIZE_HISTORY_LIMIT });
+      setAnalytics(summarizeProtocol(snapshot));
+      setUpdatedAt(new Date());
+      setError("");
+    } catch (err) {
+      console.error("Analytics error:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [configOk]);
+
+  useEffect(() => {
+    void refresh();
+    const interval = setInterval(() => void refresh(), REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const maxPrize = analytics?.prizes.largestNormalized ?? 0n;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // RENDER
+  // ══════════════════════════════════════════════════════════════════════════
+
+  return (
+    <div className="min-h-dvh bg-grid bg-grid-tight text-zinc-950">
+      <main className="relative mx-auto w-full max-w-6xl px-6 pt-6 pb-10">
+        <div className="mb-6 flex items-center justify-between">
+          <Link href="/" className="flex items-center">
+            <div className="we-card rounded-2xl border-2 border-black bg-white p-2 shadow-[4px_4px_0_0_#000]">
+              <Image src="/brand/logo.png" alt="welot" width={60} height={60} priority />
+            </div>
+          </Link>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => void refresh()}
+              disabled={loading || !configOk}
+              className="rounded-2xl border-2 border-black bg-lime-200 px-4 py-2 text-sm font-black shadow-[3px_3px_0_0_#000] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? "Refreshing..." : "Refresh"}
+            </button>
+            <Link
+              href="/app"
+              className="rounded-2xl border-2 border-black bg-white px-4 py-2 text-sm font-black shadow-[3px_3px_0_0_#000]"
+            >
+              ← Back to app
+            </Link>
+          </div>
+        </div>
+
+        <h1 className="font-display mag-underline text-4xl text-zinc-950">Protocol Analytics</h1>
+        <p className="mt-2 text-sm font-semibold text-zinc-700">
+          Assets, liabilities, pool deposits and realized prizes of the vault
+          {configOk ? ` ${shortAddr(CONFIG.vaultAddress)} on ${getChain().name}` : ""}, read live from the contract.
+          {updatedAt && ` Updated ${updatedAt.toLocaleTimeString()}.`}
+        </p>
+
+        {!configOk && (
+          <div className="mt-6 rounded-2xl border-2 border-black bg-amber-100 px-4 py-3 text-sm font-black text-zinc-950 shadow-[4px_4px_0_0_#000]">
+            Contract addresses not configured. Deploy contracts and set NEXT_PUBLIC_WELOT_VAULT in .env.local
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-6 rounded-2xl border-2 border-black bg-red-100 px-4 py-3 text-sm font-black text-red-900 shadow-[4px_4px_0_0_#000]">
+            {error}
+          </div>
+        )}
+
+        {analytics && (
+          <>
+            {/* Protocol totals */}
+            <div className="mt-8 grid gap-6 md:grid-cols-3">
+              <div className="we-card rounded-3xl border-2 border-black bg-lime-200 p-6 shadow-[6px_6px_0_0_#000]">
+                <div className="text-sm font-black text-zinc-800">TVL</div>
+                <div className="mt-2 text-4xl font-black">${formatAmount(analytics.tvlNormalized)}</div>
+              </div>
+              <div className="we-card rounded-3xl border-2 border-black bg-white p-6 shadow-[6px_6px_0_0_#000]">
+                <div className="text-sm font-black text-zinc-800">Liabilities</div>
+                <div className="mt-2 text-4xl font-black">${formatAmount(analytics.liabilitiesNormalized)}</div>
+                <div className="mt-1 text-xs font-semibold text-zinc-600">Deposits plus unclaimed prizes</div>
+              </div>
+              <div className="we-card rounded-3xl border-2 border-black bg-pink-100 p-6 shadow-[6px_6px_0_0_#000]">
+                <div className="text-sm font-black text-zinc-800">Prize pool (surplus)</div>
+                <div className="mt-2 text-4xl font-black">${formatAmount(analytics.surplusNormalized)}</div>
+              </div>
+            </div>
+
+            {/* Per token */}
+            <div className="mt-8 grid gap-6 md:grid-cols-2">
+              {analytics.tokens.map((t) => (
+                <div
+                  key={t.address}
+                  className="we-card rounded-3xl border-2 border-black bg-white p-6 shadow-[6px_6px_0_0_#000]"
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="text-lg font-black text-zinc-950">{t.symbol}</div>
+                    <div className="font-mono text-xs text-zinc-600">{shortAddr(t.address)}</div>
+                  </div>
+                  <div className="mt-4 space-y-2 text-sm font-semibold">
+                    <Stat label="Total assets (TVL)" value={`${formatAmount(t.totalAssets, t.decimals)} ${t.symbol}`} />
+                    <Stat label="Deposits" value={`${formatAmount(t.totalDeposits, t.decimals)} ${t.symbol}`} />
+                    <Stat label="Unclaimed prizes" value={`${formatAmount(t.totalUnclaimedPrizes, t.decimals)} ${t.symbol}`} />
+                    <Stat
+                      label="Current prize pool"
+                      value={`${formatAmount(t.surplus, t.decimals)} ${t.symbol}`}
+                      tone="text-green-700"
+                    />
+                    {t.shortfall > 0n && (
+                      <Stat
+                        label="Shortfall"
+                        value={`${formatAmount(t.shortfall, t.decimals)} ${t.symbol}`}
+                        tone="text-red-600"
+                      />
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Pools */}
+            <div className="mt-10 we-card rounded-3xl border-2 border-black bg-white p-8 shadow-[6px_6px_0_0_#000]">
+              <h3 className="font-display mag-underline text-3xl text-zinc-950">Pools</h3>
+              <div className="mt-4 overflow-x-auto">
+                <table className="w-full text-sm font-semibold">
+                  <thead>
+                    <tr className="text-left text-xs text-zinc-600">
+                      <th className="py-2">Pool</th>
+                      {analytics.tokens.map((t) => (
+                        <th key={t.address}>{t.symbol}</th>
+                      ))}
+                      <th>Total</th>
+                      <th>Share</th>
+                      <th>Wins</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analytics.pools.map((p) => (
+                      <tr key={String(p.poolId)} className="border-t-2 border-black/10">
+                        <td className="py-2 font-black">#{p.poolId.toString()}</td>
+                        {analytics.tokens.map((t, i) => (
+                          <td key={t.address}>{formatAmount(p.deposits[i], t.decimals)}</td>
+                        ))}
+                        <td className="font-black">${formatAmount(p.totalNormalized)}</td>
+                        <td>
+                          <div className="flex items-center gap-2">
+                            <div className="h-2 w-20 rounded-full border border-black bg-zinc-100">
+                              <div className="h-full rounded-full bg-lime-400" style={{ width: formatShare(p.share) }} />
+                            </div>
+                            {formatShare(p.share)}
+                          </div>
+                        </td>
+                        <td>{p.wins}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Prize history */}
+            <div className="mt-10 we-card rounded-3xl border-2 border-black bg-white p-8 shadow-[6px_6px_0_0_#000]">
+              <h3 className="font-display mag-underline text-3xl text-zinc-950">Prize History</h3>
+              <div className="mt-4 grid gap-4 text-sm font-semibold sm:grid-cols-4">
+                <Stat label="Draws" value={String(analytics.prizes.draws.length)} />
+                <Stat label="Total paid" value={`$${formatAmount(analytics.prizes.totalNormalized)}`} tone="text-green-700" />
+                <Stat label="Average" value={`$${formatAmount(analytics.prizes.averageNormalized)}`} />
+                <Stat label="Largest" value={`$${formatAmount(analytics.prizes.largestNormalized)}`} />
+              </div>
+              {analytics.prizes.draws.length === 0 ? (
+                <div className="mt-4 text-sm font-semibold text-zinc-700">No draws recorded yet.</div>
+              ) : (
+                <div className="mt-4 space-y-2 text-sm font-semibold">
+                  {analytics.prizes.draws.map((w) => (
+                    <div
+                      key={String(w.epochId)}
+                      className="flex items-center gap-4 rounded-2xl border-2 border-black bg-zinc-50 px-4 py-3"
+                    >
+                      <div className="w-40 shrink-0">
+                        <div className="font-black text-zinc-950">Epoch #{w.epochId.toString()}</div>
+                        <div className="text-xs text-zinc-700">
+                          {new Date(Number(w.timestamp) * 1000).toUTCString().slice(0, 16)} • Pool #{w.winningPoolId.toString()}
+                        </div>
+                      </div>
+                      <div className="h-3 flex-1 rounded-full border border-black bg-white">
+                        <div
+                          className="h-full rounded-full bg-pink-300"
+                          style={{
+                            width: maxPrize === 0n ? "0%" : `${Number((w.totalPrizeNormalized * 1000n) / maxPrize) / 10}%`,
+                          }}
+                        />
+                      </div>
+                      <div className="w-28 shrink-0 text-right font-black text-green-700">
+                        ${formatAmount(w.totalPrizeNormalized)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="mt-4 text-xs font-semibold text-zinc-600">
+                Last {PRIZE_HISTORY_LIMIT.toString()} draws from the vault&apos;s `getPastWinners` ring buffer. Dollar
+                figures add tokens at 18-decimal face value, as the vault does.
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
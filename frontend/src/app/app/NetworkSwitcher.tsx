@@ -0,0 +1,30 @@
+"use client";
+
+import { getChain, selectChain, supportedChains } from "@/lib/chains";
+import { getDeployment } from "@/lib/config";
+
+// Picks the network the app reads from and writes to. Only chains with a
+// vault in the deployment registry (or env) are offered.
+export function NetworkSwitcher() {
+  const current = getChain();
+  const chains = supportedChains.filter((c) => c.id === current.id || getDeployment(c.id).vault);
+  if (chains.length < 2) return null;
+
+  return (
+    <select
+      value={current.id}
+      onChange={(e) => {
+        selectChain(Number(e.target.value));
+        window.location.reload();
+      }}
+      aria-label="Network"
+      className="rounded-xl border-2 border-black bg-white px-2 py-1.5 text-xs font-black shadow-[2px_2px_0_0_#000]"
+    >
+      {chains.map((c) => (
+        <option key={c.id} value={c.id}>
+          {c.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect } from "react";
+
+import type { DiscoveredWallet } from "@/lib/wallets";
+
+// Modal listing every discovered wallet with its announced name and icon
+export function WalletPicker({
+  wallets,
+  connecting,
+  onSelect,
+  onClose,
+}: {
+  wallets: DiscoveredWallet[];
+  // uuid of the wallet being connected, if any
+  connecting: string | null;
+  onSelect: (wallet: DiscoveredWallet) => void;
+  onClose: () => void;
+}) {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Connect a wallet"
+    >
+      <div
+        className="w-full max-w-sm rounded-3xl border-2 border-black bg-white p-6 shadow-[8px_8px_0_0_#000]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div className="text-lg font-black text-zinc-950">Connect a wallet</div>
+          <button onClick={onClose} className="rounded-xl border-2 border-black px-2 text-sm font-black" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {wallets.length === 0 ? (
+          <div className="mt-4 text-sm font-semibold text-zinc-700">
+            No wallet found. Install a browser wallet such as MetaMask or Rabby, then reload the page.
+          </div>
+        ) : (
+          <div className="mt-4 space-y-2">
+            {wallets.map((w) => (
+              <button
+                key={w.info.uuid}
+                onClick={() => onSelect(w)}
+                disabled={connecting !== null}
+                className="flex w-full items-center gap-3 rounded-2xl border-2 border-black bg-white px-4 py-3 text-left text-sm font-black shadow-[3px_3px_0_0_#000] hover:bg-zinc-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {w.info.icon ? (
+                  <Image src={w.info.icon} alt="" width={28} height={28} unoptimized className="rounded-lg" />
+                ) : (
+                  <div className="flex h-7 w-7 items-center justify-center rounded-lg border-2 border-black bg-amber-100">👛</div>
+                )}
+                <span className="flex-1">{w.info.name}</span>
+                {connecting === w.info.uuid ? (
+                  <span className="text-xs text-zinc-600">Connecting…</span>
+                ) : (
+                  w.legacy && <span className="text-xs font-semibold text-zinc-500">injected</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-4 text-xs font-semibold text-zinc-600">
+          Your choice is remembered on this device, so the app reconnects on your next visit.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+"use client";
+
+import Link from "next/link";
+import Image from "next/image";
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import type { Address } from "viem";
+import { formatUnits, getAddress, isAddress } from "viem";
+
+import { getExplorerUrl, shortAddr } from "@/lib/clients";
+import { CONFIG } from "@/lib/config";
+import {
+  buildUserLedger,
+  fetchUserLedgerEvents,
+  ledgerToCsv,
+  type LedgerEntryKind,
+  type LedgerToken,
+  type UserLedger,
+} from "@/lib/indexer";
+import { getErrorMessage, getWelotClient } from "@/lib/welot";
+import { discoverWallets, reconnectRememberedWallet } from "@/lib/wallets";
+
+const KIND_LABELS: Record<LedgerEntryKind, string> = {
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  prize: "Prize won",
+  claim: "Prize claimed",
+};
+
+const KIND_COLORS: Record<LedgerEntryKind, string> = {
+  deposit: "bg-lime-200",
+  withdrawal: "bg-white",
+  prize: "bg-pink-100",
+  claim: "bg-amber-100",
+};
+
+// Address of the wallet remembered by /app, without prompting
+async function getConnectedAccount(): Promise<Address | undefined> {
+  const found = await reconnectRememberedWallet(await discoverWallets());
+  return found?.account;
+}
+
+function downloadCsv(filename: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// MAIN PAGE
+// ════════════════════════════════════════════════════════════════════════════
+
+function HistoryView() {
+  const searchParams = useSearchParams();
+  const queryAddress = searchParams.get("address") ?? "";
+
+  const [input, setInput] = useState(queryAddress);
+  const [ledger, setLedger] = useState<UserLedger | null>(null);
+  const [tokens, setTokens] = useState<LedgerToken[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const configOk = Boolean(CONFIG.vaultAddress);
+
+  const load = useCallback(
+    async (value: string) => {
+      if (!configOk) return;
+      if (!isAddress(value)) {
+        setError("Enter a valid address");
+        return;
+      }
+      const user = getAddress(value);
+      setLoading(true);
+      setError("");
+
+      try {
+        const client = getWelotClient();
+        const [poolId, vaultTokens, toBlock] = await Promise.all([
+          client.getAssignedPoolId(user),
+          client.getSupportedTokens(),
+          client.publicClient.getBlockNumber(),
+        ]);
+        const events = await fetchUserLedgerEvents(client.publicClient, {
+          vaultAddress: client.vaultAddress,
+          user,
+          poolId,
+          fromBlock: CONFIG.vaultDeployBlock,
+          toBlock,
+        });
+
+        setTokens(vaultTokens.map((t) => ({ address: t.address, symbol: t.symbol, decimals: t.config.decimals })));
+        setLedger(buildUserLedger(events, user));
+      } catch (err) {
+        console.error("History error:", err);
+        setError(getErrorMessage(err));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [configOk]
+  );
+
+  // Load the address from the URL, or else the connected wallet's
+  useEffect(() => {
+    if (queryAddress) {
+      void load(queryAddress);
+      return;
+    }
+    void getConnectedAccount().then((account) => {
+      if (!account) return;
+      setInput(account);
+      void load(account);
+    });
+  }, [queryAddress, load]);
+
+  const tokenFor = (address: Address) => tokens.find((t) => t.address.toLowerCase() === address.toLowerCase());
+
+  const formatAmount = (amount: bigint, token: Address) => {
+    const info = tokenFor(token);
+    if (!info) return amount.toString();
+    const num = parseFloat(formatUnits(amount, info.decimals));
+    return `${num.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${info.symbol}`;
+  };
+
+  function exportCsv() {
+    if (!ledger) return;
+    downloadCsv(`welot-history-${ledger.user.toLowerCase()}.csv`, ledgerToCsv(ledger, tokens));
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // RENDER
+  // ══════════════════════════════════════════════════════════════════════════
+
+  return (
+    <div className="min-h-dvh bg-grid bg-grid-tight text-zinc-950">
+      <main className="relative mx-auto w-full max-w-6xl px-6 pt-6 pb-10">
+        <div className="mb-6 flex items-center justify-between">
+          <Link href="/" className="flex items-center">
+            <div className="we-card rounded-2xl border-2 border-black bg-white p-2 shadow-[4px_4px_0_0_#000]">
+              <Image src="/brand/logo.png" alt="welot" width={60} height={60} priority />
+            </div>
+          </Link>
+          <Link
+            href="/app"
+            className="rounded-2xl border-2 border-black bg-white px-4 py-2 text-sm font-black shadow-[3px_3px_0_0_#000]"
+          >
+            ← Back to app
+          </Link>
+        </div>
+
+        <h1 className="font-display mag-underline text-4xl text-zinc-950">Transaction History</h1>
+        <p className="mt-2 text-sm font-semibold text-zinc-700">
+          Deposits, withdrawals, winnings and claims of an address, rebuilt from on-chain events.
+        </p>
+
+        {!configOk && (
+          <div className="mt-6 rounded-2xl border-2 border-black bg-amber-100 px-4 py-3 text-sm font-black text-zinc-950 shadow-[4px_4px_0_0_#000]">
+            Contract addresses not configured. Deploy contracts and set NEXT_PUBLIC_WELOT_VAULT in .env.local
+          </div>
+        )}
+
+        <form
+          className="mt-6 flex flex-col gap-3 sm:flex-row"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void load(input.trim());
+          }}
+        >
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="0x… address"
+            className="w-full rounded-xl border-2 border-black bg-white px-4 py-3 text-sm font-black text-zinc-950 shadow-[3px_3px_0_0_#000] outline-none placeholder:text-zinc-400"
+          />
+          <button
+            type="submit"
+            disabled={loading || !configOk}
+            className="rounded-xl border-2 border-black bg-zinc-950 px-6 py-3 text-sm font-black text-zinc-50 shadow-[3px_3px_0_0_#000] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? "Loading..." : "Load"}
+          </button>
+          <button
+            type="button"
+            onClick={exportCsv}
+            disabled={!ledger || ledger.entries.length === 0}
+            className="rounded-xl border-2 border-black bg-lime-200 px-6 py-3 text-sm font-black text-zinc-950 shadow-[3px_3px_0_0_#000] disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export CSV
+          </button>
+        </form>
+
+        {error && (
+          <div className="mt-6 rounded-2xl border-2 border-black bg-red-100 px-4 py-3 text-sm font-black text-red-900 shadow-[4px_4px_0_0_#000]">
+            {error}
+          </div>
+        )}
+
+        {ledger && (
+          <>
+            {/* Totals */}
+            <div className="mt-8 grid gap-6 md:grid-cols-2">
+              {ledger.totals.map((t) => (
+                <div
+                  key={t.token}
+                  className="we-card rounded-3xl border-2 border-black bg-white p-6 shadow-[6px_6px_0_0_#000]"
+                >
+                  <div className="text-lg font-black text-zinc-950">{tokenFor(t.token)?.symbol ?? shortAddr(t.token)}</div>
+                  <div className="mt-4 space-y-2 text-sm font-semibold">
+                    <div className="flex items-center justify-between">
+                      <span className="text-zinc-800">Deposited</span>
+                      <span className="font-black">{formatAmount(t.deposited, t.token)}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-zinc-800">Withdrawn</span>
+                      <span className="font-black">{formatAmount(t.withdrawn, t.token)}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-zinc-800">Still deposited</span>
+                      <span className="font-black">{formatAmount(t.deposited - t.withdrawn, t.token)}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-zinc-800">Won</span>
+                      <span className="font-black text-green-700">{formatAmount(t.won, t.token)}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-zinc-800">Claimed</span>
+                      <span className="font-black">{formatAmount(t.claimed, t.token)}</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Entries */}
+            <div className="mt-10 we-card rounded-3xl border-2 border-black bg-white p-8 shadow-[6px_6px_0_0_#000]">
+              <h3 className="font-display mag-underline text-3xl text-zinc-950">
+                Ledger ({shortAddr(ledger.user)})
+              </h3>
+              {ledger.entries.length === 0 ? (
+                <div className="mt-4 text-sm font-semibold text-zinc-700">No activity for this address.</div>
+              ) : (
+                <div className="mt-4 space-y-2 text-sm font-semibold">
+                  {[...ledger.entries].reverse().map((e) => {
+                    const explorer = getExplorerUrl(e.transactionHash);
+                    return (
+                      <div
+                        key={`${e.transactionHash}:${e.logIndex}`}
+                        className={`flex items-center justify-between rounded-2xl border-2 border-black ${KIND_COLORS[e.kind]} px-4 py-3`}
+                      >
+                        <div>
+                          <div className="font-black text-zinc-950">
+                            {KIND_LABELS[e.kind]}
+                            {e.epochId !== null ? ` • Epoch #${e.epochId.toString()}` : ""}
+                          </div>
+                          <div className="text-xs text-zinc-700">
+                            {e.timestamp > 0n ? new Date(Number(e.timestamp) * 1000).toUTCString() : `Block ${e.blockNumber}`}
+                            {" • "}Pool #{e.poolId.toString()}
+                            {" • "}
+                            {explorer ? (
+                              <a href={explorer} target="_blank" rel="noreferrer" className="underline">
+                                {shortAddr(e.transactionHash)}
+                              </a>
+                            ) : (
+                              shortAddr(e.transactionHash)
+                            )}
+                          </div>
+                        </div>
+                        <div className="font-black text-zinc-950">
+                          {e.kind === "withdrawal" || e.kind === "claim" ? "−" : "+"}
+                          {formatAmount(e.amount, e.token)}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              <div className="mt-4 text-xs font-semibold text-zinc-600">
+                Winnings are split pro-rata by your share of the winning pool&apos;s deposits at draw time; per-epoch
+                figures can differ from claimed amounts by a few wei of rounding.
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function HistoryPage() {
+  // useSearchParams() needs a Suspense boundary for static prerendering
+  return (
+    <Suspense>
+      <HistoryView />
+    </Suspense>
+  );
+}
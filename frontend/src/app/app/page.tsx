@@ -2,55 +2,42 @@
 
 import Link from "next/link";
 import Image from "next/image";
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import type { Address, EIP1193Provider } from "viem";
-import { formatUnits, maxUint256, parseUnits } from "viem";
+import { formatUnits, parseUnits } from "viem";
 
-import { erc20Abi, faucetAbi, welotVaultAbi } from "@/lib/abis";
+import { faucetAbi } from "@/lib/abis";
 import { getPublicClient, getWalletClient, shortAddr } from "@/lib/clients";
 import { CONFIG, getConfiguredTokens, type TokenInfo } from "@/lib/config";
 import { getChain } from "@/lib/chains";
-
-type InjectedProvider = EIP1193Provider & {
-  request: (args: { method: string; params?: unknown[] | Record<string, unknown> }) => Promise<unknown>;
-  providers?: InjectedProvider[];
-  isMetaMask?: boolean;
-  isRabby?: boolean;
-  isCoinbaseWallet?: boolean;
-};
-
-function getInjectedProviders(): InjectedProvider[] {
-  const eth = (globalThis as unknown as { ethereum?: unknown }).ethereum;
-  if (!eth) return [];
-  const maybeProvider = eth as Partial<InjectedProvider>;
-  const providers = Array.isArray(maybeProvider.providers)
-    ? (maybeProvider.providers as InjectedProvider[])
-    : [eth as InjectedProvider];
-
-  // Filter out obviously invalid entries
-  return providers.filter((p) => typeof (p as InjectedProvider).request === "function");
-}
-
-function providerScore(p: InjectedProvider): number {
-  // Prefer common wallets first; this avoids buggy/unknown injected providers.
-  if (p.isMetaMask) return 100;
-  if (p.isRabby) return 90;
-  if (p.isCoinbaseWallet) return 80;
-  return 10;
-}
-
-function getErrorMessage(err: unknown): string {
-  if (typeof err === "string") return err;
-  if (err && typeof err === "object") {
-    const rec = err as Record<string, unknown>;
-    const shortMessage = rec["shortMessage"];
-    if (typeof shortMessage === "string" && shortMessage.trim()) return shortMessage;
-    const message = rec["message"];
-    if (typeof message === "string" && message.trim()) return message;
-  }
-  return String(err);
-}
+import {
+  estimateWinOdds,
+  getErrorMessage,
+  getWelotClient,
+  type PastWinner,
+  type WinOdds,
+  type WithdrawLiquidity,
+} from "@/lib/welot";
+import {
+  getRememberedWalletId,
+  reconnectRememberedWallet,
+  rememberWallet,
+  requestAccount,
+  watchWallets,
+  type DiscoveredWallet,
+  type WalletInfo,
+} from "@/lib/wallets";
+
+import {
+  chainLabel,
+  ensureWalletChain,
+  getWalletChainId,
+  isChainMismatch,
+  watchWalletSession,
+} from "@/lib/walletSession";
+import { NetworkSwitcher } from "./NetworkSwitcher";
+import { WalletPicker } from "./WalletPicker";
 
 function safeParseUnits(value: string, decimals: number): bigint | null {
   if (!value) return 0n;
@@ -222,7 +209,15 @@ export default function AppPage() {
   // Wallet state
   const [connected, setConnected] = useState(false);
   const [address, setAddress] = useState<Address | undefined>(undefined);
-  const [walletProvider, setWalletProvider] = useState<InjectedProvider | undefined>(undefined);
+  const [walletProvider, setWalletProvider] = useState<EIP1193Provider | undefined>(undefined);
+  const [walletInfo, setWalletInfo] = useState<WalletInfo | undefined>(undefined);
+  const [wallets, setWallets] = useState<DiscoveredWallet[]>([]);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [connectingWallet, setConnectingWallet] = useState<string | null>(null);
+  const [walletChainId, setWalletChainId] = useState<number | undefined>(undefined);
+  const reconnectTried = useRef(false);
+  // Account the latest refresh should show; a snapshot for any other is dropped
+  const addressRef = useRef<Address | undefined>(undefined);
 
   // Available tokens
   const [availableTokens, setAvailableTokens] = useState<TokenInfo[]>([]);
@@ -233,13 +228,6 @@ export default function AppPage() {
 
   // Global state
   const [prizePool, setPrizePool] = useState(0n);
-  type PastWinner = {
-    epochId: bigint;
-    winningPoolId: bigint;
-    totalPrizeNormalized: bigint;
-    timestamp: bigint;
-  };
-
   const [pastWinners, setPastWinners] = useState<PastWinner[]>([]);
   const [timeUntilDraw, setTimeUntilDraw] = useState(0);
   const [epochStatus, setEpochStatus] = useState(0);
@@ -248,6 +236,8 @@ export default function AppPage() {
   // Pools
   const [selectedPoolId, setSelectedPoolId] = useState<bigint>(1n);
   const [selectedPoolTokenDeposits, setSelectedPoolTokenDeposits] = useState(0n);
+  const [winOdds, setWinOdds] = useState<WinOdds | null>(null);
+  const [withdrawLiquidity, setWithdrawLiquidity] = useState<WithdrawLiquidity | null>(null);
 
   // UI state
   const [depositAmount, setDepositAmount] = useState("");
@@ -272,6 +262,8 @@ export default function AppPage() {
   const isLocalhost = chain.id === 31337;
   const isMantleSepolia = chain.id === 5003;
   const faucetUiEnabled = faucetOk && (isLocalhost || isMantleSepolia);
+  // Each write asks the wallet to switch first; until it does, show a banner
+  const wrongChain = connected && isChainMismatch(walletChainId, chain.id);
 
   // Current token state
   const currentState = selectedToken ? tokenStates[selectedToken.address] : null;
@@ -290,6 +282,22 @@ export default function AppPage() {
     withdrawParsed > 0n &&
     currentState!.deposits < withdrawParsed;
 
+  // Only trust a liquidity check made for the amount and token on screen
+  const liquidityCheck =
+    withdrawLiquidity &&
+    withdrawLiquidity.token === selectedToken?.address &&
+    withdrawLiquidity.amount === withdrawParsed
+      ? withdrawLiquidity
+      : null;
+  const insufficientLiquidity = Boolean(liquidityCheck && !liquidityCheck.sufficient);
+  // Largest amount that would go through now: the user's deposits, capped by
+  // what the yield vault can release
+  const withdrawableNow = liquidityCheck
+    ? (currentState?.deposits ?? 0n) < liquidityCheck.available
+      ? (currentState?.deposits ?? 0n)
+      : liquidityCheck.available
+    : null;
+
   const needsApproval = currentState && selectedToken
     ? depositParsed !== null && depositParsed > 0n
       ? currentState.allowance < depositParsed
@@ -307,223 +315,80 @@ export default function AppPage() {
     []
   );
 
-  // Load available tokens from contract
-  const loadTokens = useCallback(async () => {
+  // If the main vault address isn't configured (or unreachable), fall back to the
+  // static token list in `config.ts` so the TokenSelector is still usable in dev.
+  const loadConfiguredTokens = useCallback(() => {
+    const configuredTokens = getConfiguredTokens();
+    setAvailableTokens(configuredTokens);
+    if (configuredTokens.length > 0 && !selectedToken) {
+      setSelectedToken(configuredTokens[0]);
+    }
+  }, [selectedToken]);
+
+  // Load tokens, globals and the user's positions in one batched snapshot
+  const refresh = useCallback(async () => {
     if (!configOk) {
-      // If the main vault address isn't configured yet, fall back to the static
-      // token list in `config.ts` so the TokenSelector is still usable in dev.
-      const configuredTokens = getConfiguredTokens();
-      setAvailableTokens(configuredTokens);
-      if (configuredTokens.length > 0 && !selectedToken) {
-        setSelectedToken(configuredTokens[0]);
-      }
+      loadConfiguredTokens();
       return;
     }
 
     try {
-      const publicClient = getPublicClient();
-      
-      // Get number of supported tokens
-      const len = await publicClient.readContract({
-        address: CONFIG.vaultAddress!,
-        abi: welotVaultAbi,
-        functionName: "supportedTokensLength",
-      });
-
-      const tokens: TokenInfo[] = [];
-      for (let i = 0n; i < len; i++) {
-        const tokenAddr = await publicClient.readContract({
-          address: CONFIG.vaultAddress!,
-          abi: welotVaultAbi,
-          functionName: "getSupportedToken",
-          args: [i],
-        });
-
-        const config = await publicClient.readContract({
-          address: CONFIG.vaultAddress!,
-          abi: welotVaultAbi,
-          functionName: "tokenConfigs",
-          args: [tokenAddr],
-        });
-
-        // Get token symbol
-        let symbol = "TOKEN";
-        try {
-          const symbolResult = await publicClient.readContract({
-            address: tokenAddr,
-            abi: [{ type: "function", name: "symbol", stateMutability: "view", inputs: [], outputs: [{ type: "string" }] }],
-            functionName: "symbol",
-          });
-          symbol = symbolResult;
-        } catch {}
-
-        tokens.push({
-          address: tokenAddr,
-          symbol,
-          name: symbol,
-          decimals: config[2], // decimals from tokenConfigs
-          icon: `/icons/${symbol.toLowerCase()}.svg`,
-          vaultAddress: config[1] as Address, // yieldVault from tokenConfigs
-        });
-      }
-
+      const snapshot = await getWelotClient().getVaultSnapshot({ user: address });
+      // The wallet switched accounts while this was loading
+      if (addressRef.current !== address) return;
+      const { protocol } = snapshot;
+
+      const tokens: TokenInfo[] = snapshot.tokens.map((t) => ({
+        address: t.address,
+        symbol: t.symbol,
+        name: t.symbol,
+        decimals: t.config.decimals,
+        icon: `/icons/${t.symbol.toLowerCase()}.svg`,
+        vaultAddress: t.config.yieldVault,
+      }));
       setAvailableTokens(tokens);
       if (tokens.length > 0 && !selectedToken) {
         setSelectedToken(tokens[0]);
       }
-    } catch (err) {
-      console.error("Load tokens error:", err);
-      // Fallback to configured tokens
-      const configuredTokens = getConfiguredTokens();
-      setAvailableTokens(configuredTokens);
-      if (configuredTokens.length > 0 && !selectedToken) {
-        setSelectedToken(configuredTokens[0]);
-      }
-    }
-  }, [configOk, selectedToken]);
-
-  const refresh = useCallback(async () => {
-    if (!configOk) return;
-
-    try {
-      const publicClient = getPublicClient();
 
       // Pools are fixed and auto-assigned in the contract.
-      // Best-effort: if the method is missing (older deployments), fall back to pool 1.
-      let effectivePoolId = selectedPoolId;
-      if (address) {
-        try {
-          const pid = await publicClient.readContract({
-            address: CONFIG.vaultAddress!,
-            abi: welotVaultAbi,
-            functionName: "assignedPoolId",
-            args: [address],
-          });
-          if (typeof pid === "bigint" && pid > 0n) {
-            effectivePoolId = pid;
-            if (pid !== selectedPoolId) setSelectedPoolId(pid);
-          }
-        } catch {
-          // ignore
-        }
-      }
-
-      const [pot, epochId, timeLeft] = await Promise.all([
-        publicClient.readContract({
-          address: CONFIG.vaultAddress!,
-          abi: welotVaultAbi,
-          functionName: "currentPrizePoolTotal",
-        }),
-        publicClient.readContract({
-          address: CONFIG.vaultAddress!,
-          abi: welotVaultAbi,
-          functionName: "currentEpochId",
-        }),
-        publicClient.readContract({
-          address: CONFIG.vaultAddress!,
-          abi: welotVaultAbi,
-          functionName: "getTimeUntilDraw",
-        }),
-      ]);
-
-      setPrizePool(pot);
-
-      // Get epoch info
-      const epoch = await publicClient.readContract({
-        address: CONFIG.vaultAddress!,
-        abi: welotVaultAbi,
-        functionName: "epochs",
-        args: [epochId],
-      });
+      const effectivePoolId = snapshot.user?.poolId ?? selectedPoolId;
+      if (effectivePoolId !== selectedPoolId) setSelectedPoolId(effectivePoolId);
 
-      const endTime = Number(epoch[1]);
-      setEpochEndTime(endTime);
-      setTimeUntilDraw(Math.max(0, Number(timeLeft)));
-      setEpochStatus(Number(epoch[2]));
+      setPrizePool(protocol.prizePoolTotal);
+      setEpochEndTime(Number(protocol.epoch.end));
+      setTimeUntilDraw(Math.max(0, Number(protocol.timeUntilDraw)));
+      setEpochStatus(protocol.epoch.status);
 
       // Past winners (newest first)
-      try {
-        const rows = await publicClient.readContract({
-          address: CONFIG.vaultAddress!,
-          abi: welotVaultAbi,
-          functionName: "getPastWinners",
-          args: [10n],
-        });
-        setPastWinners((rows as unknown as PastWinner[]) ?? []);
-      } catch {
-        // Older deployments may not have this method.
-        setPastWinners([]);
-      }
+      setPastWinners(protocol.pastWinners);
 
       // Per-pool token deposits (pool-local stats)
-      if (selectedToken) {
-        try {
-          const poolTokenTotal = await publicClient.readContract({
-            address: CONFIG.vaultAddress!,
-            abi: welotVaultAbi,
-            functionName: "poolTokenDeposits",
-            args: [selectedToken.address, effectivePoolId ?? 1n],
-          });
-          setSelectedPoolTokenDeposits((poolTokenTotal as bigint | undefined) ?? 0n);
-        } catch {
-          setSelectedPoolTokenDeposits(0n);
-        }
-      } else {
-        setSelectedPoolTokenDeposits(0n);
-      }
+      const selected = snapshot.tokens.find((t) => t.address === (selectedToken ?? tokens[0])?.address);
+      setSelectedPoolTokenDeposits(
+        selected?.poolDeposits.find((p) => p.poolId === effectivePoolId)?.deposits ?? 0n
+      );
 
       // User-specific data for each token
-      if (address && availableTokens.length > 0) {
+      if (snapshot.user) {
         const newStates: Record<string, TokenState> = {};
-        const poolId = effectivePoolId ?? 1n;
-
-        for (const token of availableTokens) {
-          try {
-            const [pos, balance, allowance, tokenPrize] = await Promise.all([
-              publicClient.readContract({
-                address: CONFIG.vaultAddress!,
-                abi: welotVaultAbi,
-                functionName: "getUserPosition",
-                args: [token.address, poolId, address],
-              }),
-              publicClient.readContract({
-                address: token.address,
-                abi: erc20Abi,
-                functionName: "balanceOf",
-                args: [address],
-              }),
-              publicClient.readContract({
-                address: token.address,
-                abi: erc20Abi,
-                functionName: "allowance",
-                args: [address, CONFIG.vaultAddress!],
-              }),
-              publicClient.readContract({
-                address: CONFIG.vaultAddress!,
-                abi: welotVaultAbi,
-                functionName: "currentPrizePool",
-                args: [token.address],
-              }),
-            ]);
-
-            newStates[token.address] = {
-              deposits: pos[0],
-              claimable: pos[1],
-              balance,
-              allowance,
-              prizePool: tokenPrize,
-            };
-          } catch (err) {
-            console.error(`Error loading ${token.symbol}:`, err);
-          }
+        for (const pos of snapshot.user.positions) {
+          newStates[pos.token] = {
+            deposits: pos.deposited,
+            claimable: pos.claimable,
+            balance: pos.balance,
+            allowance: pos.allowance,
+            prizePool: snapshot.tokens.find((t) => t.address === pos.token)?.prizePool ?? 0n,
+          };
         }
-        
         setTokenStates(newStates);
       }
+      setWinOdds(estimateWinOdds(snapshot));
     } catch (err) {
       console.error("Refresh error:", err);
+      if (availableTokens.length === 0) loadConfiguredTokens();
     }
-  }, [configOk, address, availableTokens, selectedToken, selectedPoolId]);
+  }, [configOk, address, availableTokens.length, selectedToken, selectedPoolId, loadConfiguredTokens]);
 
   const nextDrawUtc = useCallback(() => {
     if (!epochEndTime) return "";
@@ -534,11 +399,6 @@ export default function AppPage() {
     }
   }, [epochEndTime]);
 
-  // Load tokens on mount
-  useEffect(() => {
-    void loadTokens();
-  }, [loadTokens]);
-
   // Mark client mounted to avoid SSR/CSR hydration mismatches for env-dependent UI
   useEffect(() => {
     setMounted(true);
@@ -553,6 +413,80 @@ export default function AppPage() {
     return () => clearInterval(interval);
   }, [timeUntilDraw]);
 
+  // Check the yield vault's liquidity for the typed amount, debounced
+  useEffect(() => {
+    if (!configOk || !selectedToken || withdrawParsed === null || withdrawParsed === 0n) return;
+    const token = selectedToken.address;
+    const amount = withdrawParsed;
+    let cancelled = false;
+    const t = setTimeout(() => {
+      getWelotClient()
+        .getWithdrawLiquidity(token, amount)
+        .then((liquidity) => {
+          if (!cancelled) setWithdrawLiquidity(liquidity);
+        })
+        .catch((err) => console.error("Liquidity check error:", err));
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [configOk, selectedToken, withdrawParsed]);
+
+  useEffect(() => {
+    addressRef.current = address;
+  }, [address]);
+
+  // Follow account and chain changes made in the wallet
+  useEffect(() => {
+    if (!walletProvider) return;
+    const endSession = () => {
+      setConnected(false);
+      setAddress(undefined);
+      setWalletProvider(undefined);
+      setWalletInfo(undefined);
+      setWalletChainId(undefined);
+      setTokenStates({});
+      setWinOdds(null);
+    };
+    return watchWalletSession(walletProvider, {
+      onAccountChanged: (account) => {
+        // Locked, or this site was disconnected in the wallet. The wallet stays
+        // remembered; reconnecting next visit needs its permission again anyway.
+        if (!account) {
+          endSession();
+          return;
+        }
+        // Drop the previous account's balances until `refresh` loads the new ones
+        setTokenStates({});
+        setWinOdds(null);
+        setWithdrawLiquidity(null);
+        setAddress(account);
+      },
+      onChainChanged: setWalletChainId,
+      onDisconnect: endSession,
+    });
+  }, [walletProvider]);
+
+  // EIP-6963 discovery; wallets may announce after the page loads
+  useEffect(() => watchWallets(setWallets), []);
+
+  // Reconnect the remembered wallet without a prompt once it has announced
+  useEffect(() => {
+    if (reconnectTried.current || connected) return;
+    const rdns = getRememberedWalletId();
+    if (!rdns || !wallets.some((w) => w.info.rdns === rdns)) return;
+    reconnectTried.current = true;
+    void reconnectRememberedWallet(wallets).then(async (found) => {
+      if (!found) return;
+      setWalletChainId(await getWalletChainId(found.wallet.provider));
+      setWalletProvider(found.wallet.provider);
+      setWalletInfo(found.wallet.info);
+      setAddress(found.account);
+      setConnected(true);
+    });
+  }, [wallets, connected]);
+
   // Initial load
   useEffect(() => {
     void refresh();
@@ -560,6 +494,14 @@ export default function AppPage() {
     return () => clearInterval(interval);
   }, [refresh]);
 
+  const formatPercent = (probability: number) => {
+    if (probability === 0) return "0%";
+    if (probability < 0.0001) return "<0.01%";
+    return `${(probability * 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}%`;
+  };
+
+  const selectedPrize = winOdds?.prizes.find((p) => p.token === selectedToken?.address);
+
   const formatTime = (seconds: number) => {
     const d = Math.floor(seconds / 86400);
     const h = Math.floor((seconds % 86400) / 3600);
@@ -591,48 +533,66 @@ export default function AppPage() {
   // ACTIONS
   // ══════════════════════════════════════════════════════════════════════════
 
-  async function connectWallet() {
+  function connectWallet() {
     setError("");
-    const providers = getInjectedProviders().sort((a, b) => providerScore(b) - providerScore(a));
-    if (providers.length === 0) {
-      setError("Please install a wallet like MetaMask");
-      return;
-    }
+    setPickerOpen(true);
+  }
 
-    let lastErr: unknown;
-    for (const eth of providers) {
-      try {
-        const result = await eth.request({ method: "eth_requestAccounts" });
-        const accounts = Array.isArray(result) ? (result as string[]) : [];
-        setAddress(accounts?.[0] as Address | undefined);
-        setConnected(Boolean(accounts?.[0]));
-        setWalletProvider(eth);
-        await refresh();
-        return;
-      } catch (err: unknown) {
-        lastErr = err;
-        // Try next provider
-      }
+  async function selectWallet(wallet: DiscoveredWallet) {
+    setConnectingWallet(wallet.info.uuid);
+    setError("");
+    try {
+      const account = await requestAccount(wallet.provider);
+      if (!account) throw new Error(`${wallet.info.name} did not return an account`);
+      setWalletChainId(await getWalletChainId(wallet.provider));
+      setWalletProvider(wallet.provider);
+      setWalletInfo(wallet.info);
+      setAddress(account);
+      setConnected(true);
+      rememberWallet(wallet.info);
+      setPickerOpen(false);
+      // Connected either way; a rejected switch only leaves the banner up
+      await switchNetwork(wallet.provider);
+    } catch (err) {
+      console.error("connectWallet error:", err);
+      setError(getErrorMessage(err) || "Failed to connect wallet");
+    } finally {
+      setConnectingWallet(null);
     }
-
-    // If all providers failed, surface the last error message.
-    console.error("connectWallet error:", lastErr);
-    const msg = (lastErr as { message?: string } | undefined)?.message ?? String(lastErr);
-    setError(msg || "Failed to connect wallet");
   }
 
   function disconnectWallet() {
     setConnected(false);
     setAddress(undefined);
     setWalletProvider(undefined);
+    setWalletInfo(undefined);
+    setWalletChainId(undefined);
+    rememberWallet(null);
     setTokenStates({});
+    setWinOdds(null);
+  }
+
+  // Asks the wallet to switch to (or add) the app's chain. A rejection is
+  // shown as an error and leaves the wrong-network banner up.
+  async function switchNetwork(provider: EIP1193Provider | undefined = walletProvider): Promise<boolean> {
+    if (!provider) return false;
+    try {
+      setWalletChainId(await ensureWalletChain(provider, chain));
+      return true;
+    } catch (err) {
+      console.error("switchNetwork error:", err);
+      setError(getErrorMessage(err));
+      return false;
+    }
   }
 
-  function requireWalletProvider(): InjectedProvider | undefined {
+  // The connected wallet, on the app's chain; undefined (with an error shown) otherwise
+  async function requireWalletProvider(): Promise<EIP1193Provider | undefined> {
     if (!walletProvider) {
       setError("Wallet not connected");
       return undefined;
     }
+    if (!(await switchNetwork(walletProvider))) return undefined;
     return walletProvider;
   }
 
@@ -642,20 +602,10 @@ export default function AppPage() {
     setError("");
 
     try {
-      const eth = requireWalletProvider();
+      const eth = await requireWalletProvider();
       if (!eth) return;
-      const publicClient = getPublicClient();
-      const walletClient = getWalletClient(eth);
 
-      const hash = await walletClient.writeContract({
-        address: selectedToken.address,
-        abi: erc20Abi,
-        functionName: "approve",
-        args: [CONFIG.vaultAddress!, maxUint256],
-        account: address,
-      });
-
-      await publicClient.waitForTransactionReceipt({ hash });
+      await getWelotClient(eth, address).approve(selectedToken.address);
 
       setSuccess(`Approved ${selectedToken.symbol}!`);
       await refresh();
@@ -674,10 +624,8 @@ export default function AppPage() {
     setError("");
 
     try {
-      const eth = requireWalletProvider();
+      const eth = await requireWalletProvider();
       if (!eth) return;
-      const publicClient = getPublicClient();
-      const walletClient = getWalletClient(eth);
       const amount = depositParsed;
       if (amount === null || amount === 0n) {
         setError("Enter a valid deposit amount");
@@ -689,15 +637,7 @@ export default function AppPage() {
         return;
       }
 
-      const hash = await walletClient.writeContract({
-        address: CONFIG.vaultAddress!,
-        abi: welotVaultAbi,
-        functionName: "deposit",
-        args: [selectedToken.address, amount],
-        account: address,
-      });
-
-      await publicClient.waitForTransactionReceipt({ hash });
+      await getWelotClient(eth, address).deposit(selectedToken.address, amount);
 
       setDepositAmount("");
       setSuccess(`Deposited ${depositAmount} ${selectedToken.symbol}!`);
@@ -716,10 +656,8 @@ export default function AppPage() {
     setError("");
 
     try {
-      const eth = requireWalletProvider();
+      const eth = await requireWalletProvider();
       if (!eth) return;
-      const publicClient = getPublicClient();
-      const walletClient = getWalletClient(eth);
       const amount = withdrawParsed;
       if (amount === null || amount === 0n) {
         setError("Enter a valid withdraw amount");
@@ -731,15 +669,20 @@ export default function AppPage() {
         return;
       }
 
-      const hash = await walletClient.writeContract({
-        address: CONFIG.vaultAddress!,
-        abi: welotVaultAbi,
-        functionName: "withdraw",
-        args: [selectedToken.address, amount],
-        account: address,
-      });
+      // Lendle reverts withdrawals beyond the reserve's free liquidity; check
+      // first so the user gets an amount that works instead of a raw revert.
+      // A failed check does not block the withdrawal.
+      const client = getWelotClient(eth, address);
+      const liquidity = await client.getWithdrawLiquidity(selectedToken.address, amount).catch(() => null);
+      if (liquidity) setWithdrawLiquidity(liquidity);
+      if (liquidity && !liquidity.sufficient) {
+        setError(
+          `Only ${formatAmount(liquidity.available, selectedToken.decimals)} ${selectedToken.symbol} can be withdrawn right now: the lending pool is short on liquidity.`
+        );
+        return;
+      }
 
-      await publicClient.waitForTransactionReceipt({ hash });
+      await client.withdraw(selectedToken.address, amount);
 
       setWithdrawAmount("");
       setSuccess(`Withdrew ${withdrawAmount} ${selectedToken.symbol}!`);
@@ -758,20 +701,10 @@ export default function AppPage() {
     setError("");
 
     try {
-      const eth = requireWalletProvider();
+      const eth = await requireWalletProvider();
       if (!eth) return;
-      const publicClient = getPublicClient();
-      const walletClient = getWalletClient(eth);
 
-      const hash = await walletClient.writeContract({
-        address: CONFIG.vaultAddress!,
-        abi: welotVaultAbi,
-        functionName: "claimPrize",
-        args: [selectedToken.address],
-        account: address,
-      });
-
-      await publicClient.waitForTransactionReceipt({ hash });
+      await getWelotClient(eth, address).claimPrize(selectedToken.address);
 
       setSuccess("Prize claimed!");
       await refresh();
@@ -789,18 +722,19 @@ export default function AppPage() {
     setError("");
 
     try {
-      const eth = requireWalletProvider();
+      const eth = await requireWalletProvider();
       if (!eth) return;
       const publicClient = getPublicClient();
       const walletClient = getWalletClient(eth);
 
-      const hash = await walletClient.writeContract({
+      const { request } = await publicClient.simulateContract({
         address: CONFIG.faucetAddress!,
         abi: faucetAbi,
         functionName: "claim",
         args: [selectedToken.address],
         account: address,
       });
+      const hash = await walletClient.writeContract(request);
 
       await publicClient.waitForTransactionReceipt({ hash });
 
@@ -820,17 +754,18 @@ export default function AppPage() {
     setError("");
 
     try {
-      const eth = requireWalletProvider();
+      const eth = await requireWalletProvider();
       if (!eth) return;
       const publicClient = getPublicClient();
       const walletClient = getWalletClient(eth);
 
-      const hash = await walletClient.writeContract({
+      const { request } = await publicClient.simulateContract({
         address: CONFIG.faucetAddress!,
         abi: faucetAbi,
         functionName: "claimAll",
         account: address,
       });
+      const hash = await walletClient.writeContract(request);
 
       await publicClient.waitForTransactionReceipt({ hash });
 
@@ -913,9 +848,28 @@ export default function AppPage() {
               )}
             </div>
 
+            {mounted && <NetworkSwitcher />}
+
+            <Link
+              href="/analytics"
+              className="rounded-xl border-2 border-black bg-white px-3 py-1.5 text-xs font-black shadow-[2px_2px_0_0_#000] hover:bg-zinc-100 transition-colors"
+            >
+              📊 Analytics
+            </Link>
+
             {connected && address ? (
               <div className="flex items-center gap-3">
-                <div className="rounded-2xl border-2 border-black bg-amber-100 px-4 py-2 text-sm font-black">
+                <Link
+                  href={`/app/history?address=${address}`}
+                  className="rounded-2xl border-2 border-black bg-white px-4 py-2 text-sm font-black shadow-[3px_3px_0_0_#000]"
+                >
+                  History
+                </Link>
+                <div
+                  className="flex items-center gap-2 rounded-2xl border-2 border-black bg-amber-100 px-4 py-2 text-sm font-black"
+                  title={walletInfo?.name}
+                >
+                  {walletInfo?.icon && <Image src={walletInfo.icon} alt="" width={18} height={18} unoptimized />}
                   {shortAddr(address)}
                 </div>
                 <button
@@ -971,9 +925,24 @@ export default function AppPage() {
           </div>
         )}
 
+        {wrongChain && walletChainId !== undefined && (
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-3 rounded-2xl border-2 border-black bg-red-100 px-4 py-3 text-sm font-black text-red-900 shadow-[4px_4px_0_0_#000]">
+            <span>
+              Wrong network: your wallet is on {chainLabel(walletChainId)}, but Welot runs on {chain.name}.
+            </span>
+            <button
+              onClick={() => void switchNetwork()}
+              className="rounded-xl border-2 border-black bg-white px-3 py-1.5 text-xs font-black text-zinc-950 shadow-[2px_2px_0_0_#000]"
+            >
+              Switch to {chain.name}
+            </button>
+          </div>
+        )}
+
         {mounted && !configOk && (
           <div className="mb-6 rounded-2xl border-2 border-black bg-amber-100 px-4 py-3 text-sm font-black text-zinc-950 shadow-[4px_4px_0_0_#000]">
-            Contract addresses not configured. Deploy contracts and set NEXT_PUBLIC_WELOT_VAULT in .env.local
+            No vault configured for {chain.name}. Deploy contracts and set NEXT_PUBLIC_WELOT_VAULT in .env.local, or
+            pick another network.
           </div>
         )}
 
@@ -1044,7 +1013,11 @@ export default function AppPage() {
             icon="/icons/ticket.svg"
             label="Selected Pool"
             value={`#${selectedPoolId.toString()}`}
-            subtext="Winning is pool-based, time-weighted"
+            subtext={
+              winOdds
+                ? `${formatPercent(winOdds.probability)} chance to win this draw`
+                : "Winning is pool-based, time-weighted"
+            }
             color="amber"
           />
           <StatCard
@@ -1115,6 +1088,25 @@ export default function AppPage() {
                   suffix={selectedToken?.symbol ?? 'TOKEN'}
                 />
               </div>
+              {insufficientLiquidity && selectedToken && withdrawableNow !== null && (
+                <div className="rounded-xl border-2 border-black bg-amber-100 px-3 py-2 text-xs font-semibold text-zinc-900">
+                  The lending pool is short on {selectedToken.symbol} liquidity, so this withdrawal would fail right now.
+                  {withdrawableNow > 0n ? (
+                    <>
+                      {" "}Up to{" "}
+                      <button
+                        onClick={() => setWithdrawAmount(formatUnits(withdrawableNow, selectedToken.decimals))}
+                        className="font-black underline"
+                      >
+                        {formatAmount(withdrawableNow, selectedToken.decimals)} {selectedToken.symbol}
+                      </button>{" "}
+                      can be withdrawn now; the rest frees up as borrowers repay.
+                    </>
+                  ) : (
+                    " Nothing can be withdrawn until borrowers repay; your deposit is not affected."
+                  )}
+                </div>
+              )}
               <Button
                 onClick={withdraw}
                 disabled={
@@ -1123,7 +1115,8 @@ export default function AppPage() {
                   !withdrawAmount ||
                   withdrawParsed === null ||
                   withdrawParsed === 0n ||
-                  insufficientDeposits
+                  insufficientDeposits ||
+                  insufficientLiquidity
                 }
                 fullWidth
               >
@@ -1216,6 +1209,25 @@ export default function AppPage() {
                     : "0%"}
                 </span>
               </div>
+              {winOdds && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="text-zinc-800">Pool Win Chance</span>
+                    <span className="font-black text-zinc-950">{formatPercent(winOdds.probability)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-zinc-800">If Your Pool Wins</span>
+                    <span className="font-black text-zinc-950">{formatAmount(selectedPrize?.ifWin ?? 0n, selectedToken?.decimals ?? 18)} {selectedToken?.symbol ?? ''}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-zinc-800">Expected Prize</span>
+                    <span className="font-black text-zinc-950">{formatAmount(selectedPrize?.expected ?? 0n, selectedToken?.decimals ?? 18)} {selectedToken?.symbol ?? ''}</span>
+                  </div>
+                  <div className="text-xs font-semibold text-zinc-600">
+                    Time-weighted pool balances projected to the epoch end, at the current prize pool.
+                  </div>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -1246,6 +1258,15 @@ export default function AppPage() {
         </footer>
         </div>
       </main>
+
+      {pickerOpen && (
+        <WalletPicker
+          wallets={wallets}
+          connecting={connectingWallet}
+          onSelect={(w) => void selectWallet(w)}
+          onClose={() => setPickerOpen(false)}
+        />
+      )}
     </div>
   );
 }
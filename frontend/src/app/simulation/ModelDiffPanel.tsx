@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+
+import { compareModels, formatMoney, type ModelComparison, type ModelDifferenceKind } from "@/lib/simulation";
+
+import { Button, Card, MODEL_LABELS, NumberField, formatPercent } from "./ui";
+
+const SHOWN_DRAWS = 30;
+
+const DIFFERENCE_TITLES: Record<ModelDifferenceKind, string> = {
+  "pool-assignment": "Pool assignment",
+  "weight-carry-over": "Weights carry over",
+  "no-winner": "No winner at zero weight",
+  "empty-pool-wins": "Empty pools can win",
+  winner: "Different winners",
+  prize: "Different prizes",
+  "rounding-dust": "Reward-index rounding",
+};
+
+function poolLabel(id: number | null): string {
+  return id === null ? "none" : `#${id}`;
+}
+
+// Difference report: one scenario through both models, disagreements by rule
+export function ModelDiffPanel() {
+  const [seed, setSeed] = useState(1);
+  const [poolCount, setPoolCount] = useState(5);
+  const [userCount, setUserCount] = useState(12);
+  const [epochs, setEpochs] = useState(20);
+  const [drawIntervalDays, setDrawIntervalDays] = useState(7);
+  const [actionsPerEpoch, setActionsPerEpoch] = useState(10);
+  const [report, setReport] = useState<ModelComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = () => {
+    setError(null);
+    try {
+      setReport(
+        compareModels({
+          seed,
+          poolCount,
+          userCount,
+          epochs,
+          drawIntervalSec: Math.round(drawIntervalDays * 86400),
+          actionsPerEpoch,
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-4">
+        <Card title="⚖️ Scenario" color="amber">
+          <div className="grid grid-cols-2 gap-3">
+            <NumberField label="Seed" value={seed} onChange={setSeed} />
+            <NumberField label="Pools" value={poolCount} min={1} onChange={setPoolCount} />
+            <NumberField label="Users" value={userCount} min={1} onChange={setUserCount} />
+            <NumberField label="Epochs" value={epochs} min={1} onChange={setEpochs} />
+            <NumberField label="Draw interval (days)" value={drawIntervalDays} min={0.01} step={0.5} onChange={setDrawIntervalDays} />
+            <NumberField label="Actions per epoch" value={actionsPerEpoch} onChange={setActionsPerEpoch} />
+          </div>
+          <div className="mt-3">
+            <Button onClick={run}>▶ Compare Models</Button>
+          </div>
+          {error && <div className="mt-2 text-xs font-bold text-red-600">{error}</div>}
+          <div className="mt-3 text-[10px] text-zinc-500">
+            Both models see the same users, deposits, withdrawals and entropy. {MODEL_LABELS.exact} follows
+            WelotVault.sol with bigint math; {MODEL_LABELS.simplified} is the float model the demo started with.
+          </div>
+        </Card>
+      </div>
+
+      <div className="lg:col-span-2 space-y-4">
+        {!report ? (
+          <Card>
+            <div className="text-sm text-zinc-500">
+              Run a scenario to see where the simplified model disagrees with the vault&apos;s actual rules.
+            </div>
+          </Card>
+        ) : (
+          <>
+            <div className="grid md:grid-cols-2 gap-4">
+              {report.differences.map((d) => (
+                <Card key={d.kind} color={d.count === 0 ? "white" : "pink"}>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="font-black">{DIFFERENCE_TITLES[d.kind]}</div>
+                    <span className="rounded-lg border-2 border-black bg-white px-2 text-xs font-black">
+                      {d.count === 0 ? "agree" : d.count}
+                    </span>
+                  </div>
+                  <div className="mt-1 text-xs text-zinc-700">{d.detail}</div>
+                </Card>
+              ))}
+            </div>
+
+            <Card title="🎲 Draws">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-zinc-600">
+                      <th className="py-1">Epoch</th>
+                      <th>{MODEL_LABELS.simplified} winner</th>
+                      <th>{MODEL_LABELS.exact} winner</th>
+                      <th>Carry-over gap</th>
+                      <th>{MODEL_LABELS.simplified} prize</th>
+                      <th>{MODEL_LABELS.exact} prize</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.draws.slice(0, SHOWN_DRAWS).map((d) => (
+                      <tr
+                        key={d.epochId}
+                        className={`border-t border-black/10 font-bold ${d.simplified.winningPoolId !== d.exact.winningPoolId ? "bg-pink-50" : ""}`}
+                      >
+                        <td className="py-1">#{d.epochId}</td>
+                        <td>{poolLabel(d.simplified.winningPoolId)}</td>
+                        <td>
+                          {poolLabel(d.exact.winningPoolId)}
+                          {d.exact.winningPoolId !== null && d.exact.winnerDeposits === 0 && (
+                            <span className="ml-1 text-xs text-zinc-500">(empty)</span>
+                          )}
+                        </td>
+                        <td>{formatPercent(d.carryOverGap)}</td>
+                        <td>${formatMoney(d.simplified.prize)}</td>
+                        <td>${formatMoney(d.exact.prize)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+
+            <Card title="👥 Users">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-zinc-600">
+                      <th className="py-1">User</th>
+                      <th>{MODEL_LABELS.simplified} pool</th>
+                      <th>{MODEL_LABELS.exact} pool</th>
+                      <th>{MODEL_LABELS.simplified} prizes</th>
+                      <th>{MODEL_LABELS.exact} prizes</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.users.map((u) => (
+                      <tr key={u.address} className="border-t border-black/10 font-bold">
+                        <td className="py-1">
+                          {u.name} <span className="font-mono text-[10px] text-zinc-500">{u.address.slice(0, 10)}…</span>
+                        </td>
+                        <td>#{u.simplifiedPoolId}</td>
+                        <td className={u.simplifiedPoolId !== u.exactPoolId ? "text-pink-600" : ""}>#{u.exactPoolId}</td>
+                        <td>${formatMoney(u.simplifiedPrize)}</td>
+                        <td>${formatMoney(u.exactPrize)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
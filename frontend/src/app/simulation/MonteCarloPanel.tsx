@@ -0,0 +1,271 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+import {
+  INITIAL_TOKENS,
+  formatMoney,
+  formatNumber,
+  monteCarloHistogramCsv,
+  monteCarloSummaryCsv,
+  monteCarloToJson,
+  runMonteCarlo,
+  type DepositorGroup,
+  type HistogramBin,
+  type MonteCarloConfig,
+  type MonteCarloResult,
+  type SimModel,
+} from "@/lib/simulation";
+
+import { Button, Card, ModelField, NumberField, download, formatPercent } from "./ui";
+
+const TOKEN_SYMBOLS = INITIAL_TOKENS.map((t) => t.symbol);
+
+const DEFAULT_GROUPS: DepositorGroup[] = [
+  { label: "$100 depositor", count: 1, deposits: { USDC: 100 } },
+  { label: "Minnows", count: 50, deposits: { USDC: 200, USDT: 100 } },
+  { label: "Whales", count: 2, deposits: { USDC: 50_000 } },
+];
+
+function HistogramBars({ bins, label }: { bins: HistogramBin[]; label: (b: HistogramBin) => string }) {
+  const max = bins.reduce((a, b) => Math.max(a, b.count), 0);
+  if (max === 0) return <div className="text-xs text-zinc-500">No samples</div>;
+  return (
+    <div className="space-y-1">
+      {bins.map((b) => (
+        <div key={b.from} className="flex items-center gap-2 text-[10px] font-mono">
+          <span className="w-24 shrink-0 text-right text-zinc-600">{label(b)}</span>
+          <div className="h-3 flex-1 rounded bg-zinc-100">
+            <div className="h-3 rounded bg-lime-400 border border-black" style={{ width: `${(b.count / max) * 100}%` }} />
+          </div>
+          <span className="w-12 shrink-0 text-zinc-600">{b.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Batch mode: thousands of headless epochs on the same engine as the live view
+export function MonteCarloPanel() {
+  const [runs, setRuns] = useState(1000);
+  const [epochsPerRun, setEpochsPerRun] = useState(52);
+  const [poolCount, setPoolCount] = useState(5);
+  const [drawIntervalDays, setDrawIntervalDays] = useState(7);
+  const [seed, setSeed] = useState(1);
+  const [model, setModel] = useState<SimModel>("exact");
+  const [apys, setApys] = useState<Record<string, number>>(() =>
+    Object.fromEntries(INITIAL_TOKENS.map((t) => [t.symbol, t.apy]))
+  );
+  const [groups, setGroups] = useState<DepositorGroup[]>(DEFAULT_GROUPS);
+
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const updateGroup = (index: number, patch: Partial<DepositorGroup>) =>
+    setGroups((prev) => prev.map((g, i) => (i === index ? { ...g, ...patch } : g)));
+
+  const run = async () => {
+    const config: MonteCarloConfig = {
+      seed,
+      runs,
+      epochsPerRun,
+      poolCount,
+      drawIntervalSec: Math.round(drawIntervalDays * 86400),
+      apys,
+      groups: groups.filter((g) => g.count > 0),
+      model,
+    };
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const r = await runMonteCarlo(config, {
+        signal: controller.signal,
+        onProgress: (p) => setProgress(p.runsDone / p.runs),
+      });
+      setResult(r);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+      abortRef.current = null;
+    }
+  };
+
+  const running = progress !== null;
+  const years = (epochsPerRun * drawIntervalDays) / 365;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-4">
+        <Card title="🎛️ Batch Settings" color="amber">
+          <div className="grid grid-cols-2 gap-3">
+            <NumberField label="Runs" value={runs} min={1} onChange={setRuns} />
+            <NumberField label="Epochs per run" value={epochsPerRun} min={1} onChange={setEpochsPerRun} />
+            <NumberField label="Pools" value={poolCount} min={1} onChange={setPoolCount} />
+            <NumberField label="Draw interval (days)" value={drawIntervalDays} min={0.01} step={0.5} onChange={setDrawIntervalDays} />
+            <NumberField label="Seed" value={seed} onChange={setSeed} />
+            <ModelField value={model} onChange={setModel} />
+            {TOKEN_SYMBOLS.map((symbol) => (
+              <NumberField
+                key={symbol}
+                label={`${symbol} APY %`}
+                value={apys[symbol] ?? 0}
+                step={0.5}
+                onChange={(v) => setApys((prev) => ({ ...prev, [symbol]: v }))}
+              />
+            ))}
+          </div>
+          <div className="mt-3 text-xs text-zinc-600">
+            Each run covers {years.toFixed(2)} years; {(runs * epochsPerRun).toLocaleString("en-US")} epochs in total.
+          </div>
+        </Card>
+
+        <Card title="👥 Depositors">
+          <div className="space-y-3">
+            {groups.map((g, i) => (
+              <div key={i} className="rounded-xl border-2 border-black p-2 shadow-[2px_2px_0_0_#000]">
+                <div className="flex gap-2 items-end">
+                  <label className="block flex-1 text-xs font-bold text-zinc-600">
+                    Group
+                    <input
+                      value={g.label}
+                      onChange={(e) => updateGroup(i, { label: e.target.value })}
+                      className="mt-1 w-full rounded-lg border-2 border-black px-2 py-1 text-sm font-bold text-zinc-950"
+                    />
+                  </label>
+                  <Button size="xs" variant="ghost" onClick={() => setGroups((prev) => prev.filter((_, j) => j !== i))}>
+                    ✕
+                  </Button>
+                </div>
+                <div className="mt-2 grid grid-cols-3 gap-2">
+                  <NumberField label="Count" value={g.count} onChange={(count) => updateGroup(i, { count })} />
+                  {TOKEN_SYMBOLS.map((symbol) => (
+                    <NumberField
+                      key={symbol}
+                      label={`${symbol} each`}
+                      value={g.deposits[symbol] ?? 0}
+                      onChange={(v) => updateGroup(i, { deposits: { ...g.deposits, [symbol]: v } })}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 flex gap-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setGroups((prev) => [...prev, { label: `Group ${prev.length + 1}`, count: 10, deposits: { USDC: 100 } }])}
+            >
+              ➕ Add Group
+            </Button>
+          </div>
+          <div className="mt-2 text-[10px] text-zinc-500">
+            {model === "exact"
+              ? "Depositors get made-up addresses and are assigned to pools by address, like assignedPoolId."
+              : "Depositors are assigned to pools round-robin in the order listed."}
+          </div>
+        </Card>
+
+        <Card>
+          <div className="flex items-center gap-2">
+            <Button onClick={run} disabled={running || groups.every((g) => g.count <= 0)}>
+              {running ? `Running… ${Math.round((progress ?? 0) * 100)}%` : "▶ Run Monte Carlo"}
+            </Button>
+            {running && (
+              <Button variant="danger" size="sm" onClick={() => abortRef.current?.abort()}>
+                Cancel
+              </Button>
+            )}
+          </div>
+          {error && <div className="mt-2 text-xs font-bold text-red-600">{error}</div>}
+        </Card>
+      </div>
+
+      <div className="lg:col-span-2 space-y-4">
+        {!result ? (
+          <Card>
+            <div className="text-sm text-zinc-500">
+              Configure a population and run the batch to see how often each group wins, what it wins and how much the
+              outcome varies.
+            </div>
+          </Card>
+        ) : (
+          <>
+            <Card title="📊 Per Depositor, Per Run" color="lime">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-zinc-600">
+                      <th className="py-1">Group</th>
+                      <th>Deposit</th>
+                      <th>P(win ≥ 1)</th>
+                      <th>Mean wins</th>
+                      <th>Expected prize</th>
+                      <th>Std dev</th>
+                      <th>EV / deposit</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.groups.map((g, i) => (
+                      <tr key={i} className="border-t border-black/10 font-bold">
+                        <td className="py-1">{g.label} <span className="text-xs text-zinc-500">×{g.depositors}</span></td>
+                        <td>${formatNumber(g.depositPerDepositor)}</td>
+                        <td>{formatPercent(g.winProbability)}</td>
+                        <td>{g.meanWins.toFixed(2)}</td>
+                        <td>${formatMoney(g.meanPrize)}</td>
+                        <td>${formatMoney(g.prizeStdDev)}</td>
+                        <td>{g.depositPerDepositor > 0 ? formatPercent(g.meanPrize / g.depositPerDepositor) : "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="mt-3 flex flex-wrap gap-2">
+                <Button size="sm" variant="ghost" onClick={() => download("welot-montecarlo.json", monteCarloToJson(result), "application/json")}>
+                  ⬇ JSON
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => download("welot-montecarlo-summary.csv", monteCarloSummaryCsv(result), "text/csv;charset=utf-8")}>
+                  ⬇ Summary CSV
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => download("welot-montecarlo-histograms.csv", monteCarloHistogramCsv(result), "text/csv;charset=utf-8")}>
+                  ⬇ Histograms CSV
+                </Button>
+              </div>
+            </Card>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              {result.groups.map((g, i) => (
+                <Card key={i} title={`🎯 ${g.label}`}>
+                  <div className="text-xs font-bold text-zinc-600 mb-1">Wins per run</div>
+                  <HistogramBars bins={g.winsHistogram} label={(b) => `${b.from}`} />
+                  <div className="text-xs font-bold text-zinc-600 mt-3 mb-1">Prize per run</div>
+                  <HistogramBars bins={g.prizeHistogram} label={(b) => `$${formatMoney(b.from)}`} />
+                </Card>
+              ))}
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <Card title="🎲 Prize per Draw">
+                <div className="text-xs text-zinc-600 mb-2">
+                  {result.paidDraws} of {result.epochs} draws paid out; mean ${formatMoney(result.meanDrawPrize)}
+                </div>
+                <HistogramBars bins={result.drawPrizeHistogram} label={(b) => `$${formatMoney(b.from)}`} />
+              </Card>
+              <Card title="🏊 Wins per Pool">
+                <HistogramBars
+                  bins={result.poolWins.map((count, id) => ({ from: id, to: id + 1, count }))}
+                  label={(b) => `Pool #${b.from}`}
+                />
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
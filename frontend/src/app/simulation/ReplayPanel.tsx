@@ -0,0 +1,311 @@
+"use client";
+
+import { useState } from "react";
+
+import { getChain } from "@/lib/chains";
+import { shortAddr } from "@/lib/clients";
+import { CONFIG } from "@/lib/config";
+import {
+  formatMoney,
+  formatSimDateTimeUTC,
+  loadReplayHistory,
+  parseReplayHistory,
+  replayHistoryToJson,
+  runReplay,
+  type ReplayHistory,
+  type ReplayResult,
+  type SimModel,
+  type SimWeighting,
+} from "@/lib/simulation";
+import { getErrorMessage, getWelotClient } from "@/lib/welot";
+
+import { Button, Card, ModelField, NumberField, download, formatPercent } from "./ui";
+
+const SHOWN_DRAWS = 50;
+const SHOWN_USERS = 25;
+
+function historySummary(history: ReplayHistory) {
+  const users = new Set<string>();
+  let draws = 0;
+  for (const e of history.events) {
+    if (e.kind === "winner") draws++;
+    else if (e.kind !== "prize") users.add(e.user);
+  }
+  return { users: users.size, draws };
+}
+
+// Replays a vault's real event stream through the engine, with what-if knobs
+export function ReplayPanel() {
+  const [fromBlock, setFromBlock] = useState(Number(CONFIG.vaultDeployBlock));
+  const [history, setHistory] = useState<ReplayHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [keepLayout, setKeepLayout] = useState(true);
+  const [poolCount, setPoolCount] = useState(5);
+  const [model, setModel] = useState<SimModel>("exact");
+  const [weighting, setWeighting] = useState<SimWeighting>("time");
+  const [recordedPrizes, setRecordedPrizes] = useState(true);
+  const [apys, setApys] = useState<Record<string, number>>({});
+  const [seed, setSeed] = useState(1);
+  const [result, setResult] = useState<ReplayResult | null>(null);
+
+  const configOk = Boolean(CONFIG.vaultAddress);
+
+  const applyHistory = (h: ReplayHistory) => {
+    setHistory(h);
+    setResult(null);
+    setPoolCount(h.poolIds.length);
+  };
+
+  const loadFromChain = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      applyHistory(await loadReplayHistory(getWelotClient(), { fromBlock: BigInt(fromBlock) }));
+    } catch (err) {
+      console.error("Replay load error:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const importJson = async (file: File) => {
+    setError(null);
+    try {
+      applyHistory(parseReplayHistory(JSON.parse(await file.text())));
+    } catch (err) {
+      setError(`Import failed: ${getErrorMessage(err)}`);
+    }
+  };
+
+  const replay = () => {
+    if (!history) return;
+    setError(null);
+    try {
+      setResult(
+        runReplay(history, {
+          seed,
+          poolCount: keepLayout ? null : poolCount,
+          model,
+          weighting: model === "exact" ? "time" : weighting,
+          recordedPrizes,
+          apys,
+        })
+      );
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const summary = history ? historySummary(history) : null;
+  const oddsSamples = result?.draws.flatMap((d) => (d.actualWinnerOdds === null ? [] : [d.actualWinnerOdds])) ?? [];
+  const meanOdds = oddsSamples.length > 0 ? oddsSamples.reduce((a, b) => a + b, 0) / oddsSamples.length : null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="space-y-4">
+        <Card title="📼 History" color="amber">
+          <div className="space-y-3">
+            <NumberField label="From block" value={fromBlock} onChange={setFromBlock} />
+            <Button onClick={loadFromChain} disabled={!configOk || loading}>
+              {loading ? "Loading events…" : `⛓️ Load from ${getChain().name}`}
+            </Button>
+            {!configOk && (
+              <div className="text-xs text-zinc-600">Set NEXT_PUBLIC_WELOT_VAULT to load a deployed vault.</div>
+            )}
+            <label className="block text-xs font-bold text-zinc-600">
+              Or import a JSON export
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) void importJson(file);
+                  e.target.value = "";
+                }}
+                className="mt-1 block w-full text-xs"
+              />
+            </label>
+          </div>
+          {history && summary && (
+            <div className="mt-3 rounded-xl border-2 border-black bg-white p-2 text-xs space-y-1">
+              <div className="font-mono font-bold">{shortAddr(history.vault)} · chain {history.chainId}</div>
+              <div>
+                Blocks {history.fromBlock}–{history.toBlock}: {history.events.length} events, {summary.users} users,{" "}
+                {summary.draws} draws
+              </div>
+              <div>
+                {history.poolIds.length} pools · {history.tokens.map((t) => t.symbol).join(", ") || "no tokens"}
+              </div>
+              <Button
+                size="xs"
+                variant="ghost"
+                onClick={() => download(`welot-history-${history.chainId}-${history.toBlock}.json`, replayHistoryToJson(history), "application/json")}
+              >
+                ⬇ Export JSON
+              </Button>
+            </div>
+          )}
+          {error && <div className="mt-2 text-xs font-bold text-red-600">{error}</div>}
+        </Card>
+
+        <Card title="🔀 What If">
+          <div className="space-y-3">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={keepLayout} onChange={(e) => setKeepLayout(e.target.checked)} className="w-4 h-4" />
+              <span className="text-sm font-bold">Keep the vault&apos;s pools</span>
+            </label>
+            {!keepLayout && (
+              <NumberField label="Pools (users assigned by address)" value={poolCount} min={1} onChange={setPoolCount} />
+            )}
+            <ModelField value={model} onChange={setModel} />
+            <label className="block text-xs font-bold text-zinc-600">
+              Weighting
+              <select
+                value={model === "exact" ? "time" : weighting}
+                disabled={model === "exact"}
+                onChange={(e) => setWeighting(e.target.value as SimWeighting)}
+                className="mt-1 w-full rounded-lg border-2 border-black px-2 py-1 text-sm font-bold text-zinc-950"
+              >
+                <option value="time">Time-weighted balance</option>
+                <option value="balance">Balance at draw</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={recordedPrizes}
+                onChange={(e) => setRecordedPrizes(e.target.checked)}
+                className="w-4 h-4"
+              />
+              <span className="text-sm font-bold">Use the prizes the vault recorded</span>
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {history?.tokens.map((t) => (
+                <NumberField
+                  key={t.address}
+                  label={`${t.symbol} extra APY %`}
+                  value={apys[t.symbol] ?? 0}
+                  step={0.5}
+                  onChange={(v) => setApys((prev) => ({ ...prev, [t.symbol]: v }))}
+                />
+              ))}
+              <NumberField label="Seed" value={seed} onChange={setSeed} />
+            </div>
+            <Button onClick={replay} disabled={!history}>
+              ▶ Replay
+            </Button>
+          </div>
+        </Card>
+      </div>
+
+      <div className="lg:col-span-2 space-y-4">
+        {!result ? (
+          <Card>
+            <div className="text-sm text-zinc-500">
+              Load a vault&apos;s deposits, withdrawals and draws, then replay them with the real users and timing. Change
+              the pool count or weighting to see who would have been favoured instead.
+            </div>
+          </Card>
+        ) : (
+          <>
+            <Card title="📈 Replay Summary" color="lime">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm font-bold">
+                <div>
+                  <div className="text-xs text-zinc-600">Draws</div>
+                  {result.draws.length}
+                </div>
+                <div>
+                  <div className="text-xs text-zinc-600">Users</div>
+                  {result.users.length}
+                </div>
+                <div>
+                  <div className="text-xs text-zinc-600">Same winner as vault</div>
+                  {result.matches === null ? "—" : `${result.matches} / ${result.draws.length}`}
+                </div>
+                <div>
+                  <div className="text-xs text-zinc-600">Mean odds of actual winner</div>
+                  {meanOdds === null ? "—" : formatPercent(meanOdds)}
+                </div>
+              </div>
+              <div className="mt-2 text-[10px] text-zinc-600">
+                The vault&apos;s randomness is not part of its events, so replayed winners come from the seed. Expected
+                prizes do not depend on it.
+              </div>
+            </Card>
+
+            <Card title="👥 Users">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-zinc-600">
+                      <th className="py-1">User</th>
+                      <th>Pool</th>
+                      <th>Final deposits</th>
+                      <th>Expected prize</th>
+                      <th>Replay wins</th>
+                      <th>Replay prize</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.users.slice(0, SHOWN_USERS).map((u) => (
+                      <tr key={u.address} className="border-t border-black/10 font-bold">
+                        <td className="py-1 font-mono text-xs">{shortAddr(u.address)}</td>
+                        <td>#{u.poolId}</td>
+                        <td className="text-xs">
+                          {Object.entries(u.deposits)
+                            .filter(([, v]) => v > 0)
+                            .map(([symbol, v]) => `${formatMoney(v)} ${symbol}`)
+                            .join(", ") || "—"}
+                        </td>
+                        <td>${formatMoney(u.expectedPrize)}</td>
+                        <td>{u.simWins}</td>
+                        <td>${formatMoney(u.simPrize)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {result.users.length > SHOWN_USERS && (
+                <div className="mt-2 text-xs text-zinc-500">Top {SHOWN_USERS} of {result.users.length} by expected prize</div>
+              )}
+            </Card>
+
+            <Card title="🏆 Draws">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-zinc-600">
+                      <th className="py-1">Epoch</th>
+                      <th>Time</th>
+                      <th>Vault winner</th>
+                      <th>Odds</th>
+                      <th>Replay winner</th>
+                      <th>Vault prize</th>
+                      <th>Replay prize</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.draws.slice(-SHOWN_DRAWS).reverse().map((d) => (
+                      <tr key={d.epochId} className="border-t border-black/10 font-bold">
+                        <td className="py-1">#{d.epochId}</td>
+                        <td className="text-xs">{formatSimDateTimeUTC(new Date(d.timestamp * 1000))}</td>
+                        <td>Pool #{d.actualWinningPoolId}</td>
+                        <td>{d.actualWinnerOdds === null ? "—" : formatPercent(d.actualWinnerOdds)}</td>
+                        <td>{d.simWinningPoolId === null ? "skipped" : `Pool #${d.simWinningPoolId}`}</td>
+                        <td>${formatMoney(d.actualPrize)}</td>
+                        <td>${formatMoney(d.simPrize)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
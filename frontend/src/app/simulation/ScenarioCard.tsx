@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  SCENARIO_PRESETS,
+  deleteSavedScenario,
+  listSavedScenarios,
+  parseScenario,
+  saveScenario,
+  scenarioToHash,
+  scenarioToJson,
+  type SavedScenario,
+  type Scenario,
+  type SimModel,
+} from "@/lib/simulation";
+import { getErrorMessage } from "@/lib/welot";
+
+import { Button, Card, download } from "./ui";
+
+function fileName(name: string): string {
+  return `welot-scenario-${name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "untitled"}.json`;
+}
+
+// Save, load and share live runs. `capture` snapshots the running engine with
+// the page's settings; `onLoad` replaces the run. Only rendered on the client.
+export function ScenarioCard({ model, capture, onLoad }: {
+  model: SimModel;
+  capture: (name: string) => Scenario;
+  onLoad: (scenario: Scenario) => void;
+}) {
+  const [name, setName] = useState("My scenario");
+  const [saved, setSaved] = useState<SavedScenario[]>(() => listSavedScenarios(localStorage));
+  const [presetId, setPresetId] = useState(SCENARIO_PRESETS[0].id);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const preset = SCENARIO_PRESETS.find((p) => p.id === presetId) ?? SCENARIO_PRESETS[0];
+
+  const report = (fn: () => Promise<string> | string) => {
+    setStatus(null);
+    setError(null);
+    Promise.resolve()
+      .then(fn)
+      .then(setStatus, (err) => setError(getErrorMessage(err)));
+  };
+
+  const load = (scenario: Scenario) => {
+    onLoad(scenario);
+    setName(scenario.name);
+    return `Loaded "${scenario.name}"`;
+  };
+
+  const save = () =>
+    report(() => {
+      setSaved(saveScenario(localStorage, capture(name.trim() || "Untitled")));
+      return "Saved in this browser";
+    });
+
+  const share = () =>
+    report(async () => {
+      const url = new URL(window.location.href);
+      url.hash = await scenarioToHash(capture(name.trim() || "Untitled"));
+      window.history.replaceState(null, "", url);
+      await navigator.clipboard.writeText(url.toString());
+      return "Share link copied";
+    });
+
+  const importJson = (file: File) =>
+    report(async () => load(parseScenario(JSON.parse(await file.text()))));
+
+  return (
+    <Card title="🗂️ Scenarios">
+      <div className="space-y-3">
+        <label className="block text-xs font-bold text-zinc-600">
+          Preset
+          <select
+            value={presetId}
+            onChange={(e) => setPresetId(e.target.value)}
+            className="mt-1 w-full rounded-lg border-2 border-black px-2 py-1 text-sm font-bold text-zinc-950"
+          >
+            {SCENARIO_PRESETS.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="text-xs text-zinc-500">{preset.description}</div>
+        <Button size="sm" onClick={() => report(() => load(preset.build({ now: new Date(), model })))}>
+          ▶ Load Preset
+        </Button>
+
+        <div className="pt-3 border-t border-black/10 space-y-2">
+          <label className="block text-xs font-bold text-zinc-600">
+            Name
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 w-full rounded-lg border-2 border-black px-2 py-1 text-sm font-bold text-zinc-950"
+            />
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="secondary" size="sm" onClick={save}>
+              💾 Save
+            </Button>
+            <Button variant="ghost" size="sm" onClick={share}>
+              🔗 Copy Share Link
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                const scenario = capture(name.trim() || "Untitled");
+                download(fileName(scenario.name), scenarioToJson(scenario), "application/json");
+              }}
+            >
+              ⬇ Export JSON
+            </Button>
+          </div>
+          <label className="block text-xs font-bold text-zinc-600">
+            Import a JSON export
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importJson(file);
+                e.target.value = "";
+              }}
+              className="mt-1 block w-full text-xs"
+            />
+          </label>
+        </div>
+
+        {saved.length > 0 && (
+          <div className="pt-3 border-t border-black/10 space-y-2 max-h-48 overflow-y-auto">
+            {saved.map((s) => (
+              <div key={s.name} className="flex items-center justify-between gap-2 rounded-lg bg-zinc-100 p-2 text-xs">
+                <div className="min-w-0">
+                  <div className="font-bold truncate">{s.name}</div>
+                  <div className="text-zinc-500">{new Date(s.savedAt).toLocaleString()}</div>
+                </div>
+                <div className="flex gap-1">
+                  <Button size="xs" variant="ghost" onClick={() => report(() => load(s.scenario))}>
+                    Load
+                  </Button>
+                  <Button size="xs" variant="ghost" onClick={() => setSaved(deleteSavedScenario(localStorage, s.name))}>
+                    ✕
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {status && <div className="text-xs font-bold text-green-700">{status}</div>}
+        {error && <div className="text-xs font-bold text-red-600">{error}</div>}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,137 @@
+import { formatMoney, formatSimDateTimeUTC, type SimEpoch } from "@/lib/simulation";
+
+// Dependency-free SVG charts for the live view. Lines are drawn in a 0..100
+// box stretched to the container; labels stay in HTML so they never distort.
+
+export const SERIES_COLORS = ["#2563eb", "#16a34a", "#db2777", "#d97706", "#7c3aed", "#0891b2", "#dc2626", "#65a30d"];
+
+export function seriesColor(index: number): string {
+  return SERIES_COLORS[index % SERIES_COLORS.length];
+}
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  // One value per entry of the chart's `times`
+  values: number[];
+}
+
+function Legend({ items }: { items: { label: string; color: string }[] }) {
+  return (
+    <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-[10px] font-bold text-zinc-600">
+      {items.map((item) => (
+        <span key={item.label} className="flex items-center gap-1">
+          <span className="inline-block h-2 w-2 rounded-sm border border-black" style={{ backgroundColor: item.color }} />
+          {item.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export function LineChart({ title, times, series, markers = [], format = formatMoney }: {
+  title: string;
+  // Simulated time (ms) of each point
+  times: number[];
+  series: ChartSeries[];
+  // Times to mark with a dashed line, e.g. epoch boundaries
+  markers?: number[];
+  format?: (value: number) => string;
+}) {
+  const first = times[0] ?? 0;
+  const span = Math.max(1, (times[times.length - 1] ?? 0) - first);
+  const max = Math.max(0, ...series.flatMap((s) => s.values));
+  const x = (t: number) => ((t - first) / span) * 100;
+  const y = (v: number) => (max > 0 ? 100 - (v / max) * 100 : 100);
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between text-xs">
+        <span className="font-black">{title}</span>
+        <span className="font-mono text-zinc-500">max {format(max)}</span>
+      </div>
+      <div className="mt-1 h-28 rounded-lg border-2 border-black bg-white">
+        {times.length < 2 ? (
+          <div className="flex h-full items-center justify-center text-xs text-zinc-400">Collecting samples…</div>
+        ) : (
+          <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="h-full w-full">
+            {markers.map((t) => (
+              <line
+                key={t}
+                x1={x(t)}
+                x2={x(t)}
+                y1={0}
+                y2={100}
+                stroke="#a1a1aa"
+                strokeDasharray="3 3"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {series.map((s) => (
+              <polyline
+                key={s.label}
+                points={s.values.map((v, i) => `${x(times[i])},${y(v)}`).join(" ")}
+                fill="none"
+                stroke={s.color}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+        )}
+      </div>
+      {times.length >= 2 && (
+        <div className="flex justify-between font-mono text-[10px] text-zinc-500">
+          <span>{formatSimDateTimeUTC(new Date(first))}</span>
+          <span>{formatSimDateTimeUTC(new Date(first + span))}</span>
+        </div>
+      )}
+      <Legend items={series} />
+    </div>
+  );
+}
+
+// Prize per past epoch, coloured by winning pool; oldest on the left
+export function DrawHistoryChart({ epochs }: { epochs: SimEpoch[] }) {
+  const shown = [...epochs].reverse();
+  const max = Math.max(0, ...shown.map((e) => e.prize));
+  const pools = [...new Set(shown.flatMap((e) => (e.winner ? [e.winner.poolId] : [])))].sort((a, b) => a - b);
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between text-xs">
+        <span className="font-black">Draws</span>
+        <span className="font-mono text-zinc-500">max ${formatMoney(max)}</span>
+      </div>
+      {shown.length === 0 ? (
+        <div className="mt-1 flex h-28 items-center justify-center rounded-lg border-2 border-black bg-white text-xs text-zinc-400">
+          No draws yet
+        </div>
+      ) : (
+        <div className="mt-1 flex h-28 items-end gap-1 rounded-lg border-2 border-black bg-white p-1">
+          {shown.map((e) => (
+            <div
+              key={e.id}
+              className="flex h-full flex-1 flex-col justify-end"
+              title={
+                e.winner
+                  ? `Epoch #${e.id}: Pool #${e.winner.poolId} won $${formatMoney(e.prize)}`
+                  : `Epoch #${e.id}: no winner`
+              }
+            >
+              {e.winner ? (
+                <svg viewBox="0 0 10 100" preserveAspectRatio="none" className="w-full" style={{ height: `${max > 0 ? Math.max(2, (e.prize / max) * 100) : 2}%` }}>
+                  <rect width={10} height={100} fill={seriesColor(e.winner.poolId)} />
+                </svg>
+              ) : (
+                <div className="text-center text-[10px] text-zinc-400">—</div>
+              )}
+              <div className="text-center font-mono text-[9px] text-zinc-500">#{e.id}</div>
+            </div>
+          ))}
+        </div>
+      )}
+      <Legend items={pools.map((id) => ({ label: `Pool #${id}`, color: seriesColor(id) }))} />
+    </div>
+  );
+}
@@ -2,171 +2,53 @@
 
 import Link from "next/link";
 import { useEffect, useState, useCallback, useRef } from "react";
-// Note: simulation-only page — no on-chain reads here
 
-// ════════════════════════════════════════════════════════════════════════════
-// TYPES & CONSTANTS
-// ════════════════════════════════════════════════════════════════════════════
-
-interface SimUser {
-  id: string;
-  name: string;
-  avatar: string;
-  deposits: Record<string, number>;
-  claimable: Record<string, number>;
-  poolId: number;
-  isYou: boolean;
-}
-
-interface SimToken {
-  symbol: string;
-  name: string;
-  icon: string;
-  color: string;
-  totalDeposits: number;
-  prizePool: number;
-  apy: number;
-}
-
-interface SimPool {
-  id: number;
-  deposits: Record<string, number>; // per-token deposits in this pool
-  // Time-weighted cumulative balance used for pool winner weighting
-  cumulativeWeight: number;
-}
-
-interface SimEpoch {
-  id: number;
-  start: Date;
-  end: Date;
-  status: "open" | "closed" | "randomnessRequested" | "randomnessReady" | "finalized";
-  winner: SimUser | null;
-  prize: number;
-  winningToken: string | null;
-  randomness: number | null;
-}
-
-interface LogEntry {
-  id: string;
-  time: Date;
-  type: "deposit" | "withdraw" | "yield" | "draw" | "claim" | "system" | "winner";
-  message: string;
-  user?: string;
-}
-
-const RANDOM_NAMES = [
-  "Alice", "Bob", "Charlie", "Diana", "Eve", "Frank", "Grace", "Henry",
-  "Ivy", "Jack", "Kate", "Leo", "Mia", "Noah", "Olivia", "Peter",
-  "Quinn", "Rose", "Sam", "Tina", "Uma", "Victor", "Wendy", "Xavier",
-  "Yara", "Zach", "Luna", "Max", "Bella", "Oscar", "Ruby", "Felix"
-];
-
-const AVATARS = ["🦊", "🐼", "🦁", "🐯", "🐸", "🦉", "🐙", "🦋", "🐳", "🦄", "🐲", "🦚"];
-
-const INITIAL_TOKENS: SimToken[] = [
-  { symbol: "USDC", name: "USD Coin", icon: "💲", color: "bg-blue-100", totalDeposits: 0, prizePool: 0, apy: 12 },
-  { symbol: "USDT", name: "Tether USD", icon: "💵", color: "bg-green-100", totalDeposits: 0, prizePool: 0, apy: 5 },
-];
+import {
+  SimulationEngine,
+  appendSample,
+  epochBoundaries,
+  formatMoney,
+  formatNumber,
+  formatSimDateTimeUTC,
+  getNextFriday,
+  sampleState,
+  scenarioFromEngine,
+  scenarioFromHash,
+  type Scenario,
+  type SimEpoch,
+  type SimLogEntry,
+  type SimModel,
+  type SimSample,
+  type SimState,
+  type SimToken,
+  type SimUser,
+} from "@/lib/simulation";
+
+import { ModelDiffPanel } from "./ModelDiffPanel";
+import { MonteCarloPanel } from "./MonteCarloPanel";
+import { ReplayPanel } from "./ReplayPanel";
+import { ScenarioCard } from "./ScenarioCard";
+import { DrawHistoryChart, LineChart, seriesColor } from "./charts";
+import { Button, Card, MODEL_LABELS, ModelField } from "./ui";
+// Note: simulation-only page — the live, batch and model views make no on-chain
+// reads; only the replay view loads a vault's event history. The model lives in
+// `lib/simulation`; this page only renders its state and drives it with timers.
 
 // ════════════════════════════════════════════════════════════════════════════
 // HELPERS
 // ════════════════════════════════════════════════════════════════════════════
 
-function randomId(): string {
-  return Math.random().toString(36).slice(2, 10);
-}
-
-function randomName(): string {
-  return RANDOM_NAMES[Math.floor(Math.random() * RANDOM_NAMES.length)];
-}
-
-function randomAvatar(): string {
-  return AVATARS[Math.floor(Math.random() * AVATARS.length)];
-}
-
-function formatNumber(n: number): string {
-  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
-  if (n >= 1_000) return `${(n / 1_000).toFixed(2)}K`;
-  return n.toFixed(2);
-}
-
-function formatMoney(n: number): string {
-  if (!Number.isFinite(n)) return "0.00";
-  const abs = Math.abs(n);
-  if (abs === 0) return "0.00";
-  if (abs < 0.01) return n.toFixed(6);
-  if (abs < 1) return n.toFixed(4);
-  return formatNumber(n);
-}
+// The live view teaches the vault's real mechanics unless switched
+const DEFAULT_MODEL: SimModel = "exact";
 
 function formatTime(date: Date): string {
-  return date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
-}
-
-function formatSimDateTimeUTC(date: Date): string {
-  const pad2 = (n: number) => String(n).padStart(2, "0");
-  return `${date.getUTCFullYear()}-${pad2(date.getUTCMonth() + 1)}-${pad2(date.getUTCDate())} ${pad2(date.getUTCHours())}:${pad2(date.getUTCMinutes())}:${pad2(date.getUTCSeconds())} UTC`;
-}
-
-function getNextFriday(from: Date): Date {
-  const d = new Date(from);
-  const day = d.getDay();
-  const daysUntilFriday = (5 - day + 7) % 7 || 7;
-  d.setDate(d.getDate() + daysUntilFriday);
-  d.setHours(12, 0, 0, 0);
-  return d;
+  return date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", second: "2-digit", timeZone: "UTC" });
 }
 
 // ════════════════════════════════════════════════════════════════════════════
 // COMPONENTS
 // ════════════════════════════════════════════════════════════════════════════
 
-function Card({ title, children, color = "white", className = "" }: {
-  title?: string;
-  children: React.ReactNode;
-  color?: "white" | "lime" | "amber" | "pink" | "blue" | "purple";
-  className?: string;
-}) {
-  const bgMap = {
-    white: "bg-white",
-    lime: "bg-lime-200",
-    amber: "bg-amber-100",
-    pink: "bg-pink-100",
-    blue: "bg-sky-100",
-    purple: "bg-purple-100",
-  };
-
-  return (
-    <div className={`rounded-2xl border-2 border-black ${bgMap[color]} p-4 shadow-[4px_4px_0_0_#000] ${className}`}>
-      {title && <h3 className="text-lg font-black text-zinc-950 mb-3">{title}</h3>}
-      {children}
-    </div>
-  );
-}
-
-function Button({ children, onClick, disabled, variant = "primary", size = "md" }: {
-  children: React.ReactNode;
-  onClick?: () => void;
-  disabled?: boolean;
-  variant?: "primary" | "secondary" | "danger" | "ghost";
-  size?: "xs" | "sm" | "md";
-}) {
-  const base = `rounded-xl border-2 border-black font-black shadow-[3px_3px_0_0_#000] disabled:opacity-50 disabled:cursor-not-allowed transition-all hover:translate-x-[1px] hover:translate-y-[1px] hover:shadow-[2px_2px_0_0_#000] active:translate-x-[2px] active:translate-y-[2px] active:shadow-[1px_1px_0_0_#000]`;
-  const sizes = { xs: "px-2 py-1 text-[10px]", sm: "px-3 py-1.5 text-xs", md: "px-4 py-2 text-sm" };
-  const variants = {
-    primary: "bg-zinc-950 text-zinc-50",
-    secondary: "bg-lime-300 text-zinc-950",
-    danger: "bg-red-400 text-white",
-    ghost: "bg-white text-zinc-950",
-  };
-
-  return (
-    <button onClick={onClick} disabled={disabled} className={`${base} ${sizes[size]} ${variants[variant]}`}>
-      {children}
-    </button>
-  );
-}
-
 function UserRow({ user, tokens, onDeposit, onWithdraw, onClaim }: {
   user: SimUser;
   tokens: SimToken[];
@@ -286,7 +168,7 @@ function EpochStatus({ epoch, simTime }: { epoch: SimEpoch; simTime: Date }) {
   );
 }
 
-function ActivityLog({ logs }: { logs: LogEntry[] }) {
+function ActivityLog({ logs }: { logs: SimLogEntry[] }) {
   const logRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -337,514 +219,188 @@ function ActivityLog({ logs }: { logs: LogEntry[] }) {
 // ════════════════════════════════════════════════════════════════════════════
 
 export default function SimulationPage() {
-  // Simulation state
-  // Start with a deterministic placeholder time to avoid SSR/CSR mismatches.
-  const [simTime, setSimTime] = useState(() => new Date(0));
   const [timeSpeed, setTimeSpeed] = useState(1); // 1 = real-time, 60 = 1 min/sec, 3600 = 1 hour/sec
   const [isRunning, setIsRunning] = useState(true);
   const [autoActions, setAutoActions] = useState(true);
-
-  // Users - deterministic initial list to avoid hydration mismatch
-  // Fixed pool size of 5 for the simulation protocol
-  const POOL_COUNT = 5;
-
-  const [users, setUsers] = useState<SimUser[]>(() =>
-    Array.from({ length: 8 }, (_, i) => ({
-      id: `user-${i}`,
-      name: RANDOM_NAMES[i % RANDOM_NAMES.length],
-      avatar: AVATARS[i % AVATARS.length],
-      deposits: {},
-      claimable: {},
-      poolId: i % POOL_COUNT,
-      isYou: i === 0,
-    }))
-  );
-
-  // Pools: fixed-size array representing protocol pools
-  const [pools, setPools] = useState<SimPool[]>(() =>
-    Array.from({ length: POOL_COUNT }, (_, i) => ({ id: i, deposits: {}, cumulativeWeight: 0 }))
-  );
-
-  // Tokens & Epochs
-  const [tokens, setTokens] = useState<SimToken[]>(INITIAL_TOKENS);
-  
-  // Epoch starts empty on the server; initialize on client mount to avoid mismatches
-  const [epoch, setEpoch] = useState<SimEpoch | null>(null);
-  const [epochHistory, setEpochHistory] = useState<SimEpoch[]>([]);
-
-  // Logs start empty (will be populated on client mount)
-  const [logs, setLogs] = useState<LogEntry[]>([]);
+  // Every mode but "live" swaps the live timeline for its panel and pauses it
+  const [mode, setMode] = useState<"live" | "batch" | "replay" | "models">("live");
+  const live = mode === "live";
+  const [model, setModel] = useState<SimModel>(DEFAULT_MODEL);
+
+  // The engine is created on client mount (it needs the current time), so the
+  // server renders the loading state and hydration never sees random values.
+  const engineRef = useRef<SimulationEngine | null>(null);
+  const [sim, setSim] = useState<SimState | null>(null);
+  // Time series for the charts, sampled whenever the state changes
+  const [samples, setSamples] = useState<SimSample[]>([]);
 
   // Guide state
   const [showGuide, setShowGuide] = useState(true);
 
-  const addLog = useCallback((type: LogEntry["type"], message: string, user?: string) => {
-    setLogs((prev) => [
-      { id: randomId(), time: new Date(), type, message, user },
-      ...prev.slice(0, 99),
-    ]);
+  // Runs `fn` against the engine and publishes the new state
+  const act = useCallback(<T,>(fn: (engine: SimulationEngine) => T): T | undefined => {
+    const engine = engineRef.current;
+    if (!engine) return undefined;
+    const result = fn(engine);
+    setSim(engine.state);
+    setSamples((prev) => appendSample(prev, sampleState(engine.state)));
+    return result;
   }, []);
 
-  // Track mount state with ref (doesn't trigger re-render)
-  const hasMounted = useRef(false);
-
-  // Populate dynamic values on client mount only (avoids SSR/CSR differences)
-  useEffect(() => {
-    if (hasMounted.current) return;
-    hasMounted.current = true;
-    
-    const now = new Date();
-    const nextDraw = getNextFriday(now);
-    
-    // Defer state updates slightly to avoid setState-in-effect lint rule
-    setTimeout(() => {
-      setSimTime(now);
-      setEpoch({
-        id: 1,
-        start: now,
-        end: nextDraw,
-        status: "open",
-        winner: null,
-        prize: 0,
-        winningToken: null,
-        randomness: null,
-      });
-      setLogs([
-        { id: randomId(), time: now, type: "system", message: "🎮 Simulation started! This is a web2 demo - no real transactions." },
-        { id: randomId(), time: now, type: "system", message: `Next draw scheduled for ${nextDraw.toLocaleString()}` },
-      ]);
-    }, 0);
+  // Installs a new run and starts its time series over
+  const startRun = useCallback((engine: SimulationEngine) => {
+    engineRef.current = engine;
+    setSim(engine.state);
+    setSamples([sampleState(engine.state)]);
   }, []);
 
-  // Accrue yield helper (seconds is number of elapsed seconds)
-  // Protocol model: yield accrues globally per token; the draw allocates that prize to a winning pool.
-  const accrueYield = useCallback((seconds: number) => {
-    if (seconds <= 0) return;
-    setTokens((prev) =>
-      prev.map((token) => {
-        if (token.totalDeposits === 0) return token;
-        const yieldGenerated = (token.totalDeposits * (token.apy / 100) * seconds) / 31536000;
-        return { ...token, prizePool: token.prizePool + yieldGenerated };
-      })
-    );
-  }, []);
+  // Replaces the live run with a saved one, settings included
+  const loadScenario = useCallback((scenario: Scenario) => {
+    const engine = SimulationEngine.restore(scenario.engine);
+    setModel(engine.model);
+    setTimeSpeed(scenario.timeSpeed);
+    setAutoActions(scenario.autoActions);
+    startRun(engine);
+  }, [startRun]);
+
+  const captureScenario = (name: string) =>
+    scenarioFromEngine(engineRef.current!, { name, timeSpeed, autoActions });
 
-  // Time-weighted pool weighting (approx): integrate pool total deposits over time
-  const accruePoolWeights = useCallback((seconds: number) => {
-    if (seconds <= 0) return;
-    setPools((prev) =>
-      prev.map((p) => {
-        const balance = Object.values(p.deposits).reduce((a, b) => a + b, 0);
-        return { ...p, cumulativeWeight: p.cumulativeWeight + balance * seconds };
+  useEffect(() => {
+    if (engineRef.current) return;
+    const fresh = () =>
+      new SimulationEngine({
+        seed: Math.floor(Math.random() * 2 ** 32),
+        startTime: new Date(),
+        model: DEFAULT_MODEL,
+      });
+    // A share link (`#scenario=…`) opens that scenario instead of a new world.
+    // The hash is read asynchronously, which also keeps setState out of the effect.
+    scenarioFromHash(window.location.hash)
+      .then((scenario) => {
+        if (scenario) {
+          loadScenario(scenario);
+          return;
+        }
+        startRun(fresh());
       })
-    );
-  }, []);
+      .catch((err: unknown) => {
+        console.error("Scenario link error:", err);
+        const engine = fresh();
+        engine.log("system", `⚠️ Could not open the shared scenario: ${err instanceof Error ? err.message : String(err)}`);
+        startRun(engine);
+      });
+  }, [loadScenario, startRun]);
+
+  // Restarts the live run under another model, keeping the seed
+  const switchModel = (next: SimModel) => {
+    const engine = new SimulationEngine({
+      seed: engineRef.current?.seed ?? Math.floor(Math.random() * 2 ** 32),
+      startTime: new Date(),
+      model: next,
+    });
+    setModel(next);
+    startRun(engine);
+  };
 
   // Time simulation tick
   useEffect(() => {
-    if (!isRunning) return;
-
-    const interval = setInterval(() => {
-      // Advance simulated time
-      setSimTime((prev) => new Date(prev.getTime() + timeSpeed * 1000));
-      // Accrue yield according to the advanced time (timeSpeed seconds)
-      accrueYield(timeSpeed);
-      // Accrue pool weights for pool winner selection
-      accruePoolWeights(timeSpeed);
-    }, 1000);
-
+    if (!isRunning || !live) return;
+    const interval = setInterval(() => act((engine) => engine.step(timeSpeed)), 1000);
     return () => clearInterval(interval);
-  }, [isRunning, timeSpeed, accrueYield, accruePoolWeights]);
+  }, [isRunning, live, timeSpeed, act]);
 
   // Random bot actions
   useEffect(() => {
-    if (!isRunning || !autoActions) return;
-
-    const interval = setInterval(() => {
-      setUsers((prevUsers) => {
-        if (prevUsers.length < 2) return prevUsers;
-
-        // Random action by random non-you user
-        const botUsers = prevUsers.filter((u) => !u.isYou);
-        if (botUsers.length === 0) return prevUsers;
-
-        const botUser = botUsers[Math.floor(Math.random() * botUsers.length)];
-        const token = tokens[Math.floor(Math.random() * tokens.length)];
-        const action = Math.random();
-
-        if (action < 0.7) {
-          // 70% chance: deposit
-          const amount = Math.floor(Math.random() * 500) + 50;
-          addLog("deposit", `${botUser.name} deposited $${amount} ${token.symbol}`, botUser.id);
-          
-          setTokens((t) => t.map((tk) => (tk.symbol === token.symbol ? { ...tk, totalDeposits: tk.totalDeposits + amount } : tk)));
-
-          // update pool totals
-          setPools((prev) =>
-            prev.map((p) =>
-              p.id === botUser.poolId
-                ? { ...p, deposits: { ...p.deposits, [token.symbol]: (p.deposits[token.symbol] || 0) + amount } }
-                : p
-            )
-          );
-
-          return prevUsers.map((u) =>
-            u.id === botUser.id
-              ? { ...u, deposits: { ...u.deposits, [token.symbol]: (u.deposits[token.symbol] || 0) + amount } }
-              : u
-          );
-        } else if (action < 0.9) {
-          // 20% chance: withdraw
-          const deposited = botUser.deposits[token.symbol] || 0;
-          if (deposited < 10) return prevUsers;
-          const amount = Math.min(deposited, Math.floor(Math.random() * 200) + 10);
-          addLog("withdraw", `${botUser.name} withdrew $${amount} ${token.symbol}`, botUser.id);
-          
-          setTokens((t) => t.map((tk) => (tk.symbol === token.symbol ? { ...tk, totalDeposits: Math.max(0, tk.totalDeposits - amount) } : tk)));
-
-          // reduce from pool totals
-          setPools((prev) =>
-            prev.map((p) =>
-              p.id === botUser.poolId
-                ? { ...p, deposits: { ...p.deposits, [token.symbol]: Math.max(0, (p.deposits[token.symbol] || 0) - amount) } }
-                : p
-            )
-          );
-
-          return prevUsers.map((u) =>
-            u.id === botUser.id
-              ? { ...u, deposits: { ...u.deposits, [token.symbol]: deposited - amount } }
-              : u
-          );
-        }
-
-        return prevUsers;
-      });
-    }, 3000 / Math.max(1, Math.sqrt(timeSpeed))); // Faster actions when time is sped up
-
+    if (!isRunning || !live || !autoActions) return;
+    const interval = setInterval(
+      () => act((engine) => engine.botAction()),
+      3000 / Math.max(1, Math.sqrt(timeSpeed)) // Faster actions when time is sped up
+    );
     return () => clearInterval(interval);
-  }, [isRunning, autoActions, timeSpeed, tokens, addLog]);
-
-  // Draw functions using refs to avoid circular dependency
-  const closeEpochRef = useRef<() => void>(() => {});
-  const requestRandomnessRef = useRef<() => void>(() => {});
-  const finalizeDrawRef = useRef<() => void>(() => {});
-  const startNewEpochRef = useRef<() => void>(() => {});
-
-  // Keep refs updated with latest state (must be in useEffect, not render)
-  useEffect(() => {
-    closeEpochRef.current = () => {
-      if (!epoch) return;
-      if (epoch.status !== "open") return;
-
-      addLog("draw", "Epoch closed. Keeper step: closeEpoch()");
-      setEpoch((e) => (e ? { ...e, status: "closed" } : null));
-    };
-
-    requestRandomnessRef.current = () => {
-      if (!epoch) return;
-      if (epoch.status !== "closed") return;
-
-      addLog("draw", "Keeper step: requestRandomness() via Pyth Entropy 🎲");
-      setEpoch((e) => (e ? { ...e, status: "randomnessRequested" } : null));
-
-      // Simulate async entropy callback
-      setTimeout(() => {
-        const r = Math.random();
-        addLog("draw", "Entropy callback received ✅");
-        setEpoch((e) => (e ? { ...e, status: "randomnessReady", randomness: r } : null));
-      }, 1200);
-    };
-
-    finalizeDrawRef.current = () => {
-      if (!epoch) return;
-      if (epoch.status !== "randomnessReady") return;
-
-      // Finalize draw: select winning pool + allocate prizes
-      setTimeout(() => {
-        // Select winning pool (protocol selects a pool, not a single user)
-        const eligiblePools = pools
-          .map((p) => ({
-            pool: p,
-            totalDeposits: Object.values(p.deposits).reduce((a, b) => a + b, 0),
-          }))
-          .filter((p) => p.totalDeposits > 0);
-
-        if (eligiblePools.length === 0) {
-          addLog("system", "No eligible deposits in any pool. Starting new epoch.");
-          startNewEpochRef.current();
-          return;
-        }
-
-        // Weight pools by time-weighted cumulative weight; fall back to current balance if all weights are 0
-        const totalCumulative = eligiblePools.reduce((a, b) => a + (b.pool.cumulativeWeight || 0), 0);
-        const totalWeight = totalCumulative > 0
-          ? totalCumulative
-          : eligiblePools.reduce((a, b) => a + b.totalDeposits, 0);
-
-        // Use epoch randomness if available; fallback to Math.random
-        const rand01 = epoch.randomness ?? Math.random();
-        let random = rand01 * totalWeight;
-        let winningPoolId = eligiblePools[0].pool.id;
-        for (const p of eligiblePools) {
-          const w = totalCumulative > 0 ? (p.pool.cumulativeWeight || 0) : p.totalDeposits;
-          random -= w;
-          if (random <= 0) {
-            winningPoolId = p.pool.id;
-            break;
-          }
-        }
-
-        // Allocate prizes: for each token, allocate the *global* prize pool to depositors of that token inside the winning pool.
-        const winningPool = pools.find((p) => p.id === winningPoolId);
-
-        const allocatableByToken = new Map<string, { prize: number; poolTokenDeposits: number }>();
-        for (const t of tokens) {
-          const poolTokenDeposits = winningPool?.deposits[t.symbol] || 0;
-          if (t.prizePool > 0 && poolTokenDeposits > 0) {
-            allocatableByToken.set(t.symbol, { prize: t.prizePool, poolTokenDeposits });
-          }
-        }
-
-        let totalPrizeAllocated = 0;
-        let winningToken: string | null = null;
-        let maxTokenPrize = 0;
-        for (const [symbol, a] of allocatableByToken.entries()) {
-          totalPrizeAllocated += a.prize;
-          if (a.prize > maxTokenPrize) {
-            maxTokenPrize = a.prize;
-            winningToken = symbol;
-          }
-        }
-
-        // Update users claimable amounts (pro-rata within winning pool, per token)
-        if (allocatableByToken.size > 0) {
-          setUsers((prev) =>
-            prev.map((u) => {
-              if (u.poolId !== winningPoolId) return u;
-              const newClaimable = { ...u.claimable };
-              for (const [symbol, a] of allocatableByToken.entries()) {
-                const userDep = u.deposits[symbol] || 0;
-                if (userDep <= 0) continue;
-                const share = a.prize * (userDep / a.poolTokenDeposits);
-                newClaimable[symbol] = (newClaimable[symbol] || 0) + share;
-              }
-              return { ...u, claimable: newClaimable };
-            })
-          );
-        }
-
-        // Reduce token prize pools only for tokens that were allocatable in the winning pool
-        if (allocatableByToken.size > 0) {
-          setTokens((prev) =>
-            prev.map((t) => (allocatableByToken.has(t.symbol) ? { ...t, prizePool: 0 } : t))
-          );
-        }
-
-        addLog(
-          "winner",
-          allocatableByToken.size === 0
-            ? `🏆 Pool #${winningPoolId} won, but had no deposits in prize-bearing tokens — prizes carry forward.`
-            : `🏆 Pool #${winningPoolId} won $${formatNumber(totalPrizeAllocated)} in prizes!`
-        );
-
-        // Update epoch (store pool as a pseudo-winner for display)
-        const poolWinner: SimUser = {
-          id: `pool-${winningPoolId}`,
-          name: `Pool #${winningPoolId}`,
-          avatar: "🏊",
-          deposits: {},
-          claimable: {},
-          poolId: winningPoolId,
-          isYou: false,
-        };
-
-        setEpoch((e) =>
-          e
-            ? {
-                ...e,
-                status: "finalized",
-                winner: poolWinner,
-                prize: totalPrizeAllocated,
-                winningToken,
-              }
-            : null
-        );
-
-        // Start new epoch after delay
-        setTimeout(() => {
-          startNewEpochRef.current();
-        }, 5000);
-      }, 250);
-    };
-
-    startNewEpochRef.current = () => {
-      if (epoch) {
-        setEpochHistory((prev) => [epoch, ...prev.slice(0, 9)]);
-      }
+  }, [isRunning, live, autoActions, timeSpeed, act]);
 
-      // Reset time-weighted pool weights for the new epoch (protocol weights are epoch-scoped)
-      setPools((prev) => prev.map((p) => ({ ...p, cumulativeWeight: 0 })));
+  // Keeper steps are paced with timers so each stage stays visible for a moment
+  const requestRandomness = useCallback(() => {
+    if (!act((engine) => engine.requestRandomness())) return;
+    // Simulate async entropy callback
+    setTimeout(() => act((engine) => engine.fulfillRandomness()), 1200);
+  }, [act]);
 
-      const nextDraw = getNextFriday(simTime);
-      const newEpoch: SimEpoch = {
-        id: (epoch?.id || 0) + 1,
-        start: simTime,
-        end: nextDraw,
-        status: "open",
-        winner: null,
-        prize: 0,
-        winningToken: null,
-        randomness: null,
-      };
-
-      setEpoch(newEpoch);
-      addLog("system", `New epoch #${newEpoch.id} started! Draw at ${nextDraw.toLocaleString()}`);
-    };
-  }, [epoch, users, tokens, pools, simTime, addLog]);
+  const finalizeDraw = useCallback(() => {
+    setTimeout(() => {
+      const result = act((engine) => engine.finalizeDraw());
+      // Start new epoch after delay
+      if (result) setTimeout(() => act((engine) => engine.startNewEpoch()), 5000);
+    }, 250);
+  }, [act]);
+
+  const runDraw = useCallback(() => {
+    act((engine) => engine.closeEpoch());
+    // Auto-advance keeper steps for the simulation
+    setTimeout(requestRandomness, 300);
+    setTimeout(finalizeDraw, 2000);
+  }, [act, requestRandomness, finalizeDraw]);
 
   // Check for draw time
+  const drawDue = sim !== null && sim.epoch.status === "open" && sim.now >= sim.epoch.end;
   useEffect(() => {
-    if (!epoch || epoch.status !== "open") return;
-
-    if (simTime >= epoch.end) {
-      closeEpochRef.current();
-      // Auto-advance keeper steps for the simulation
-      setTimeout(() => requestRandomnessRef.current(), 300);
-      setTimeout(() => finalizeDrawRef.current(), 2000);
-    }
-  }, [simTime, epoch]);
-
-  // Simulation-only: leaderboard and past winners are derived from in-memory pools/epochHistory
-
-  // Actions
-  const handleDeposit = (userId: string, tokenSymbol: string, amount: number) => {
-    const user = users.find((u) => u.id === userId);
-    if (!user) return;
-
-    setUsers((prev) =>
-      prev.map((u) =>
-        u.id === userId
-          ? { ...u, deposits: { ...u.deposits, [tokenSymbol]: (u.deposits[tokenSymbol] || 0) + amount } }
-          : u
-      )
-    );
-
-    setTokens((prev) =>
-      prev.map((t) => (t.symbol === tokenSymbol ? { ...t, totalDeposits: t.totalDeposits + amount } : t))
-    );
-
-    // update pool totals for this user's assigned pool
-    setPools((prev) =>
-      prev.map((p) =>
-        p.id === user.poolId ? { ...p, deposits: { ...p.deposits, [tokenSymbol]: (p.deposits[tokenSymbol] || 0) + amount } } : p
-      )
-    );
-
-    addLog("deposit", `${user.name} deposited $${amount} ${tokenSymbol}`, userId);
-  };
+    if (drawDue) runDraw();
+  }, [drawDue, runDraw]);
 
-  const handleWithdraw = (userId: string, tokenSymbol: string, amount: number) => {
-    const user = users.find((u) => u.id === userId);
-    if (!user) return;
-
-    const current = user.deposits[tokenSymbol] || 0;
-    if (current < amount) return;
-
-    setUsers((prev) =>
-      prev.map((u) =>
-        u.id === userId
-          ? { ...u, deposits: { ...u.deposits, [tokenSymbol]: current - amount } }
-          : u
-      )
-    );
-
-    setTokens((prev) =>
-      prev.map((t) => (t.symbol === tokenSymbol ? { ...t, totalDeposits: Math.max(0, t.totalDeposits - amount) } : t))
-    );
-
-    // reduce pool totals for user's pool
-    setPools((prev) =>
-      prev.map((p) =>
-        p.id === user.poolId ? { ...p, deposits: { ...p.deposits, [tokenSymbol]: Math.max(0, (p.deposits[tokenSymbol] || 0) - amount) } } : p
-      )
+  if (!sim) {
+    return (
+      <div className="min-h-dvh bg-gradient-to-br from-amber-50 via-white to-lime-50 text-zinc-950">
+        <main className="mx-auto w-full max-w-7xl px-4 py-6 text-zinc-500">Loading simulation...</main>
+      </div>
     );
+  }
 
-    addLog("withdraw", `${user.name} withdrew $${amount} ${tokenSymbol}`, userId);
-  };
+  const { now: simTime, users, tokens, pools, epoch, epochHistory, logs } = sim;
 
-  const handleClaim = (userId: string, tokenSymbol: string) => {
-    const user = users.find((u) => u.id === userId);
-    if (!user) return;
+  // Actions
+  const handleDeposit = (userId: string, tokenSymbol: string, amount: number) =>
+    act((engine) => engine.deposit(userId, tokenSymbol, amount));
 
-    const claimable = user.claimable[tokenSymbol] || 0;
-    if (claimable === 0) return;
+  const handleWithdraw = (userId: string, tokenSymbol: string, amount: number) =>
+    act((engine) => engine.withdraw(userId, tokenSymbol, amount));
 
-    setUsers((prev) =>
-      prev.map((u) => (u.id === userId ? { ...u, claimable: { ...u.claimable, [tokenSymbol]: 0 } } : u))
-    );
+  const handleClaim = (userId: string, tokenSymbol: string) => act((engine) => engine.claim(userId, tokenSymbol));
 
-    addLog("claim", `${user.name} claimed $${formatNumber(claimable)} ${tokenSymbol} prize! 🎉`, userId);
-  };
-
-  const addRandomUser = () => {
-    const newUser: SimUser = {
-      id: randomId(),
-      name: randomName(),
-      avatar: randomAvatar(),
-      deposits: {},
-      claimable: {},
-      poolId: users.length % POOL_COUNT,
-      isYou: false,
-    };
-    setUsers((prev) => [...prev, newUser]);
-    addLog("system", `${newUser.avatar} ${newUser.name} joined the lottery!`);
-  };
+  const addRandomUser = () => act((engine) => engine.addUser());
 
   const warpTime = (seconds: number) => {
-    // Compute new time from current simTime to ensure we can synchronously check epoch boundaries
-    const newTime = new Date(simTime.getTime() + seconds * 1000);
-    setSimTime(newTime);
-
-    // Accrue yield for the jumped period
-    accrueYield(seconds);
-    // Accrue pool weights for the jumped period
-    accruePoolWeights(seconds);
-
-    addLog("system", `⏩ Time warped forward ${seconds >= 3600 ? `${seconds / 3600}h` : seconds >= 60 ? `${seconds / 60}m` : `${seconds}s`}`);
-
-    // If we've moved past the epoch end, trigger the draw immediately
-    if (epoch && epoch.status === "open" && newTime >= epoch.end) {
-      // small timeout to allow state updates to flush
-      setTimeout(() => {
-        closeEpochRef.current();
-        setTimeout(() => requestRandomnessRef.current(), 300);
-        setTimeout(() => finalizeDrawRef.current(), 2000);
-      }, 50);
-    }
+    act((engine) => {
+      engine.step(seconds);
+      engine.log("system", `⏩ Time warped forward ${seconds >= 3600 ? `${seconds / 3600}h` : seconds >= 60 ? `${seconds / 60}m` : `${seconds}s`}`);
+    });
+    // Moving past the epoch end triggers the draw through the `drawDue` effect
   };
 
   const triggerManualDraw = () => {
-    if (!epoch) return;
     // Manual keeper step: advance one stage in the lifecycle
     if (epoch.status === "open") {
-      addLog("system", "Manual keeper: closeEpoch()");
-      closeEpochRef.current();
+      act((engine) => {
+        engine.log("system", "Manual keeper: closeEpoch()");
+        engine.closeEpoch();
+      });
       return;
     }
     if (epoch.status === "closed") {
-      addLog("system", "Manual keeper: requestRandomness()");
-      requestRandomnessRef.current();
+      act((engine) => engine.log("system", "Manual keeper: requestRandomness()"));
+      requestRandomness();
       return;
     }
     if (epoch.status === "randomnessReady") {
-      addLog("system", "Manual keeper: finalizeDraw()");
-      finalizeDrawRef.current();
+      act((engine) => engine.log("system", "Manual keeper: finalizeDraw()"));
+      finalizeDraw();
       return;
     }
   };
 
   const totalPrizePool = tokens.reduce((a, b) => a + b.prizePool, 0);
+  const times = samples.map((s) => s.time);
+  const markers = epochBoundaries(samples);
   const totalDeposits = tokens.reduce((a, b) => a + b.totalDeposits, 0);
 
   return (
@@ -862,6 +418,18 @@ export default function SimulationPage() {
             </span>
           </div>
           <div className="flex items-center gap-2">
+            <Button variant={live ? "secondary" : "ghost"} size="sm" onClick={() => setMode("live")}>
+              ⏱️ Live
+            </Button>
+            <Button variant={mode === "batch" ? "secondary" : "ghost"} size="sm" onClick={() => setMode("batch")}>
+              🎰 Monte Carlo
+            </Button>
+            <Button variant={mode === "replay" ? "secondary" : "ghost"} size="sm" onClick={() => setMode("replay")}>
+              📼 Replay
+            </Button>
+            <Button variant={mode === "models" ? "secondary" : "ghost"} size="sm" onClick={() => setMode("models")}>
+              ⚖️ Models
+            </Button>
             <Button variant={showGuide ? "secondary" : "ghost"} size="sm" onClick={() => setShowGuide(!showGuide)}>
               {showGuide ? "Hide" : "Show"} Guide
             </Button>
@@ -895,231 +463,299 @@ export default function SimulationPage() {
           </Card>
         )}
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* LEFT: Users & Tokens */}
-          <div className="lg:col-span-2 space-y-4">
-            {/* Prize Pool Banner */}
-            <Card color="lime">
-              <div className="flex items-center justify-between flex-wrap gap-4">
-                <div>
-                  <div className="text-sm font-bold text-zinc-600">💰 Total Prize Pool</div>
-                  <div className="text-4xl font-black">${formatMoney(totalPrizePool)}</div>
-                  <div className="text-xs text-zinc-500">From ${formatNumber(totalDeposits)} total deposits</div>
+        {live ? (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* LEFT: Users & Tokens */}
+            <div className="lg:col-span-2 space-y-4">
+              {/* Prize Pool Banner */}
+              <Card color="lime">
+                <div className="flex items-center justify-between flex-wrap gap-4">
+                  <div>
+                    <div className="text-sm font-bold text-zinc-600">💰 Total Prize Pool</div>
+                    <div className="text-4xl font-black">${formatMoney(totalPrizePool)}</div>
+                    <div className="text-xs text-zinc-500">From ${formatNumber(totalDeposits)} total deposits</div>
+                  </div>
+                  <div className="flex gap-2">
+                    {tokens.map((token) => (
+                      <div key={token.symbol} className={`rounded-xl ${token.color} border border-black px-3 py-2 text-center`}>
+                        <div className="text-lg">{token.icon}</div>
+                        <div className="text-xs font-bold">{token.symbol}</div>
+                        <div className="text-xs text-green-600">${formatMoney(token.prizePool)}</div>
+                        <div className="text-[10px] text-zinc-500">{token.apy}% APY</div>
+                      </div>
+                    ))}
+                  </div>
                 </div>
-                <div className="flex gap-2">
-                  {tokens.map((token) => (
-                    <div key={token.symbol} className={`rounded-xl ${token.color} border border-black px-3 py-2 text-center`}>
-                      <div className="text-lg">{token.icon}</div>
-                      <div className="text-xs font-bold">{token.symbol}</div>
-                      <div className="text-xs text-green-600">${formatMoney(token.prizePool)}</div>
-                      <div className="text-[10px] text-zinc-500">{token.apy}% APY</div>
-                    </div>
+              </Card>
+
+              {/* Users List */}
+              <Card title={`👥 Participants (${users.length})`}>
+                <div className="space-y-3 max-h-[400px] overflow-y-auto">
+                  {users.map((user) => (
+                    <UserRow
+                      key={user.id}
+                      user={user}
+                      tokens={tokens}
+                      onDeposit={handleDeposit}
+                      onWithdraw={handleWithdraw}
+                      onClaim={handleClaim}
+                    />
                   ))}
                 </div>
-              </div>
-            </Card>
+                <div className="mt-3 pt-3 border-t border-zinc-200">
+                  <Button variant="ghost" size="sm" onClick={addRandomUser}>
+                    ➕ Add Random User
+                  </Button>
+                </div>
+              </Card>
 
-            {/* Users List */}
-            <Card title={`👥 Participants (${users.length})`}>
-              <div className="space-y-3 max-h-[400px] overflow-y-auto">
-                {users.map((user) => (
-                  <UserRow
-                    key={user.id}
-                    user={user}
-                    tokens={tokens}
-                    onDeposit={handleDeposit}
-                    onWithdraw={handleWithdraw}
-                    onClaim={handleClaim}
+              {/* Charts */}
+              <Card title="📈 Charts">
+                <div className="grid md:grid-cols-2 gap-4">
+                  <LineChart
+                    title="Prize pool by token ($)"
+                    times={times}
+                    markers={markers}
+                    series={tokens.map((t, i) => ({
+                      label: t.symbol,
+                      color: seriesColor(i),
+                      values: samples.map((s) => s.prizePools[t.symbol] ?? 0),
+                    }))}
                   />
-                ))}
-              </div>
-              <div className="mt-3 pt-3 border-t border-zinc-200">
-                <Button variant="ghost" size="sm" onClick={addRandomUser}>
-                  ➕ Add Random User
-                </Button>
-              </div>
-            </Card>
+                  <LineChart
+                    title="Total deposits ($)"
+                    times={times}
+                    markers={markers}
+                    series={[{ label: "All tokens", color: seriesColor(0), values: samples.map((s) => s.totalDeposits) }]}
+                  />
+                  <LineChart
+                    title="Pool weights ($·days)"
+                    times={times}
+                    markers={markers}
+                    series={pools.map((p) => ({
+                      label: `Pool #${p.id}`,
+                      color: seriesColor(p.id),
+                      values: samples.map((s) => (s.poolWeights[p.id] ?? 0) / 86400),
+                    }))}
+                  />
+                  <DrawHistoryChart epochs={epochHistory} />
+                </div>
+                <div className="mt-2 text-[10px] text-zinc-500">
+                  Dashed lines mark new epochs.{" "}
+                  {sim.model === "exact"
+                    ? "Pool weights keep growing across draws, as the vault's `cumulative` does."
+                    : "Pool weights restart from zero every epoch."}
+                </div>
+              </Card>
 
-            {/* Activity Log */}
-            <Card title="📜 Activity Log">
-              <ActivityLog logs={logs} />
-            </Card>
-          </div>
+              {/* Activity Log */}
+              <Card title="📜 Activity Log">
+                <ActivityLog logs={logs} />
+              </Card>
+            </div>
 
-          {/* RIGHT: Controls & Epoch */}
-          <div className="space-y-4">
-            {/* Time Controls */}
-            <Card title="⏱️ Time Controls" color="amber">
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div className="text-sm text-zinc-600">Simulation Time</div>
-                  <div className="font-mono font-bold">{formatSimDateTimeUTC(simTime)}</div>
-                </div>
+            {/* RIGHT: Controls & Epoch */}
+            <div className="space-y-4">
+              {/* Time Controls */}
+              <Card title="⏱️ Time Controls" color="amber">
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm text-zinc-600">Simulation Time</div>
+                    <div className="font-mono font-bold">{formatSimDateTimeUTC(simTime)}</div>
+                  </div>
 
-                <div className="flex items-center gap-2">
-                  <Button variant={isRunning ? "danger" : "secondary"} size="sm" onClick={() => setIsRunning(!isRunning)}>
-                    {isRunning ? "⏸ Pause" : "▶ Play"}
-                  </Button>
-                  <select
-                    value={timeSpeed}
-                    onChange={(e) => setTimeSpeed(Number(e.target.value))}
-                    className="rounded-lg border-2 border-black px-2 py-1 text-sm font-bold"
-                  >
-                    <option value={1}>1× (Real-time)</option>
-                    <option value={60}>60× (1 min/sec)</option>
-                    <option value={3600}>3600× (1 hr/sec)</option>
-                    <option value={86400}>86400× (1 day/sec)</option>
-                  </select>
+                  <div className="flex items-center gap-2">
+                    <Button variant={isRunning ? "danger" : "secondary"} size="sm" onClick={() => setIsRunning(!isRunning)}>
+                      {isRunning ? "⏸ Pause" : "▶ Play"}
+                    </Button>
+                    <select
+                      value={timeSpeed}
+                      onChange={(e) => setTimeSpeed(Number(e.target.value))}
+                      className="rounded-lg border-2 border-black px-2 py-1 text-sm font-bold"
+                    >
+                      <option value={1}>1× (Real-time)</option>
+                      <option value={60}>60× (1 min/sec)</option>
+                      <option value={3600}>3600× (1 hr/sec)</option>
+                      <option value={86400}>86400× (1 day/sec)</option>
+                      {![1, 60, 3600, 86400].includes(timeSpeed) && <option value={timeSpeed}>{timeSpeed}×</option>}
+                    </select>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => warpTime(3600)}>+1 Hour</Button>
+                    <Button variant="ghost" size="sm" onClick={() => warpTime(86400)}>+1 Day</Button>
+                    <Button variant="secondary" size="sm" onClick={() => {
+                      const fridayNoon = getNextFriday(simTime);
+                      const diff = Math.ceil((fridayNoon.getTime() - simTime.getTime()) / 1000);
+                      warpTime(diff + 1);
+                    }}>
+                      🚀 Warp to Friday Noon
+                    </Button>
+                  </div>
                 </div>
+              </Card>
 
-                <div className="flex flex-wrap gap-2">
-                  <Button variant="ghost" size="sm" onClick={() => warpTime(3600)}>+1 Hour</Button>
-                  <Button variant="ghost" size="sm" onClick={() => warpTime(86400)}>+1 Day</Button>
-                  <Button variant="secondary" size="sm" onClick={() => {
-                    const fridayNoon = getNextFriday(simTime);
-                    const diff = Math.ceil((fridayNoon.getTime() - simTime.getTime()) / 1000);
-                    warpTime(diff + 1);
-                  }}>
-                    🚀 Warp to Friday Noon
+              {/* Current Epoch */}
+              <Card title="🎲 Current Epoch" color="purple">
+                <EpochStatus epoch={epoch} simTime={simTime} />
+                <div className="mt-4 pt-4 border-t border-black/10">
+                  <Button 
+                    variant="primary" 
+                    size="sm" 
+                    onClick={triggerManualDraw}
+                    disabled={!(epoch.status === "open" || epoch.status === "closed" || epoch.status === "randomnessReady")}
+                  >
+                    🎰 Run Keeper Step
                   </Button>
                 </div>
-              </div>
-            </Card>
+              </Card>
 
-            {/* Current Epoch */}
-            <Card title="🎲 Current Epoch" color="purple">
-              {epoch ? (
-                <EpochStatus epoch={epoch} simTime={simTime} />
-              ) : (
-                <div className="text-zinc-500">Loading...</div>
-              )}
-              <div className="mt-4 pt-4 border-t border-black/10">
-                <Button 
-                  variant="primary" 
-                  size="sm" 
-                  onClick={triggerManualDraw}
-                  disabled={!(epoch?.status === "open" || epoch?.status === "closed" || epoch?.status === "randomnessReady")}
-                >
-                  🎰 Run Keeper Step
-                </Button>
-              </div>
-            </Card>
+              {/* Accounting model */}
+              <Card title="🧮 Model">
+                <div className="space-y-3">
+                  <ModelField value={model} onChange={switchModel} />
+                  <div className="text-xs text-zinc-500">
+                    {model === "exact"
+                      ? "Follows WelotVault.sol: bigint balances, pool weights that are never reset, no winner while every weight is 0, prizes through the 1e18 reward index, pools assigned by address."
+                      : "The original float model: weights reset every epoch, current balances stand in for zero weights, prizes split pro rata, pools assigned round-robin."}
+                  </div>
+                  <div className="text-[10px] text-zinc-500">Switching restarts the simulation with the same seed.</div>
+                </div>
+              </Card>
 
-            {/* Bot Controls */}
-            <Card title="🤖 Bot Settings">
-              <div className="space-y-3">
-                <label className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={autoActions}
-                    onChange={(e) => setAutoActions(e.target.checked)}
-                    className="w-4 h-4"
-                  />
-                  <span className="text-sm font-bold">Auto bot deposits/withdrawals</span>
-                </label>
-                <div className="text-xs text-zinc-500">
-                  When enabled, bot users will randomly deposit and withdraw tokens to simulate real activity.
+              {/* Saved, shared and preset scenarios */}
+              <ScenarioCard model={model} capture={captureScenario} onLoad={loadScenario} />
+
+              {/* Bot Controls */}
+              <Card title="🤖 Bot Settings">
+                <div className="space-y-3">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={autoActions}
+                      onChange={(e) => setAutoActions(e.target.checked)}
+                      className="w-4 h-4"
+                    />
+                    <span className="text-sm font-bold">Auto bot deposits/withdrawals</span>
+                  </label>
+                  <div className="text-xs text-zinc-500">
+                    When enabled, bot users will randomly deposit and withdraw tokens to simulate real activity.
+                  </div>
                 </div>
-              </div>
-            </Card>
+              </Card>
 
-            {/* Leaderboard (simulated pools) */}
-            <Card title="🏆 Leaderboard (simulated)">
-              {pools.length === 0 ? (
-                <div className="text-zinc-500 text-sm">No pools available</div>
-              ) : (
-                <div className="space-y-2 text-sm">
-                  {pools
-                    .map((p) => ({
-                      id: p.id,
-                      total: Object.values(p.deposits).reduce((a, b) => a + b, 0),
-                    }))
-                    .sort((a, b) => b.total - a.total)
-                    .slice(0, 5)
-                    .map((p) => (
-                      <div key={p.id} className="flex justify-between items-center">
-                        <div>
-                          <div className="font-bold">Pool #{p.id}</div>
+              {/* Leaderboard (simulated pools) */}
+              <Card title="🏆 Leaderboard (simulated)">
+                {pools.length === 0 ? (
+                  <div className="text-zinc-500 text-sm">No pools available</div>
+                ) : (
+                  <div className="space-y-2 text-sm">
+                    {pools
+                      .map((p) => ({
+                        id: p.id,
+                        total: Object.values(p.deposits).reduce((a, b) => a + b, 0),
+                      }))
+                      .sort((a, b) => b.total - a.total)
+                      .slice(0, 5)
+                      .map((p) => (
+                        <div key={p.id} className="flex justify-between items-center">
+                          <div>
+                            <div className="font-bold">Pool #{p.id}</div>
+                          </div>
+                          <div className="text-right">
+                            <div className="font-black text-sm">${formatNumber(p.total)}</div>
+                          </div>
                         </div>
-                        <div className="text-right">
-                          <div className="font-black text-sm">${formatNumber(p.total)}</div>
+                      ))}
+                  </div>
+                )}
+              </Card>
+
+              {/* Past winners (simulated from epoch history) */}
+              <Card title="📜 Past Winners (simulated)">
+                {epochHistory.filter((e) => e.winner).length === 0 ? (
+                  <div className="text-zinc-500 text-sm">No winners yet in this simulation</div>
+                ) : (
+                  <div className="space-y-2 max-h-48 overflow-y-auto text-sm">
+                    {epochHistory
+                      .filter((e) => e.winner)
+                      .slice(0, 10)
+                      .map((e) => (
+                        <div key={e.id} className="rounded-lg bg-zinc-100 p-2">
+                          <div className="flex justify-between">
+                            <div className="font-bold">Epoch #{e.id}</div>
+                            <div className="text-green-600 font-black">${formatNumber(e.prize)}</div>
+                          </div>
+                          <div className="text-zinc-600 text-xs">Winner: {e.winner?.avatar} {e.winner?.name} (Pool #{e.winner?.poolId})</div>
                         </div>
-                      </div>
-                    ))}
-                </div>
-              )}
-            </Card>
+                      ))}
+                  </div>
+                )}
+              </Card>
 
-            {/* Past winners (simulated from epoch history) */}
-            <Card title="📜 Past Winners (simulated)">
-              {epochHistory.filter((e) => e.winner).length === 0 ? (
-                <div className="text-zinc-500 text-sm">No winners yet in this simulation</div>
-              ) : (
-                <div className="space-y-2 max-h-48 overflow-y-auto text-sm">
-                  {epochHistory
-                    .filter((e) => e.winner)
-                    .slice(0, 10)
-                    .map((e) => (
-                      <div key={e.id} className="rounded-lg bg-zinc-100 p-2">
+              {/* Epoch History */}
+              {epochHistory.length > 0 && (
+                <Card title="📊 Past Epochs">
+                  <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {epochHistory.map((e) => (
+                      <div key={e.id} className="rounded-lg bg-zinc-100 p-2 text-xs">
                         <div className="flex justify-between">
-                          <div className="font-bold">Epoch #{e.id}</div>
-                          <div className="text-green-600 font-black">${formatNumber(e.prize)}</div>
+                          <span className="font-bold">Epoch #{e.id}</span>
+                          {e.winner && <span className="text-green-600">${formatNumber(e.prize)}</span>}
                         </div>
-                        <div className="text-zinc-600 text-xs">Winner: {e.winner?.avatar} {e.winner?.name} (Pool #{e.winner?.poolId})</div>
+                        {e.winner && (
+                          <div className="text-zinc-600">
+                            Winner: {e.winner.avatar} {e.winner.name}
+                          </div>
+                        )}
                       </div>
                     ))}
-                </div>
+                  </div>
+                </Card>
               )}
-            </Card>
 
-            {/* Epoch History */}
-            {epochHistory.length > 0 && (
-              <Card title="📊 Past Epochs">
-                <div className="space-y-2 max-h-48 overflow-y-auto">
-                  {epochHistory.map((e) => (
-                    <div key={e.id} className="rounded-lg bg-zinc-100 p-2 text-xs">
-                      <div className="flex justify-between">
-                        <span className="font-bold">Epoch #{e.id}</span>
-                        {e.winner && <span className="text-green-600">${formatNumber(e.prize)}</span>}
-                      </div>
-                      {e.winner && (
-                        <div className="text-zinc-600">
-                          Winner: {e.winner.avatar} {e.winner.name}
-                        </div>
-                      )}
-                    </div>
-                  ))}
+              {/* Stats */}
+              <Card title="📈 Stats">
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-zinc-600">Total Users</span>
+                    <span className="font-bold">{users.length}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-zinc-600">Active Depositors</span>
+                    <span className="font-bold">{users.filter((u) => Object.values(u.deposits).some((d) => d > 0)).length}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-zinc-600">Total Deposits</span>
+                    <span className="font-bold">${formatNumber(totalDeposits)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-zinc-600">Prize Pool</span>
+                    <span className="font-bold text-green-600">${formatMoney(totalPrizePool)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-zinc-600">Epochs Completed</span>
+                    <span className="font-bold">{epochHistory.length}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-zinc-600">Model</span>
+                    <span className="font-bold">{MODEL_LABELS[sim.model]}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-zinc-600">Seed</span>
+                    <span className="font-mono font-bold">{sim.seed}</span>
+                  </div>
                 </div>
               </Card>
-            )}
-
-            {/* Stats */}
-            <Card title="📈 Stats">
-              <div className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <span className="text-zinc-600">Total Users</span>
-                  <span className="font-bold">{users.length}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-zinc-600">Active Depositors</span>
-                  <span className="font-bold">{users.filter((u) => Object.values(u.deposits).some((d) => d > 0)).length}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-zinc-600">Total Deposits</span>
-                  <span className="font-bold">${formatNumber(totalDeposits)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-zinc-600">Prize Pool</span>
-                  <span className="font-bold text-green-600">${formatMoney(totalPrizePool)}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-zinc-600">Epochs Completed</span>
-                  <span className="font-bold">{epochHistory.length}</span>
-                </div>
-              </div>
-            </Card>
+            </div>
           </div>
-        </div>
+        ) : mode === "batch" ? (
+          <MonteCarloPanel />
+        ) : mode === "replay" ? (
+          <ReplayPanel />
+        ) : (
+          <ModelDiffPanel />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,110 @@
+import type { SimModel } from "@/lib/simulation";
+
+// Neo-brutal building blocks shared by the simulator views
+
+export function Card({ title, children, color = "white", className = "" }: {
+  title?: string;
+  children: React.ReactNode;
+  color?: "white" | "lime" | "amber" | "pink" | "blue" | "purple";
+  className?: string;
+}) {
+  const bgMap = {
+    white: "bg-white",
+    lime: "bg-lime-200",
+    amber: "bg-amber-100",
+    pink: "bg-pink-100",
+    blue: "bg-sky-100",
+    purple: "bg-purple-100",
+  };
+
+  return (
+    <div className={`rounded-2xl border-2 border-black ${bgMap[color]} p-4 shadow-[4px_4px_0_0_#000] ${className}`}>
+      {title && <h3 className="text-lg font-black text-zinc-950 mb-3">{title}</h3>}
+      {children}
+    </div>
+  );
+}
+
+export function Button({ children, onClick, disabled, variant = "primary", size = "md" }: {
+  children: React.ReactNode;
+  onClick?: () => void;
+  disabled?: boolean;
+  variant?: "primary" | "secondary" | "danger" | "ghost";
+  size?: "xs" | "sm" | "md";
+}) {
+  const base = `rounded-xl border-2 border-black font-black shadow-[3px_3px_0_0_#000] disabled:opacity-50 disabled:cursor-not-allowed transition-all hover:translate-x-[1px] hover:translate-y-[1px] hover:shadow-[2px_2px_0_0_#000] active:translate-x-[2px] active:translate-y-[2px] active:shadow-[1px_1px_0_0_#000]`;
+  const sizes = { xs: "px-2 py-1 text-[10px]", sm: "px-3 py-1.5 text-xs", md: "px-4 py-2 text-sm" };
+  const variants = {
+    primary: "bg-zinc-950 text-zinc-50",
+    secondary: "bg-lime-300 text-zinc-950",
+    danger: "bg-red-400 text-white",
+    ghost: "bg-white text-zinc-950",
+  };
+
+  return (
+    <button onClick={onClick} disabled={disabled} className={`${base} ${sizes[size]} ${variants[variant]}`}>
+      {children}
+    </button>
+  );
+}
+
+export function download(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function formatPercent(p: number): string {
+  return `${(p * 100).toFixed(p < 0.01 ? 2 : 1)}%`;
+}
+
+export function NumberField({ label, value, onChange, min = 0, step = 1 }: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  step?: number;
+}) {
+  return (
+    <label className="block text-xs font-bold text-zinc-600">
+      {label}
+      <input
+        type="number"
+        min={min}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="mt-1 w-full rounded-lg border-2 border-black px-2 py-1 text-sm font-bold text-zinc-950"
+      />
+    </label>
+  );
+}
+
+export const MODEL_LABELS: Record<SimModel, string> = {
+  exact: "Contract-exact",
+  simplified: "Simplified",
+};
+
+export function ModelField({ value, onChange, disabled }: {
+  value: SimModel;
+  onChange: (value: SimModel) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <label className="block text-xs font-bold text-zinc-600">
+      Model
+      <select
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value as SimModel)}
+        className="mt-1 w-full rounded-lg border-2 border-black px-2 py-1 text-sm font-bold text-zinc-950"
+      >
+        <option value="exact">{MODEL_LABELS.exact} (bigint, vault rules)</option>
+        <option value="simplified">{MODEL_LABELS.simplified} (float)</option>
+      </select>
+    </label>
+  );
+}
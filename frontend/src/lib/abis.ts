@@ -1,361 +1,6 @@
-// WelotVault ABI - Multi-token no-loss lottery
-export const welotVaultAbi = [
-  // ═══════════════════════════════════════════════════════════════════
-  // ADMIN FUNCTIONS
-  // ═══════════════════════════════════════════════════════════════════
-  {
-    type: "function",
-    name: "addSupportedToken",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "token", type: "address" },
-      { name: "yieldVault", type: "address" },
-    ],
-    outputs: [],
-  },
-
-  {
-    type: "function",
-    name: "assignedPoolId",
-    stateMutability: "view",
-    inputs: [{ name: "user", type: "address" }],
-    outputs: [{ name: "poolId", type: "uint256" }],
-  },
-
-  // ═══════════════════════════════════════════════════════════════════
-  // USER FUNCTIONS
-  // ═══════════════════════════════════════════════════════════════════
-  {
-    type: "function",
-    name: "deposit",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "token", type: "address" },
-      { name: "amount", type: "uint256" },
-    ],
-    outputs: [],
-  },
-  {
-    type: "function",
-    name: "depositTo",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "token", type: "address" },
-      { name: "amount", type: "uint256" },
-      { name: "poolId", type: "uint256" },
-      { name: "recipient", type: "address" },
-    ],
-    outputs: [],
-  },
-  {
-    type: "function",
-    name: "withdraw",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "token", type: "address" },
-      { name: "amount", type: "uint256" },
-    ],
-    outputs: [],
-  },
-  {
-    type: "function",
-    name: "withdrawFrom",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "token", type: "address" },
-      { name: "amount", type: "uint256" },
-      { name: "poolId", type: "uint256" },
-    ],
-    outputs: [],
-  },
-  {
-    type: "function",
-    name: "claimPrize",
-    stateMutability: "nonpayable",
-    inputs: [{ name: "token", type: "address" }],
-    outputs: [{ name: "prize", type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "claimPrizeFrom",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "token", type: "address" },
-      { name: "poolId", type: "uint256" },
-    ],
-    outputs: [{ name: "prize", type: "uint256" }],
-  },
-
-  // ═══════════════════════════════════════════════════════════════════
-  // VIEW FUNCTIONS
-  // ═══════════════════════════════════════════════════════════════════
-  {
-    type: "function",
-    name: "currentPrizePool",
-    stateMutability: "view",
-    inputs: [{ name: "token", type: "address" }],
-    outputs: [{ name: "prize", type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "currentPrizePoolTotal",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "total", type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "totalAssets",
-    stateMutability: "view",
-    inputs: [{ name: "token", type: "address" }],
-    outputs: [{ name: "assets", type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "totalDepositsNormalized",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "total", type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "tokenConfigs",
-    stateMutability: "view",
-    inputs: [{ name: "token", type: "address" }],
-    outputs: [
-      { name: "enabled", type: "bool" },
-      { name: "yieldVault", type: "address" },
-      { name: "decimals", type: "uint8" },
-      { name: "totalDeposits", type: "uint256" },
-      { name: "totalUnclaimedPrizes", type: "uint256" },
-    ],
-  },
-  {
-    type: "function",
-    name: "supportedTokensLength",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "len", type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "getSupportedToken",
-    stateMutability: "view",
-    inputs: [{ name: "index", type: "uint256" }],
-    outputs: [{ name: "token", type: "address" }],
-  },
-  {
-    type: "function",
-    name: "currentEpochId",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "epochId", type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "epochs",
-    stateMutability: "view",
-    inputs: [{ name: "epochId", type: "uint256" }],
-    outputs: [
-      { name: "start", type: "uint64" },
-      { name: "end", type: "uint64" },
-      { name: "status", type: "uint8" },
-      { name: "entropySequence", type: "uint64" },
-      { name: "randomness", type: "bytes32" },
-      { name: "prize", type: "uint256" },
-      { name: "winningPoolId", type: "uint256" },
-    ],
-  },
-  {
-    type: "function",
-    name: "getTimeUntilDraw",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "seconds", type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "getNextFridayNoon",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "timestamp", type: "uint64" }],
-  },
-  {
-    type: "function",
-    name: "poolIdsLength",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "len", type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "poolIds",
-    stateMutability: "view",
-    inputs: [{ name: "index", type: "uint256" }],
-    outputs: [{ name: "poolId", type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "pools",
-    stateMutability: "view",
-    inputs: [{ name: "poolId", type: "uint256" }],
-    outputs: [
-      { name: "exists", type: "bool" },
-      { name: "totalDeposits", type: "uint256" },
-      { name: "cumulative", type: "uint256" },
-      { name: "lastTimestamp", type: "uint64" },
-      { name: "lastBalance", type: "uint256" },
-    ],
-  },
-  {
-    type: "function",
-    name: "getUserPosition",
-    stateMutability: "view",
-    inputs: [
-      { name: "token", type: "address" },
-      { name: "poolId", type: "uint256" },
-      { name: "user", type: "address" },
-    ],
-    outputs: [
-      { name: "deposited", type: "uint256" },
-      { name: "claimable", type: "uint256" },
-    ],
-  },
-
-  // Past winners (ring buffer)
-  {
-    type: "function",
-    name: "getPastWinners",
-    stateMutability: "view",
-    inputs: [{ name: "limit", type: "uint256" }],
-    outputs: [
-      {
-        name: "",
-        type: "tuple[]",
-        components: [
-          { name: "epochId", type: "uint256" },
-          { name: "timestamp", type: "uint64" },
-          { name: "winningPoolId", type: "uint256" },
-          { name: "totalPrizeNormalized", type: "uint256" },
-        ],
-      },
-    ],
-  },
-  {
-    type: "function",
-    name: "poolTokenDeposits",
-    stateMutability: "view",
-    inputs: [
-      { name: "token", type: "address" },
-      { name: "poolId", type: "uint256" },
-    ],
-    outputs: [{ name: "deposits", type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "epochTokenPrize",
-    stateMutability: "view",
-    inputs: [
-      { name: "epochId", type: "uint256" },
-      { name: "token", type: "address" },
-    ],
-    outputs: [{ name: "prize", type: "uint256" }],
-  },
-
-  // ═══════════════════════════════════════════════════════════════════
-  // DRAW FUNCTIONS (can be called manually or by automation)
-  // ═══════════════════════════════════════════════════════════════════
-  {
-    type: "function",
-    name: "closeEpoch",
-    stateMutability: "nonpayable",
-    inputs: [],
-    outputs: [],
-  },
-  {
-    type: "function",
-    name: "requestRandomness",
-    stateMutability: "payable",
-    inputs: [],
-    outputs: [],
-  },
-  {
-    type: "function",
-    name: "finalizeDraw",
-    stateMutability: "nonpayable",
-    inputs: [],
-    outputs: [],
-  },
-
-  // ═══════════════════════════════════════════════════════════════════
-  // EVENTS
-  // ═══════════════════════════════════════════════════════════════════
-  {
-    type: "event",
-    name: "TokenAdded",
-    inputs: [
-      { name: "token", type: "address", indexed: true },
-      { name: "yieldVault", type: "address", indexed: true },
-    ],
-  },
-  {
-    type: "event",
-    name: "Deposited",
-    inputs: [
-      { name: "user", type: "address", indexed: true },
-      { name: "token", type: "address", indexed: true },
-      { name: "poolId", type: "uint256", indexed: true },
-      { name: "amount", type: "uint256", indexed: false },
-    ],
-  },
-  {
-    type: "event",
-    name: "Withdrawn",
-    inputs: [
-      { name: "user", type: "address", indexed: true },
-      { name: "token", type: "address", indexed: true },
-      { name: "poolId", type: "uint256", indexed: true },
-      { name: "amount", type: "uint256", indexed: false },
-    ],
-  },
-  {
-    type: "event",
-    name: "WinnerSelected",
-    inputs: [
-      { name: "epochId", type: "uint256", indexed: true },
-      { name: "winningPoolId", type: "uint256", indexed: true },
-      { name: "prize", type: "uint256", indexed: false },
-    ],
-  },
-  {
-    type: "event",
-    name: "PastWinnerRecorded",
-    inputs: [
-      { name: "epochId", type: "uint256", indexed: true },
-      { name: "winningPoolId", type: "uint256", indexed: true },
-      { name: "totalPrizeNormalized", type: "uint256", indexed: false },
-    ],
-  },
-  {
-    type: "event",
-    name: "TokenPrizeRecorded",
-    inputs: [
-      { name: "epochId", type: "uint256", indexed: true },
-      { name: "token", type: "address", indexed: true },
-      { name: "prize", type: "uint256", indexed: false },
-    ],
-  },
-  {
-    type: "event",
-    name: "PrizeClaimed",
-    inputs: [
-      { name: "user", type: "address", indexed: true },
-      { name: "token", type: "address", indexed: true },
-      { name: "poolId", type: "uint256", indexed: true },
-      { name: "amount", type: "uint256", indexed: false },
-    ],
-  },
-] as const;
+// Vault, Entropy and faucet ABIs are generated from the Foundry artifacts
+// (`npm run abis`); the rest cover only what we call on tokens and yield vaults.
+export { entropyAbi, faucetAbi, mockEntropyAbi, welotVaultAbi } from "./generated/abis";
 
 export const erc20Abi = [
   {
@@ -402,6 +47,13 @@ export const erc20Abi = [
     inputs: [],
     outputs: [{ name: "decimals", type: "uint8" }],
   },
+  {
+    type: "function",
+    name: "symbol",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "symbol", type: "string" }],
+  },
 ] as const;
 
 export const mockErc20FaucetAbi = [
@@ -417,38 +69,31 @@ export const mockErc20FaucetAbi = [
   },
 ] as const;
 
-// Multi-token faucet ABI
-export const faucetAbi = [
-  {
-    type: "function",
-    name: "claim",
-    stateMutability: "nonpayable",
-    inputs: [{ name: "token", type: "address" }],
-    outputs: [],
-  },
+export const erc4626Abi = [
   {
     type: "function",
-    name: "claimAll",
-    stateMutability: "nonpayable",
-    inputs: [],
-    outputs: [],
+    name: "maxWithdraw",
+    stateMutability: "view",
+    inputs: [{ name: "owner", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
   },
   {
     type: "function",
-    name: "canClaim",
+    name: "previewWithdraw",
     stateMutability: "view",
-    inputs: [
-      { name: "user", type: "address" },
-      { name: "token", type: "address" },
-    ],
-    outputs: [{ name: "", type: "bool" }],
+    inputs: [{ name: "assets", type: "uint256" }],
+    outputs: [{ name: "", type: "uint256" }],
   },
+] as const;
+
+// LendleYieldVault extras on top of ERC-4626
+export const lendleYieldVaultAbi = [
   {
     type: "function",
-    name: "getTokens",
+    name: "aToken",
     stateMutability: "view",
     inputs: [],
-    outputs: [{ name: "", type: "address[]" }],
+    outputs: [{ name: "", type: "address" }],
   },
 ] as const;
 
@@ -468,3 +113,60 @@ export const mockErc4626FaucetAbi = [
     outputs: [],
   },
 ] as const;
+
+// Errors raised by contracts the vault calls into (tokens, yield vaults,
+// Lendle). Their revert data bubbles up through the vault unchanged, so these
+// decode a vault revert that `welotVaultAbi` alone cannot.
+export const externalErrorsAbi = [
+  {
+    type: "error",
+    name: "ERC20InsufficientBalance",
+    inputs: [
+      { name: "sender", type: "address" },
+      { name: "balance", type: "uint256" },
+      { name: "needed", type: "uint256" },
+    ],
+  },
+  {
+    type: "error",
+    name: "ERC20InsufficientAllowance",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "allowance", type: "uint256" },
+      { name: "needed", type: "uint256" },
+    ],
+  },
+  {
+    type: "error",
+    name: "ERC4626ExceededMaxDeposit",
+    inputs: [
+      { name: "receiver", type: "address" },
+      { name: "assets", type: "uint256" },
+      { name: "max", type: "uint256" },
+    ],
+  },
+  {
+    type: "error",
+    name: "ERC4626ExceededMaxWithdraw",
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "assets", type: "uint256" },
+      { name: "max", type: "uint256" },
+    ],
+  },
+  {
+    type: "error",
+    name: "LendleYieldVault__WithdrawAmountMismatch",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "MockLendlePool__ReserveNotActive",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "MockLendlePool__InsufficientLiquidity",
+    inputs: [],
+  },
+] as const;
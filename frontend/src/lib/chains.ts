@@ -1,3 +1,4 @@
+import { defineChain } from "viem";
 import type { Chain } from "viem";
 
 // Mantle Mainnet
@@ -12,6 +13,12 @@ export const mantleMainnet: Chain = {
   blockExplorers: {
     default: { name: "Mantlescan", url: "https://mantlescan.xyz" },
   },
+  contracts: {
+    multicall3: {
+      address: "0xcA11bde05977b3631167028862bE2a173976CA11",
+      blockCreated: 304717,
+    },
+  },
 };
 
 // Mantle Sepolia Testnet
@@ -26,10 +33,16 @@ export const mantleTestnet: Chain = {
   blockExplorers: {
     default: { name: "Mantlescan", url: "https://sepolia.mantlescan.xyz" },
   },
+  contracts: {
+    multicall3: {
+      address: "0xcA11bde05977b3631167028862bE2a173976CA11",
+      blockCreated: 4584012,
+    },
+  },
   testnet: true,
 };
 
-// Local Anvil for development
+// Local Anvil for development (no Multicall3 deployed; batched reads fall back to sequential calls)
 export const localAnvil: Chain = {
   id: 31337,
   name: "Anvil",
@@ -40,13 +53,62 @@ export const localAnvil: Chain = {
   },
 };
 
-// Get chain from env or default to local
-export function getChain(): Chain {
+// Chain the build targets (`NEXT_PUBLIC_CHAIN_ID`), default local. The env
+// addresses in `config.ts` belong to this chain.
+export function getDefaultChain(): Chain {
   const chainId = process.env.NEXT_PUBLIC_CHAIN_ID;
   if (chainId === "5000") return mantleMainnet;
   if (chainId === "5003") return mantleTestnet;
   return localAnvil;
 }
 
+const CHAIN_STORAGE_KEY = "welot.chain";
+
+// Chain picked in the network switcher, else the default. Server renders and
+// Node scripts always get the default.
+export function getChain(): Chain {
+  if (typeof window === "undefined") return getDefaultChain();
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(CHAIN_STORAGE_KEY);
+  } catch {
+    // Storage blocked: stay on the default
+  }
+  return supportedChains.find((c) => String(c.id) === stored) ?? getDefaultChain();
+}
+
+// Persists the switcher's choice; the page reloads so every client, cached
+// read and wallet check picks up the new chain
+export function selectChain(chainId: number): void {
+  try {
+    if (chainId === getDefaultChain().id) localStorage.removeItem(CHAIN_STORAGE_KEY);
+    else localStorage.setItem(CHAIN_STORAGE_KEY, String(chainId));
+  } catch {
+    // Storage blocked: the switch lasts until the reload
+  }
+}
+
 // All supported chains
 export const supportedChains = [mantleMainnet, mantleTestnet, localAnvil];
+
+// Chain for Node scripts (keeper, indexer): a known definition when the id
+// matches, otherwise a minimal one. `rpcUrl` overrides the default RPC.
+export function resolveChain(chainId: number, rpcUrl?: string): Chain {
+  const known = supportedChains.find((c) => c.id === chainId);
+  const base =
+    known ??
+    defineChain({
+      id: chainId,
+      name: `chain-${chainId}`,
+      nativeCurrency: { name: "Native", symbol: "NATIVE", decimals: 18 },
+      rpcUrls: { default: { http: [rpcUrl ?? ""] } },
+    });
+  if (!rpcUrl) return base;
+  return {
+    ...base,
+    rpcUrls: {
+      default: { http: [rpcUrl] },
+      public: { http: [rpcUrl] },
+    },
+  };
+}
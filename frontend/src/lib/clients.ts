@@ -1,13 +1,14 @@
 import { createPublicClient, createWalletClient, custom, http } from "viem";
 import type { Address, EIP1193Provider } from "viem";
-import { getChain, mantleMainnet, mantleTestnet, localAnvil } from "./chains";
+import { getChain, getDefaultChain } from "./chains";
 import { optionalEnv } from "./env";
 
 export function getRpcUrl(): string {
-  const envRpc = optionalEnv("NEXT_PUBLIC_RPC_URL");
-  if (envRpc) return envRpc;
-  
   const chain = getChain();
+  // `NEXT_PUBLIC_RPC_URL` is for the build's own chain, not one picked at runtime
+  const envRpc = optionalEnv("NEXT_PUBLIC_RPC_URL");
+  if (envRpc && chain.id === getDefaultChain().id) return envRpc;
+
   return chain.rpcUrls.default.http[0];
 }
 
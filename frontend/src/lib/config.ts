@@ -1,4 +1,6 @@
 import type { Address } from "viem";
+import { getChain, getDefaultChain } from "./chains";
+import { DEPLOYMENTS, type Deployment } from "./deployments";
 import { optionalEnv } from "./env";
 
 function asAddress(v: string | undefined): Address | undefined {
@@ -6,6 +8,14 @@ function asAddress(v: string | undefined): Address | undefined {
   return v as Address;
 }
 
+// Unset or malformed (e.g. "12,345") falls back to the registry rather than
+// throwing from a `CONFIG` getter during render
+function asBlockNumber(v: string | undefined): bigint | undefined {
+  const trimmed = v?.trim();
+  if (!trimmed || !/^\d+$/.test(trimmed)) return undefined;
+  return BigInt(trimmed);
+}
+
 // Token info type
 export interface TokenInfo {
   address: Address;
@@ -36,18 +46,51 @@ export const TOKENS: Record<string, TokenInfo> = {
   },
 };
 
-// Main config
-export const CONFIG = {
+// Addresses set through `NEXT_PUBLIC_*`; they belong to `getDefaultChain()`
+const ENV_CONFIG = {
   vaultAddress: asAddress(optionalEnv("NEXT_PUBLIC_WELOT_VAULT")),
+  vaultDeployBlock: asBlockNumber(optionalEnv("NEXT_PUBLIC_WELOT_VAULT_DEPLOY_BLOCK")),
   entropyAddress: asAddress(optionalEnv("NEXT_PUBLIC_ENTROPY")),
   faucetAddress: asAddress(optionalEnv("NEXT_PUBLIC_FAUCET")),
 };
 
-// Get all configured tokens (those with valid addresses)
+// Deployment on `chainId` (default: the selected chain). On the build's own
+// chain, env vars override the registry entry field by field.
+export function getDeployment(chainId: number = getChain().id): Deployment {
+  const known = DEPLOYMENTS[chainId] ?? { chainId, vaultDeployBlock: 0n, tokens: [] };
+  if (chainId !== getDefaultChain().id) return known;
+
+  const envTokens = Object.values(TOKENS).filter((t) => t.address && t.address !== "0x");
+  return {
+    chainId,
+    vault: ENV_CONFIG.vaultAddress ?? known.vault,
+    vaultDeployBlock: ENV_CONFIG.vaultDeployBlock ?? known.vaultDeployBlock,
+    entropy: ENV_CONFIG.entropyAddress ?? known.entropy,
+    faucet: ENV_CONFIG.faucetAddress ?? known.faucet,
+    tokens: envTokens.length > 0 ? envTokens : known.tokens,
+  };
+}
+
+// Main config, for the selected chain
+export const CONFIG = {
+  get vaultAddress(): Address | undefined {
+    return getDeployment().vault;
+  },
+  // First block to scan for vault events (history page); 0 scans from genesis
+  get vaultDeployBlock(): bigint {
+    return getDeployment().vaultDeployBlock;
+  },
+  get entropyAddress(): Address | undefined {
+    return getDeployment().entropy;
+  },
+  get faucetAddress(): Address | undefined {
+    return getDeployment().faucet;
+  },
+};
+
+// Get all configured tokens on the selected chain
 export function getConfiguredTokens(): TokenInfo[] {
-  return Object.values(TOKENS).filter(
-    (t) => t.address && t.address !== "0x"
-  );
+  return getDeployment().tokens;
 }
 
 // Mantle mainnet token addresses (for reference)
@@ -0,0 +1,56 @@
+import type { Address } from "viem";
+
+import { localAnvil, mantleMainnet } from "./chains";
+import type { TokenInfo } from "./config";
+import { importedDeployments } from "./generated/deployments";
+
+// Welot contracts deployed on one chain
+export interface Deployment {
+  chainId: number;
+  vault?: Address;
+  // First block to scan for vault events; 0 scans from genesis
+  vaultDeployBlock: bigint;
+  entropy?: Address;
+  // Test faucet (testnets and Anvil only)
+  faucet?: Address;
+  // Mock Lendle pool (testnets and Anvil only)
+  lendlePool?: Address;
+  tokens: TokenInfo[];
+  // Broadcast the addresses were imported from (`npm run deployments`)
+  source?: { script: string; commit?: string; timestamp: number };
+}
+
+function token(symbol: "USDC" | "USDT", address: Address, vaultAddress?: Address): TokenInfo {
+  return {
+    address,
+    symbol,
+    name: symbol === "USDC" ? "USD Coin" : "Tether USD",
+    decimals: 6,
+    icon: `/icons/${symbol.toLowerCase()}.svg`,
+    vaultAddress,
+  };
+}
+
+// Known deployments by chain id. Broadcast imports (`npm run deployments`)
+// replace the hand-written entries; the `NEXT_PUBLIC_*` env vars override the
+// entry for the build's own chain (see `getDeployment` in config.ts), so a
+// local redeploy only needs `.env.local`.
+export const DEPLOYMENTS: Record<number, Deployment> = {
+  [mantleMainnet.id]: {
+    chainId: mantleMainnet.id,
+    // Vault not deployed yet; the tokens are Mantle's own USDC/USDT
+    vaultDeployBlock: 0n,
+    tokens: [
+      token("USDC", "0x09Bc4E0D864854c6aFB6eB9A9cdF58aC190D0dF9"),
+      token("USDT", "0x201EBa5CC46D216Ce6DC03F6a759e8E766e956aE"),
+    ],
+  },
+  // Addresses change with every `DeployLocal.s.sol` run; set them in .env.local
+  // (`npm run deployments -- --env 31337`)
+  [localAnvil.id]: {
+    chainId: localAnvil.id,
+    vaultDeployBlock: 0n,
+    tokens: [],
+  },
+  ...importedDeployments,
+};
@@ -16,6 +16,7 @@ const NEXT_PUBLIC_ENV: Record<string, string | undefined> = {
   NEXT_PUBLIC_CHAIN_ID: process.env.NEXT_PUBLIC_CHAIN_ID,
 
   NEXT_PUBLIC_WELOT_VAULT: process.env.NEXT_PUBLIC_WELOT_VAULT,
+  NEXT_PUBLIC_WELOT_VAULT_DEPLOY_BLOCK: process.env.NEXT_PUBLIC_WELOT_VAULT_DEPLOY_BLOCK,
   NEXT_PUBLIC_ENTROPY: process.env.NEXT_PUBLIC_ENTROPY,
   NEXT_PUBLIC_FAUCET: process.env.NEXT_PUBLIC_FAUCET,
 
@@ -0,0 +1,1056 @@
+// Generated by scripts/generateAbis.ts from the Foundry artifacts in contracts/out.
+// Do not edit: change the contracts, `forge build`, then `npm run abis`.
+
+// WelotVault
+export const welotVaultAbi = [
+  {
+    type: "constructor",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "entropy_", type: "address" },
+      { name: "drawIntervalSeconds_", type: "uint64" },
+      { name: "maxPools_", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "DRAW_DAY",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    type: "function",
+    name: "DRAW_HOUR",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    type: "function",
+    name: "PAST_WINNERS_MAX",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "addSupportedToken",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "yieldVault", type: "address" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "assignedPoolId",
+    stateMutability: "view",
+    inputs: [{ name: "user", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "automationForwarder",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "checkUpkeep",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "bytes" }],
+    outputs: [
+      { name: "upkeepNeeded", type: "bool" },
+      { name: "performData", type: "bytes" },
+    ],
+  },
+  {
+    type: "function",
+    name: "claimPrize",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "claimPrizeFrom",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "poolId", type: "uint256" },
+    ],
+    outputs: [{ name: "prize", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "closeEpoch",
+    stateMutability: "nonpayable",
+    inputs: [],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "currentEpoch",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "currentEpochId",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "currentPrizePool",
+    stateMutability: "view",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "currentPrizePoolTotal",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "total", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "deposit",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "depositTo",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "poolId", type: "uint256" },
+      { name: "recipient", type: "address" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "drawInterval",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint64" }],
+  },
+  {
+    type: "function",
+    name: "entropy",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "entropyCallback",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "sequenceNumber", type: "uint64" },
+      { name: "", type: "address" },
+      { name: "randomNumber", type: "bytes32" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "entropyRequestToEpoch",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "uint64" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "epochStatus",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    type: "function",
+    name: "epochTokenPrize",
+    stateMutability: "view",
+    inputs: [
+      { name: "", type: "uint256" },
+      { name: "", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "epochs",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "uint256" }],
+    outputs: [
+      { name: "start", type: "uint64" },
+      { name: "end", type: "uint64" },
+      { name: "status", type: "uint8" },
+      { name: "entropySequence", type: "uint64" },
+      { name: "randomness", type: "bytes32" },
+      { name: "prize", type: "uint256" },
+      { name: "winningPoolId", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "finalizeDraw",
+    stateMutability: "nonpayable",
+    inputs: [],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "getCurrentEpoch",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "start", type: "uint64" },
+          { name: "end", type: "uint64" },
+          { name: "status", type: "uint8" },
+          { name: "entropySequence", type: "uint64" },
+          { name: "randomness", type: "bytes32" },
+          { name: "prize", type: "uint256" },
+          { name: "winningPoolId", type: "uint256" },
+        ],
+      },
+    ],
+  },
+  {
+    type: "function",
+    name: "getEpoch",
+    stateMutability: "view",
+    inputs: [{ name: "epochId", type: "uint256" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "start", type: "uint64" },
+          { name: "end", type: "uint64" },
+          { name: "status", type: "uint8" },
+          { name: "entropySequence", type: "uint64" },
+          { name: "randomness", type: "bytes32" },
+          { name: "prize", type: "uint256" },
+          { name: "winningPoolId", type: "uint256" },
+        ],
+      },
+    ],
+  },
+  {
+    type: "function",
+    name: "getNextFridayNoon",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint64" }],
+  },
+  {
+    type: "function",
+    name: "getPastWinners",
+    stateMutability: "view",
+    inputs: [{ name: "limit", type: "uint256" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple[]",
+        components: [
+          { name: "epochId", type: "uint256" },
+          { name: "timestamp", type: "uint64" },
+          { name: "winningPoolId", type: "uint256" },
+          { name: "totalPrizeNormalized", type: "uint256" },
+        ],
+      },
+    ],
+  },
+  {
+    type: "function",
+    name: "getSupportedToken",
+    stateMutability: "view",
+    inputs: [{ name: "index", type: "uint256" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "getSupportedTokens",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address[]" }],
+  },
+  {
+    type: "function",
+    name: "getTimeUntilDraw",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "getUserPosition",
+    stateMutability: "view",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "poolId", type: "uint256" },
+      { name: "user", type: "address" },
+    ],
+    outputs: [
+      { name: "deposited", type: "uint256" },
+      { name: "claimable", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "maxPools",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "owner",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "pastWinners",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "uint256" }],
+    outputs: [
+      { name: "epochId", type: "uint256" },
+      { name: "timestamp", type: "uint64" },
+      { name: "winningPoolId", type: "uint256" },
+      { name: "totalPrizeNormalized", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "pastWinnersCount",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "pause",
+    stateMutability: "nonpayable",
+    inputs: [],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "paused",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    type: "function",
+    name: "performUpkeep",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "performData", type: "bytes" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "poolCount",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "poolIds",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "uint256" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "poolIdsLength",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "poolTokenDeposits",
+    stateMutability: "view",
+    inputs: [
+      { name: "", type: "address" },
+      { name: "", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "poolTokenRewardIndex",
+    stateMutability: "view",
+    inputs: [
+      { name: "", type: "address" },
+      { name: "", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "pools",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "uint256" }],
+    outputs: [
+      { name: "exists", type: "bool" },
+      { name: "totalDeposits", type: "uint256" },
+      { name: "cumulative", type: "uint256" },
+      { name: "lastTimestamp", type: "uint64" },
+      { name: "lastBalance", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "positions",
+    stateMutability: "view",
+    inputs: [
+      { name: "", type: "address" },
+      { name: "", type: "uint256" },
+      { name: "", type: "address" },
+    ],
+    outputs: [
+      { name: "deposits", type: "uint256" },
+      { name: "rewardIndexPaid", type: "uint256" },
+      { name: "pendingPrize", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "prizePool",
+    stateMutability: "view",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "removeSupportedToken",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "renounceOwnership",
+    stateMutability: "nonpayable",
+    inputs: [],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "requestRandomness",
+    stateMutability: "payable",
+    inputs: [],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "setAutomationForwarder",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "forwarder", type: "address" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "supportedTokens",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "uint256" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "supportedTokensLength",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "tokenConfigs",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "address" }],
+    outputs: [
+      { name: "enabled", type: "bool" },
+      { name: "yieldVault", type: "address" },
+      { name: "decimals", type: "uint8" },
+      { name: "totalDeposits", type: "uint256" },
+      { name: "totalUnclaimedPrizes", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "totalAssets",
+    stateMutability: "view",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "totalDeposits",
+    stateMutability: "view",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "totalDepositsNormalized",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "total", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "totalUnclaimedPrizesNormalized",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "total", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "transferOwnership",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "newOwner", type: "address" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "unpause",
+    stateMutability: "nonpayable",
+    inputs: [],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "userPosition",
+    stateMutability: "view",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "user", type: "address" },
+    ],
+    outputs: [
+      { name: "deposited", type: "uint256" },
+      { name: "claimable", type: "uint256" },
+    ],
+  },
+  {
+    type: "function",
+    name: "withdraw",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "withdrawFrom",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "poolId", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "event",
+    name: "AutomationForwarderSet",
+    inputs: [{ name: "forwarder", type: "address", indexed: true }],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "Deposited",
+    inputs: [
+      { name: "user", type: "address", indexed: true },
+      { name: "token", type: "address", indexed: true },
+      { name: "poolId", type: "uint256", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "DrawStarted",
+    inputs: [{ name: "epochId", type: "uint256", indexed: true }],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "OwnershipTransferred",
+    inputs: [
+      { name: "previousOwner", type: "address", indexed: true },
+      { name: "newOwner", type: "address", indexed: true },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "PastWinnerRecorded",
+    inputs: [
+      { name: "epochId", type: "uint256", indexed: true },
+      { name: "winningPoolId", type: "uint256", indexed: true },
+      { name: "totalPrizeNormalized", type: "uint256", indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "Paused",
+    inputs: [{ name: "account", type: "address", indexed: false }],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "PoolCreated",
+    inputs: [{ name: "poolId", type: "uint256", indexed: true }],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "PrizeClaimed",
+    inputs: [
+      { name: "user", type: "address", indexed: true },
+      { name: "token", type: "address", indexed: true },
+      { name: "poolId", type: "uint256", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RandomnessReceived",
+    inputs: [
+      { name: "epochId", type: "uint256", indexed: true },
+      { name: "randomness", type: "bytes32", indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RandomnessRequested",
+    inputs: [
+      { name: "epochId", type: "uint256", indexed: true },
+      { name: "sequenceNumber", type: "uint64", indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "TokenAdded",
+    inputs: [
+      { name: "token", type: "address", indexed: true },
+      { name: "yieldVault", type: "address", indexed: true },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "TokenPrizeRecorded",
+    inputs: [
+      { name: "epochId", type: "uint256", indexed: true },
+      { name: "token", type: "address", indexed: true },
+      { name: "prize", type: "uint256", indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "TokenRemoved",
+    inputs: [{ name: "token", type: "address", indexed: true }],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "Unpaused",
+    inputs: [{ name: "account", type: "address", indexed: false }],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "WinnerSelected",
+    inputs: [
+      { name: "epochId", type: "uint256", indexed: true },
+      { name: "winningPoolId", type: "uint256", indexed: true },
+      { name: "prize", type: "uint256", indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "Withdrawn",
+    inputs: [
+      { name: "user", type: "address", indexed: true },
+      { name: "token", type: "address", indexed: true },
+      { name: "poolId", type: "uint256", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "error",
+    name: "EnforcedPause",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "ExpectedPause",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "OwnableInvalidOwner",
+    inputs: [{ name: "owner", type: "address" }],
+  },
+  {
+    type: "error",
+    name: "OwnableUnauthorizedAccount",
+    inputs: [{ name: "account", type: "address" }],
+  },
+  {
+    type: "error",
+    name: "ReentrancyGuardReentrantCall",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "SafeERC20FailedOperation",
+    inputs: [{ name: "token", type: "address" }],
+  },
+  {
+    type: "error",
+    name: "WelotVault__DrawNotReady",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__HasDeposits",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__InsufficientBalance",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__InsufficientFee",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__InvalidAssignedPool",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__InvalidDrawInterval",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__InvalidEntropy",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__InvalidEpochState",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__InvalidToken",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__MaxPoolsReached",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__NotAutomationForwarder",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__PoolDoesNotExist",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__TokenAlreadySupported",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__TokenNotSupported",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "WelotVault__ZeroAmount",
+    inputs: [],
+  },
+  { type: "receive", stateMutability: "payable" },
+] as const;
+
+// IEntropyV2
+export const entropyAbi = [
+  {
+    type: "function",
+    name: "getFee",
+    stateMutability: "view",
+    inputs: [{ name: "provider", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "getFeeV2",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "requestV2",
+    stateMutability: "payable",
+    inputs: [],
+    outputs: [{ name: "sequenceNumber", type: "uint64" }],
+  },
+] as const;
+
+// MockEntropyV2
+export const mockEntropyAbi = [
+  {
+    type: "constructor",
+    stateMutability: "nonpayable",
+    inputs: [],
+  },
+  {
+    type: "function",
+    name: "fee",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "fulfill",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "sequenceNumber", type: "uint64" },
+      { name: "random", type: "bytes32" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "fulfillRandomness",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "target", type: "address" },
+      { name: "sequenceNumber", type: "uint256" },
+      { name: "random", type: "bytes32" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "getFee",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "getFeeV2",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "nextSeq",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint64" }],
+  },
+  {
+    type: "function",
+    name: "requestV2",
+    stateMutability: "payable",
+    inputs: [],
+    outputs: [{ name: "sequenceNumber", type: "uint64" }],
+  },
+  {
+    type: "function",
+    name: "requester",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "uint64" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "setFee",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "fee_", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    type: "error",
+    name: "MockEntropyV2__NoRequest",
+    inputs: [],
+  },
+] as const;
+
+// MockFaucet
+export const faucetAbi = [
+  {
+    type: "constructor",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "cooldown_", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "CLAIM_AMOUNT_18",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "CLAIM_AMOUNT_6",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "addToken",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "canClaim",
+    stateMutability: "view",
+    inputs: [
+      { name: "user", type: "address" },
+      { name: "token", type: "address" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    type: "function",
+    name: "claim",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "claimAll",
+    stateMutability: "nonpayable",
+    inputs: [],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "cooldown",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "getTokens",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address[]" }],
+  },
+  {
+    type: "function",
+    name: "isToken",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "address" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    type: "function",
+    name: "lastClaim",
+    stateMutability: "view",
+    inputs: [
+      { name: "", type: "address" },
+      { name: "", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "owner",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "removeToken",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "tokenCount",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "tokens",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "uint256" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "error",
+    name: "MockFaucet__ClaimCooldown",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "MockFaucet__NotOwner",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "MockFaucet__TokenNotRegistered",
+    inputs: [],
+  },
+] as const;
@@ -0,0 +1,19 @@
+// Generated by scripts/importDeployments.ts from contracts/broadcast/*/<chainId>/run-latest.json.
+// Do not edit: redeploy, then `npm run deployments`.
+import type { Deployment } from "../deployments";
+
+export const importedDeployments: Record<number, Deployment> = {
+  5003: {
+    chainId: 5003,
+    vault: "0x3A43e42cE9Fa6318C167C506112de9082BdDF703",
+    vaultDeployBlock: 33209270n,
+    entropy: "0x98046Bd286715D3B0BC227Dd7a956b83D8978603",
+    faucet: "0x3182189E8aA11778e9761679a77215eF3deB4b19",
+    lendlePool: "0x11C1719c30b17cba9eAbe6E79572FA4828064F38",
+    tokens: [
+      { address: "0xFD2a64348c829Da9e9CE3f688910909ecF6F384A", symbol: "USDC", name: "USD Coin", decimals: 6, icon: "/icons/usdc.svg", vaultAddress: "0x9fc2a8a2F28478f7575bF13E854f61699439EF70" },
+      { address: "0x53779f445FBCFB52A9bA5aC246969d2D2902b710", symbol: "USDT", name: "Tether USD", decimals: 6, icon: "/icons/usdt.svg", vaultAddress: "0x384F87AC9e01ab2bF061474771f1B06b4922F38d" },
+    ],
+    source: { script: "DeployMantle.s.sol", commit: "ceccd4b", timestamp: 1767963256542 },
+  },
+};
@@ -0,0 +1,187 @@
+import { parseEventLogs } from "viem";
+import type { Address, Hash, Log } from "viem";
+
+import { welotVaultAbi } from "../abis";
+import type { WelotPublicClient } from "../welot";
+
+export const INDEXED_EVENTS = [
+  "Deposited",
+  "Withdrawn",
+  "PrizeClaimed",
+  "WinnerSelected",
+  "TokenPrizeRecorded",
+  "PastWinnerRecorded",
+] as const;
+
+export type IndexedEventName = (typeof INDEXED_EVENTS)[number];
+
+interface EventMeta {
+  blockNumber: bigint;
+  blockHash: Hash;
+  timestamp: bigint;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+// Deposited / Withdrawn / PrizeClaimed share the same shape
+export interface UserEvent extends EventMeta {
+  kind: "Deposited" | "Withdrawn" | "PrizeClaimed";
+  user: Address;
+  token: Address;
+  poolId: bigint;
+  amount: bigint;
+}
+
+export interface WinnerSelectedEvent extends EventMeta {
+  kind: "WinnerSelected";
+  epochId: bigint;
+  winningPoolId: bigint;
+  // Normalized to 18 decimals
+  prize: bigint;
+}
+
+export interface TokenPrizeRecordedEvent extends EventMeta {
+  kind: "TokenPrizeRecorded";
+  epochId: bigint;
+  token: Address;
+  // Token decimals
+  prize: bigint;
+}
+
+export interface PastWinnerRecordedEvent extends EventMeta {
+  kind: "PastWinnerRecorded";
+  epochId: bigint;
+  winningPoolId: bigint;
+  totalPrizeNormalized: bigint;
+}
+
+export type IndexedEvent =
+  | UserEvent
+  | WinnerSelectedEvent
+  | TokenPrizeRecordedEvent
+  | PastWinnerRecordedEvent;
+
+export function compareEvents(a: IndexedEvent, b: IndexedEvent): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+}
+
+// Decodes raw vault logs into indexed events. Logs from other contracts, other
+// event types, and pending logs are dropped. `timestamps` maps block number to
+// block timestamp.
+export function decodeVaultLogs(logs: Log[], timestamps: Map<bigint, bigint>): IndexedEvent[] {
+  const parsed = parseEventLogs({
+    abi: welotVaultAbi,
+    logs,
+    eventName: [...INDEXED_EVENTS],
+  });
+
+  const out: IndexedEvent[] = [];
+  for (const log of parsed) {
+    if (log.blockNumber === null || log.blockHash === null || log.transactionHash === null || log.logIndex === null) {
+      continue;
+    }
+    const meta: EventMeta = {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      timestamp: timestamps.get(log.blockNumber) ?? 0n,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+    };
+
+    switch (log.eventName) {
+      case "Deposited":
+      case "Withdrawn":
+      case "PrizeClaimed":
+        out.push({ ...meta, kind: log.eventName, ...log.args });
+        break;
+      case "WinnerSelected":
+        out.push({ ...meta, kind: "WinnerSelected", ...log.args });
+        break;
+      case "TokenPrizeRecorded":
+        out.push({ ...meta, kind: "TokenPrizeRecorded", ...log.args });
+        break;
+      case "PastWinnerRecorded":
+        out.push({ ...meta, kind: "PastWinnerRecorded", ...log.args });
+        break;
+    }
+  }
+  return out.sort(compareEvents);
+}
+
+export interface FetchVaultEventsOptions {
+  vaultAddress: Address;
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+// Fetches and decodes all vault events in `[fromBlock, toBlock]` with a single
+// `eth_getLogs`. Callers split long ranges with `getLogsChunked`.
+export async function fetchVaultEvents(
+  client: WelotPublicClient,
+  opts: FetchVaultEventsOptions
+): Promise<IndexedEvent[]> {
+  const logs = await client.getLogs({
+    address: opts.vaultAddress,
+    fromBlock: opts.fromBlock,
+    toBlock: opts.toBlock,
+  });
+  return decodeVaultLogs(logs, await getBlockTimestamps(client, logs));
+}
+
+// Timestamps of the blocks that contain `logs`, one `eth_getBlockByNumber` each
+export async function getBlockTimestamps(
+  client: WelotPublicClient,
+  logs: readonly Pick<Log, "blockNumber">[]
+): Promise<Map<bigint, bigint>> {
+  const blockNumbers = new Set<bigint>();
+  for (const log of logs) {
+    if (log.blockNumber !== null) blockNumbers.add(log.blockNumber);
+  }
+
+  const timestamps = new Map<bigint, bigint>();
+  for (const blockNumber of blockNumbers) {
+    const block = await client.getBlock({ blockNumber });
+    timestamps.set(blockNumber, block.timestamp);
+  }
+  return timestamps;
+}
+
+export interface GetLogsChunkedHooks<T> {
+  // Called after each range is fetched, in order; e.g. to persist progress
+  onChunk?: (items: T[], fromBlock: bigint, toBlock: bigint) => Promise<void> | void;
+  // Called when a range fails and is retried with `chunkSize`, so callers can
+  // start their next run at the reduced size
+  onRetry?: (fromBlock: bigint, toBlock: bigint, chunkSize: bigint) => void;
+}
+
+// Calls `fetch` over `[fromBlock, toBlock]` in ranges of at most `chunkSize`
+// blocks. When the RPC rejects a range the chunk is halved and retried; a
+// failing single-block range is rethrown.
+export async function getLogsChunked<T>(
+  fromBlock: bigint,
+  toBlock: bigint,
+  chunkSize: bigint,
+  fetch: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+  hooks: GetLogsChunkedHooks<T> = {}
+): Promise<T[]> {
+  const out: T[] = [];
+  let size = chunkSize;
+  let from = fromBlock;
+  while (from <= toBlock) {
+    const to = from + size - 1n < toBlock ? from + size - 1n : toBlock;
+    let items: T[];
+    try {
+      items = await fetch(from, to);
+    } catch (err) {
+      if (size <= 1n) throw err;
+      size = size / 2n;
+      hooks.onRetry?.(from, to, size);
+      continue;
+    }
+    await hooks.onChunk?.(items, from, to);
+    out.push(...items);
+    from = to + 1n;
+  }
+  return out;
+}
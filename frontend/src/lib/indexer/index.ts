@@ -0,0 +1,33 @@
+export {
+  INDEXED_EVENTS,
+  compareEvents,
+  decodeVaultLogs,
+  fetchVaultEvents,
+  getBlockTimestamps,
+  getLogsChunked,
+} from "./events";
+export type {
+  FetchVaultEventsOptions,
+  GetLogsChunkedHooks,
+  IndexedEvent,
+  IndexedEventName,
+  PastWinnerRecordedEvent,
+  TokenPrizeRecordedEvent,
+  UserEvent,
+  WinnerSelectedEvent,
+} from "./events";
+export { VaultIndexer } from "./indexer";
+export type { SyncResult, VaultIndexerOptions } from "./indexer";
+export { getDraw, getDraws, getUserEvents, getWinsByPool } from "./queries";
+export type { DrawRecord } from "./queries";
+export { buildUserLedger, fetchUserLedgerEvents, ledgerToCsv } from "./ledger";
+export type {
+  FetchUserLedgerEventsOptions,
+  LedgerEntry,
+  LedgerEntryKind,
+  LedgerToken,
+  LedgerTotals,
+  UserLedger,
+} from "./ledger";
+export { MemoryStore, deserializeState, serializeState } from "./store";
+export type { BlockRef, IndexerState, IndexerStore } from "./store";
@@ -0,0 +1,300 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  BlockNotFoundError,
+  encodeAbiParameters,
+  encodeEventTopics,
+  pad,
+  toHex,
+  type Address,
+  type Hash,
+  type Log,
+} from "viem";
+
+import { welotVaultAbi } from "../abis";
+import type { WelotPublicClient } from "../welot";
+import { VaultIndexer, type VaultIndexerOptions } from "./indexer";
+import { MemoryStore } from "./store";
+
+const VAULT: Address = "0x00000000000000000000000000000000000000f1";
+const USER: Address = "0x00000000000000000000000000000000000000a1";
+const TOKEN: Address = "0x00000000000000000000000000000000000000b1";
+
+// In-memory chain behind the handful of RPC calls the indexer makes. Each
+// block's hash encodes its number and how many reorgs replaced it, and the
+// vault emits one `Deposited` per entry in `deposits`.
+class FakeChain {
+  head: bigint;
+  // Block number -> deposited amount
+  deposits = new Map<bigint, bigint>();
+  // `getLogs` rejects ranges wider than this, like an RPC with a block-range cap
+  maxRange: bigint | null = null;
+  // Thrown by every `getBlock` while set, like an RPC timing out
+  getBlockError: Error | null = null;
+  // Runs once `getLogs` has its answer, e.g. to reorg the chain mid-sync
+  afterGetLogs: ((fromBlock: bigint, toBlock: bigint) => void) | null = null;
+  readonly getLogsCalls: [bigint, bigint][] = [];
+  private readonly generations = new Map<bigint, number>();
+
+  constructor(head: bigint, deposits: Record<number, bigint> = {}) {
+    this.head = head;
+    for (const [block, amount] of Object.entries(deposits)) this.deposits.set(BigInt(block), amount);
+  }
+
+  hash(blockNumber: bigint): Hash {
+    return pad(toHex((blockNumber << 16n) | BigInt(this.generations.get(blockNumber) ?? 0)), { size: 32 });
+  }
+
+  // Replaces every block from `fromBlock` on: new hashes, and the deposits in
+  // them become `deposits`
+  reorg(fromBlock: bigint, deposits: Record<number, bigint> = {}) {
+    for (let n = fromBlock; n <= this.head; n++) this.generations.set(n, (this.generations.get(n) ?? 0) + 1);
+    for (const block of [...this.deposits.keys()]) if (block >= fromBlock) this.deposits.delete(block);
+    for (const [block, amount] of Object.entries(deposits)) this.deposits.set(BigInt(block), amount);
+  }
+
+  get client(): WelotPublicClient {
+    const client = {
+      chain: { id: 31337 },
+      getBlockNumber: async () => this.head,
+      getBlock: async ({ blockNumber }: { blockNumber: bigint }) => {
+        if (this.getBlockError) throw this.getBlockError;
+        if (blockNumber > this.head) throw new BlockNotFoundError({ blockNumber });
+        return { number: blockNumber, hash: this.hash(blockNumber), timestamp: 1_700_000_000n + blockNumber * 12n };
+      },
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+        this.getLogsCalls.push([fromBlock, toBlock]);
+        if (this.maxRange !== null && toBlock - fromBlock + 1n > this.maxRange) {
+          throw new Error("query exceeds max block range");
+        }
+        const logs = [...this.deposits]
+          .filter(([block]) => block >= fromBlock && block <= toBlock)
+          .sort(([a], [b]) => (a < b ? -1 : 1))
+          .map(([block, amount]) => this.depositLog(block, amount));
+        this.afterGetLogs?.(fromBlock, toBlock);
+        return logs;
+      },
+    };
+    return client as unknown as WelotPublicClient;
+  }
+
+  private depositLog(blockNumber: bigint, amount: bigint): Log {
+    return {
+      address: VAULT,
+      topics: encodeEventTopics({
+        abi: welotVaultAbi,
+        eventName: "Deposited",
+        args: { user: USER, token: TOKEN, poolId: 1n },
+      }) as Log["topics"],
+      data: encodeAbiParameters([{ type: "uint256" }], [amount]),
+      blockNumber,
+      blockHash: this.hash(blockNumber),
+      transactionHash: pad(toHex(blockNumber), { size: 32 }),
+      transactionIndex: 0,
+      logIndex: 0,
+      removed: false,
+    };
+  }
+}
+
+function indexer(chain: FakeChain, store: MemoryStore, opts: Partial<VaultIndexerOptions> = {}) {
+  const messages: string[] = [];
+  const idx = new VaultIndexer({
+    client: chain.client,
+    vaultAddress: VAULT,
+    store,
+    fromBlock: 1n,
+    log: (message) => messages.push(message),
+    ...opts,
+  });
+  return { idx, messages };
+}
+
+const blocks = (idx: VaultIndexer) => idx.events.map((e) => e.blockNumber);
+
+describe("VaultIndexer", () => {
+  it("backfills in chunks, persists each one and resumes from the cursor", async () => {
+    const chain = new FakeChain(25n, { 3: 100n, 12: 200n, 24: 300n });
+    const store = new MemoryStore();
+    const { idx } = indexer(chain, store, { chunkSize: 10n });
+
+    assert.deepEqual(await idx.sync(), { fromBlock: 1n, toBlock: 25n, added: 3, removed: 0 });
+    assert.deepEqual(chain.getLogsCalls, [
+      [1n, 10n],
+      [11n, 20n],
+      [21n, 25n],
+    ]);
+    assert.deepEqual(blocks(idx), [3n, 12n, 24n]);
+    assert.deepEqual(idx.events.map((e) => (e.kind === "Deposited" ? e.amount : null)), [100n, 200n, 300n]);
+    assert.equal(idx.events[0].timestamp, 1_700_000_000n + 3n * 12n);
+    assert.deepEqual(idx.cursor, { number: 25n, hash: chain.hash(25n) });
+
+    const saved = await store.load();
+    assert.ok(saved);
+    assert.deepEqual(saved.checkpoints.map((c) => c.number), [10n, 20n, 25n]);
+    assert.equal(saved.events.length, 3);
+
+    // A fresh indexer on the same store picks up where the first stopped
+    chain.head = 30n;
+    chain.deposits.set(28n, 400n);
+    chain.getLogsCalls.length = 0;
+    const { idx: resumed } = indexer(chain, store, { chunkSize: 10n });
+    assert.deepEqual(await resumed.sync(), { fromBlock: 26n, toBlock: 30n, added: 1, removed: 0 });
+    assert.deepEqual(chain.getLogsCalls, [[26n, 30n]]);
+    assert.deepEqual(blocks(resumed), [3n, 12n, 24n, 28n]);
+
+    // Nothing new: no getLogs at all
+    chain.getLogsCalls.length = 0;
+    assert.deepEqual(await resumed.sync(), { fromBlock: 31n, toBlock: 30n, added: 0, removed: 0 });
+    assert.deepEqual(chain.getLogsCalls, []);
+  });
+
+  it("stays `confirmations` blocks behind head", async () => {
+    const chain = new FakeChain(20n, { 18: 1n });
+    const { idx } = indexer(chain, new MemoryStore(), { confirmations: 5n });
+    assert.deepEqual(await idx.sync(), { fromBlock: 1n, toBlock: 15n, added: 0, removed: 0 });
+    assert.equal(idx.cursor?.number, 15n);
+  });
+
+  it("halves the chunk when the RPC rejects a range and keeps the smaller size", async () => {
+    const chain = new FakeChain(12n, { 2: 1n, 7: 2n, 11: 3n });
+    chain.maxRange = 3n;
+    const { idx, messages } = indexer(chain, new MemoryStore(), { chunkSize: 10n });
+
+    assert.deepEqual(await idx.sync(), { fromBlock: 1n, toBlock: 12n, added: 3, removed: 0 });
+    assert.deepEqual(chain.getLogsCalls, [
+      [1n, 10n],
+      [1n, 5n],
+      [1n, 2n],
+      [3n, 4n],
+      [5n, 6n],
+      [7n, 8n],
+      [9n, 10n],
+      [11n, 12n],
+    ]);
+    assert.deepEqual(messages.filter((m) => m.includes("retrying")), [
+      "getLogs 1-10 failed, retrying with chunkSize=5",
+      "getLogs 1-5 failed, retrying with chunkSize=2",
+    ]);
+    assert.deepEqual(blocks(idx), [2n, 7n, 11n]);
+
+    // The next sync starts at the reduced size instead of failing again
+    chain.head = 16n;
+    chain.getLogsCalls.length = 0;
+    await idx.sync();
+    assert.deepEqual(chain.getLogsCalls, [
+      [13n, 14n],
+      [15n, 16n],
+    ]);
+  });
+
+  it("rethrows when a single-block range fails and saves nothing", async () => {
+    const chain = new FakeChain(4n);
+    chain.maxRange = 0n;
+    const store = new MemoryStore();
+    const { idx } = indexer(chain, store, { chunkSize: 4n });
+
+    await assert.rejects(idx.sync(), /max block range/);
+    assert.deepEqual(chain.getLogsCalls, [
+      [1n, 4n],
+      [1n, 2n],
+      [1n, 1n],
+    ]);
+    assert.equal(idx.cursor, null);
+    assert.equal(await store.load(), null);
+  });
+
+  it("rewinds to the newest canonical checkpoint after a reorg", async () => {
+    const chain = new FakeChain(15n, { 4: 1n, 9: 2n, 14: 3n });
+    const store = new MemoryStore();
+    const { idx, messages } = indexer(chain, store, { chunkSize: 5n });
+    await idx.sync();
+    assert.deepEqual((await store.load())?.checkpoints.map((c) => c.number), [5n, 10n, 15n]);
+
+    // Blocks 11+ are replaced by a shorter fork with a different deposit;
+    // block 15 no longer exists at all
+    chain.reorg(11n, { 12: 5n });
+    chain.head = 13n;
+    chain.getLogsCalls.length = 0;
+
+    assert.deepEqual(await idx.sync(), { fromBlock: 11n, toBlock: 13n, added: 1, removed: 1 });
+    assert.ok(messages.includes("reorg detected; rewound to block 10 (dropped 1 events)"));
+    assert.deepEqual(chain.getLogsCalls, [[11n, 13n]]);
+    assert.deepEqual(blocks(idx), [4n, 9n, 12n]);
+    assert.equal(idx.events[2].blockHash, chain.hash(12n));
+    assert.deepEqual(idx.cursor, { number: 13n, hash: chain.hash(13n) });
+    assert.deepEqual((await store.load())?.checkpoints.map((c) => c.number), [5n, 10n, 13n]);
+  });
+
+  it("rebuilds from scratch when the reorg is deeper than every checkpoint", async () => {
+    const chain = new FakeChain(15n, { 4: 1n, 9: 2n, 14: 3n });
+    const store = new MemoryStore();
+    const { idx, messages } = indexer(chain, store, { chunkSize: 5n, maxCheckpoints: 2 });
+    await idx.sync();
+    assert.deepEqual((await store.load())?.checkpoints.map((c) => c.number), [10n, 15n]);
+
+    chain.reorg(3n, { 6: 7n });
+    chain.getLogsCalls.length = 0;
+
+    assert.deepEqual(await idx.sync(), { fromBlock: 1n, toBlock: 15n, added: 1, removed: 3 });
+    assert.ok(messages.includes("reorg detected; rewound to block 1 (dropped 3 events)"));
+    assert.deepEqual(chain.getLogsCalls, [
+      [1n, 5n],
+      [6n, 10n],
+      [11n, 15n],
+    ]);
+    assert.deepEqual(blocks(idx), [6n]);
+    assert.deepEqual(idx.cursor, { number: 15n, hash: chain.hash(15n) });
+  });
+
+  it("catches a reorg that lands right after a chunk's logs were fetched", async () => {
+    const chain = new FakeChain(10n, { 4: 1n, 9: 2n });
+    const store = new MemoryStore();
+    const { idx } = indexer(chain, store, { chunkSize: 5n });
+    // Blocks 8+ are replaced as soon as the logs for 6-10 are in
+    chain.afterGetLogs = (from) => {
+      if (from !== 6n) return;
+      chain.afterGetLogs = null;
+      chain.reorg(8n, { 8: 5n });
+    };
+
+    await idx.sync();
+    // The events and the cursor both describe the old chain
+    assert.deepEqual(blocks(idx), [4n, 9n]);
+    assert.notEqual(idx.cursor?.hash, chain.hash(10n));
+
+    // So the next sync sees the cursor is stale and refetches the range
+    assert.deepEqual(await idx.sync(), { fromBlock: 6n, toBlock: 10n, added: 1, removed: 1 });
+    assert.deepEqual(blocks(idx), [4n, 8n]);
+    assert.deepEqual(idx.cursor, { number: 10n, hash: chain.hash(10n) });
+  });
+
+  it("keeps the index when the RPC fails during the reorg check", async () => {
+    const chain = new FakeChain(15n, { 4: 1n, 9: 2n, 14: 3n });
+    const store = new MemoryStore();
+    const { idx } = indexer(chain, store, { chunkSize: 5n });
+    await idx.sync();
+    const saved = await store.load();
+
+    chain.getBlockError = new Error("request timed out");
+    await assert.rejects(idx.sync(), /request timed out/);
+    assert.deepEqual(await store.load(), saved);
+    assert.deepEqual(blocks(idx), [4n, 9n, 14n]);
+
+    // Once the RPC recovers the next sync carries on from the same cursor
+    chain.getBlockError = null;
+    chain.head = 20n;
+    assert.deepEqual(await idx.sync(), { fromBlock: 16n, toBlock: 20n, added: 0, removed: 0 });
+    assert.deepEqual((await store.load())?.checkpoints.map((c) => c.number), [5n, 10n, 15n, 20n]);
+  });
+
+  it("refuses an index saved for another vault or chain", async () => {
+    const chain = new FakeChain(5n);
+    const store = new MemoryStore();
+    await indexer(chain, store).idx.sync();
+
+    const other: Address = "0x00000000000000000000000000000000000000c1";
+    await assert.rejects(indexer(chain, store, { vaultAddress: other }).idx.init(), /Index belongs to vault/);
+  });
+});
@@ -0,0 +1,196 @@
+import { BlockNotFoundError } from "viem";
+import type { Address, Hash } from "viem";
+
+import type { WelotPublicClient } from "../welot";
+import { fetchVaultEvents, getLogsChunked } from "./events";
+import type { IndexedEvent } from "./events";
+import type { BlockRef, IndexerState, IndexerStore } from "./store";
+
+export interface VaultIndexerOptions {
+  client: WelotPublicClient;
+  vaultAddress: Address;
+  store: IndexerStore;
+  // Deployment block of the vault; backfill starts here
+  fromBlock?: bigint;
+  // Max blocks per `eth_getLogs`; halved automatically when the RPC rejects a range
+  chunkSize?: bigint;
+  // Only index blocks this far behind head
+  confirmations?: bigint;
+  // How many recent cursors to keep for reorg recovery
+  maxCheckpoints?: number;
+  log?: (message: string) => void;
+}
+
+export interface SyncResult {
+  fromBlock: bigint;
+  toBlock: bigint;
+  added: number;
+  // Number of events dropped because their blocks were reorged out
+  removed: number;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Backfills WelotVault events with chunked `eth_getLogs`, follows new blocks
+// by polling, and rolls back to the last canonical checkpoint on reorgs.
+export class VaultIndexer {
+  private readonly client: WelotPublicClient;
+  private readonly vaultAddress: Address;
+  private readonly store: IndexerStore;
+  private readonly fromBlock: bigint;
+  private readonly confirmations: bigint;
+  private readonly maxCheckpoints: number;
+  private readonly log: (message: string) => void;
+  private chunkSize: bigint;
+  private state: IndexerState | null = null;
+
+  constructor(opts: VaultIndexerOptions) {
+    this.client = opts.client;
+    this.vaultAddress = opts.vaultAddress;
+    this.store = opts.store;
+    this.fromBlock = opts.fromBlock ?? 0n;
+    this.chunkSize = opts.chunkSize ?? 2000n;
+    this.confirmations = opts.confirmations ?? 0n;
+    this.maxCheckpoints = opts.maxCheckpoints ?? 128;
+    this.log = opts.log ?? ((message) => console.log(`[indexer] ${message}`));
+  }
+
+  get events(): readonly IndexedEvent[] {
+    return this.state?.events ?? [];
+  }
+
+  get cursor(): BlockRef | null {
+    return this.state?.cursor ?? null;
+  }
+
+  async init(): Promise<void> {
+    const chainId = this.client.chain.id;
+    const loaded = await this.store.load();
+    if (loaded) {
+      if (loaded.chainId !== chainId || loaded.vaultAddress.toLowerCase() !== this.vaultAddress.toLowerCase()) {
+        throw new Error(
+          `Index belongs to vault ${loaded.vaultAddress} on chain ${loaded.chainId}, ` +
+            `not ${this.vaultAddress} on chain ${chainId}`
+        );
+      }
+      this.state = loaded;
+      this.log(`loaded ${loaded.events.length} events, cursor=${loaded.cursor?.number ?? "none"}`);
+      return;
+    }
+
+    this.state = { chainId, vaultAddress: this.vaultAddress, cursor: null, checkpoints: [], events: [] };
+  }
+
+  // Indexes everything up to `head - confirmations`. Safe to call repeatedly.
+  async sync(): Promise<SyncResult> {
+    const state = await this.requireState();
+
+    const removed = await this.handleReorg(state);
+
+    const head = await this.client.getBlockNumber();
+    const target = head - this.confirmations;
+    const start = state.cursor ? state.cursor.number + 1n : this.fromBlock;
+    if (target < start) return { fromBlock: start, toBlock: target, added: 0, removed };
+
+    let added = 0;
+    // Hash of the range's last block, read before its logs: if a reorg lands
+    // in between, the cursor is the stale part and the next reorg check
+    // rewinds past these events
+    let toHash: Hash | null = null;
+    await getLogsChunked(
+      start,
+      target,
+      this.chunkSize,
+      async (fromBlock, toBlock) => {
+        toHash = (await this.client.getBlock({ blockNumber: toBlock })).hash;
+        return fetchVaultEvents(this.client, { vaultAddress: this.vaultAddress, fromBlock, toBlock });
+      },
+      {
+        // Persist after every range so an interrupted backfill resumes where it stopped
+        onChunk: async (events, _from, to) => {
+          const cursor: BlockRef = { number: to, hash: toHash! };
+
+          state.events.push(...events);
+          state.cursor = cursor;
+          state.checkpoints.push(cursor);
+          if (state.checkpoints.length > this.maxCheckpoints) {
+            state.checkpoints.splice(0, state.checkpoints.length - this.maxCheckpoints);
+          }
+          await this.store.save(state);
+          added += events.length;
+        },
+        onRetry: (from, to, chunkSize) => {
+          this.chunkSize = chunkSize;
+          this.log(`getLogs ${from}-${to} failed, retrying with chunkSize=${chunkSize}`);
+        },
+      }
+    );
+
+    if (added > 0) this.log(`indexed ${added} events in blocks ${start}-${target}`);
+    return { fromBlock: start, toBlock: target, added, removed };
+  }
+
+  // Polls `sync()` until `signal` aborts. Errors are logged and retried on the next tick.
+  async follow(opts: { pollIntervalMs?: number; signal?: AbortSignal } = {}): Promise<void> {
+    const pollIntervalMs = opts.pollIntervalMs ?? 5000;
+    while (!opts.signal?.aborted) {
+      try {
+        await this.sync();
+      } catch (err) {
+        this.log(`sync failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      await sleep(pollIntervalMs);
+    }
+  }
+
+  private async requireState(): Promise<IndexerState> {
+    if (!this.state) await this.init();
+    return this.state!;
+  }
+
+  // If the cursor block is no longer canonical, rewind to the newest checkpoint
+  // that still is and drop every event after it.
+  private async handleReorg(state: IndexerState): Promise<number> {
+    if (!state.cursor) return 0;
+    if (await this.isCanonical(state.cursor)) return 0;
+
+    let forkPoint: BlockRef | null = null;
+    for (let i = state.checkpoints.length - 1; i >= 0; i--) {
+      if (await this.isCanonical(state.checkpoints[i])) {
+        forkPoint = state.checkpoints[i];
+        break;
+      }
+    }
+
+    const before = state.events.length;
+    if (forkPoint) {
+      const keepUpTo = forkPoint.number;
+      state.events = state.events.filter((e) => e.blockNumber <= keepUpTo);
+      state.checkpoints = state.checkpoints.filter((c) => c.number <= keepUpTo);
+      state.cursor = forkPoint;
+    } else {
+      // Reorg deeper than our checkpoints: rebuild from scratch
+      state.events = [];
+      state.checkpoints = [];
+      state.cursor = null;
+    }
+    await this.store.save(state);
+
+    const removed = before - state.events.length;
+    this.log(`reorg detected; rewound to block ${forkPoint?.number ?? this.fromBlock} (dropped ${removed} events)`);
+    return removed;
+  }
+
+  // Only a missing block counts as reorged out; any other RPC error is
+  // rethrown so a flaky node fails the sync instead of wiping the index
+  private async isCanonical(ref: BlockRef): Promise<boolean> {
+    try {
+      const block = await this.client.getBlock({ blockNumber: ref.number });
+      return block.hash === ref.hash;
+    } catch (err) {
+      // Block no longer exists (chain got shorter)
+      if (err instanceof BlockNotFoundError) return false;
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { deserializeState, serializeState, type IndexerState, type IndexerStore } from "./store";
+
+// Node-only store that persists the whole index as one JSON file.
+// Writes go to a temp file first so a crash never leaves a truncated index.
+export class JsonFileStore implements IndexerStore {
+  constructor(readonly filePath: string) {}
+
+  async load(): Promise<IndexerState | null> {
+    try {
+      return deserializeState(await readFile(this.filePath, "utf8"));
+    } catch (err) {
+      if ((err as { code?: string }).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async save(state: IndexerState): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    await writeFile(tmp, serializeState(state), "utf8");
+    await rename(tmp, this.filePath);
+  }
+}
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { pad, toHex, type Address } from "viem";
+
+import type { IndexedEvent } from "./events";
+import { buildUserLedger, ledgerToCsv, type LedgerToken } from "./ledger";
+
+const ALICE: Address = "0x00000000000000000000000000000000000000a1";
+const BOB: Address = "0x00000000000000000000000000000000000000b0";
+const CAROL: Address = "0x00000000000000000000000000000000000000c1";
+const USDC: Address = "0x00000000000000000000000000000000000000d1";
+const WETH: Address = "0x00000000000000000000000000000000000000d2";
+
+const meta = (block: number, logIndex = 0) => ({
+  blockNumber: BigInt(block),
+  blockHash: pad(toHex(block), { size: 32 }),
+  timestamp: 1_700_000_000n + BigInt(block),
+  transactionHash: pad(toHex(block * 100 + logIndex), { size: 32 }),
+  logIndex,
+});
+
+type FlowKind = "Deposited" | "Withdrawn" | "PrizeClaimed";
+
+const flow = (kind: FlowKind, block: number, user: Address, poolId: bigint, amount: bigint) =>
+  ({ ...meta(block), kind, user, token: USDC, poolId, amount }) as const;
+
+const draw = (block: number, epochId: bigint, winningPoolId: bigint, prizes: [Address, bigint][]): IndexedEvent[] => [
+  ...prizes.map(([token, prize], i) => ({
+    ...meta(block, i),
+    kind: "TokenPrizeRecorded" as const,
+    epochId,
+    token,
+    prize,
+  })),
+  { ...meta(block, prizes.length), kind: "WinnerSelected", epochId, winningPoolId, prize: 0n },
+];
+
+// Alice and Bob share pool 1, Carol is in pool 2
+const EVENTS: IndexedEvent[] = [
+  flow("Deposited", 1, ALICE, 1n, 30n),
+  flow("Deposited", 2, BOB, 1n, 90n),
+  flow("Deposited", 3, CAROL, 2n, 500n),
+  // Pool 1 holds 120: Alice gets 30 × (100e18 / 120) / 1e18 = 24 (rounded down)
+  ...draw(5, 1n, 1n, [[USDC, 100n]]),
+  flow("Withdrawn", 6, ALICE, 1n, 10n),
+  // Pool 2 wins: nothing for Alice
+  ...draw(8, 2n, 2n, [[USDC, 70n]]),
+  // Pool 1 holds 110: Alice gets 20 × (110e18 / 110) / 1e18 = 20; she has no WETH
+  ...draw(10, 3n, 1n, [
+    [USDC, 110n],
+    [WETH, 10n ** 18n],
+  ]),
+  flow("PrizeClaimed", 12, BOB, 1n, 74n),
+  flow("PrizeClaimed", 13, ALICE, 1n, 44n),
+];
+
+describe("buildUserLedger", () => {
+  it("credits the user's share of each prize their pool won", () => {
+    // Order of the input does not matter
+    const ledger = buildUserLedger([...EVENTS].reverse(), ALICE);
+
+    assert.deepEqual(
+      ledger.entries.map((e) => [e.kind, e.blockNumber, e.amount, e.epochId]),
+      [
+        ["deposit", 1n, 30n, null],
+        ["prize", 5n, 24n, 1n],
+        ["withdrawal", 6n, 10n, null],
+        ["prize", 10n, 20n, 3n],
+        ["claim", 13n, 44n, null],
+      ]
+    );
+    assert.ok(ledger.entries.every((e) => e.token === USDC && e.poolId === 1n));
+    assert.equal(ledger.entries[1].transactionHash, meta(5).transactionHash);
+    assert.deepEqual(ledger.totals, [{ token: USDC, deposited: 30n, withdrawn: 10n, won: 44n, claimed: 44n }]);
+  });
+
+  it("matches the user case-insensitively and ignores other users' flows", () => {
+    const bob = buildUserLedger(EVENTS, BOB.toUpperCase().replace("0X", "0x") as Address);
+    // 90 × (100e18 / 120) / 1e18 = 74, then 90 × (110e18 / 110) / 1e18 = 90
+    assert.deepEqual(bob.totals, [{ token: USDC, deposited: 90n, withdrawn: 0n, won: 164n, claimed: 74n }]);
+    assert.deepEqual(buildUserLedger(EVENTS, "0x00000000000000000000000000000000000000e1"), {
+      user: "0x00000000000000000000000000000000000000e1",
+      entries: [],
+      totals: [],
+    });
+  });
+});
+
+describe("ledgerToCsv", () => {
+  const ledger = buildUserLedger(EVENTS, ALICE);
+
+  it("writes one row per entry with formatted and raw amounts", () => {
+    const csv = ledgerToCsv(ledger, [{ address: USDC, symbol: "USDC", decimals: 6 }]);
+    const lines = csv.split("\n");
+    assert.equal(lines[0], "date,type,token,amount,amount_raw,pool_id,epoch_id,block,tx_hash");
+    assert.equal(lines[2], `2023-11-14T22:13:25.000Z,prize,USDC,0.000024,24,1,1,5,${meta(5).transactionHash}`);
+    assert.equal(lines.length, 1 + ledger.entries.length + 1);
+    assert.equal(csv.at(-1), "\n");
+  });
+
+  it("quotes cells with commas or quotes and falls back to the address for unknown tokens", () => {
+    const tokens: LedgerToken[] = [{ address: USDC, symbol: 'USD "Coin", bridged', decimals: 6 }];
+    const [, row] = ledgerToCsv(ledger, tokens).split("\n");
+    const { transactionHash } = meta(1);
+    assert.equal(row, `2023-11-14T22:13:21.000Z,deposit,"USD ""Coin"", bridged",0.00003,30,1,,1,${transactionHash}`);
+
+    const [, unknown] = ledgerToCsv(ledger, []).split("\n");
+    assert.equal(unknown, `2023-11-14T22:13:21.000Z,deposit,${USDC},,30,1,,1,${transactionHash}`);
+  });
+});
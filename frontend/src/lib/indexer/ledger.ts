@@ -0,0 +1,212 @@
+import { formatUnits, getAbiItem } from "viem";
+import type { Address, Hash, Log } from "viem";
+
+import { welotVaultAbi } from "../abis";
+import type { WelotPublicClient } from "../welot";
+import { compareEvents, decodeVaultLogs, getBlockTimestamps, getLogsChunked } from "./events";
+import type { IndexedEvent } from "./events";
+
+export type LedgerEntryKind = "deposit" | "withdrawal" | "prize" | "claim";
+
+export interface LedgerEntry {
+  kind: LedgerEntryKind;
+  token: Address;
+  poolId: bigint;
+  // Token decimals
+  amount: bigint;
+  // Set for "prize" entries: the epoch whose draw credited the amount
+  epochId: bigint | null;
+  blockNumber: bigint;
+  logIndex: number;
+  timestamp: bigint;
+  transactionHash: Hash;
+}
+
+export interface LedgerTotals {
+  token: Address;
+  deposited: bigint;
+  withdrawn: bigint;
+  won: bigint;
+  claimed: bigint;
+}
+
+export interface UserLedger {
+  user: Address;
+  // Oldest first
+  entries: LedgerEntry[];
+  totals: LedgerTotals[];
+}
+
+const PRIZE_INDEX_SCALE = 10n ** 18n;
+
+// Builds the ledger of one address from vault events. Besides the user's own
+// Deposited / Withdrawn / PrizeClaimed events, `events` must contain the
+// Deposited / Withdrawn events of every pool the user was in, plus the
+// TokenPrizeRecorded and WinnerSelected events of the draws those pools won, so
+// the pool's token deposits at each draw can be reconstructed.
+//
+// Winnings use the contract's reward-index math. They are computed per epoch,
+// whereas the contract rounds once per claim, so the sum can be a few wei above
+// the claimed amount.
+export function buildUserLedger(events: readonly IndexedEvent[], user: Address): UserLedger {
+  const needle = user.toLowerCase();
+  const sorted = [...events].sort(compareEvents);
+
+  const winningPoolByEpoch = new Map<bigint, bigint>();
+  for (const e of sorted) {
+    if (e.kind === "WinnerSelected") winningPoolByEpoch.set(e.epochId, e.winningPoolId);
+  }
+
+  // Running deposits keyed by `${token}:${poolId}`
+  const poolDeposits = new Map<string, bigint>();
+  const userDeposits = new Map<string, bigint>();
+  const add = (map: Map<string, bigint>, key: string, delta: bigint) => map.set(key, (map.get(key) ?? 0n) + delta);
+
+  const entries: LedgerEntry[] = [];
+  for (const e of sorted) {
+    const meta = {
+      blockNumber: e.blockNumber,
+      logIndex: e.logIndex,
+      timestamp: e.timestamp,
+      transactionHash: e.transactionHash,
+    };
+
+    switch (e.kind) {
+      case "Deposited":
+      case "Withdrawn": {
+        const key = `${e.token.toLowerCase()}:${e.poolId}`;
+        const delta = e.kind === "Deposited" ? e.amount : -e.amount;
+        add(poolDeposits, key, delta);
+        if (e.user.toLowerCase() !== needle) break;
+        add(userDeposits, key, delta);
+        entries.push({
+          ...meta,
+          kind: e.kind === "Deposited" ? "deposit" : "withdrawal",
+          token: e.token,
+          poolId: e.poolId,
+          amount: e.amount,
+          epochId: null,
+        });
+        break;
+      }
+      case "PrizeClaimed":
+        if (e.user.toLowerCase() !== needle) break;
+        entries.push({ ...meta, kind: "claim", token: e.token, poolId: e.poolId, amount: e.amount, epochId: null });
+        break;
+      case "TokenPrizeRecorded": {
+        const poolId = winningPoolByEpoch.get(e.epochId);
+        if (poolId === undefined) break;
+        const key = `${e.token.toLowerCase()}:${poolId}`;
+        const poolTotal = poolDeposits.get(key) ?? 0n;
+        const mine = userDeposits.get(key) ?? 0n;
+        if (poolTotal === 0n || mine === 0n) break;
+        const amount = (mine * ((e.prize * PRIZE_INDEX_SCALE) / poolTotal)) / PRIZE_INDEX_SCALE;
+        if (amount === 0n) break;
+        entries.push({ ...meta, kind: "prize", token: e.token, poolId, amount, epochId: e.epochId });
+        break;
+      }
+    }
+  }
+
+  const totals = new Map<string, LedgerTotals>();
+  for (const entry of entries) {
+    const key = entry.token.toLowerCase();
+    const t = totals.get(key) ?? { token: entry.token, deposited: 0n, withdrawn: 0n, won: 0n, claimed: 0n };
+    if (entry.kind === "deposit") t.deposited += entry.amount;
+    else if (entry.kind === "withdrawal") t.withdrawn += entry.amount;
+    else if (entry.kind === "prize") t.won += entry.amount;
+    else t.claimed += entry.amount;
+    totals.set(key, t);
+  }
+
+  return { user, entries, totals: [...totals.values()] };
+}
+
+const DEPOSITED = getAbiItem({ abi: welotVaultAbi, name: "Deposited" });
+const WITHDRAWN = getAbiItem({ abi: welotVaultAbi, name: "Withdrawn" });
+const PRIZE_CLAIMED = getAbiItem({ abi: welotVaultAbi, name: "PrizeClaimed" });
+const WINNER_SELECTED = getAbiItem({ abi: welotVaultAbi, name: "WinnerSelected" });
+const TOKEN_PRIZE_RECORDED = getAbiItem({ abi: welotVaultAbi, name: "TokenPrizeRecorded" });
+
+export interface FetchUserLedgerEventsOptions {
+  vaultAddress: Address;
+  user: Address;
+  // The user's assigned pool
+  poolId: bigint;
+  fromBlock: bigint;
+  toBlock: bigint;
+  chunkSize?: bigint;
+}
+
+// Fetches what `buildUserLedger` needs without scanning the whole vault: the
+// user's events via the indexed `user` topic, and the pool's flows and wins via
+// the indexed `poolId` / `winningPoolId` topics.
+export async function fetchUserLedgerEvents(
+  client: WelotPublicClient,
+  opts: FetchUserLedgerEventsOptions
+): Promise<IndexedEvent[]> {
+  const { vaultAddress: address, user, poolId } = opts;
+
+  const logs = await getLogsChunked<Log>(opts.fromBlock, opts.toBlock, opts.chunkSize ?? 2000n, async (fromBlock, toBlock) => {
+    const range = { address, fromBlock, toBlock };
+    const batches = await Promise.all([
+      client.getLogs({ ...range, event: DEPOSITED, args: { user } }),
+      client.getLogs({ ...range, event: WITHDRAWN, args: { user } }),
+      client.getLogs({ ...range, event: PRIZE_CLAIMED, args: { user } }),
+      client.getLogs({ ...range, event: DEPOSITED, args: { poolId } }),
+      client.getLogs({ ...range, event: WITHDRAWN, args: { poolId } }),
+      client.getLogs({ ...range, event: WINNER_SELECTED, args: { winningPoolId: poolId } }),
+      client.getLogs({ ...range, event: TOKEN_PRIZE_RECORDED }),
+    ]);
+    return batches.flat() as Log[];
+  });
+
+  // The user's own deposits and withdrawals also match the pool filter
+  const unique = new Map(logs.map((log) => [`${log.transactionHash}:${log.logIndex}`, log]));
+  const events = decodeVaultLogs([...unique.values()], new Map());
+
+  // Timestamps are only needed for blocks that end up in the ledger
+  const needle = user.toLowerCase();
+  const wonEpochs = new Set(events.flatMap((e) => (e.kind === "WinnerSelected" ? [e.epochId] : [])));
+  const shown = events.filter((e) =>
+    e.kind === "TokenPrizeRecorded"
+      ? wonEpochs.has(e.epochId)
+      : e.kind !== "WinnerSelected" && e.kind !== "PastWinnerRecorded" && e.user.toLowerCase() === needle
+  );
+  const timestamps = await getBlockTimestamps(client, shown);
+
+  return events.map((e) => ({ ...e, timestamp: timestamps.get(e.blockNumber) ?? 0n }));
+}
+
+export interface LedgerToken {
+  address: Address;
+  symbol: string;
+  decimals: number;
+}
+
+const CSV_HEADER = ["date", "type", "token", "amount", "amount_raw", "pool_id", "epoch_id", "block", "tx_hash"];
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One row per ledger entry, oldest first. Dates are ISO-8601 UTC; `amount` is
+// formatted with the token's decimals and `amount_raw` is the on-chain integer.
+export function ledgerToCsv(ledger: UserLedger, tokens: readonly LedgerToken[]): string {
+  const byAddress = new Map(tokens.map((t) => [t.address.toLowerCase(), t]));
+  const rows = ledger.entries.map((e) => {
+    const token = byAddress.get(e.token.toLowerCase());
+    return [
+      new Date(Number(e.timestamp) * 1000).toISOString(),
+      e.kind,
+      token?.symbol ?? e.token,
+      token ? formatUnits(e.amount, token.decimals) : "",
+      e.amount.toString(),
+      e.poolId.toString(),
+      e.epochId?.toString() ?? "",
+      e.blockNumber.toString(),
+      e.transactionHash,
+    ];
+  });
+  return [CSV_HEADER, ...rows].map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,66 @@
+import type { Address, Hash } from "viem";
+
+import type { IndexedEvent, TokenPrizeRecordedEvent, UserEvent, WinnerSelectedEvent } from "./events";
+
+export interface DrawRecord {
+  epochId: bigint;
+  // 0 means no pool had any time-weighted balance (no winner)
+  winningPoolId: bigint;
+  // Normalized to 18 decimals
+  prizeNormalized: bigint;
+  tokenPrizes: { token: Address; prize: bigint }[];
+  blockNumber: bigint;
+  timestamp: bigint;
+  transactionHash: Hash;
+}
+
+// Full draw history, newest first. Unlike `getPastWinners` this is not capped
+// at the 52-slot ring buffer and includes draws without a winner.
+export function getDraws(events: readonly IndexedEvent[], limit?: number): DrawRecord[] {
+  const prizesByEpoch = new Map<bigint, TokenPrizeRecordedEvent[]>();
+  for (const e of events) {
+    if (e.kind !== "TokenPrizeRecorded") continue;
+    const list = prizesByEpoch.get(e.epochId) ?? [];
+    list.push(e);
+    prizesByEpoch.set(e.epochId, list);
+  }
+
+  const draws = events
+    .filter((e): e is WinnerSelectedEvent => e.kind === "WinnerSelected")
+    .map((e) => ({
+      epochId: e.epochId,
+      winningPoolId: e.winningPoolId,
+      prizeNormalized: e.prize,
+      tokenPrizes: (prizesByEpoch.get(e.epochId) ?? []).map((p) => ({ token: p.token, prize: p.prize })),
+      blockNumber: e.blockNumber,
+      timestamp: e.timestamp,
+      transactionHash: e.transactionHash,
+    }))
+    .reverse();
+
+  return limit === undefined ? draws : draws.slice(0, limit);
+}
+
+export function getDraw(events: readonly IndexedEvent[], epochId: bigint): DrawRecord | undefined {
+  return getDraws(events).find((d) => d.epochId === epochId);
+}
+
+// Deposits, withdrawals and claims of one address, oldest first
+export function getUserEvents(events: readonly IndexedEvent[], user: Address): UserEvent[] {
+  const needle = user.toLowerCase();
+  return events.filter(
+    (e): e is UserEvent =>
+      (e.kind === "Deposited" || e.kind === "Withdrawn" || e.kind === "PrizeClaimed") &&
+      e.user.toLowerCase() === needle
+  );
+}
+
+// Number of draws each pool has won
+export function getWinsByPool(events: readonly IndexedEvent[]): Map<bigint, number> {
+  const wins = new Map<bigint, number>();
+  for (const e of events) {
+    if (e.kind !== "WinnerSelected" || e.winningPoolId === 0n) continue;
+    wins.set(e.winningPoolId, (wins.get(e.winningPoolId) ?? 0) + 1);
+  }
+  return wins;
+}
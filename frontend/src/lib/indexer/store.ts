@@ -0,0 +1,49 @@
+import type { Address, Hash } from "viem";
+
+import type { IndexedEvent } from "./events";
+
+export interface BlockRef {
+  number: bigint;
+  hash: Hash;
+}
+
+export interface IndexerState {
+  chainId: number;
+  vaultAddress: Address;
+  // Last block whose logs are fully reflected in `events`
+  cursor: BlockRef | null;
+  // Recent cursors, newest last; used to find the fork point after a reorg
+  checkpoints: BlockRef[];
+  events: IndexedEvent[];
+}
+
+export interface IndexerStore {
+  load(): Promise<IndexerState | null>;
+  save(state: IndexerState): Promise<void>;
+}
+
+// JSON has no bigint; encode them as "<digits>n" strings. Addresses and hashes
+// are hex and can never match.
+const BIGINT_RE = /^-?\d+n$/;
+
+export function serializeState(state: IndexerState): string {
+  return JSON.stringify(state, (_key, value) => (typeof value === "bigint" ? `${value}n` : value), 2);
+}
+
+export function deserializeState(json: string): IndexerState {
+  return JSON.parse(json, (_key, value) =>
+    typeof value === "string" && BIGINT_RE.test(value) ? BigInt(value.slice(0, -1)) : value
+  ) as IndexerState;
+}
+
+export class MemoryStore implements IndexerStore {
+  private json: string | null = null;
+
+  async load(): Promise<IndexerState | null> {
+    return this.json ? deserializeState(this.json) : null;
+  }
+
+  async save(state: IndexerState): Promise<void> {
+    this.json = serializeState(state);
+  }
+}
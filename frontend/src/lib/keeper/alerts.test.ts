@@ -0,0 +1,184 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Address } from "viem";
+
+import { EpochStatus } from "../welot/types";
+import {
+  AlertManager,
+  alertSummary,
+  detectStalls,
+  type Alert,
+  type AlertNotification,
+  type AlertNotifier,
+  type StallInput,
+} from "./alerts";
+
+const VAULT: Address = "0x00000000000000000000000000000000000000f1";
+const T0 = Date.UTC(2025, 0, 1);
+const MINUTE = 60_000;
+
+function recorder(): AlertNotifier & { sent: AlertNotification[] } {
+  const sent: AlertNotification[] = [];
+  return { name: "recorder", sent, notify: async (n) => void sent.push(n) };
+}
+
+const alert = (key: string, message = key): Alert => ({ key, severity: "critical", message });
+const sent = (n: AlertNotification[]) => n.map((x) => `${x.status} ${x.key}`);
+
+describe("AlertManager", () => {
+  it("notifies when a key starts firing, not again while it persists, and once when it resolves", async () => {
+    const notifier = recorder();
+    const alerts = new AlertManager({ vaultAddress: VAULT, chainId: 5000, notifiers: [notifier], repeatAfterMs: 0 });
+
+    await alerts.evaluate([alert("a")], T0);
+    await alerts.evaluate([alert("a")], T0 + MINUTE);
+    await alerts.evaluate([alert("a"), alert("b")], T0 + 2 * MINUTE);
+    assert.equal(alerts.activeCount, 2);
+    await alerts.evaluate([alert("b")], T0 + 3 * MINUTE);
+    await alerts.evaluate([], T0 + 4 * MINUTE);
+    await alerts.evaluate([], T0 + 5 * MINUTE);
+
+    assert.deepEqual(sent(notifier.sent), ["firing a", "firing b", "resolved a", "resolved b"]);
+    assert.equal(alerts.activeCount, 0);
+
+    const resolvedA = notifier.sent[2];
+    assert.equal(resolvedA.vault, VAULT);
+    assert.equal(resolvedA.chainId, 5000);
+    assert.equal(resolvedA.firstSeenAt, new Date(T0).toISOString());
+    assert.equal(resolvedA.sentAt, new Date(T0 + 3 * MINUTE).toISOString());
+  });
+
+  it("repeats a still-firing alert every repeatAfterMs with its latest message", async () => {
+    const notifier = recorder();
+    const alerts = new AlertManager({ vaultAddress: VAULT, notifiers: [notifier], repeatAfterMs: 10 * MINUTE });
+
+    await alerts.raise(alert("a", "first"), T0);
+    await alerts.raise(alert("a", "second"), T0 + 9 * MINUTE);
+    await alerts.raise(alert("a", "third"), T0 + 10 * MINUTE);
+    await alerts.raise(alert("a", "fourth"), T0 + 19 * MINUTE);
+    await alerts.raise(alert("a", "fifth"), T0 + 20 * MINUTE);
+
+    assert.deepEqual(
+      notifier.sent.map((n) => [n.message, n.sentAt]),
+      [
+        ["first", new Date(T0).toISOString()],
+        ["third", new Date(T0 + 10 * MINUTE).toISOString()],
+        ["fifth", new Date(T0 + 20 * MINUTE).toISOString()],
+      ]
+    );
+    assert.ok(notifier.sent.every((n) => n.firstSeenAt === new Date(T0).toISOString()));
+
+    // The resolve notice carries the last message seen
+    await alerts.evaluate([], T0 + 21 * MINUTE);
+    assert.deepEqual([notifier.sent[3].status, notifier.sent[3].message], ["resolved", "fifth"]);
+  });
+
+  it("starts a new firing period after a key resolved", async () => {
+    const notifier = recorder();
+    const alerts = new AlertManager({ vaultAddress: VAULT, notifiers: [notifier] });
+    await alerts.evaluate([alert("a")], T0);
+    await alerts.evaluate([], T0 + MINUTE);
+    await alerts.evaluate([alert("a")], T0 + 2 * MINUTE);
+    assert.deepEqual(sent(notifier.sent), ["firing a", "resolved a", "firing a"]);
+    assert.equal(notifier.sent[2].firstSeenAt, new Date(T0 + 2 * MINUTE).toISOString());
+  });
+
+  it("keeps notifying the other notifiers when one fails", async () => {
+    const good = recorder();
+    const broken: AlertNotifier = {
+      name: "broken",
+      notify: async () => {
+        throw new Error("webhook down");
+      },
+    };
+    const alerts = new AlertManager({ vaultAddress: VAULT, notifiers: [broken, good] });
+    await alerts.raise(alert("a"), T0);
+    assert.deepEqual(sent(good.sent), ["firing a"]);
+    assert.equal(alerts.activeCount, 1);
+  });
+
+  it("summarizes a notification on one line", () => {
+    const n: AlertNotification = {
+      ...alert("epoch-overdue:3", "Epoch 3 is late"),
+      status: "firing",
+      vault: VAULT,
+      chainId: 5000,
+      firstSeenAt: "",
+      sentAt: "",
+    };
+    assert.equal(alertSummary(n), `[FIRING] critical epoch-overdue:3 on ${VAULT} (chain 5000): Epoch 3 is late`);
+    assert.equal(
+      alertSummary({ ...n, chainId: undefined }),
+      `[FIRING] critical epoch-overdue:3 on ${VAULT}: Epoch 3 is late`
+    );
+  });
+});
+
+describe("detectStalls", () => {
+  const thresholds = { overdueAfterSec: 900n, randomnessPendingBlocks: 150n };
+  const input = (overrides: Partial<StallInput> = {}): StallInput => ({
+    epochId: 7n,
+    epochStatus: EpochStatus.Open,
+    epochEnd: 1_000_000n,
+    blockNumber: 5000n,
+    blockTimestamp: 1_000_000n,
+    randomnessPendingSince: null,
+    upkeepNeeded: true,
+    ...overrides,
+  });
+
+  it("raises nothing for an epoch on schedule", () => {
+    assert.deepEqual(detectStalls(input({ blockTimestamp: 900_000n }), thresholds), []);
+    // Exactly at the threshold is not overdue yet
+    assert.deepEqual(detectStalls(input({ blockTimestamp: 1_000_900n }), thresholds), []);
+  });
+
+  it("flags an epoch past its end by more than overdueAfterSec", () => {
+    const [overdue, ...rest] = detectStalls(input({ blockTimestamp: 1_001_200n }), thresholds);
+    assert.deepEqual(rest, []);
+    assert.equal(overdue.key, "epoch-overdue:7");
+    assert.equal(overdue.severity, "critical");
+    assert.equal(overdue.message, "Epoch 7 ended 20 min ago and is still Open");
+    assert.deepEqual(overdue.details, { epochId: 7n, status: "Open", epochEnd: 1_000_000n, overdueBySec: 1200n });
+  });
+
+  it("says when a closed epoch is stuck on the Entropy fee", () => {
+    const stalled = (upkeepNeeded: boolean) =>
+      detectStalls(input({ epochStatus: EpochStatus.Closed, blockTimestamp: 1_001_200n, upkeepNeeded }), thresholds)[0];
+    assert.equal(
+      stalled(false).message,
+      "Epoch 7 ended 20 min ago and is still Closed (vault cannot pay the Entropy fee)"
+    );
+    assert.equal(stalled(true).message, "Epoch 7 ended 20 min ago and is still Closed");
+  });
+
+  it("flags randomness pending for more than randomnessPendingBlocks", () => {
+    const pending = (blockNumber: bigint) =>
+      detectStalls(
+        input({ epochStatus: EpochStatus.RandomnessRequested, randomnessPendingSince: 5000n, blockNumber }),
+        thresholds
+      );
+    assert.deepEqual(pending(5150n), []);
+    const [alert] = pending(5151n);
+    assert.equal(alert.key, "randomness-pending:7");
+    assert.equal(alert.message, "Randomness for epoch 7 has been pending for 151 blocks");
+    assert.deepEqual(alert.details, { epochId: 7n, pendingSinceBlock: 5000n, pendingBlocks: 151n });
+
+    // Not tracked yet (e.g. right after a restart): nothing to measure
+    assert.deepEqual(
+      detectStalls(input({ epochStatus: EpochStatus.RandomnessRequested, blockNumber: 9999n }), thresholds),
+      []
+    );
+  });
+
+  it("keys stalls by epoch so the next epoch resolves them", async () => {
+    const late = detectStalls(input({ blockTimestamp: 1_001_200n }), thresholds);
+    const next = detectStalls(input({ epochId: 8n, epochEnd: 2_000_000n, blockTimestamp: 1_001_300n }), thresholds);
+    const notifier = recorder();
+    const alerts = new AlertManager({ vaultAddress: VAULT, notifiers: [notifier] });
+    await alerts.evaluate(late, T0);
+    await alerts.evaluate(next, T0 + MINUTE);
+    assert.deepEqual(sent(notifier.sent), ["firing epoch-overdue:7", "resolved epoch-overdue:7"]);
+  });
+});
@@ -0,0 +1,208 @@
+import type { Address } from "viem";
+
+import { EpochStatus } from "../welot/types";
+import type { Logger } from "./logger";
+
+export type AlertSeverity = "warning" | "critical";
+
+export interface Alert {
+  // De-duplication key; an alert stays active while its key keeps firing
+  key: string;
+  severity: AlertSeverity;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AlertNotification extends Alert {
+  status: "firing" | "resolved";
+  vault: Address;
+  chainId?: number;
+  // ISO-8601
+  firstSeenAt: string;
+  sentAt: string;
+}
+
+export interface AlertNotifier {
+  readonly name: string;
+  notify(notification: AlertNotification): Promise<void>;
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+export function alertSummary(n: AlertNotification): string {
+  const where = n.chainId === undefined ? n.vault : `${n.vault} (chain ${n.chainId})`;
+  return `[${n.status.toUpperCase()}] ${n.severity} ${n.key} on ${where}: ${n.message}`;
+}
+
+// One JSON line per notification on stdout
+export function stdoutNotifier(): AlertNotifier {
+  return {
+    name: "stdout",
+    notify: async (n) => {
+      process.stdout.write(`${toJson(n)}\n`);
+    },
+  };
+}
+
+// POSTs the notification as JSON. `text` carries a one-line summary so
+// Slack-style incoming webhooks render something useful as-is.
+export function webhookNotifier(url: string, opts: { headers?: Record<string, string> } = {}): AlertNotifier {
+  return {
+    name: "webhook",
+    async notify(n) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...opts.headers },
+        body: toJson({ ...n, text: alertSummary(n) }),
+      });
+      if (!res.ok) throw new Error(`Webhook responded ${res.status}`);
+    },
+  };
+}
+
+export interface AlertManagerOptions {
+  vaultAddress: Address;
+  chainId?: number;
+  notifiers: AlertNotifier[];
+  // Re-send a still-firing alert after this long; 0 never repeats
+  repeatAfterMs?: number;
+  logger?: Logger;
+}
+
+interface ActiveAlert {
+  alert: Alert;
+  firstSeenAt: number;
+  lastSentAt: number;
+}
+
+// Tracks which alerts are firing and notifies only on transitions: when a key
+// starts firing, when it resolves, and every `repeatAfterMs` while it persists.
+// Notifier failures are logged and never interrupt the keeper.
+export class AlertManager {
+  private readonly active = new Map<string, ActiveAlert>();
+  private readonly vaultAddress: Address;
+  private readonly chainId?: number;
+  private readonly notifiers: AlertNotifier[];
+  private readonly repeatAfterMs: number;
+  private readonly log?: Logger;
+
+  constructor(opts: AlertManagerOptions) {
+    this.vaultAddress = opts.vaultAddress;
+    this.chainId = opts.chainId;
+    this.notifiers = opts.notifiers;
+    this.repeatAfterMs = opts.repeatAfterMs ?? 60 * 60_000;
+    this.log = opts.logger;
+  }
+
+  get activeCount(): number {
+    return this.active.size;
+  }
+
+  // Raises `alert` unless it is already active and not due for a repeat
+  async raise(alert: Alert, now = Date.now()): Promise<void> {
+    const existing = this.active.get(alert.key);
+    if (existing) {
+      existing.alert = alert;
+      if (this.repeatAfterMs <= 0 || now - existing.lastSentAt < this.repeatAfterMs) return;
+      existing.lastSentAt = now;
+      await this.send(alert, "firing", existing.firstSeenAt, now);
+      return;
+    }
+    this.active.set(alert.key, { alert, firstSeenAt: now, lastSentAt: now });
+    await this.send(alert, "firing", now, now);
+  }
+
+  // `firing` is the complete set of alerts for the current state: each is
+  // raised, and every active alert missing from it is resolved.
+  async evaluate(firing: readonly Alert[], now = Date.now()): Promise<void> {
+    const keys = new Set(firing.map((a) => a.key));
+    for (const [key, entry] of [...this.active]) {
+      if (keys.has(key)) continue;
+      this.active.delete(key);
+      await this.send(entry.alert, "resolved", entry.firstSeenAt, now);
+    }
+    for (const alert of firing) await this.raise(alert, now);
+  }
+
+  private async send(alert: Alert, status: AlertNotification["status"], firstSeenAt: number, now: number) {
+    const notification: AlertNotification = {
+      ...alert,
+      status,
+      vault: this.vaultAddress,
+      chainId: this.chainId,
+      firstSeenAt: new Date(firstSeenAt).toISOString(),
+      sentAt: new Date(now).toISOString(),
+    };
+    this.log?.warn("alert", { alert: alert.key, status, severity: alert.severity });
+    await Promise.all(
+      this.notifiers.map(async (notifier) => {
+        try {
+          await notifier.notify(notification);
+        } catch (err) {
+          this.log?.error("alert notifier failed", { notifier: notifier.name, alert: alert.key, err });
+        }
+      })
+    );
+  }
+}
+
+export interface StallThresholds {
+  // Alert when the chain is this far past `epoch.end` without a finalized draw
+  overdueAfterSec: bigint;
+  // Alert when randomness has been pending for this many blocks
+  randomnessPendingBlocks: bigint;
+}
+
+export const DEFAULT_STALL_THRESHOLDS: StallThresholds = {
+  overdueAfterSec: 15n * 60n,
+  randomnessPendingBlocks: 150n,
+};
+
+export interface StallInput {
+  epochId: bigint;
+  epochStatus: number;
+  epochEnd: bigint;
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+  // Block at which the keeper first saw this epoch in RandomnessRequested
+  randomnessPendingSince: bigint | null;
+  upkeepNeeded: boolean;
+}
+
+const STATUS_NAMES = ["Open", "Closed", "RandomnessRequested", "RandomnessReady"];
+
+// Lifecycle stalls visible from vault state alone. Keys include the epoch id
+// so a finalized draw resolves them.
+export function detectStalls(input: StallInput, thresholds: StallThresholds = DEFAULT_STALL_THRESHOLDS): Alert[] {
+  const alerts: Alert[] = [];
+  const status = STATUS_NAMES[input.epochStatus] ?? String(input.epochStatus);
+
+  const overdueBy = input.blockTimestamp - input.epochEnd;
+  if (overdueBy > thresholds.overdueAfterSec) {
+    const unfunded = input.epochStatus === EpochStatus.Closed && !input.upkeepNeeded;
+    alerts.push({
+      key: `epoch-overdue:${input.epochId}`,
+      severity: "critical",
+      message:
+        `Epoch ${input.epochId} ended ${overdueBy / 60n} min ago and is still ${status}` +
+        (unfunded ? " (vault cannot pay the Entropy fee)" : ""),
+      details: { epochId: input.epochId, status, epochEnd: input.epochEnd, overdueBySec: overdueBy },
+    });
+  }
+
+  if (input.epochStatus === EpochStatus.RandomnessRequested && input.randomnessPendingSince !== null) {
+    const pendingBlocks = input.blockNumber - input.randomnessPendingSince;
+    if (pendingBlocks > thresholds.randomnessPendingBlocks) {
+      alerts.push({
+        key: `randomness-pending:${input.epochId}`,
+        severity: "critical",
+        message: `Randomness for epoch ${input.epochId} has been pending for ${pendingBlocks} blocks`,
+        details: { epochId: input.epochId, pendingSinceBlock: input.randomnessPendingSince, pendingBlocks },
+      });
+    }
+  }
+
+  return alerts;
+}
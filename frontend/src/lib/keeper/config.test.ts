@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { getAddress, parseEther } from "viem";
+
+import { parseKeeperConfig, type KeeperVaultDefaults } from "./config";
+
+const VAULT = "0x00000000000000000000000000000000000000f1";
+const OTHER = "0x00000000000000000000000000000000000000f2";
+
+const defaults: KeeperVaultDefaults = {
+  privateKeyEnv: "KEEPER_PRIVATE_KEY",
+  pollIntervalMs: 30_000,
+  maxStepsPerRun: 5,
+  dryRun: false,
+  gas: { strategy: "provider" },
+  topUpBudget: { amount: parseEther("1"), windowMs: 86_400_000 },
+};
+const env = { KEEPER_PRIVATE_KEY: "0xkey", OTHER_KEY: "0xother", MANTLE_RPC: "https://rpc.example" };
+
+const entry = (overrides: Record<string, unknown> = {}) => ({
+  chainId: 5000,
+  rpcUrl: "https://rpc.mantle.xyz",
+  vault: VAULT,
+  ...overrides,
+});
+const parse = (...vaults: unknown[]) => parseKeeperConfig({ vaults }, defaults, env);
+
+describe("parseKeeperConfig", () => {
+  it("fills unset keys from the defaults and keeps per-vault overrides", () => {
+    const { vaults, skipped } = parse(
+      entry(),
+      entry({
+        vault: OTHER,
+        name: "mantle-usdc",
+        rpcUrlEnv: "MANTLE_RPC",
+        privateKeyEnv: "OTHER_KEY",
+        pollIntervalMs: 5_000,
+        maxStepsPerRun: 2,
+        dryRun: true,
+        gas: { strategy: "bumped", multiplier: 1.5 },
+        topUpBudget: null,
+      })
+    );
+    assert.deepEqual(skipped, []);
+    assert.deepEqual(vaults, [
+      {
+        name: `5000:${getAddress(VAULT)}`,
+        chainId: 5000,
+        rpcUrl: "https://rpc.mantle.xyz",
+        vault: getAddress(VAULT),
+        ...defaults,
+      },
+      {
+        name: "mantle-usdc",
+        chainId: 5000,
+        rpcUrl: "https://rpc.example",
+        vault: getAddress(OTHER),
+        privateKeyEnv: "OTHER_KEY",
+        pollIntervalMs: 5_000,
+        maxStepsPerRun: 2,
+        dryRun: true,
+        gas: { strategy: "bumped", gasPriceGwei: undefined, multiplier: 1.5, maxFeeGwei: undefined },
+        topUpBudget: null,
+      },
+    ]);
+
+    const [budget] = parse(entry({ topUpBudget: { amount: "0.5", windowHours: 6 } })).vaults;
+    assert.deepEqual(budget.topUpBudget, { amount: parseEther("0.5"), windowMs: 6 * 3_600_000 });
+  });
+
+  it("skips a vault whose env vars are missing and keeps the others", () => {
+    const { vaults, skipped } = parse(
+      entry({ name: "no-key", privateKeyEnv: "UNSET_KEY" }),
+      entry({ name: "no-rpc", vault: OTHER, rpcUrlEnv: "UNSET_RPC", privateKeyEnv: "UNSET_KEY" }),
+      entry({ name: "ok", vault: OTHER })
+    );
+    assert.deepEqual(vaults.map((v) => v.name), ["ok"]);
+    assert.deepEqual(skipped, [
+      { name: "no-key", reason: "missing env var UNSET_KEY" },
+      { name: "no-rpc", reason: "missing env var UNSET_RPC, UNSET_KEY" },
+    ]);
+  });
+
+  it("rejects malformed entries", () => {
+    const rejects = (overrides: Record<string, unknown>, message: RegExp) =>
+      assert.throws(() => parse(entry(overrides)), message);
+
+    assert.throws(() => parseKeeperConfig({ vaults: [] }, defaults, env), /non-empty `vaults` array/);
+    rejects({ chainId: "5000" }, /vaults\[0\]\.chainId must be a positive integer/);
+    rejects({ vault: "0x1234" }, /vaults\[0\]\.vault must be an address/);
+    rejects({ rpcUrl: undefined }, /rpcUrl or rpcUrlEnv is required/);
+    rejects({ name: "" }, /vaults\[0\]\.name must be a non-empty string/);
+    rejects({ dryRun: "yes" }, /vaults\[0\]\.dryRun must be a boolean/);
+    rejects({ pollIntervalMs: 0 }, /vaults\[0\]\.pollIntervalMs must be a positive integer/);
+    rejects({ pollIntervalMs: 1500.5 }, /vaults\[0\]\.pollIntervalMs must be a positive integer/);
+    rejects({ maxStepsPerRun: 2.5 }, /vaults\[0\]\.maxStepsPerRun must be a positive integer/);
+    rejects({ gas: { strategy: "eip1559" } }, /vaults\[0\]\.gas\.strategy must be provider, fixed or bumped/);
+    rejects({ gas: { strategy: "fixed" } }, /strategy "fixed" requires gasPriceGwei/);
+    rejects({ topUpBudget: { windowHours: 1 } }, /vaults\[0\]\.topUpBudget\.amount is required/);
+    rejects({ topUpBudget: { amount: "1", windowHours: -1 } }, /topUpBudget\.windowHours must be a positive number/);
+
+    assert.throws(() => parse(entry(), entry({ name: "again" })), /listed twice/);
+  });
+});
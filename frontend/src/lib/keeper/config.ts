@@ -0,0 +1,193 @@
+import { getAddress, isAddress, parseEther, parseGwei } from "viem";
+import type { Address } from "viem";
+
+import { bumpedGasStrategy, fixedGasPriceStrategy, providerGasStrategy, type GasStrategy } from "./gas";
+
+export interface GasConfig {
+  strategy: "provider" | "fixed" | "bumped";
+  gasPriceGwei?: string;
+  multiplier?: number;
+  maxFeeGwei?: string;
+}
+
+// Cap on native value the keeper sends to one vault for Entropy fees
+export interface TopUpBudget {
+  amount: bigint;
+  windowMs: number;
+}
+
+export interface KeeperVaultConfig {
+  // Label used in logs; defaults to `<chainId>:<vault>`
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  vault: Address;
+  // Name of the env var holding the signer key; keys never live in the config file
+  privateKeyEnv: string;
+  pollIntervalMs: number;
+  maxStepsPerRun: number;
+  dryRun: boolean;
+  gas: GasConfig;
+  topUpBudget: TopUpBudget | null;
+}
+
+// Values a vault entry falls back to when it does not set them
+export type KeeperVaultDefaults = Pick<
+  KeeperVaultConfig,
+  "privateKeyEnv" | "pollIntervalMs" | "maxStepsPerRun" | "dryRun" | "gas" | "topUpBudget"
+>;
+
+// A vault left out because its env vars are missing; the others still start
+export interface SkippedVault {
+  name: string;
+  reason: string;
+}
+
+export interface ParsedKeeperConfig {
+  vaults: KeeperVaultConfig[];
+  skipped: SkippedVault[];
+}
+
+type Env = Record<string, string | undefined>;
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optString(entry: Raw, key: string, where: string): string | undefined {
+  const value = entry[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || value === "") throw new Error(`${where}.${key} must be a non-empty string`);
+  return value;
+}
+
+function optNumber(entry: Raw, key: string, where: string): number | undefined {
+  const value = entry[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${where}.${key} must be a positive number`);
+  }
+  return value;
+}
+
+function optInteger(entry: Raw, key: string, where: string): number | undefined {
+  const value = entry[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new Error(`${where}.${key} must be a positive integer`);
+  }
+  return value;
+}
+
+function parseGas(raw: unknown, where: string): GasConfig | undefined {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) throw new Error(`${where} must be an object`);
+  const strategy = raw.strategy ?? "provider";
+  if (strategy !== "provider" && strategy !== "fixed" && strategy !== "bumped") {
+    throw new Error(`${where}.strategy must be provider, fixed or bumped`);
+  }
+  const gas: GasConfig = {
+    strategy,
+    gasPriceGwei: optString(raw, "gasPriceGwei", where),
+    multiplier: optNumber(raw, "multiplier", where),
+    maxFeeGwei: optString(raw, "maxFeeGwei", where),
+  };
+  if (strategy === "fixed" && !gas.gasPriceGwei) throw new Error(`${where}: strategy "fixed" requires gasPriceGwei`);
+  return gas;
+}
+
+function parseTopUpBudget(raw: unknown, where: string): TopUpBudget | null | undefined {
+  if (raw === undefined) return undefined;
+  if (raw === null) return null;
+  if (!isObject(raw)) throw new Error(`${where} must be an object or null`);
+  const amount = optString(raw, "amount", where);
+  if (!amount) throw new Error(`${where}.amount is required (native units, e.g. "0.5")`);
+  const windowHours = optNumber(raw, "windowHours", where) ?? 24;
+  return { amount: parseEther(amount), windowMs: windowHours * 3_600_000 };
+}
+
+// Validates a keeper config file:
+//
+//   { "vaults": [{ "chainId": 5003, "rpcUrl": "https://…", "vault": "0x…",
+//                  "name"?, "rpcUrlEnv"?, "privateKeyEnv"?, "pollIntervalMs"?,
+//                  "maxStepsPerRun"?, "dryRun"?, "gas"?, "topUpBudget"? }] }
+//
+// `rpcUrlEnv` / `privateKeyEnv` name env vars so secrets stay out of the file.
+// A malformed file throws; a vault whose env vars are missing is only skipped,
+// so one unset secret does not stop the other vaults.
+export function parseKeeperConfig(raw: unknown, defaults: KeeperVaultDefaults, env: Env): ParsedKeeperConfig {
+  if (!isObject(raw) || !Array.isArray(raw.vaults) || raw.vaults.length === 0) {
+    throw new Error("Keeper config must have a non-empty `vaults` array");
+  }
+
+  const skipped: SkippedVault[] = [];
+  const parsed = raw.vaults.map((entry: unknown, i): KeeperVaultConfig | null => {
+    const where = `vaults[${i}]`;
+    if (!isObject(entry)) throw new Error(`${where} must be an object`);
+
+    const chainId = entry.chainId;
+    if (typeof chainId !== "number" || !Number.isInteger(chainId) || chainId <= 0) {
+      throw new Error(`${where}.chainId must be a positive integer`);
+    }
+    if (typeof entry.vault !== "string" || !isAddress(entry.vault)) {
+      throw new Error(`${where}.vault must be an address`);
+    }
+    const vault = getAddress(entry.vault);
+    const name = optString(entry, "name", where) ?? `${chainId}:${vault}`;
+
+    const rpcUrlEnv = optString(entry, "rpcUrlEnv", where);
+    if (!rpcUrlEnv && !optString(entry, "rpcUrl", where)) throw new Error(`${where}: rpcUrl or rpcUrlEnv is required`);
+    const rpcUrl = rpcUrlEnv ? env[rpcUrlEnv] : optString(entry, "rpcUrl", where);
+    const privateKeyEnv = optString(entry, "privateKeyEnv", where) ?? defaults.privateKeyEnv;
+
+    if (entry.dryRun !== undefined && typeof entry.dryRun !== "boolean") {
+      throw new Error(`${where}.dryRun must be a boolean`);
+    }
+    const topUpBudget = parseTopUpBudget(entry.topUpBudget, `${where}.topUpBudget`);
+    const gas = parseGas(entry.gas, `${where}.gas`) ?? defaults.gas;
+
+    const missing = [!rpcUrl && rpcUrlEnv, !env[privateKeyEnv] && privateKeyEnv].filter(Boolean);
+    if (!rpcUrl || missing.length > 0) {
+      skipped.push({ name, reason: `missing env var ${missing.join(", ")}` });
+      return null;
+    }
+
+    return {
+      name,
+      chainId,
+      rpcUrl,
+      vault,
+      privateKeyEnv,
+      pollIntervalMs: optInteger(entry, "pollIntervalMs", where) ?? defaults.pollIntervalMs,
+      maxStepsPerRun: optInteger(entry, "maxStepsPerRun", where) ?? defaults.maxStepsPerRun,
+      dryRun: entry.dryRun ?? defaults.dryRun,
+      gas,
+      topUpBudget: topUpBudget === undefined ? defaults.topUpBudget : topUpBudget,
+    };
+  });
+
+  const vaults = parsed.filter((v): v is KeeperVaultConfig => v !== null);
+  const seen = new Set<string>();
+  for (const v of vaults) {
+    const key = `${v.chainId}:${v.vault}`;
+    if (seen.has(key)) throw new Error(`Vault ${v.vault} on chain ${v.chainId} is listed twice`);
+    seen.add(key);
+  }
+  return { vaults, skipped };
+}
+
+export function gasStrategyFromConfig(gas: GasConfig): GasStrategy {
+  switch (gas.strategy) {
+    case "provider":
+      return providerGasStrategy;
+    case "fixed":
+      if (!gas.gasPriceGwei) throw new Error("Gas strategy fixed requires gasPriceGwei");
+      return fixedGasPriceStrategy(parseGwei(gas.gasPriceGwei));
+    case "bumped":
+      return bumpedGasStrategy({
+        multiplier: gas.multiplier ?? 1.2,
+        maxFeePerGas: gas.maxFeeGwei ? parseGwei(gas.maxFeeGwei) : undefined,
+      });
+  }
+}
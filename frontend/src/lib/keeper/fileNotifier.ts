@@ -0,0 +1,16 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+
+import type { AlertNotifier } from "./alerts";
+
+// Node-only notifier that appends one JSON line per notification
+export function fileNotifier(filePath: string): AlertNotifier {
+  return {
+    name: "file",
+    async notify(n) {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const line = JSON.stringify(n, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+      await appendFile(filePath, `${line}\n`, "utf8");
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import type { WelotPublicClient } from "../welot";
+
+// Fee fields merged into every keeper transaction. An empty object leaves
+// fee estimation to viem / the node.
+export type GasFees =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { gasPrice: bigint }
+  | Record<string, never>;
+
+export interface GasStrategy {
+  readonly name: string;
+  getFees(client: WelotPublicClient): Promise<GasFees>;
+}
+
+// Default: viem estimates fees per transaction
+export const providerGasStrategy: GasStrategy = {
+  name: "provider",
+  getFees: async () => ({}),
+};
+
+// Legacy transactions at a fixed price (wei)
+export function fixedGasPriceStrategy(gasPrice: bigint): GasStrategy {
+  return { name: "fixed", getFees: async () => ({ gasPrice }) };
+}
+
+export interface BumpedGasStrategyOptions {
+  // e.g. 1.25 pays 25% above the estimate
+  multiplier: number;
+  // Cap on maxFeePerGas / gasPrice (wei)
+  maxFeePerGas?: bigint;
+}
+
+// Pays a multiple of the current estimate so upkeep is not stuck behind a fee
+// spike. Falls back to a legacy gas price on chains without EIP-1559.
+export function bumpedGasStrategy(opts: BumpedGasStrategyOptions): GasStrategy {
+  const bps = BigInt(Math.round(opts.multiplier * 10_000));
+  const bump = (v: bigint) => {
+    const bumped = (v * bps) / 10_000n;
+    return opts.maxFeePerGas !== undefined && bumped > opts.maxFeePerGas ? opts.maxFeePerGas : bumped;
+  };
+
+  return {
+    name: "bumped",
+    async getFees(client) {
+      try {
+        const fees = await client.estimateFeesPerGas({ type: "eip1559" });
+        const maxFeePerGas = bump(fees.maxFeePerGas);
+        const tip = bump(fees.maxPriorityFeePerGas);
+        return { maxFeePerGas, maxPriorityFeePerGas: tip > maxFeePerGas ? maxFeePerGas : tip };
+      } catch {
+        return { gasPrice: bump(await client.getGasPrice()) };
+      }
+    },
+  };
+}
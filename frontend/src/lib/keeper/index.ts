@@ -0,0 +1,37 @@
+export { Keeper, UpkeepAction, decodeUpkeepAction, encodeUpkeepAction } from "./keeper";
+export type { KeeperOptions, RetryPolicy, TickResult, TickStopReason, VaultState } from "./keeper";
+export {
+  AlertManager,
+  DEFAULT_STALL_THRESHOLDS,
+  alertSummary,
+  detectStalls,
+  stdoutNotifier,
+  webhookNotifier,
+} from "./alerts";
+export type {
+  Alert,
+  AlertManagerOptions,
+  AlertNotification,
+  AlertNotifier,
+  AlertSeverity,
+  StallInput,
+  StallThresholds,
+} from "./alerts";
+export { gasStrategyFromConfig, parseKeeperConfig } from "./config";
+export type {
+  GasConfig,
+  KeeperVaultConfig,
+  KeeperVaultDefaults,
+  ParsedKeeperConfig,
+  SkippedVault,
+  TopUpBudget,
+} from "./config";
+export { bumpedGasStrategy, fixedGasPriceStrategy, providerGasStrategy } from "./gas";
+export type { BumpedGasStrategyOptions, GasFees, GasStrategy } from "./gas";
+export { createJsonLogger, isLogLevel } from "./logger";
+export type { JsonLoggerOptions, LogFields, LogLevel, Logger } from "./logger";
+export { KeeperMetrics, renderMetrics } from "./metrics";
+export { computeDrawPreview, decodeDrawPreview, simulateTransactions } from "./preview";
+export type { DrawPreview, SimulatedCall } from "./preview";
+export { privateKeySigner, walletClientSigner } from "./signer";
+export type { KeeperSigner, KeeperTransaction } from "./signer";
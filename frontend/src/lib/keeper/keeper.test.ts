@@ -0,0 +1,180 @@
+import assert from "node:assert/strict";
+import { spawn, spawnSync, type ChildProcess } from "node:child_process";
+import { once } from "node:events";
+import { readFileSync } from "node:fs";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { createPublicClient, createTestClient, createWalletClient, http, toHex, type Address, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { mockEntropyAbi, welotVaultAbi } from "../abis";
+import { resolveChain } from "../chains";
+import { EpochStatus } from "../welot/types";
+import { Keeper } from "./keeper";
+import { createJsonLogger } from "./logger";
+import { KeeperMetrics } from "./metrics";
+import { startKeeperServer } from "./server";
+import { privateKeySigner } from "./signer";
+
+// Drives a real vault through one draw on Anvil: DeployLocal.s.sol deploys the
+// vault against MockEntropyV2, and the test plays the Entropy provider.
+// Skipped when Foundry (anvil + forge) is not on PATH.
+
+const hasFoundry = ["anvil", "forge"].every((bin) => spawnSync(bin, ["--version"]).status === 0);
+
+const CONTRACTS_DIR = path.resolve(__dirname, "../../../../contracts");
+const PORT = 8645;
+const RPC_URL = `http://127.0.0.1:${PORT}`;
+// Anvil's first two default accounts: the keeper and the Entropy "provider"
+const KEEPER_KEY: Hex = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const PROVIDER_KEY: Hex = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const EPOCH_DURATION_SEC = 7 * 24 * 60 * 60;
+
+interface Broadcast {
+  transactions: { contractName: string | null; contractAddress: string | null }[];
+}
+
+function deployedAddress(broadcast: Broadcast, name: string): Address {
+  const tx = broadcast.transactions.find((t) => t.contractName === name);
+  if (!tx?.contractAddress) throw new Error(`${name} not found in DeployLocal broadcast`);
+  return tx.contractAddress as Address;
+}
+
+async function waitForRpc(client: { getChainId: () => Promise<number> }) {
+  for (let i = 0; i < 50; i++) {
+    try {
+      await client.getChainId();
+      return;
+    } catch {
+      await new Promise((r) => setTimeout(r, 100));
+    }
+  }
+  throw new Error(`anvil did not start on ${RPC_URL}`);
+}
+
+describe("Keeper on Anvil", { skip: !hasFoundry && "anvil/forge not installed" }, () => {
+  const chain = resolveChain(31337, RPC_URL);
+  const publicClient = createPublicClient({ chain, transport: http(RPC_URL) });
+  const testClient = createTestClient({ chain, mode: "anvil", transport: http(RPC_URL) });
+  const provider = createWalletClient({ chain, account: privateKeyToAccount(PROVIDER_KEY), transport: http(RPC_URL) });
+
+  let anvil: ChildProcess;
+  let vault: Address;
+  let entropy: Address;
+  let keeper: Keeper;
+
+  const epoch = () => publicClient.readContract({ address: vault, abi: welotVaultAbi, functionName: "getCurrentEpoch" });
+  const epochId = () => publicClient.readContract({ address: vault, abi: welotVaultAbi, functionName: "currentEpochId" });
+
+  before(async () => {
+    anvil = spawn("anvil", ["--port", String(PORT), "--silent"], { stdio: "ignore" });
+    await waitForRpc(publicClient);
+
+    const deploy = spawnSync(
+      "forge",
+      ["script", "script/DeployLocal.s.sol:DeployLocalScript", "--rpc-url", RPC_URL, "--broadcast", "--private-key", KEEPER_KEY],
+      { cwd: CONTRACTS_DIR, encoding: "utf8", timeout: 300_000 }
+    );
+    if (deploy.status !== 0) throw new Error(`forge script failed:\n${deploy.stderr || deploy.stdout}`);
+    const broadcast: Broadcast = JSON.parse(
+      readFileSync(path.join(CONTRACTS_DIR, "broadcast/DeployLocal.s.sol/31337/run-latest.json"), "utf8")
+    );
+    vault = deployedAddress(broadcast, "WelotVault");
+    entropy = deployedAddress(broadcast, "MockEntropyV2");
+
+    keeper = new Keeper({
+      client: publicClient,
+      vaultAddress: vault,
+      signer: privateKeySigner(KEEPER_KEY, chain, RPC_URL),
+      logger: createJsonLogger({ level: "error" }),
+      metrics: new KeeperMetrics(vault, chain.id),
+      // One upkeep per tick so every status change can be asserted
+      maxStepsPerRun: 1,
+      retry: { attempts: 1, baseDelayMs: 0 },
+    });
+  });
+
+  after(() => {
+    anvil?.kill();
+  });
+
+  it("runs closeEpoch → requestRandomness → entropyCallback → finalizeDraw", async () => {
+    const startEpochId = await epochId();
+    assert.equal((await epoch()).status, EpochStatus.Open);
+
+    // Epoch still open: nothing to do
+    let result = await keeper.tick();
+    assert.deepEqual([result.steps, result.stopReason], [0, "idle"]);
+
+    await testClient.increaseTime({ seconds: EPOCH_DURATION_SEC + 1 });
+    await testClient.mine({ blocks: 1 });
+
+    result = await keeper.tick();
+    assert.deepEqual([result.steps, result.stopReason], [1, "max-steps"]);
+    assert.equal((await epoch()).status, EpochStatus.Closed);
+
+    result = await keeper.tick();
+    assert.equal(result.steps, 1);
+    const requested = await epoch();
+    assert.equal(requested.status, EpochStatus.RandomnessRequested);
+    assert.ok(requested.entropySequence > 0n);
+
+    // Waiting on the provider: the keeper has nothing to send
+    result = await keeper.tick();
+    assert.deepEqual([result.steps, result.stopReason], [0, "idle"]);
+
+    const fulfill = await provider.writeContract({
+      address: entropy,
+      abi: mockEntropyAbi,
+      functionName: "fulfill",
+      args: [requested.entropySequence, toHex(1n, { size: 32 })],
+    });
+    await publicClient.waitForTransactionReceipt({ hash: fulfill });
+    assert.equal((await epoch()).status, EpochStatus.RandomnessReady);
+
+    result = await keeper.tick();
+    assert.equal(result.steps, 1);
+    assert.equal(await epochId(), startEpochId + 1n);
+    assert.equal((await epoch()).status, EpochStatus.Open);
+    assert.equal(keeper.metrics.epochId, startEpochId + 1n);
+    assert.equal(keeper.metrics.epochStatus, EpochStatus.Open);
+  });
+
+  it("serves /healthz and /metrics for the keeper", async () => {
+    await keeper.run({ once: true });
+
+    const server = startKeeperServer({
+      port: 0,
+      metrics: () => [keeper.metrics],
+      staleAfterMs: 60_000,
+      logger: createJsonLogger({ level: "error" }),
+    });
+    try {
+      await once(server, "listening");
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      const health = await fetch(`${base}/healthz`);
+      assert.equal(health.status, 200);
+      const body = await health.json();
+      assert.equal(body.status, "ok");
+      assert.equal(body.keepers.length, 1);
+      assert.equal(body.keepers[0].vault, vault);
+      assert.equal(body.keepers[0].healthy, true);
+
+      const metrics = await (await fetch(`${base}/metrics`)).text();
+      const labels = `{vault="${vault}",chain_id="31337"}`;
+      assert.match(metrics, new RegExp(`^welot_keeper_ticks_total${escapeRegExp(labels)} 1$`, "m"));
+      assert.match(metrics, new RegExp(`^welot_keeper_epoch_status${escapeRegExp(labels)} ${EpochStatus.Open}$`, "m"));
+      // closeEpoch, requestRandomness and finalizeDraw
+      assert.match(metrics, new RegExp(`^welot_keeper_txs_total${escapeRegExp(labels)} 3$`, "m"));
+    } finally {
+      server.close();
+    }
+  });
+});
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[{}]/g, "\\$&");
+}
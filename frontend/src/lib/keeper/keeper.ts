@@ -0,0 +1,498 @@
+import { decodeAbiParameters, encodeAbiParameters, encodeFunctionData, zeroAddress } from "viem";
+import type { Address, Hash, Hex, Log } from "viem";
+
+import { entropyAbi, welotVaultAbi } from "../abis";
+import type { WelotPublicClient } from "../welot";
+import { readBatch, unwrap } from "../welot/batch";
+import { EpochStatus } from "../welot/types";
+import { DEFAULT_STALL_THRESHOLDS, detectStalls, type Alert, type AlertManager, type StallThresholds } from "./alerts";
+import type { TopUpBudget } from "./config";
+import { providerGasStrategy, type GasStrategy } from "./gas";
+import { createJsonLogger, type Logger } from "./logger";
+import { KeeperMetrics } from "./metrics";
+import { computeDrawPreview, decodeDrawPreview, simulateTransactions, type DrawPreview } from "./preview";
+import type { KeeperSigner, KeeperTransaction } from "./signer";
+
+// First byte of `performData` returned by `checkUpkeep`
+export const UpkeepAction = {
+  CloseEpoch: 1,
+  RequestRandomness: 2,
+  FinalizeDraw: 3,
+} as const;
+
+export type UpkeepAction = (typeof UpkeepAction)[keyof typeof UpkeepAction];
+
+export interface RetryPolicy {
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface KeeperOptions {
+  client: WelotPublicClient;
+  vaultAddress: Address;
+  signer: KeeperSigner;
+  gasStrategy?: GasStrategy;
+  logger?: Logger;
+  metrics?: KeeperMetrics;
+  // Upper bound on upkeep transactions per tick
+  maxStepsPerRun?: number;
+  // Applied to RPC reads and receipt polling; sends are never retried
+  retry?: Partial<RetryPolicy>;
+  // Receives stall and failure alerts after every tick
+  alerts?: AlertManager;
+  stallThresholds?: Partial<StallThresholds>;
+  // Simulate each step and log what would be sent, without broadcasting
+  dryRun?: boolean;
+  // Top-ups beyond this fail with a "topup-failed" alert; unlimited when unset
+  topUpBudget?: TopUpBudget | null;
+}
+
+export interface VaultState {
+  epochId: bigint;
+  epochStatus: number;
+  epochEnd: bigint;
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+  forwarder: Address;
+  balance: bigint;
+  upkeepNeeded: boolean;
+  performData: Hex;
+}
+
+export type TickStopReason =
+  | "idle"
+  | "forwarder-mismatch"
+  | "topup-failed"
+  | "simulation-failed"
+  | "reverted"
+  | "max-steps"
+  | "dry-run";
+
+export interface TickResult {
+  steps: number;
+  txs: Hash[];
+  stopReason: TickStopReason;
+}
+
+const DEFAULT_RETRY: RetryPolicy = { attempts: 3, baseDelayMs: 1000, maxDelayMs: 15_000 };
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(t);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+// Outcome of simulating a step's transactions against the latest block.
+// `logs` is null when the RPC lacks `eth_simulateV1` and a plain `eth_call` was used.
+interface Simulation {
+  ok: boolean;
+  error?: string;
+  logs: Log[] | null;
+}
+
+export function encodeUpkeepAction(action: UpkeepAction): Hex {
+  return encodeAbiParameters([{ type: "uint8" }], [action]);
+}
+
+export function decodeUpkeepAction(performData: Hex): UpkeepAction | null {
+  try {
+    const [action] = decodeAbiParameters([{ type: "uint8" }], performData);
+    return action >= 1 && action <= 3 ? (action as UpkeepAction) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Drives a WelotVault through `closeEpoch → requestRandomness → finalizeDraw`
+// via `checkUpkeep` / `performUpkeep`, topping up the vault's native balance
+// when Entropy's fee is not covered.
+export class Keeper {
+  readonly vaultAddress: Address;
+  readonly metrics: KeeperMetrics;
+  private readonly client: WelotPublicClient;
+  private readonly signer: KeeperSigner;
+  private readonly gasStrategy: GasStrategy;
+  private readonly log: Logger;
+  private readonly maxStepsPerRun: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly alerts?: AlertManager;
+  private readonly stallThresholds: StallThresholds;
+  private readonly dryRun: boolean;
+  private readonly topUpBudget: TopUpBudget | null;
+  // Confirmed top-ups, pruned to the budget window. In memory only, like `randomnessPending`.
+  private topUps: { at: number; value: bigint }[] = [];
+  // Block at which the current epoch was first seen waiting for randomness.
+  // In memory only: after a restart the pending time counts from the first read.
+  private randomnessPending: { epochId: bigint; since: bigint } | null = null;
+  private lastState: VaultState | null = null;
+  // Outcome of the last `finalizeDraw` simulation
+  lastPreview: DrawPreview | null = null;
+
+  constructor(opts: KeeperOptions) {
+    this.client = opts.client;
+    this.vaultAddress = opts.vaultAddress;
+    this.signer = opts.signer;
+    this.gasStrategy = opts.gasStrategy ?? providerGasStrategy;
+    this.log = opts.logger ?? createJsonLogger({ fields: { vault: opts.vaultAddress } });
+    this.metrics = opts.metrics ?? new KeeperMetrics(opts.vaultAddress);
+    this.maxStepsPerRun = opts.maxStepsPerRun ?? 5;
+    this.retryPolicy = { ...DEFAULT_RETRY, ...opts.retry };
+    this.alerts = opts.alerts;
+    this.stallThresholds = { ...DEFAULT_STALL_THRESHOLDS, ...opts.stallThresholds };
+    this.dryRun = opts.dryRun ?? false;
+    this.topUpBudget = opts.topUpBudget ?? null;
+  }
+
+  async readState(): Promise<VaultState> {
+    return this.withRetry("readState", async () => {
+      const vault = { address: this.vaultAddress, abi: welotVaultAbi } as const;
+      const [results, balance, block] = await Promise.all([
+        readBatch(this.client, [
+          { ...vault, functionName: "currentEpochId" },
+          { ...vault, functionName: "getCurrentEpoch" },
+          { ...vault, functionName: "automationForwarder" },
+          { ...vault, functionName: "checkUpkeep", args: ["0x"] },
+        ]),
+        this.client.getBalance({ address: this.vaultAddress }),
+        this.client.getBlock(),
+      ]);
+      const epoch = unwrap<{ end: bigint; status: number }>(results[1]);
+      const [upkeepNeeded, performData] = unwrap<readonly [boolean, Hex]>(results[3]);
+      const state: VaultState = {
+        epochId: unwrap<bigint>(results[0]),
+        epochStatus: epoch.status,
+        epochEnd: epoch.end,
+        blockNumber: block.number,
+        blockTimestamp: block.timestamp,
+        forwarder: unwrap<Address>(results[2]),
+        balance,
+        upkeepNeeded,
+        performData,
+      };
+      this.metrics.recordVault({ epochId: state.epochId, epochStatus: state.epochStatus, balance });
+      this.trackRandomnessPending(state);
+      this.lastState = state;
+      return state;
+    });
+  }
+
+  // Runs upkeep until the vault reports nothing to do, at most `maxStepsPerRun`
+  // times. Afterwards the alerts raised during the tick plus any lifecycle
+  // stalls in the final state are handed to the alert manager; a tick that
+  // throws only raises, so it never resolves an alert it could not re-check.
+  async tick(): Promise<TickResult> {
+    const firing: Alert[] = [];
+    try {
+      const result = await this.runSteps(firing);
+      if (this.lastState) firing.push(...this.detectStalls(this.lastState));
+      await this.alerts?.evaluate(firing);
+      return result;
+    } catch (err) {
+      for (const alert of firing) await this.alerts?.raise(alert);
+      throw err;
+    } finally {
+      this.metrics.activeAlerts = this.alerts?.activeCount ?? 0;
+    }
+  }
+
+  private async runSteps(firing: Alert[]): Promise<TickResult> {
+    const txs: Hash[] = [];
+    for (let step = 1; step <= this.maxStepsPerRun; step++) {
+      const state = await this.readState();
+
+      // With a forwarder set, `performUpkeep` reverts for anyone else
+      if (state.forwarder !== zeroAddress && state.forwarder.toLowerCase() !== this.signer.address.toLowerCase()) {
+        this.log.error("automationForwarder blocks keeper; unset it or set it to the keeper address", {
+          forwarder: state.forwarder,
+          keeper: this.signer.address,
+        });
+        firing.push({
+          key: "forwarder-mismatch",
+          severity: "critical",
+          message: `automationForwarder ${state.forwarder} blocks keeper ${this.signer.address}`,
+          details: { forwarder: state.forwarder, keeper: this.signer.address },
+        });
+        return { steps: step - 1, txs, stopReason: "forwarder-mismatch" };
+      }
+
+      this.log.info("step", {
+        step,
+        maxSteps: this.maxStepsPerRun,
+        epochId: state.epochId,
+        status: state.epochStatus,
+        upkeepNeeded: state.upkeepNeeded,
+        performData: state.performData,
+      });
+
+      // `checkUpkeep` returns false while a Closed epoch cannot pay Entropy's
+      // fee, so top up and check again.
+      if (!state.upkeepNeeded) {
+        if (state.epochStatus === EpochStatus.Closed) {
+          if (this.dryRun) return this.dryRunStep(state, encodeUpkeepAction(UpkeepAction.RequestRandomness), firing);
+          const topUp = await this.tryTopUp(state.balance, firing);
+          if (topUp === "failed") return { steps: step - 1, txs, stopReason: "topup-failed" };
+          if (topUp) {
+            txs.push(topUp);
+            continue;
+          }
+        }
+        return { steps: step - 1, txs, stopReason: "idle" };
+      }
+
+      if (this.dryRun) return this.dryRunStep(state, state.performData, firing);
+
+      const action = decodeUpkeepAction(state.performData);
+      const upkeep = this.upkeepTx(state.performData);
+
+      // The vault pays the fee from its own balance, not msg.value
+      if (action === UpkeepAction.RequestRandomness) {
+        const topUp = await this.tryTopUp(state.balance, firing);
+        if (topUp === "failed") return { steps: step - 1, txs, stopReason: "topup-failed" };
+        if (topUp) txs.push(topUp);
+      }
+
+      // Show the winner before committing to it, and never send a draw that would revert
+      if (action === UpkeepAction.FinalizeDraw) {
+        const sim = await this.simulate([upkeep], state.balance);
+        await this.recordPreview(state, sim, firing);
+        if (!sim.ok) return { steps: step - 1, txs, stopReason: "simulation-failed" };
+      }
+
+      const hash = await this.send(upkeep);
+      txs.push(hash);
+      if (!(await this.confirm(hash))) return { steps: step, txs, stopReason: "reverted" };
+    }
+
+    this.log.warn("reached maxStepsPerRun; stopping to avoid an infinite loop", { maxSteps: this.maxStepsPerRun });
+    return { steps: this.maxStepsPerRun, txs, stopReason: "max-steps" };
+  }
+
+  // Ticks every `pollIntervalMs` until `signal` aborts (or once with `once`).
+  // Tick errors are logged and counted, never thrown.
+  async run(opts: { pollIntervalMs?: number; once?: boolean; signal?: AbortSignal } = {}): Promise<void> {
+    const pollIntervalMs = opts.pollIntervalMs ?? 30_000;
+    while (!opts.signal?.aborted) {
+      const started = Date.now();
+      try {
+        const result = await this.tick();
+        this.metrics.recordTick(true, Date.now() - started);
+        this.log.debug("tick done", { ...result });
+      } catch (err) {
+        this.metrics.recordTick(false, Date.now() - started);
+        this.log.error("tick failed", { err });
+      }
+      if (opts.once) return;
+      await sleep(pollIntervalMs, opts.signal);
+    }
+  }
+
+  // Simulates the step `performData` asks for (plus any top-up it needs) and
+  // logs the transactions instead of sending them. The state does not advance,
+  // so a dry run covers one step per tick.
+  private async dryRunStep(state: VaultState, performData: Hex, firing: Alert[]): Promise<TickResult> {
+    const action = decodeUpkeepAction(performData);
+    const txs: KeeperTransaction[] = [];
+    if (action === UpkeepAction.RequestRandomness) {
+      const value = await this.topUpAmount(state.balance);
+      const overBudget = this.topUpBudgetError(value);
+      if (overBudget) {
+        this.log.error("dry run: top-up exceeds budget", { value, error: overBudget });
+        return { steps: 0, txs: [], stopReason: "topup-failed" };
+      }
+      if (value > 0n) txs.push({ to: this.vaultAddress, value });
+      else if (!state.upkeepNeeded) return { steps: 0, txs: [], stopReason: "idle" };
+    }
+    txs.push(this.upkeepTx(performData));
+
+    const sim = await this.simulate(txs, state.balance);
+    if (action === UpkeepAction.FinalizeDraw) await this.recordPreview(state, sim, firing);
+    const fields = { action, txs: txs.map((tx) => ({ to: tx.to, value: tx.value, data: tx.data })), error: sim.error };
+    if (sim.ok) this.log.info("dry run: would send", fields);
+    else this.log.error("dry run: simulation reverted", fields);
+    return { steps: 0, txs: [], stopReason: "dry-run" };
+  }
+
+  private upkeepTx(performData: Hex): KeeperTransaction {
+    return {
+      to: this.vaultAddress,
+      data: encodeFunctionData({ abi: welotVaultAbi, functionName: "performUpkeep", args: [performData] }),
+    };
+  }
+
+  // Runs `txs` in order from the keeper account. Without `eth_simulateV1` only
+  // the last transaction is `eth_call`ed, with earlier transfers to the vault
+  // applied as a balance override.
+  private async simulate(txs: KeeperTransaction[], vaultBalance: bigint): Promise<Simulation> {
+    const results = await this.withRetry("simulate", () =>
+      simulateTransactions(this.client, this.signer.address, txs)
+    );
+    if (results) {
+      const failed = results.find((r) => !r.ok);
+      if (failed) return { ok: false, error: failed.error, logs: null };
+      return { ok: true, logs: results[results.length - 1].logs };
+    }
+
+    const last = txs[txs.length - 1];
+    const transferred = txs.slice(0, -1).reduce((sum, tx) => sum + (tx.value ?? 0n), 0n);
+    try {
+      await this.client.call({
+        account: this.signer.address,
+        to: last.to,
+        data: last.data,
+        value: last.value,
+        stateOverride:
+          transferred > 0n ? [{ address: this.vaultAddress, balance: vaultBalance + transferred }] : undefined,
+      });
+      return { ok: true, logs: null };
+    } catch (err) {
+      const short = (err as { shortMessage?: string }).shortMessage;
+      return { ok: false, error: short ?? (err instanceof Error ? err.message : String(err)), logs: null };
+    }
+  }
+
+  // Logs the draw a `finalizeDraw` simulation produced, re-deriving it from
+  // vault state when the simulation returned no logs. A reverting draw raises
+  // "finalize-simulation-failed".
+  private async recordPreview(state: VaultState, sim: Simulation, firing: Alert[]) {
+    if (!sim.ok) {
+      this.log.error("finalizeDraw simulation reverted; not sending", { epochId: state.epochId, error: sim.error });
+      firing.push({
+        key: `finalize-simulation-failed:${state.epochId}`,
+        severity: "critical",
+        message: `finalizeDraw for epoch ${state.epochId} reverts in simulation: ${sim.error ?? "unknown error"}`,
+        details: { epochId: state.epochId, error: sim.error },
+      });
+      return;
+    }
+    const preview =
+      (sim.logs && decodeDrawPreview(sim.logs, state.blockNumber)) ??
+      (await this.withRetry("drawPreview", () => computeDrawPreview(this.client, this.vaultAddress)));
+    this.lastPreview = preview;
+    this.log.info("draw preview", { ...preview });
+  }
+
+  // Top-up failures become a "topup-failed" alert instead of failing the tick
+  private async tryTopUp(balance: bigint, firing: Alert[]): Promise<Hash | null | "failed"> {
+    try {
+      return await this.topUpVaultIfNeeded(balance);
+    } catch (err) {
+      this.log.error("vault top-up failed", { err });
+      firing.push({
+        key: "topup-failed",
+        severity: "critical",
+        message: `Could not top up the vault for the Entropy fee: ${err instanceof Error ? err.message : String(err)}`,
+        details: { keeper: this.signer.address, vaultBalance: balance },
+      });
+      return "failed";
+    }
+  }
+
+  private trackRandomnessPending(state: VaultState) {
+    if (state.epochStatus !== EpochStatus.RandomnessRequested) {
+      this.randomnessPending = null;
+    } else if (this.randomnessPending?.epochId !== state.epochId) {
+      this.randomnessPending = { epochId: state.epochId, since: state.blockNumber };
+    }
+  }
+
+  private detectStalls(state: VaultState): Alert[] {
+    return detectStalls(
+      {
+        epochId: state.epochId,
+        epochStatus: state.epochStatus,
+        epochEnd: state.epochEnd,
+        blockNumber: state.blockNumber,
+        blockTimestamp: state.blockTimestamp,
+        randomnessPendingSince: this.randomnessPending?.since ?? null,
+        upkeepNeeded: state.upkeepNeeded,
+      },
+      this.stallThresholds
+    );
+  }
+
+  // Native value the vault is short of Entropy's fee
+  private async topUpAmount(balance: bigint): Promise<bigint> {
+    const fee = await this.withRetry("entropyFee", async () => {
+      const entropy = await this.client.readContract({
+        address: this.vaultAddress,
+        abi: welotVaultAbi,
+        functionName: "entropy",
+      });
+      return this.client.readContract({ address: entropy, abi: entropyAbi, functionName: "getFeeV2" });
+    });
+    return balance >= fee ? 0n : fee - balance;
+  }
+
+  private async topUpVaultIfNeeded(balance: bigint): Promise<Hash | null> {
+    const value = await this.topUpAmount(balance);
+    if (value === 0n) return null;
+    const overBudget = this.topUpBudgetError(value);
+    if (overBudget) throw new Error(overBudget);
+
+    this.log.info("topping up vault for entropy fee", { balance, value });
+    const hash = await this.send({ to: this.vaultAddress, value });
+    if (!(await this.confirm(hash))) throw new Error(`top-up tx ${hash} reverted`);
+    this.topUps.push({ at: Date.now(), value });
+    this.metrics.topUpSpent = this.topUpSpent();
+    return hash;
+  }
+
+  // Total top-up value inside the budget window (all top-ups without a budget)
+  private topUpSpent(now = Date.now()): bigint {
+    if (this.topUpBudget) {
+      const since = now - this.topUpBudget.windowMs;
+      this.topUps = this.topUps.filter((t) => t.at > since);
+    }
+    return this.topUps.reduce((sum, t) => sum + t.value, 0n);
+  }
+
+  private topUpBudgetError(value: bigint): string | null {
+    if (!this.topUpBudget || value === 0n) return null;
+    const spent = this.topUpSpent();
+    this.metrics.topUpSpent = spent;
+    if (spent + value <= this.topUpBudget.amount) return null;
+    const hours = this.topUpBudget.windowMs / 3_600_000;
+    return `top-up of ${value} wei exceeds the budget: ${spent} of ${this.topUpBudget.amount} wei already sent in the last ${hours}h`;
+  }
+
+  private async send(tx: KeeperTransaction): Promise<Hash> {
+    const fees = await this.withRetry("gasFees", () => this.gasStrategy.getFees(this.client));
+    const hash = await this.signer.sendTransaction(tx, fees);
+    this.log.info("sent tx", { tx: hash, to: tx.to, value: tx.value, gas: this.gasStrategy.name, ...fees });
+    return hash;
+  }
+
+  // Waits for the receipt; false when the transaction reverted
+  private async confirm(hash: Hash): Promise<boolean> {
+    const receipt = await this.withRetry("receipt", () => this.client.waitForTransactionReceipt({ hash }));
+    const reverted = receipt.status === "reverted";
+    this.metrics.recordTx(hash, reverted);
+    const fields = { tx: hash, status: receipt.status, block: receipt.blockNumber, gasUsed: receipt.gasUsed };
+    if (reverted) this.log.error("tx reverted", fields);
+    else this.log.info("confirmed tx", fields);
+    return !reverted;
+  }
+
+  // Exponential backoff with full jitter
+  private async withRetry<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    const { attempts, baseDelayMs, maxDelayMs } = this.retryPolicy;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (err) {
+        if (attempt >= attempts) throw err;
+        const delayMs = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+        this.log.warn("retrying", { op: label, attempt, delayMs: Math.round(delayMs), err });
+        await sleep(delayMs);
+      }
+    }
+  }
+}
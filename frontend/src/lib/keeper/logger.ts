@@ -0,0 +1,55 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  // Logger that adds `fields` to every line
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface JsonLoggerOptions {
+  level?: LogLevel;
+  fields?: LogFields;
+  // Defaults to stdout, one JSON object per line
+  write?: (line: string) => void;
+}
+
+function toJson(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Error) {
+    const short = (value as { shortMessage?: unknown }).shortMessage;
+    return { name: value.name, message: typeof short === "string" ? short : value.message };
+  }
+  return value;
+}
+
+// Structured logger: every line is `{"ts","level","msg",...fields}`.
+// Bigints are written as decimal strings, errors as `{name,message}`.
+export function createJsonLogger(opts: JsonLoggerOptions = {}): Logger {
+  const min = LEVELS[opts.level ?? "info"];
+  const base = opts.fields ?? {};
+  const write = opts.write ?? ((line: string) => process.stdout.write(`${line}\n`));
+
+  const log = (level: LogLevel, msg: string, fields?: LogFields) => {
+    if (LEVELS[level] < min) return;
+    const entry = { ts: new Date().toISOString(), level, msg, ...base, ...fields };
+    write(JSON.stringify(entry, (_key, value) => toJson(value)));
+  };
+
+  return {
+    debug: (msg, fields) => log("debug", msg, fields),
+    info: (msg, fields) => log("info", msg, fields),
+    warn: (msg, fields) => log("warn", msg, fields),
+    error: (msg, fields) => log("error", msg, fields),
+    child: (fields) => createJsonLogger({ ...opts, fields: { ...base, ...fields } }),
+  };
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return value in LEVELS;
+}
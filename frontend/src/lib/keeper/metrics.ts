@@ -0,0 +1,137 @@
+import type { Address, Hash } from "viem";
+
+// Point-in-time state of one keeper, rendered by `renderMetrics`
+export class KeeperMetrics {
+  ticksTotal = 0;
+  tickErrorsTotal = 0;
+  txsTotal = 0;
+  txRevertsTotal = 0;
+  // Unix ms
+  lastTickAt: number | null = null;
+  lastTickOk = false;
+  lastTickDurationMs = 0;
+  lastTxHash: Hash | null = null;
+  lastTxAt: number | null = null;
+  epochId: bigint | null = null;
+  epochStatus: number | null = null;
+  vaultBalance: bigint | null = null;
+  activeAlerts = 0;
+  // Native value sent to the vault for Entropy fees (within the top-up budget window, if any)
+  topUpSpent = 0n;
+
+  // `chainId` tells apart vaults deployed at the same address on different chains
+  constructor(
+    readonly vaultAddress: Address,
+    readonly chainId?: number
+  ) {}
+
+  recordTick(ok: boolean, durationMs: number, at = Date.now()) {
+    this.ticksTotal++;
+    if (!ok) this.tickErrorsTotal++;
+    this.lastTickAt = at;
+    this.lastTickOk = ok;
+    this.lastTickDurationMs = durationMs;
+  }
+
+  recordTx(hash: Hash, reverted: boolean, at = Date.now()) {
+    this.txsTotal++;
+    if (reverted) this.txRevertsTotal++;
+    this.lastTxHash = hash;
+    this.lastTxAt = at;
+  }
+
+  recordVault(state: { epochId: bigint; epochStatus: number; balance: bigint }) {
+    this.epochId = state.epochId;
+    this.epochStatus = state.epochStatus;
+    this.vaultBalance = state.balance;
+  }
+}
+
+interface MetricDef {
+  name: string;
+  type: "gauge" | "counter";
+  help: string;
+  value: (m: KeeperMetrics) => number | bigint | null;
+}
+
+const METRICS: MetricDef[] = [
+  { name: "welot_keeper_ticks_total", type: "counter", help: "Ticks run", value: (m) => m.ticksTotal },
+  { name: "welot_keeper_tick_errors_total", type: "counter", help: "Ticks that threw", value: (m) => m.tickErrorsTotal },
+  { name: "welot_keeper_txs_total", type: "counter", help: "Transactions sent", value: (m) => m.txsTotal },
+  {
+    name: "welot_keeper_tx_reverts_total",
+    type: "counter",
+    help: "Transactions that reverted",
+    value: (m) => m.txRevertsTotal,
+  },
+  {
+    name: "welot_keeper_last_tick_timestamp_seconds",
+    type: "gauge",
+    help: "Unix time of the last tick",
+    value: (m) => (m.lastTickAt === null ? null : m.lastTickAt / 1000),
+  },
+  {
+    name: "welot_keeper_last_tick_success",
+    type: "gauge",
+    help: "1 if the last tick completed without error",
+    value: (m) => (m.lastTickAt === null ? null : m.lastTickOk ? 1 : 0),
+  },
+  {
+    name: "welot_keeper_last_tick_duration_seconds",
+    type: "gauge",
+    help: "Duration of the last tick",
+    value: (m) => (m.lastTickAt === null ? null : m.lastTickDurationMs / 1000),
+  },
+  {
+    name: "welot_keeper_last_tx_timestamp_seconds",
+    type: "gauge",
+    help: "Unix time of the last transaction sent",
+    value: (m) => (m.lastTxAt === null ? null : m.lastTxAt / 1000),
+  },
+  { name: "welot_keeper_epoch_id", type: "gauge", help: "Current epoch id", value: (m) => m.epochId },
+  {
+    name: "welot_keeper_epoch_status",
+    type: "gauge",
+    help: "Current epoch status (0 Open, 1 Closed, 2 RandomnessRequested, 3 RandomnessReady)",
+    value: (m) => m.epochStatus,
+  },
+  {
+    name: "welot_keeper_vault_balance_wei",
+    type: "gauge",
+    help: "Native balance of the vault (pays the Entropy fee)",
+    value: (m) => m.vaultBalance,
+  },
+  { name: "welot_keeper_active_alerts", type: "gauge", help: "Alerts currently firing", value: (m) => m.activeAlerts },
+  {
+    name: "welot_keeper_topup_spent_wei",
+    type: "gauge",
+    help: "Native value sent to the vault for Entropy fees (within the top-up budget window, if any)",
+    value: (m) => m.topUpSpent,
+  },
+];
+
+function labels(m: KeeperMetrics, extra = ""): string {
+  const chain = m.chainId === undefined ? "" : `,chain_id="${m.chainId}"`;
+  return `{vault="${m.vaultAddress}"${chain}${extra}}`;
+}
+
+// Prometheus text exposition format, one series per keeper labelled by vault (and chain)
+export function renderMetrics(keepers: readonly KeeperMetrics[]): string {
+  const lines: string[] = [];
+  for (const def of METRICS) {
+    lines.push(`# HELP ${def.name} ${def.help}`, `# TYPE ${def.name} ${def.type}`);
+    for (const m of keepers) {
+      const value = def.value(m);
+      if (value === null) continue;
+      lines.push(`${def.name}${labels(m)} ${value.toString()}`);
+    }
+  }
+  lines.push(
+    "# HELP welot_keeper_last_tx_info Hash of the last transaction sent",
+    "# TYPE welot_keeper_last_tx_info gauge"
+  );
+  for (const m of keepers) {
+    if (m.lastTxHash) lines.push(`welot_keeper_last_tx_info${labels(m, `,hash="${m.lastTxHash}"`)} 1`);
+  }
+  return `${lines.join("\n")}\n`;
+}
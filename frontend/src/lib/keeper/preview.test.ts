@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { encodeAbiParameters, encodeEventTopics, getAddress, pad, toHex, type Address, type Log } from "viem";
+
+import { welotVaultAbi } from "../abis";
+import type { WelotPublicClient } from "../welot";
+import { computeDrawPreview, decodeDrawPreview } from "./preview";
+
+// Checksummed, as parsed logs return them
+const VAULT = getAddress("0x00000000000000000000000000000000000000f1");
+const USDC = getAddress("0x00000000000000000000000000000000000000b1");
+const WETH = getAddress("0x00000000000000000000000000000000000000b2");
+const BIG = getAddress("0x00000000000000000000000000000000000000b3");
+const DAI = getAddress("0x00000000000000000000000000000000000000b4");
+const E18 = 10n ** 18n;
+
+function log(logIndex: number, topics: readonly unknown[], amount: bigint): Log {
+  return {
+    address: VAULT,
+    topics: topics as Log["topics"],
+    data: encodeAbiParameters([{ type: "uint256" }], [amount]),
+    blockNumber: 100n,
+    blockHash: pad("0x64", { size: 32 }),
+    transactionHash: pad("0x01", { size: 32 }),
+    transactionIndex: 0,
+    logIndex,
+    removed: false,
+  };
+}
+
+const tokenPrizeRecorded = (logIndex: number, token: Address, prize: bigint) =>
+  log(
+    logIndex,
+    encodeEventTopics({ abi: welotVaultAbi, eventName: "TokenPrizeRecorded", args: { epochId: 4n, token } }),
+    prize
+  );
+
+const winnerSelected = (logIndex: number, winningPoolId: bigint, prize: bigint) =>
+  log(
+    logIndex,
+    encodeEventTopics({ abi: welotVaultAbi, eventName: "WinnerSelected", args: { epochId: 4n, winningPoolId } }),
+    prize
+  );
+
+describe("decodeDrawPreview", () => {
+  it("reads the winner and per-token prizes from finalizeDraw logs", () => {
+    const deposit = log(
+      0,
+      encodeEventTopics({ abi: welotVaultAbi, eventName: "Deposited", args: { user: VAULT, token: USDC, poolId: 1n } }),
+      1n
+    );
+    const preview = decodeDrawPreview(
+      [
+        deposit,
+        tokenPrizeRecorded(1, USDC, 2_500_000n),
+        tokenPrizeRecorded(2, WETH, E18 / 10n),
+        winnerSelected(3, 2n, (26n * E18) / 10n),
+      ],
+      100n
+    );
+    assert.deepEqual(preview, {
+      epochId: 4n,
+      winningPoolId: 2n,
+      prizeNormalized: (26n * E18) / 10n,
+      tokenPrizes: [
+        { token: USDC, prize: 2_500_000n },
+        { token: WETH, prize: E18 / 10n },
+      ],
+      source: "simulation",
+      blockNumber: 100n,
+    });
+  });
+
+  it("returns null without a WinnerSelected log", () => {
+    assert.equal(decodeDrawPreview([tokenPrizeRecorded(0, USDC, 1n)], 100n), null);
+    assert.equal(decodeDrawPreview([], 100n), null);
+  });
+});
+
+// Vault state behind the fallback: two pools, four tokens with 6, 18, 20 and
+// 18 decimals; DAI has a prize but nothing in the winning pool
+function stubVault(opts: { randomness: bigint; pool1: bigint[]; pool2: bigint[] }): WelotPublicClient {
+  const configs: Record<Address, number> = { [USDC]: 6, [WETH]: 18, [BIG]: 20, [DAI]: 18 };
+  const prizes: Record<Address, bigint> = { [USDC]: 2_500_000n, [WETH]: E18 / 10n, [BIG]: 3n * 10n ** 20n, [DAI]: E18 };
+  const winnerDeposits: Record<Address, bigint> = { [USDC]: 10n, [WETH]: 5n, [BIG]: 1n, [DAI]: 0n };
+  const symbols: Record<Address, string> = { [USDC]: "USDC", [WETH]: "WETH", [DAI]: "DAI" };
+
+  const read = ({ address, functionName, args = [] }: { address: Address; functionName: string; args?: unknown[] }) => {
+    switch (functionName) {
+      case "currentEpochId":
+        return 4n;
+      case "getCurrentEpoch":
+        return { randomness: toHex(opts.randomness, { size: 32 }) };
+      case "poolIdsLength":
+        return 2n;
+      case "getSupportedTokens":
+        return [USDC, WETH, BIG, DAI];
+      case "pools": {
+        const [exists, cumulative, lastTimestamp, lastBalance] = args[0] === 1n ? opts.pool1 : opts.pool2;
+        return [exists === 1n, 0n, cumulative, lastTimestamp, lastBalance];
+      }
+      case "tokenConfigs":
+        return [true, VAULT, configs[args[0] as Address], 0n, 0n];
+      case "currentPrizePool":
+        return prizes[args[0] as Address];
+      case "symbol":
+        // BIG has no symbol()
+        if (!symbols[address]) throw new Error("execution reverted");
+        return symbols[address];
+      case "poolTokenDeposits":
+        return winnerDeposits[args[0] as Address];
+    }
+    throw new Error(`unexpected call ${functionName}`);
+  };
+
+  const client = {
+    chain: { id: 31337 },
+    getBlock: async () => ({ number: 100n, timestamp: 1100n }),
+    readContract: async (call: Parameters<typeof read>[0]) => read(call),
+  };
+  return client as unknown as WelotPublicClient;
+}
+
+describe("computeDrawPreview", () => {
+  // At t=1100: pool 1 = 100 + 1 × 100 = 200, pool 2 = 0 + 3 × 100 = 300
+  const pools = { pool1: [1n, 100n, 1000n, 1n], pool2: [1n, 0n, 1000n, 3n] };
+
+  it("picks the winner like _selectWinner and sums prizes normalized to 18 decimals", async () => {
+    const preview = await computeDrawPreview(stubVault({ randomness: 250n, ...pools }), VAULT);
+    assert.deepEqual(preview, {
+      epochId: 4n,
+      winningPoolId: 2n,
+      // 2.5 USDC + 0.1 WETH + 3 BIG; DAI is skipped because pool 2 holds none
+      prizeNormalized: 2_500_000n * 10n ** 12n + E18 / 10n + 3n * E18,
+      tokenPrizes: [
+        { token: USDC, symbol: "USDC", prize: 2_500_000n },
+        { token: WETH, symbol: "WETH", prize: E18 / 10n },
+        { token: BIG, symbol: undefined, prize: 3n * 10n ** 20n },
+      ],
+      source: "computed",
+      blockNumber: 100n,
+    });
+    assert.equal(preview.prizeNormalized, (56n * E18) / 10n);
+  });
+
+  it("uses randomness modulo the total weight", async () => {
+    const winner = async (randomness: bigint) =>
+      (await computeDrawPreview(stubVault({ randomness, ...pools }), VAULT)).winningPoolId;
+    assert.equal(await winner(0n), 1n);
+    assert.equal(await winner(199n), 1n);
+    assert.equal(await winner(200n), 2n);
+    assert.equal(await winner(499n), 2n);
+    assert.equal(await winner(500n + 150n), 1n);
+  });
+
+  it("has no winner and no prizes while no pool has weight", async () => {
+    const preview = await computeDrawPreview(
+      stubVault({ randomness: 250n, pool1: [1n, 0n, 1000n, 0n], pool2: [0n, 0n, 0n, 0n] }),
+      VAULT
+    );
+    assert.deepEqual([preview.winningPoolId, preview.prizeNormalized, preview.tokenPrizes], [0n, 0n, []]);
+  });
+});
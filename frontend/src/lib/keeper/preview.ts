@@ -0,0 +1,149 @@
+import { parseEventLogs } from "viem";
+import type { Address, Log } from "viem";
+
+import { erc20Abi, welotVaultAbi } from "../abis";
+import type { WelotPublicClient } from "../welot";
+import { readBatch, unwrap, type ReadCall } from "../welot/batch";
+import { decodePool, decodeTokenConfig } from "../welot/decode";
+import { projectPoolWeight } from "../welot/odds";
+import { to18 } from "../welot/units";
+import type { KeeperTransaction } from "./signer";
+
+export interface DrawPreview {
+  epochId: bigint;
+  // 0 means no pool has weight and the draw has no winner
+  winningPoolId: bigint;
+  // Normalized to 18 decimals
+  prizeNormalized: bigint;
+  tokenPrizes: { token: Address; symbol?: string; prize: bigint }[];
+  // "simulation": decoded from the simulated `finalizeDraw` logs;
+  // "computed": re-derived from vault state when the RPC lacks `eth_simulateV1`
+  source: "simulation" | "computed";
+  blockNumber: bigint;
+}
+
+export interface SimulatedCall {
+  ok: boolean;
+  error?: string;
+  gasUsed: bigint;
+  logs: Log[];
+}
+
+function isUnsupportedMethod(err: unknown): boolean {
+  const text = err instanceof Error ? `${err.message} ${(err as { details?: string }).details ?? ""}` : String(err);
+  return /eth_simulateV1|method not found|not supported|does not exist|unknown method/i.test(text);
+}
+
+// Runs `txs` in order on top of the latest block with `eth_simulateV1`, so a
+// top-up is visible to the `performUpkeep` after it. Returns null when the RPC
+// does not support the method.
+export async function simulateTransactions(
+  client: WelotPublicClient,
+  from: Address,
+  txs: readonly KeeperTransaction[]
+): Promise<SimulatedCall[] | null> {
+  try {
+    const { results } = await client.simulateCalls({
+      account: from,
+      calls: txs.map((tx) => ({ to: tx.to, data: tx.data, value: tx.value })),
+    });
+    return results.map((r) => ({
+      ok: r.status === "success",
+      error: r.status === "failure" ? (r.error as { shortMessage?: string }).shortMessage ?? r.error.message : undefined,
+      gasUsed: r.gasUsed,
+      logs: r.logs ?? [],
+    }));
+  } catch (err) {
+    if (isUnsupportedMethod(err)) return null;
+    throw err;
+  }
+}
+
+// Reads the draw result out of `finalizeDraw` logs
+export function decodeDrawPreview(logs: Log[], blockNumber: bigint): DrawPreview | null {
+  const parsed = parseEventLogs({ abi: welotVaultAbi, logs, eventName: ["WinnerSelected", "TokenPrizeRecorded"] });
+  const winner = parsed.find((l) => l.eventName === "WinnerSelected");
+  if (!winner || winner.eventName !== "WinnerSelected") return null;
+
+  const tokenPrizes = parsed.flatMap((l) =>
+    l.eventName === "TokenPrizeRecorded" ? [{ token: l.args.token, prize: l.args.prize }] : []
+  );
+  return {
+    epochId: winner.args.epochId,
+    winningPoolId: winner.args.winningPoolId,
+    prizeNormalized: winner.args.prize,
+    tokenPrizes,
+    source: "simulation",
+    blockNumber,
+  };
+}
+
+// Re-derives `_finalizeDraw` from vault state: pools accrued to the latest
+// block, `_selectWinner` over the stored randomness, and every token's current
+// prize pool credited to the winner if it holds deposits of that token. The
+// real transaction lands in a later block, so weights (and yield) move slightly.
+export async function computeDrawPreview(client: WelotPublicClient, vaultAddress: Address): Promise<DrawPreview> {
+  const vault = { address: vaultAddress, abi: welotVaultAbi } as const;
+  const [g, block] = await Promise.all([
+    readBatch(client, [
+      { ...vault, functionName: "currentEpochId" },
+      { ...vault, functionName: "getCurrentEpoch" },
+      { ...vault, functionName: "poolIdsLength" },
+      { ...vault, functionName: "getSupportedTokens" },
+    ]),
+    client.getBlock(),
+  ]);
+  const epochId = unwrap<bigint>(g[0]);
+  const randomness = BigInt(unwrap<{ randomness: `0x${string}` }>(g[1]).randomness);
+  const poolCount = unwrap<bigint>(g[2]);
+  const tokens = unwrap<readonly Address[]>(g[3]);
+
+  const poolIds: bigint[] = [];
+  for (let id = 1n; id <= poolCount; id++) poolIds.push(id);
+
+  const calls: ReadCall[] = poolIds.map((id) => ({ ...vault, functionName: "pools", args: [id] }));
+  for (const token of tokens) {
+    calls.push(
+      { ...vault, functionName: "tokenConfigs", args: [token] },
+      { ...vault, functionName: "currentPrizePool", args: [token] },
+      { address: token, abi: erc20Abi, functionName: "symbol" }
+    );
+  }
+  const r = await readBatch(client, calls);
+
+  const weights = poolIds.map((id, i) => projectPoolWeight(decodePool(id, unwrap(r[i])), block.timestamp));
+  const total = weights.reduce((sum, w) => sum + w, 0n);
+
+  let winningPoolId = 0n;
+  if (total > 0n) {
+    let pick = randomness % total;
+    winningPoolId = poolIds[poolIds.length - 1];
+    for (let i = 0; i < poolIds.length; i++) {
+      if (pick < weights[i]) {
+        winningPoolId = poolIds[i];
+        break;
+      }
+      pick -= weights[i];
+    }
+  }
+
+  const tokenPrizes: DrawPreview["tokenPrizes"] = [];
+  let prizeNormalized = 0n;
+  if (winningPoolId !== 0n) {
+    const deposits = await readBatch(
+      client,
+      tokens.map((token) => ({ ...vault, functionName: "poolTokenDeposits", args: [token, winningPoolId] }))
+    );
+    tokens.forEach((token, i) => {
+      const base = poolIds.length + i * 3;
+      const config = decodeTokenConfig(unwrap(r[base]));
+      const prize = unwrap<bigint>(r[base + 1]);
+      const symbol = r[base + 2].ok ? (r[base + 2] as { value: string }).value : undefined;
+      if (prize === 0n || unwrap<bigint>(deposits[i]) === 0n) return;
+      tokenPrizes.push({ token, symbol, prize });
+      prizeNormalized += to18(prize, config.decimals);
+    });
+  }
+
+  return { epochId, winningPoolId, prizeNormalized, tokenPrizes, source: "computed", blockNumber: block.number };
+}
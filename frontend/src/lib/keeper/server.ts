@@ -0,0 +1,64 @@
+import http from "node:http";
+
+import type { Address } from "viem";
+
+import type { Logger } from "./logger";
+import { renderMetrics, type KeeperMetrics } from "./metrics";
+import type { DrawPreview } from "./preview";
+
+export interface KeeperServerOptions {
+  port: number;
+  metrics: () => readonly KeeperMetrics[];
+  // /healthz fails when a keeper has not completed a tick for this long
+  staleAfterMs: number;
+  // Last `finalizeDraw` preview per vault, served on /preview
+  previews?: () => readonly { vault: Address; chainId?: number; preview: DrawPreview | null }[];
+  logger?: Logger;
+}
+
+// Node-only HTTP endpoint:
+//   GET /healthz   200 when every keeper ticked successfully within `staleAfterMs`, else 503
+//   GET /metrics   Prometheus text format
+//   GET /preview   last simulated draw per vault (JSON, amounts as decimal strings)
+export function startKeeperServer(opts: KeeperServerOptions): http.Server {
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const metrics = opts.metrics();
+
+    if (req.method === "GET" && url.pathname === "/healthz") {
+      const now = Date.now();
+      const keepers = metrics.map((m) => ({
+        vault: m.vaultAddress,
+        chainId: m.chainId,
+        lastTickAt: m.lastTickAt === null ? null : new Date(m.lastTickAt).toISOString(),
+        lastTickOk: m.lastTickOk,
+        healthy: m.lastTickAt !== null && m.lastTickOk && now - m.lastTickAt <= opts.staleAfterMs,
+      }));
+      const ok = keepers.every((k) => k.healthy);
+      res.writeHead(ok ? 200 : 503, { "content-type": "application/json" });
+      res.end(JSON.stringify({ status: ok ? "ok" : "unhealthy", keepers }));
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/metrics") {
+      res.writeHead(200, { "content-type": "text/plain; version=0.0.4" });
+      res.end(renderMetrics(metrics));
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/preview") {
+      const previews = opts.previews?.() ?? [];
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ previews }, (_key, v) => (typeof v === "bigint" ? v.toString() : v)));
+      return;
+    }
+
+    res.writeHead(404, { "content-type": "application/json" });
+    res.end(JSON.stringify({ error: "not found" }));
+  });
+
+  server.listen(opts.port, () => {
+    opts.logger?.info("http server listening", { port: opts.port });
+  });
+  return server;
+}
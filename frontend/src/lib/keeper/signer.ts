@@ -0,0 +1,64 @@
+import { createWalletClient, http, publicActions } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import type { Account, Address, Chain, Hash, Hex, Transport, WalletClient } from "viem";
+
+import type { GasFees } from "./gas";
+
+export interface KeeperTransaction {
+  to: Address;
+  data?: Hex;
+  value?: bigint;
+}
+
+// Anything that can send a transaction from a fixed address: a local key, a
+// wallet client, or a remote signer (KMS, Safe module, relayer) behind the
+// same interface.
+export interface KeeperSigner {
+  readonly address: Address;
+  sendTransaction(tx: KeeperTransaction, fees: GasFees): Promise<Hash>;
+}
+
+// Sends one transaction at a time and assigns nonces locally, so a second
+// send does not reuse a nonce while the node's pending count lags behind. A
+// failed send drops the local nonce and resyncs from the node. Share one
+// signer between keepers that use the same key on the same chain.
+export function walletClientSigner(walletClient: WalletClient<Transport, Chain, Account>): KeeperSigner {
+  const client = walletClient.extend(publicActions);
+  const address = walletClient.account.address;
+  let nextNonce: number | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const send = async (tx: KeeperTransaction, fees: GasFees): Promise<Hash> => {
+    const pending = await client.getTransactionCount({ address, blockTag: "pending" });
+    const nonce = nextNonce === null ? pending : Math.max(nextNonce, pending);
+    try {
+      const hash = await walletClient.sendTransaction({
+        ...tx,
+        ...fees,
+        nonce,
+        account: walletClient.account,
+        chain: walletClient.chain,
+      } as Parameters<typeof walletClient.sendTransaction>[0]);
+      nextNonce = nonce + 1;
+      return hash;
+    } catch (err) {
+      nextNonce = null;
+      throw err;
+    }
+  };
+
+  return {
+    address,
+    sendTransaction: (tx, fees) => {
+      const result = queue.then(() => send(tx, fees));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
+
+export function privateKeySigner(privateKey: Hex, chain: Chain, rpcUrl: string): KeeperSigner {
+  return walletClientSigner(
+    createWalletClient({ account: privateKeyToAccount(privateKey), chain, transport: http(rpcUrl) })
+  );
+}
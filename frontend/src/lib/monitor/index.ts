@@ -0,0 +1,4 @@
+export { checkInvariants, readVaultAccounting } from "./invariants";
+export type { TokenAccounting, VaultAccounting } from "./invariants";
+export { InvariantMonitor } from "./monitor";
+export type { CheckResult, InvariantMonitorOptions } from "./monitor";
@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Address } from "viem";
+
+import { checkInvariants, type TokenAccounting, type VaultAccounting } from "./invariants";
+
+const USDC: Address = "0x00000000000000000000000000000000000000a1";
+const USDT: Address = "0x00000000000000000000000000000000000000a2";
+const YIELD_VAULT: Address = "0x00000000000000000000000000000000000000b1";
+const BLOCK = 1234n;
+
+// Balanced books: 1000 deposited across two pools, 50 unclaimed, 20 of yield
+// waiting as the prize pool, all of it withdrawable
+function token(overrides: Partial<TokenAccounting> = {}): TokenAccounting {
+  return {
+    token: USDC,
+    symbol: "USDC",
+    decimals: 6,
+    enabled: true,
+    yieldVault: YIELD_VAULT,
+    totalAssets: 1070n,
+    totalDeposits: 1000n,
+    totalUnclaimedPrizes: 50n,
+    currentPrizePool: 20n,
+    poolTokenDeposits: [
+      { poolId: 1n, deposits: 600n },
+      { poolId: 2n, deposits: 400n },
+    ],
+    maxWithdraw: 1070n,
+    ...overrides,
+  };
+}
+
+function accounting(...tokens: TokenAccounting[]): VaultAccounting {
+  return { blockNumber: BLOCK, poolIds: [1n, 2n], tokens };
+}
+
+const keys = (accounts: VaultAccounting) => checkInvariants(accounts).map((a) => a.key);
+
+function only(accounts: VaultAccounting) {
+  const alerts = checkInvariants(accounts);
+  assert.equal(alerts.length, 1, `expected one alert, got ${alerts.map((a) => a.key).join(", ")}`);
+  return alerts[0];
+}
+
+describe("checkInvariants", () => {
+  it("raises nothing for balanced books", () => {
+    assert.deepEqual(checkInvariants(accounting(token(), token({ token: USDT, symbol: "USDT" }))), []);
+  });
+
+  it("raises nothing when assets exactly cover liabilities and the prize pool is empty", () => {
+    const exact = token({ totalAssets: 1050n, currentPrizePool: 0n, maxWithdraw: 1050n });
+    assert.deepEqual(checkInvariants(accounting(exact)), []);
+  });
+
+  it("flags pool deposits that do not sum to totalDeposits", () => {
+    const alert = only(
+      accounting(
+        token({
+          poolTokenDeposits: [
+            { poolId: 1n, deposits: 600n },
+            { poolId: 2n, deposits: 390n },
+          ],
+        })
+      )
+    );
+    assert.equal(alert.key, `pool-deposits-mismatch:${USDC}`);
+    assert.equal(alert.severity, "critical");
+    assert.equal(alert.message, "USDC: pool deposits sum to 990 but totalDeposits is 1000");
+    assert.equal(alert.details?.poolSum, 990n);
+    assert.equal(alert.details?.totalDeposits, 1000n);
+    assert.equal(alert.details?.difference, -10n);
+    assert.equal(alert.details?.blockNumber, BLOCK);
+  });
+
+  it("flags insolvency with the shortfall", () => {
+    const alerts = checkInvariants(accounting(token({ totalAssets: 1040n, currentPrizePool: 0n, maxWithdraw: 1050n })));
+    assert.deepEqual(alerts.map((a) => a.key), [`insolvent:${USDC}`]);
+    const [alert] = alerts;
+    assert.equal(alert.severity, "critical");
+    assert.equal(alert.message, "USDC: totalAssets 1040 is below liabilities 1050");
+    assert.equal(alert.details?.totalAssets, 1040n);
+    assert.equal(alert.details?.liabilities, 1050n);
+    assert.equal(alert.details?.shortfall, 10n);
+  });
+
+  it("flags a prize pool that is not assets minus liabilities", () => {
+    const alert = only(accounting(token({ currentPrizePool: 25n })));
+    assert.equal(alert.key, `prize-pool-mismatch:${USDC}`);
+    assert.equal(alert.severity, "critical");
+    assert.equal(alert.message, "USDC: currentPrizePool is 25, expected 20");
+    assert.equal(alert.details?.currentPrizePool, 25n);
+    assert.equal(alert.details?.expectedPrizePool, 20n);
+  });
+
+  it("expects an empty prize pool while insolvent", () => {
+    const alerts = checkInvariants(accounting(token({ totalAssets: 1000n, currentPrizePool: 5n })));
+    const mismatch = alerts.find((a) => a.key === `prize-pool-mismatch:${USDC}`);
+    assert.ok(mismatch);
+    assert.equal(mismatch.details?.expectedPrizePool, 0n);
+    assert.ok(alerts.some((a) => a.key === `insolvent:${USDC}`));
+  });
+
+  it("warns when the yield vault cannot release the liabilities", () => {
+    const alert = only(accounting(token({ maxWithdraw: 1000n })));
+    assert.equal(alert.key, `withdraw-liquidity:${USDC}`);
+    assert.equal(alert.severity, "warning");
+    assert.equal(alert.message, "USDC: yield vault can release 1000 but liabilities are 1050");
+    assert.equal(alert.details?.yieldVault, YIELD_VAULT);
+    assert.equal(alert.details?.maxWithdraw, 1000n);
+    assert.equal(alert.details?.uncovered, 50n);
+  });
+
+  it("only checks pool deposits for a disabled token", () => {
+    const disabled = { enabled: false, totalAssets: 0n, currentPrizePool: 0n, maxWithdraw: 0n };
+    assert.deepEqual(checkInvariants(accounting(token(disabled))), []);
+    assert.deepEqual(keys(accounting(token({ ...disabled, totalDeposits: 999n }))), [`pool-deposits-mismatch:${USDC}`]);
+  });
+
+  it("keys alerts by token so each one fires on its own", () => {
+    const usdt = token({ token: USDT, symbol: "USDT", currentPrizePool: 0n });
+    assert.deepEqual(keys(accounting(token({ maxWithdraw: 0n }), usdt)), [
+      `withdraw-liquidity:${USDC}`,
+      `prize-pool-mismatch:${USDT}`,
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import type { Address } from "viem";
+
+import { erc20Abi, erc4626Abi, welotVaultAbi } from "../abis";
+import type { Alert } from "../keeper/alerts";
+import type { WelotPublicClient } from "../welot";
+import { readBatch, unwrap, unwrapOr, type ReadCall } from "../welot/batch";
+import { decodeTokenConfig } from "../welot/decode";
+
+// One token's books at a single block (token decimals throughout)
+export interface TokenAccounting {
+  token: Address;
+  symbol: string;
+  decimals: number;
+  enabled: boolean;
+  yieldVault: Address;
+  totalAssets: bigint;
+  totalDeposits: bigint;
+  totalUnclaimedPrizes: bigint;
+  currentPrizePool: bigint;
+  poolTokenDeposits: { poolId: bigint; deposits: bigint }[];
+  // `yieldVault.maxWithdraw(vault)`: what the vault could take out right now
+  maxWithdraw: bigint;
+}
+
+export interface VaultAccounting {
+  blockNumber: bigint;
+  poolIds: bigint[];
+  tokens: TokenAccounting[];
+}
+
+// Reads everything the invariants need, pinned to `blockNumber`, in three
+// batched round-trips: token list and pool count; pool ids and per-token
+// config, symbol, assets and prize pool; per-pool deposits and the yield
+// vault's `maxWithdraw`. Pool ids come from `poolIds(i)` rather than being
+// assumed, since a mismatch there is itself worth catching.
+export async function readVaultAccounting(
+  client: WelotPublicClient,
+  vaultAddress: Address,
+  blockNumber: bigint
+): Promise<VaultAccounting> {
+  const vault = { address: vaultAddress, abi: welotVaultAbi } as const;
+  const at = { blockNumber };
+
+  const g = await readBatch(
+    client,
+    [
+      { ...vault, functionName: "getSupportedTokens" },
+      { ...vault, functionName: "poolIdsLength" },
+    ],
+    at
+  );
+  const tokenAddresses = unwrap<readonly Address[]>(g[0]);
+  const poolCount = Number(unwrap<bigint>(g[1]));
+
+  const second: ReadCall[] = Array.from({ length: poolCount }, (_, i) => ({
+    ...vault,
+    functionName: "poolIds",
+    args: [BigInt(i)],
+  }));
+  for (const token of tokenAddresses) {
+    second.push(
+      { ...vault, functionName: "tokenConfigs", args: [token] },
+      { address: token, abi: erc20Abi, functionName: "symbol" },
+      { ...vault, functionName: "totalAssets", args: [token] },
+      { ...vault, functionName: "currentPrizePool", args: [token] }
+    );
+  }
+  const s = await readBatch(client, second, at);
+  const poolIds = s.slice(0, poolCount).map((r) => unwrap<bigint>(r));
+  const partial = tokenAddresses.map((token, k) => {
+    const base = poolCount + k * 4;
+    return {
+      token,
+      config: decodeTokenConfig(unwrap(s[base])),
+      symbol: unwrapOr<string>(s[base + 1], "TOKEN"),
+      totalAssets: unwrap<bigint>(s[base + 2]),
+      currentPrizePool: unwrap<bigint>(s[base + 3]),
+    };
+  });
+
+  const third: ReadCall[] = [];
+  for (const t of partial) {
+    for (const poolId of poolIds) third.push({ ...vault, functionName: "poolTokenDeposits", args: [t.token, poolId] });
+    third.push({ address: t.config.yieldVault, abi: erc4626Abi, functionName: "maxWithdraw", args: [vaultAddress] });
+  }
+  const d = await readBatch(client, third, at);
+
+  let i = 0;
+  const tokens = partial.map((t): TokenAccounting => {
+    const poolTokenDeposits = poolIds.map((poolId) => ({ poolId, deposits: unwrap<bigint>(d[i++]) }));
+    const maxWithdraw = unwrap<bigint>(d[i++]);
+    return {
+      token: t.token,
+      symbol: t.symbol,
+      decimals: t.config.decimals,
+      enabled: t.config.enabled,
+      yieldVault: t.config.yieldVault,
+      totalAssets: t.totalAssets,
+      totalDeposits: t.config.totalDeposits,
+      totalUnclaimedPrizes: t.config.totalUnclaimedPrizes,
+      currentPrizePool: t.currentPrizePool,
+      poolTokenDeposits,
+      maxWithdraw,
+    };
+  });
+
+  return { blockNumber, poolIds, tokens };
+}
+
+// The accounting invariants from PROTOCOL.md, per token. Keys carry the token
+// address so each token's alert fires and resolves on its own:
+//
+//   pool-deposits-mismatch  Σ poolTokenDeposits over pools = totalDeposits
+//   insolvent               totalAssets ≥ totalDeposits + totalUnclaimedPrizes
+//   prize-pool-mismatch     currentPrizePool = max(totalAssets − liabilities, 0)
+//   withdraw-liquidity      yieldVault.maxWithdraw(vault) ≥ liabilities
+//
+// Disabled tokens report 0 assets by design, so only the first check applies
+// to them.
+export function checkInvariants(accounting: VaultAccounting): Alert[] {
+  const alerts: Alert[] = [];
+  const { blockNumber } = accounting;
+
+  for (const t of accounting.tokens) {
+    const poolSum = t.poolTokenDeposits.reduce((sum, p) => sum + p.deposits, 0n);
+    if (poolSum !== t.totalDeposits) {
+      alerts.push({
+        key: `pool-deposits-mismatch:${t.token}`,
+        severity: "critical",
+        message: `${t.symbol}: pool deposits sum to ${poolSum} but totalDeposits is ${t.totalDeposits}`,
+        details: {
+          blockNumber,
+          token: t.token,
+          symbol: t.symbol,
+          poolSum,
+          totalDeposits: t.totalDeposits,
+          difference: poolSum - t.totalDeposits,
+          poolTokenDeposits: t.poolTokenDeposits,
+        },
+      });
+    }
+    if (!t.enabled) continue;
+
+    const liabilities = t.totalDeposits + t.totalUnclaimedPrizes;
+    const accounts = {
+      blockNumber,
+      token: t.token,
+      symbol: t.symbol,
+      totalAssets: t.totalAssets,
+      totalDeposits: t.totalDeposits,
+      totalUnclaimedPrizes: t.totalUnclaimedPrizes,
+      liabilities,
+    };
+
+    if (t.totalAssets < liabilities) {
+      alerts.push({
+        key: `insolvent:${t.token}`,
+        severity: "critical",
+        message: `${t.symbol}: totalAssets ${t.totalAssets} is below liabilities ${liabilities}`,
+        details: { ...accounts, shortfall: liabilities - t.totalAssets },
+      });
+    }
+
+    const expectedPrizePool = t.totalAssets > liabilities ? t.totalAssets - liabilities : 0n;
+    if (t.currentPrizePool !== expectedPrizePool) {
+      alerts.push({
+        key: `prize-pool-mismatch:${t.token}`,
+        severity: "critical",
+        message: `${t.symbol}: currentPrizePool is ${t.currentPrizePool}, expected ${expectedPrizePool}`,
+        details: { ...accounts, currentPrizePool: t.currentPrizePool, expectedPrizePool },
+      });
+    }
+
+    if (t.maxWithdraw < liabilities) {
+      alerts.push({
+        key: `withdraw-liquidity:${t.token}`,
+        severity: "warning",
+        message: `${t.symbol}: yield vault can release ${t.maxWithdraw} but liabilities are ${liabilities}`,
+        details: {
+          ...accounts,
+          yieldVault: t.yieldVault,
+          maxWithdraw: t.maxWithdraw,
+          uncovered: liabilities - t.maxWithdraw,
+        },
+      });
+    }
+  }
+
+  return alerts;
+}
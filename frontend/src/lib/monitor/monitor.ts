@@ -0,0 +1,83 @@
+import type { Address } from "viem";
+
+import type { Alert, AlertManager } from "../keeper/alerts";
+import { createJsonLogger, type Logger } from "../keeper/logger";
+import type { WelotPublicClient } from "../welot";
+import { checkInvariants, readVaultAccounting, type VaultAccounting } from "./invariants";
+
+export interface InvariantMonitorOptions {
+  client: WelotPublicClient;
+  vaultAddress: Address;
+  logger?: Logger;
+  alerts?: AlertManager;
+}
+
+export interface CheckResult {
+  accounting: VaultAccounting;
+  violations: Alert[];
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(t);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+// Reads the vault's books at a block and checks the accounting invariants.
+// Every violation is logged at `error`; the alert manager then notifies when
+// one starts firing and again when it resolves.
+export class InvariantMonitor {
+  readonly vaultAddress: Address;
+  private readonly client: WelotPublicClient;
+  private readonly log: Logger;
+  private readonly alerts?: AlertManager;
+  private lastBlock: bigint | null = null;
+
+  constructor(opts: InvariantMonitorOptions) {
+    this.client = opts.client;
+    this.vaultAddress = opts.vaultAddress;
+    this.log = opts.logger ?? createJsonLogger({ fields: { service: "monitor", vault: opts.vaultAddress } });
+    this.alerts = opts.alerts;
+  }
+
+  async check(blockNumber?: bigint): Promise<CheckResult> {
+    const block = blockNumber ?? (await this.client.getBlockNumber());
+    const accounting = await readVaultAccounting(this.client, this.vaultAddress, block);
+    const violations = checkInvariants(accounting);
+    for (const v of violations) {
+      this.log.error("invariant violated", { alert: v.key, severity: v.severity, message: v.message, ...v.details });
+    }
+    this.log.debug("check done", { blockNumber: block, tokens: accounting.tokens.length, violations: violations.length });
+    await this.alerts?.evaluate(violations);
+    this.lastBlock = block;
+    return { accounting, violations };
+  }
+
+  // Checks every `pollIntervalMs` until `signal` aborts (or once with `once`).
+  // With `everyBlock` a poll only checks when a new block has arrived, so each
+  // block is checked at most once. Check errors are logged, never thrown.
+  async run(
+    opts: { pollIntervalMs?: number; once?: boolean; everyBlock?: boolean; signal?: AbortSignal } = {}
+  ): Promise<CheckResult | null> {
+    const pollIntervalMs = opts.pollIntervalMs ?? (opts.everyBlock ? 2_000 : 30_000);
+    let last: CheckResult | null = null;
+    while (!opts.signal?.aborted) {
+      try {
+        const block = await this.client.getBlockNumber();
+        if (!opts.everyBlock || block !== this.lastBlock) last = await this.check(block);
+      } catch (err) {
+        this.log.error("check failed", { err });
+      }
+      if (opts.once) return last;
+      await sleep(pollIntervalMs, opts.signal);
+    }
+    return last;
+  }
+}
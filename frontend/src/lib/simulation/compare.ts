@@ -0,0 +1,226 @@
+import type { Address } from "viem";
+
+import { INITIAL_TOKENS, SimulationEngine } from "./engine";
+import { SeededRandom } from "./random";
+import type { SimModel } from "./types";
+
+export interface ModelComparisonConfig {
+  seed: number;
+  poolCount: number;
+  userCount: number;
+  epochs: number;
+  drawIntervalSec: number;
+  // Random deposits and withdrawals spread over each epoch
+  actionsPerEpoch: number;
+}
+
+export interface ModelDrawSide {
+  // null when the draw had no winner
+  winningPoolId: number | null;
+  // By pool id, just before the draw
+  odds: number[];
+  prize: number;
+  // Deposits in the winning pool at draw time
+  winnerDeposits: number;
+}
+
+export interface ModelDrawComparison {
+  epochId: number;
+  simplified: ModelDrawSide;
+  exact: ModelDrawSide;
+  // Largest per-pool gap between the exact odds and the same weights counted
+  // from the start of the epoch only
+  carryOverGap: number;
+}
+
+export interface ModelUserComparison {
+  name: string;
+  address: Address;
+  simplifiedPoolId: number;
+  exactPoolId: number;
+  // Unclaimed prizes at the end, summed over tokens
+  simplifiedPrize: number;
+  exactPrize: number;
+}
+
+export type ModelDifferenceKind =
+  | "pool-assignment"
+  | "weight-carry-over"
+  | "no-winner"
+  | "empty-pool-wins"
+  | "winner"
+  | "prize"
+  | "rounding-dust";
+
+export interface ModelDifference {
+  kind: ModelDifferenceKind;
+  // Users, draws or tokens affected; 0 means the models agree here
+  count: number;
+  detail: string;
+}
+
+export interface ModelComparison {
+  config: ModelComparisonConfig;
+  draws: ModelDrawComparison[];
+  users: ModelUserComparison[];
+  differences: ModelDifference[];
+}
+
+// Odds above this gap count as a disagreement
+const ODDS_TOLERANCE = 0.01;
+const PRIZE_TOLERANCE = 0.01;
+
+function normalize(weights: readonly number[]): number[] {
+  const total = weights.reduce((a, b) => a + b, 0);
+  return weights.map((w) => (total > 0 ? w / total : 0));
+}
+
+function sumValues(record: Record<string, number>): number {
+  return Object.values(record).reduce((a, b) => a + b, 0);
+}
+
+// Runs one seeded scenario through both models in lockstep: the same users,
+// the same deposits and withdrawals at the same times, and the same entropy
+// for every draw. Each kind of disagreement is counted separately, so the
+// report shows which of the vault's rules the simplified model gets wrong.
+export function compareModels(config: ModelComparisonConfig): ModelComparison {
+  if (config.poolCount < 1 || config.userCount < 1 || config.epochs < 1) {
+    throw new Error("poolCount, userCount and epochs must be at least 1");
+  }
+  if (config.drawIntervalSec <= 0) throw new Error("drawIntervalSec must be positive");
+
+  const engines: Record<SimModel, SimulationEngine> = {
+    simplified: makeEngine(config, "simplified"),
+    exact: makeEngine(config, "exact"),
+  };
+  const both = [engines.simplified, engines.exact];
+  const actions = new SeededRandom(config.seed ^ 0x5eed);
+  const slice = Math.max(1, Math.floor(config.drawIntervalSec / (config.actionsPerEpoch + 1)));
+  const draws: ModelDrawComparison[] = [];
+
+  for (let epoch = 0; epoch < config.epochs; epoch++) {
+    const epochStartWeights = engines.exact.state.pools.map((p) => p.cumulativeWeight);
+    let elapsed = 0;
+    for (let i = 0; i < config.actionsPerEpoch; i++) {
+      for (const e of both) e.step(slice);
+      elapsed += slice;
+
+      const userIndex = actions.int(config.userCount);
+      const token = actions.pick(INITIAL_TOKENS).symbol;
+      const roll = actions.next();
+      const amount = actions.int(500) + 50;
+      const userId = engines.simplified.state.users[userIndex].id;
+      if (roll < 0.7) {
+        for (const e of both) e.deposit(userId, token, amount);
+      } else {
+        const held = Math.min(...both.map((e) => e.state.users[userIndex].deposits[token] || 0));
+        if (held > 0) for (const e of both) e.withdraw(userId, token, Math.min(held, amount));
+      }
+    }
+    for (const e of both) e.step(config.drawIntervalSec - elapsed);
+
+    const exactWeights = engines.exact.state.pools.map((p) => p.cumulativeWeight);
+    const epochOnly = normalize(exactWeights.map((w, i) => w - epochStartWeights[i]));
+    const sides = both.map((e): ModelDrawSide => {
+      const odds = e.poolOdds();
+      const pools = e.state.pools;
+      const result = e.draw();
+      return {
+        winningPoolId: result?.winningPoolId ?? null,
+        odds,
+        prize: result?.totalPrize ?? 0,
+        winnerDeposits: result ? sumValues(pools[result.winningPoolId].deposits) : 0,
+      };
+    });
+    draws.push({
+      epochId: epoch + 1,
+      simplified: sides[0],
+      exact: sides[1],
+      carryOverGap: sides[1].odds.reduce((a, o, i) => Math.max(a, Math.abs(o - epochOnly[i])), 0),
+    });
+  }
+
+  const users = engines.simplified.state.users.map((u, i): ModelUserComparison => {
+    const exact = engines.exact.state.users[i];
+    return {
+      name: u.name,
+      address: u.address,
+      simplifiedPoolId: u.poolId,
+      exactPoolId: exact.poolId,
+      simplifiedPrize: sumValues(u.claimable),
+      exactPrize: sumValues(exact.claimable),
+    };
+  });
+
+  return { config, draws, users, differences: describeDifferences(config, draws, users, engines.exact.roundingDust()) };
+}
+
+function makeEngine(config: ModelComparisonConfig, model: SimModel): SimulationEngine {
+  return new SimulationEngine({
+    seed: config.seed,
+    startTime: new Date(0),
+    poolCount: config.poolCount,
+    userCount: config.userCount,
+    drawIntervalSec: config.drawIntervalSec,
+    historyLimit: 0,
+    logLimit: 0,
+    model,
+  });
+}
+
+function describeDifferences(
+  config: ModelComparisonConfig,
+  draws: readonly ModelDrawComparison[],
+  users: readonly ModelUserComparison[],
+  dust: Record<string, number>
+): ModelDifference[] {
+  const moved = users.filter((u) => u.simplifiedPoolId !== u.exactPoolId).length;
+  const carried = draws.filter((d) => d.exact.winningPoolId !== null && d.carryOverGap > ODDS_TOLERANCE);
+  const maxCarry = carried.reduce((a, d) => Math.max(a, d.carryOverGap), 0);
+  const noWinner = draws.filter((d) => d.exact.winningPoolId === null && d.simplified.winningPoolId !== null).length;
+  const emptyWins = draws.filter((d) => d.exact.winningPoolId !== null && d.exact.winnerDeposits === 0).length;
+  const winner = draws.filter((d) => d.simplified.winningPoolId !== d.exact.winningPoolId).length;
+  const prize = draws.filter((d) => Math.abs(d.simplified.prize - d.exact.prize) > PRIZE_TOLERANCE).length;
+  const dusty = Object.entries(dust).filter(([, v]) => v > 0);
+
+  return [
+    {
+      kind: "pool-assignment",
+      count: moved,
+      detail: `${moved} of ${users.length} users sit in a different pool: the simplified model assigns pools round-robin by join order, the vault by \`address % ${config.poolCount}\`.`,
+    },
+    {
+      kind: "weight-carry-over",
+      count: carried.length,
+      detail: `In ${carried.length} of ${draws.length} draws the vault's odds moved by up to ${(maxCarry * 100).toFixed(1)} points because \`cumulative\` is never reset: weight built up in earlier epochs still counts.`,
+    },
+    {
+      kind: "no-winner",
+      count: noWinner,
+      detail: `${noWinner} draws had no winner in the vault (every weight was 0, so pool 0 was selected) where the simplified model fell back to current balances.`,
+    },
+    {
+      kind: "empty-pool-wins",
+      count: emptyWins,
+      detail: `${emptyWins} draws went to a pool with no deposits left: old weight kept it in the draw, and its prize carried forward.`,
+    },
+    {
+      kind: "winner",
+      count: winner,
+      detail: `${winner} of ${draws.length} draws picked a different pool from the same entropy.`,
+    },
+    {
+      kind: "prize",
+      count: prize,
+      detail: `${prize} draws paid a different total. The vault's prize pool also earns yield on unclaimed prizes and keeps what a pool without that token could not take.`,
+    },
+    {
+      kind: "rounding-dust",
+      count: dusty.length,
+      detail:
+        dusty.length === 0
+          ? "The 1e18 reward index split every prize without remainder."
+          : `The 1e18 reward index rounded away ${dusty.map(([symbol, v]) => `${v} ${symbol}`).join(", ")}: counted as owed to winners, claimable by nobody.`,
+    },
+  ];
+}
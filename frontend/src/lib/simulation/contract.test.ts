@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ContractModel } from "./contract";
+import { SimulationEngine } from "./engine";
+
+const WAD = 10n ** 18n;
+const T0 = 1_700_000_000n;
+const ALICE = "0x00000000000000000000000000000000000000a0";
+const BOB = "0x00000000000000000000000000000000000000b0";
+const CAROL = "0x00000000000000000000000000000000000000c1";
+
+const model = (poolCount = 2) =>
+  new ContractModel(
+    [
+      { symbol: "USDC", decimals: 6 },
+      { symbol: "WETH", decimals: 18 },
+    ],
+    poolCount,
+    T0
+  );
+
+describe("ContractModel", () => {
+  it("assigns pools by address % poolCount", () => {
+    const m = model(3);
+    for (const user of [ALICE, BOB, CAROL, "0xffffffffffffffffffffffffffffffffffffffff"]) {
+      assert.equal(m.assignedPool(user), Number(BigInt(user) % 3n), user);
+    }
+    assert.equal(m.assignedPool(ALICE), 0xa0 % 3);
+  });
+
+  it("integrates the normalized pool balance into cumulative", () => {
+    const m = model();
+    m.deposit("USDC", 0, ALICE, 5_000_000n, T0);
+    m.deposit("WETH", 0, BOB, 2n * WAD, T0 + 10n);
+
+    // 5 USDC for 10s, then 5 USDC + 2 WETH (both 18-decimal normalized)
+    assert.equal(m.poolWeight(0, T0 + 10n), 5n * WAD * 10n);
+    assert.equal(m.poolWeight(0, T0 + 30n), 5n * WAD * 10n + 7n * WAD * 20n);
+    // `poolWeight` is a view; only touching the pool stores it
+    assert.equal(m.totalWeight(), 5n * WAD * 10n);
+    m.accrueAllPools(T0 + 30n);
+    assert.equal(m.totalWeight(), 5n * WAD * 10n + 7n * WAD * 20n);
+  });
+
+  it("has no winner while every weight is 0", () => {
+    const m = model();
+    assert.equal(m.selectWinner(123n), null);
+    // A deposit alone adds no weight until time passes
+    m.deposit("USDC", 1, ALICE, 1_000_000n, T0);
+    m.accrueAllPools(T0);
+    assert.equal(m.selectWinner(123n), null);
+    assert.deepEqual(m.recordPrizes(null), new Map());
+
+    m.accrueAllPools(T0 + 1n);
+    assert.equal(m.selectWinner(123n), 1);
+  });
+
+  it("walks randomness % total over the pool weights", () => {
+    const m = model();
+    m.deposit("USDC", 0, ALICE, 1_000_000n, T0);
+    m.deposit("USDC", 1, BOB, 3_000_000n, T0);
+    m.accrueAllPools(T0 + 1n);
+    const [w0, total] = [1n * WAD, 4n * WAD];
+    assert.equal(m.selectWinner(0n), 0);
+    assert.equal(m.selectWinner(w0 - 1n), 0);
+    assert.equal(m.selectWinner(w0), 1);
+    assert.equal(m.selectWinner(total - 1n), 1);
+    assert.equal(m.selectWinner(total + w0 - 1n), 0);
+  });
+
+  it("lets an emptied pool win on old weight and carries its prize forward", () => {
+    const m = model();
+    m.deposit("USDC", 0, ALICE, 10_000_000n, T0);
+    m.withdraw("USDC", 0, ALICE, 10_000_000n, T0 + 100n);
+    m.deposit("USDC", 1, BOB, 10_000_000n, T0 + 100n);
+    m.addAssets("USDC", 500_000n);
+    m.accrueAllPools(T0 + 101n);
+
+    // Pool 0 still holds 10 USDC × 100s of weight with nothing deposited
+    assert.equal(m.poolTokenDeposits("USDC", 0), 0n);
+    assert.equal(m.selectWinner(0n), 0);
+    assert.deepEqual(m.recordPrizes(0), new Map());
+    assert.equal(m.currentPrizePool("USDC"), 500_000n);
+
+    // The next draw pays the carried prize to a pool that holds USDC
+    assert.deepEqual(m.recordPrizes(1), new Map([["USDC", 500_000n]]));
+    assert.equal(m.currentPrizePool("USDC"), 0n);
+    assert.equal(m.pendingPrize("USDC", 1, BOB), 500_000n);
+  });
+
+  it("credits prizes through the reward index and tracks what it rounds away", () => {
+    const m = model();
+    m.deposit("USDC", 0, ALICE, 3n, T0);
+    m.deposit("USDC", 0, BOB, 4n, T0);
+    m.addAssets("USDC", 10n);
+
+    assert.deepEqual(m.recordPrizes(0), new Map([["USDC", 10n]]));
+    const index = (10n * WAD) / 7n;
+    assert.equal(m.pendingPrize("USDC", 0, ALICE), (3n * index) / WAD);
+    assert.equal(m.pendingPrize("USDC", 0, BOB), (4n * index) / WAD);
+    assert.deepEqual([m.pendingPrize("USDC", 0, ALICE), m.pendingPrize("USDC", 0, BOB)], [4n, 5n]);
+    // 10 recorded, 9 claimable
+    assert.equal(m.roundingDust("USDC"), 1n);
+    assert.equal(m.roundingDust("WETH"), 0n);
+
+    // A later deposit does not share in the earlier prize
+    m.deposit("USDC", 0, CAROL, 100n, T0 + 1n);
+    assert.equal(m.pendingPrize("USDC", 0, CAROL), 0n);
+
+    assert.equal(m.claim("USDC", 0, ALICE), 4n);
+    assert.equal(m.claim("USDC", 0, ALICE), 0n);
+    assert.equal(m.pendingPrize("USDC", 0, ALICE), 0n);
+    assert.equal(m.roundingDust("USDC"), 1n);
+  });
+
+  it("refuses to withdraw more than the position", () => {
+    const m = model();
+    m.deposit("USDC", 0, ALICE, 5n, T0);
+    assert.equal(m.withdraw("USDC", 0, ALICE, 6n, T0), false);
+    assert.equal(m.deposits("USDC", 0, ALICE), 5n);
+    assert.throws(() => m.deposit("USDC", 0, ALICE, 0n, T0), /ZeroAmount/);
+  });
+
+  it("keeps cumulative across draws in the exact engine", () => {
+    const e = new SimulationEngine({
+      seed: 1,
+      startTime: new Date(Number(T0) * 1000),
+      poolCount: 2,
+      userCount: 2,
+      drawIntervalSec: 3600,
+      model: "exact",
+    });
+    const user = e.state.users[0];
+    assert.ok(e.deposit(user.id, "USDC", 100));
+    e.step(3600);
+    const before = e.state.pools[user.poolId].cumulativeWeight;
+    assert.ok(before > 0);
+
+    e.draw();
+    assert.equal(e.state.epoch.id, 2);
+    assert.equal(e.state.pools[user.poolId].cumulativeWeight, before);
+    e.step(3600);
+    assert.equal(e.state.pools[user.poolId].cumulativeWeight, before * 2);
+  });
+});
@@ -0,0 +1,352 @@
+import { to18 } from "../welot/units";
+
+const WAD = 10n ** 18n;
+const SECONDS_PER_YEAR = 31_536_000n;
+// APYs are given in percent; basis points keep two decimals of them
+const BPS = 10_000n;
+
+export interface ContractModelToken {
+  symbol: string;
+  decimals: number;
+}
+
+// `Pool` minus the fields the model does not need
+interface PoolLedger {
+  cumulative: bigint;
+  lastTimestamp: bigint;
+  lastBalance: bigint;
+}
+
+interface Position {
+  symbol: string;
+  pool: number;
+  user: string;
+  deposits: bigint;
+  rewardIndexPaid: bigint;
+  pendingPrize: bigint;
+}
+
+interface TokenLedger {
+  decimals: number;
+  totalDeposits: bigint;
+  totalUnclaimedPrizes: bigint;
+  // What the yield vault holds for the lottery: deposits, unclaimed prizes and
+  // the prize pool
+  assets: bigint;
+  // Yield numerator below one unit, carried so small steps do not lose yield
+  yieldCarry: bigint;
+  poolTokenDeposits: bigint[];
+  poolTokenRewardIndex: bigint[];
+}
+
+// JSON-safe copy of a `ContractModel`; amounts are decimal strings
+export interface ContractModelSnapshot {
+  poolCount: number;
+  pools: { cumulative: string; lastTimestamp: string; lastBalance: string }[];
+  tokens: {
+    symbol: string;
+    decimals: number;
+    totalDeposits: string;
+    totalUnclaimedPrizes: string;
+    assets: string;
+    yieldCarry: string;
+    poolTokenDeposits: string[];
+    poolTokenRewardIndex: string[];
+  }[];
+  positions: { symbol: string; pool: number; user: string; deposits: string; rewardIndexPaid: string; pendingPrize: string }[];
+}
+
+// Bigint mirror of WelotVault's accounting, line for line where it matters:
+// pools integrate their normalized balance into `cumulative` whenever they are
+// touched and never reset it, `_selectWinner` walks `randomness % total` over
+// those weights (0 = no winner while every weight is 0), prizes go through
+// `poolTokenRewardIndex` with 1e18 precision, and users are assigned pools by
+// `address % poolCount`. Pools are indexed 0..poolCount-1 here; the vault's
+// ids are one higher. Only yield is modelled rather than mirrored: assets grow
+// by APY, as ERC-4626 shares would.
+export class ContractModel {
+  readonly poolCount: number;
+  private readonly pools: PoolLedger[];
+  private readonly tokens = new Map<string, TokenLedger>();
+  // `${symbol}:${pool}:${user}`
+  private readonly positions = new Map<string, Position>();
+
+  constructor(tokens: readonly ContractModelToken[], poolCount: number, now: bigint) {
+    if (poolCount < 1) throw new Error("poolCount must be at least 1");
+    this.poolCount = poolCount;
+    this.pools = Array.from({ length: poolCount }, () => ({ cumulative: 0n, lastTimestamp: now, lastBalance: 0n }));
+    for (const t of tokens) this.addToken(t);
+  }
+
+  addToken(token: ContractModelToken) {
+    if (this.tokens.has(token.symbol)) return;
+    this.tokens.set(token.symbol, {
+      decimals: token.decimals,
+      totalDeposits: 0n,
+      totalUnclaimedPrizes: 0n,
+      assets: 0n,
+      yieldCarry: 0n,
+      poolTokenDeposits: Array.from({ length: this.poolCount }, () => 0n),
+      poolTokenRewardIndex: Array.from({ length: this.poolCount }, () => 0n),
+    });
+  }
+
+  static restore(snapshot: ContractModelSnapshot): ContractModel {
+    const model = new ContractModel([], snapshot.poolCount, 0n);
+    if (snapshot.pools.length !== snapshot.poolCount) throw new Error("Contract snapshot has the wrong number of pools");
+    snapshot.pools.forEach((p, i) => {
+      model.pools[i] = {
+        cumulative: BigInt(p.cumulative),
+        lastTimestamp: BigInt(p.lastTimestamp),
+        lastBalance: BigInt(p.lastBalance),
+      };
+    });
+    for (const t of snapshot.tokens) {
+      model.tokens.set(t.symbol, {
+        decimals: t.decimals,
+        totalDeposits: BigInt(t.totalDeposits),
+        totalUnclaimedPrizes: BigInt(t.totalUnclaimedPrizes),
+        assets: BigInt(t.assets),
+        yieldCarry: BigInt(t.yieldCarry),
+        poolTokenDeposits: t.poolTokenDeposits.map(BigInt),
+        poolTokenRewardIndex: t.poolTokenRewardIndex.map(BigInt),
+      });
+    }
+    for (const p of snapshot.positions) {
+      model.positions.set(positionKey(p.symbol, p.pool, p.user), {
+        symbol: p.symbol,
+        pool: p.pool,
+        user: p.user.toLowerCase(),
+        deposits: BigInt(p.deposits),
+        rewardIndexPaid: BigInt(p.rewardIndexPaid),
+        pendingPrize: BigInt(p.pendingPrize),
+      });
+    }
+    return model;
+  }
+
+  snapshot(): ContractModelSnapshot {
+    return {
+      poolCount: this.poolCount,
+      pools: this.pools.map((p) => ({
+        cumulative: p.cumulative.toString(),
+        lastTimestamp: p.lastTimestamp.toString(),
+        lastBalance: p.lastBalance.toString(),
+      })),
+      tokens: [...this.tokens].map(([symbol, t]) => ({
+        symbol,
+        decimals: t.decimals,
+        totalDeposits: t.totalDeposits.toString(),
+        totalUnclaimedPrizes: t.totalUnclaimedPrizes.toString(),
+        assets: t.assets.toString(),
+        yieldCarry: t.yieldCarry.toString(),
+        poolTokenDeposits: t.poolTokenDeposits.map(String),
+        poolTokenRewardIndex: t.poolTokenRewardIndex.map(String),
+      })),
+      positions: [...this.positions.values()].map((p) => ({
+        symbol: p.symbol,
+        pool: p.pool,
+        user: p.user,
+        deposits: p.deposits.toString(),
+        rewardIndexPaid: p.rewardIndexPaid.toString(),
+        pendingPrize: p.pendingPrize.toString(),
+      })),
+    };
+  }
+
+  // `assignedPoolId`, as a pool index
+  assignedPool(user: string): number {
+    return Number(BigInt(user) % BigInt(this.poolCount));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Views
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  decimals(symbol: string): number {
+    return this.token(symbol).decimals;
+  }
+
+  totalDeposits(symbol: string): bigint {
+    return this.token(symbol).totalDeposits;
+  }
+
+  poolTokenDeposits(symbol: string, pool: number): bigint {
+    return this.token(symbol).poolTokenDeposits[pool];
+  }
+
+  deposits(symbol: string, pool: number, user: string): bigint {
+    return this.positions.get(positionKey(symbol, pool, user))?.deposits ?? 0n;
+  }
+
+  // `_pendingPrize`
+  pendingPrize(symbol: string, pool: number, user: string): bigint {
+    const pos = this.positions.get(positionKey(symbol, pool, user));
+    if (!pos) return 0n;
+    const index = this.token(symbol).poolTokenRewardIndex[pool];
+    return pos.pendingPrize + (pos.deposits * (index - pos.rewardIndexPaid)) / WAD;
+  }
+
+  // `currentPrizePool`
+  currentPrizePool(symbol: string): bigint {
+    const t = this.token(symbol);
+    const liabilities = t.totalDeposits + t.totalUnclaimedPrizes;
+    return t.assets > liabilities ? t.assets - liabilities : 0n;
+  }
+
+  // `cumulative` as it would be after `_accruePool` at `now`
+  poolWeight(pool: number, now: bigint): bigint {
+    const p = this.pools[pool];
+    return now > p.lastTimestamp ? p.cumulative + p.lastBalance * (now - p.lastTimestamp) : p.cumulative;
+  }
+
+  // Sum of stored `cumulative`, the modulus `_selectWinner` uses
+  totalWeight(): bigint {
+    return this.pools.reduce((a, p) => a + p.cumulative, 0n);
+  }
+
+  // Prize credited to the vault's liabilities that no depositor can ever claim:
+  // what the reward index rounds away
+  roundingDust(symbol: string): bigint {
+    const t = this.token(symbol);
+    let claimable = 0n;
+    for (const pos of this.positions.values()) {
+      if (pos.symbol !== symbol) continue;
+      claimable += pos.pendingPrize + (pos.deposits * (t.poolTokenRewardIndex[pos.pool] - pos.rewardIndexPaid)) / WAD;
+    }
+    return t.totalUnclaimedPrizes - claimable;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // State changes
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  // Yield on everything the yield vault holds over `seconds`
+  accrueYield(symbol: string, apyPercent: number, seconds: bigint) {
+    const t = this.token(symbol);
+    if (seconds <= 0n || t.assets === 0n || apyPercent <= 0) return;
+    const numerator = t.assets * BigInt(Math.round(apyPercent * 100)) * seconds + t.yieldCarry;
+    const denominator = BPS * SECONDS_PER_YEAR;
+    t.assets += numerator / denominator;
+    t.yieldCarry = numerator % denominator;
+  }
+
+  // Yield from outside the APY model
+  addAssets(symbol: string, amount: bigint) {
+    this.token(symbol).assets += amount;
+  }
+
+  // `depositTo` with the user's assigned pool
+  deposit(symbol: string, pool: number, user: string, amount: bigint, now: bigint) {
+    if (amount <= 0n) throw new Error("ZeroAmount");
+    const t = this.token(symbol);
+    const pos = this.updateUserRewards(symbol, pool, user);
+    pos.deposits += amount;
+    t.poolTokenDeposits[pool] += amount;
+    t.totalDeposits += amount;
+    t.assets += amount;
+    this.updatePoolBalance(pool, now);
+  }
+
+  // `withdrawFrom`; false where the vault reverts with InsufficientBalance
+  withdraw(symbol: string, pool: number, user: string, amount: bigint, now: bigint): boolean {
+    if (amount <= 0n) throw new Error("ZeroAmount");
+    const t = this.token(symbol);
+    const pos = this.updateUserRewards(symbol, pool, user);
+    if (pos.deposits < amount) return false;
+    pos.deposits -= amount;
+    t.poolTokenDeposits[pool] -= amount;
+    t.totalDeposits -= amount;
+    t.assets -= amount;
+    this.updatePoolBalance(pool, now);
+    return true;
+  }
+
+  // `claimPrizeFrom`; returns the prize (0 when there is nothing to claim)
+  claim(symbol: string, pool: number, user: string): bigint {
+    const t = this.token(symbol);
+    const pos = this.updateUserRewards(symbol, pool, user);
+    const prize = pos.pendingPrize;
+    if (prize === 0n) return 0n;
+    pos.pendingPrize = 0n;
+    t.totalUnclaimedPrizes -= prize;
+    t.assets -= prize;
+    return prize;
+  }
+
+  // `_accrueAllPools`
+  accrueAllPools(now: bigint) {
+    for (const p of this.pools) accruePool(p, now);
+  }
+
+  // `_selectWinner` over stored weights (accrue first, as `_finalizeDraw`
+  // does); null where the vault returns pool 0
+  selectWinner(randomness: bigint): number | null {
+    const total = this.totalWeight();
+    if (total === 0n) return null;
+    let r = randomness % total;
+    for (const [i, p] of this.pools.entries()) {
+      if (r < p.cumulative) return i;
+      r -= p.cumulative;
+    }
+    return this.poolCount - 1;
+  }
+
+  // The prize loop of `_finalizeDraw`: each token's prize pool goes to the
+  // winning pool's reward index when the pool holds that token. Returns the
+  // recorded prize per token (the `TokenPrizeRecorded` amounts).
+  recordPrizes(winner: number | null): Map<string, bigint> {
+    const out = new Map<string, bigint>();
+    if (winner === null) return out;
+    for (const [symbol, t] of this.tokens) {
+      const prize = this.currentPrizePool(symbol);
+      const winnerTokenDeposits = t.poolTokenDeposits[winner];
+      if (prize === 0n || winnerTokenDeposits === 0n) continue;
+      t.poolTokenRewardIndex[winner] += (prize * WAD) / winnerTokenDeposits;
+      t.totalUnclaimedPrizes += prize;
+      out.set(symbol, prize);
+    }
+    return out;
+  }
+
+  private token(symbol: string): TokenLedger {
+    const t = this.tokens.get(symbol);
+    if (!t) throw new Error(`Unknown token ${symbol}`);
+    return t;
+  }
+
+  // `_updateUserRewards`
+  private updateUserRewards(symbol: string, pool: number, user: string): Position {
+    const key = positionKey(symbol, pool, user);
+    let pos = this.positions.get(key);
+    if (!pos) {
+      pos = { symbol, pool, user: user.toLowerCase(), deposits: 0n, rewardIndexPaid: 0n, pendingPrize: 0n };
+      this.positions.set(key, pos);
+    }
+    const index = this.token(symbol).poolTokenRewardIndex[pool];
+    const delta = index - pos.rewardIndexPaid;
+    if (delta > 0n && pos.deposits > 0n) pos.pendingPrize += (pos.deposits * delta) / WAD;
+    pos.rewardIndexPaid = index;
+    return pos;
+  }
+
+  // `_updatePoolBalance` with `_poolBalanceNormalized`
+  private updatePoolBalance(pool: number, now: bigint) {
+    const p = this.pools[pool];
+    accruePool(p, now);
+    let balance = 0n;
+    for (const t of this.tokens.values()) balance += to18(t.poolTokenDeposits[pool], t.decimals);
+    p.lastBalance = balance;
+  }
+}
+
+function positionKey(symbol: string, pool: number, user: string): string {
+  return `${symbol}:${pool}:${user.toLowerCase()}`;
+}
+
+// `_accruePool`
+function accruePool(p: PoolLedger, now: bigint) {
+  if (now <= p.lastTimestamp) return;
+  p.cumulative += p.lastBalance * (now - p.lastTimestamp);
+  p.lastTimestamp = now;
+}
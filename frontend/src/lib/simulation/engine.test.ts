@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { SimulationEngine, type SimulationOptions } from "./engine";
+import type { SimModel } from "./types";
+
+const YEAR = 31536000;
+const DAY = 86400;
+
+function engine(opts: Partial<SimulationOptions> = {}): SimulationEngine {
+  return new SimulationEngine({
+    seed: 42,
+    startTime: new Date("2025-01-01T00:00:00Z"),
+    poolCount: 2,
+    drawIntervalSec: 7 * DAY,
+    ...opts,
+  });
+}
+
+// A fixed mix of bot activity, time and draws
+function play(e: SimulationEngine, rounds: number) {
+  for (let i = 0; i < rounds; i++) {
+    e.botAction();
+    e.step(3600);
+    if (e.drawDue) e.draw();
+  }
+}
+
+function approx(actual: number, expected: number, message?: string) {
+  assert.ok(Math.abs(actual - expected) < 1e-6, message ?? `${actual} != ${expected}`);
+}
+
+const user = (e: SimulationEngine, id: string) => e.state.users.find((u) => u.id === id)!;
+
+describe("SimulationEngine", () => {
+  for (const model of ["simplified", "exact"] satisfies SimModel[]) {
+    it(`produces the same snapshot for the same seed (${model})`, () => {
+      const a = engine({ model });
+      const b = engine({ model });
+      play(a, 400);
+      play(b, 400);
+      assert.deepEqual(a.snapshot(), b.snapshot());
+      assert.ok(a.state.epoch.id > 1, "the run should cross at least one draw");
+
+      const c = engine({ model, seed: 7 });
+      play(c, 400);
+      assert.notDeepEqual(c.snapshot().state.users, a.snapshot().state.users);
+    });
+
+    it(`continues a restored snapshot exactly like the original (${model})`, () => {
+      const original = engine({ model });
+      play(original, 200);
+      const restored = SimulationEngine.restore(structuredClone(original.snapshot()));
+      assert.deepEqual(restored.snapshot(), original.snapshot());
+
+      play(original, 200);
+      play(restored, 200);
+      assert.deepEqual(restored.snapshot(), original.snapshot());
+    });
+  }
+
+  it("rejects a snapshot whose state does not match its options", () => {
+    const snapshot = engine().snapshot();
+    assert.throws(() => SimulationEngine.restore({ ...snapshot, poolCount: 3 }), /does not match/);
+    assert.throws(() => SimulationEngine.restore({ ...snapshot, model: "exact" }), /does not match/);
+  });
+
+  it("accrues yield into the prize pool and balance × time into pool weight", () => {
+    const e = engine();
+    assert.ok(e.deposit("user-0", "USDC", 1000));
+    assert.ok(e.deposit("user-1", "USDT", 500));
+
+    e.step(YEAR / 4);
+    // 12% and 5% APY on the token totals
+    approx(e.state.tokens.find((t) => t.symbol === "USDC")!.prizePool, 1000 * 0.12 * 0.25);
+    approx(e.state.tokens.find((t) => t.symbol === "USDT")!.prizePool, 500 * 0.05 * 0.25);
+    assert.deepEqual(
+      e.state.pools.map((p) => p.cumulativeWeight),
+      [1000 * (YEAR / 4), 500 * (YEAR / 4)]
+    );
+    assert.equal(e.state.now.getTime(), new Date("2025-01-01T00:00:00Z").getTime() + (YEAR / 4) * 1000);
+
+    const before = e.state;
+    e.step(0);
+    e.step(-10);
+    assert.equal(e.state, before);
+  });
+
+  it("rejects bad deposit and withdraw amounts without touching state", () => {
+    const e = engine();
+    assert.ok(e.deposit("user-0", "USDC", 100));
+    const before = e.state;
+
+    assert.equal(e.deposit("user-0", "USDC", 0), false);
+    assert.equal(e.deposit("user-0", "USDC", -5), false);
+    assert.equal(e.deposit("nobody", "USDC", 10), false);
+    assert.equal(e.withdraw("user-0", "USDC", 0), false);
+    assert.equal(e.withdraw("user-0", "USDC", -1), false);
+    assert.equal(e.withdraw("user-0", "USDC", 100.01), false);
+    assert.equal(e.withdraw("user-0", "USDT", 1), false);
+    assert.equal(e.withdraw("nobody", "USDC", 1), false);
+    assert.equal(e.state, before);
+
+    assert.ok(e.withdraw("user-0", "USDC", 40));
+    assert.equal(user(e, "user-0").deposits.USDC, 60);
+    assert.equal(e.state.pools[0].deposits.USDC, 60);
+    assert.equal(e.state.tokens.find((t) => t.symbol === "USDC")!.totalDeposits, 60);
+  });
+
+  it("rejects a deposit that rounds to zero token units (exact)", () => {
+    const e = engine({ model: "exact" });
+    const before = e.state;
+    assert.equal(e.deposit("user-0", "USDC", 1e-9), false);
+    assert.equal(e.state, before);
+  });
+
+  it("pays the winning pool's prize pro rata to its depositors", () => {
+    const e = engine();
+    // user-0 and user-2 share pool 0; pool 1 stays empty and cannot win
+    assert.equal(user(e, "user-0").poolId, user(e, "user-2").poolId);
+    assert.ok(e.deposit("user-0", "USDC", 300));
+    assert.ok(e.deposit("user-2", "USDC", 100));
+    e.step(7 * DAY);
+    const prize = e.state.tokens.find((t) => t.symbol === "USDC")!.prizePool;
+    assert.ok(prize > 0);
+
+    const result = e.draw();
+    assert.ok(result);
+    assert.equal(result.winningPoolId, 0);
+    assert.equal(result.winningToken, "USDC");
+    approx(result.prizes.USDC, prize);
+    approx(user(e, "user-0").claimable.USDC, prize * 0.75);
+    approx(user(e, "user-2").claimable.USDC, prize * 0.25);
+    assert.equal(user(e, "user-1").claimable.USDC, undefined);
+    assert.equal(e.state.tokens.find((t) => t.symbol === "USDC")!.prizePool, 0);
+    assert.equal(e.state.epoch.id, 2);
+    assert.equal(e.state.epochHistory[0].status, "finalized");
+  });
+
+  it("carries prizes forward when no pool has deposits", () => {
+    const e = engine();
+    assert.ok(e.fundPrize("USDC", 10));
+    assert.equal(e.draw(), null);
+    assert.equal(e.state.tokens.find((t) => t.symbol === "USDC")!.prizePool, 10);
+    assert.equal(e.state.epoch.id, 2);
+  });
+
+  it("claims a prize once", () => {
+    const e = engine();
+    assert.ok(e.deposit("user-0", "USDC", 300));
+    e.step(7 * DAY);
+    e.draw();
+    const claimable = user(e, "user-0").claimable.USDC;
+    assert.ok(claimable > 0);
+
+    assert.equal(e.claim("user-0", "USDC"), claimable);
+    assert.equal(user(e, "user-0").claimable.USDC, 0);
+    assert.equal(e.claim("user-0", "USDC"), 0);
+    assert.equal(e.claim("user-0", "USDT"), 0);
+    assert.equal(e.claim("nobody", "USDC"), 0);
+    // Claiming leaves the deposit in place
+    assert.equal(user(e, "user-0").deposits.USDC, 300);
+  });
+});
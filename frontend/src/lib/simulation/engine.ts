@@ -0,0 +1,648 @@
+import { parseUnits } from "viem";
+import type { Address } from "viem";
+
+import { ContractModel, type ContractModelSnapshot } from "./contract";
+import { formatNumber } from "./format";
+import { SeededRandom } from "./random";
+import type { SimDrawResult, SimEpoch, SimLogEntry, SimModel, SimState, SimToken, SimUser } from "./types";
+
+export const RANDOM_NAMES = [
+  "Alice", "Bob", "Charlie", "Diana", "Eve", "Frank", "Grace", "Henry",
+  "Ivy", "Jack", "Kate", "Leo", "Mia", "Noah", "Olivia", "Peter",
+  "Quinn", "Rose", "Sam", "Tina", "Uma", "Victor", "Wendy", "Xavier",
+  "Yara", "Zach", "Luna", "Max", "Bella", "Oscar", "Ruby", "Felix"
+];
+
+export const AVATARS = ["🦊", "🐼", "🦁", "🐯", "🐸", "🦉", "🐙", "🦋", "🐳", "🦄", "🐲", "🦚"];
+
+export const INITIAL_TOKENS: SimToken[] = [
+  { symbol: "USDC", name: "USD Coin", icon: "💲", color: "bg-blue-100", totalDeposits: 0, prizePool: 0, apy: 12, decimals: 6 },
+  { symbol: "USDT", name: "Tether USD", icon: "💵", color: "bg-green-100", totalDeposits: 0, prizePool: 0, apy: 5, decimals: 6 },
+];
+
+const SECONDS_PER_YEAR = 31536000;
+
+export interface SimulationOptions {
+  seed: number;
+  startTime: Date;
+  poolCount?: number;
+  userCount?: number;
+  tokens?: SimToken[];
+  // Fixed epoch length; by default every epoch ends on the next Friday 12:00 UTC
+  drawIntervalSec?: number;
+  // Past epochs kept in `epochHistory`
+  historyLimit?: number;
+  // Entries kept in `logs`
+  logLimit?: number;
+  // Accounting model; "simplified" by default
+  model?: SimModel;
+  // How the simplified model weights pools in the draw: balance integrated
+  // over the epoch ("time", the default) or the balance at draw time
+  // ("balance"). The exact model always uses the vault's `cumulative`.
+  weighting?: SimWeighting;
+}
+
+export type SimWeighting = "time" | "balance";
+
+// Everything needed to resume an engine where it stopped: its options, the
+// PRNG position, the state and (exact model) the contract ledger. JSON-safe
+// apart from the Dates inside `state`.
+export interface SimSnapshot {
+  seed: number;
+  poolCount: number;
+  weighting: SimWeighting;
+  model: SimModel;
+  historyLimit: number;
+  logLimit: number;
+  drawIntervalSec: number | null;
+  rngState: number;
+  logSeq: number;
+  state: SimState;
+  contract: ContractModelSnapshot | null;
+}
+
+// Next Friday 12:00 UTC strictly after `from` (the vault's draw schedule)
+export function getNextFriday(from: Date): Date {
+  const d = new Date(from);
+  const daysUntilFriday = (5 - d.getUTCDay() + 7) % 7 || 7;
+  d.setUTCDate(d.getUTCDate() + daysUntilFriday);
+  d.setUTCHours(12, 0, 0, 0);
+  return d;
+}
+
+function sumValues(record: Record<string, number>): number {
+  return Object.values(record).reduce((a, b) => a + b, 0);
+}
+
+// Stable made-up address for a simulated user, so the exact model can assign
+// pools the way `assignedPoolId` does. FNV-1a of seed and id seeds its own
+// PRNG; the engine's stream is untouched.
+function simAddress(seed: number, userId: string): Address {
+  let h = 0x811c9dc5;
+  for (const c of `${seed}:${userId}`) h = Math.imul(h ^ c.charCodeAt(0), 0x01000193);
+  const rng = new SeededRandom(h);
+  let hex = "";
+  for (let i = 0; i < 5; i++) hex += rng.int(2 ** 32).toString(16).padStart(8, "0");
+  return `0x${hex}`;
+}
+
+function toUnits(amount: number, decimals: number): bigint {
+  return parseUnits(amount.toFixed(decimals), decimals);
+}
+
+function fromUnits(amount: bigint, decimals: number): number {
+  return Number(amount) / 10 ** decimals;
+}
+
+function addTo(record: Record<string, number>, key: string, amount: number): Record<string, number> {
+  return { ...record, [key]: Math.max(0, (record[key] || 0) + amount) };
+}
+
+// Headless model of the lottery behind `/simulation`. Time only moves through
+// `step`, and every random choice (bot activity, entropy, new users) comes
+// from the seeded PRNG, so a seed plus a sequence of calls always produces the
+// same state. Each call replaces `state`; nothing in it is mutated in place.
+//
+// In the exact model a `ContractModel` holds the real balances in token units
+// and `state` is a float projection of it, rebuilt after every change. Both
+// models draw the same PRNG values for the same calls, so two engines with one
+// seed can be compared step by step.
+export class SimulationEngine {
+  readonly seed: number;
+  readonly poolCount: number;
+  readonly weighting: SimWeighting;
+  readonly model: SimModel;
+  private contract: ContractModel | null;
+  private rng: SeededRandom;
+  private readonly historyLimit: number;
+  private readonly logLimit: number;
+  private readonly drawIntervalSec: number | null;
+  private logSeq = 0;
+  private s: SimState;
+
+  constructor(opts: SimulationOptions) {
+    this.seed = opts.seed;
+    this.poolCount = opts.poolCount ?? 5;
+    this.weighting = opts.weighting ?? "time";
+    this.model = opts.model ?? "simplified";
+    if (this.model === "exact" && this.weighting !== "time") {
+      throw new Error("The exact model only supports the vault's time weighting");
+    }
+    this.rng = new SeededRandom(opts.seed);
+    this.historyLimit = opts.historyLimit ?? 10;
+    this.logLimit = opts.logLimit ?? 100;
+    this.drawIntervalSec = opts.drawIntervalSec ?? null;
+
+    const start = new Date(opts.startTime);
+    const end = this.nextDrawTime(start);
+    const tokens = (opts.tokens ?? INITIAL_TOKENS).map((t) => ({ ...t }));
+    this.contract =
+      this.model === "exact"
+        ? new ContractModel(
+            tokens.map((t) => ({ symbol: t.symbol, decimals: t.decimals ?? 18 })),
+            this.poolCount,
+            BigInt(Math.floor(start.getTime() / 1000))
+          )
+        : null;
+    this.s = {
+      seed: opts.seed,
+      model: this.model,
+      now: start,
+      users: Array.from({ length: opts.userCount ?? 8 }, (_, i) => {
+        const id = `user-${i}`;
+        const address = simAddress(opts.seed, id);
+        return {
+          id,
+          address,
+          name: RANDOM_NAMES[i % RANDOM_NAMES.length],
+          avatar: AVATARS[i % AVATARS.length],
+          deposits: {},
+          claimable: {},
+          poolId: this.contract ? this.contract.assignedPool(address) : i % this.poolCount,
+          isYou: i === 0,
+        };
+      }),
+      tokens,
+      pools: Array.from({ length: this.poolCount }, (_, i) => ({ id: i, deposits: {}, cumulativeWeight: 0 })),
+      epoch: newEpoch(1, start, end),
+      epochHistory: [],
+      logs: [],
+    };
+    this.log("system", "🎮 Simulation started! This is a web2 demo - no real transactions.");
+    this.log("system", `Next draw scheduled for ${end.toLocaleString()}`);
+  }
+
+  // Continues a run from `snapshot()`: the same calls produce the same states
+  // as they would have in the engine the snapshot was taken from
+  static restore(snapshot: SimSnapshot): SimulationEngine {
+    const { state } = snapshot;
+    if (state.model !== snapshot.model || state.pools.length !== snapshot.poolCount) {
+      throw new Error("Snapshot state does not match its options");
+    }
+    if ((snapshot.model === "exact") !== (snapshot.contract !== null)) {
+      throw new Error(`A ${snapshot.model} snapshot ${snapshot.contract ? "cannot" : "must"} carry a contract ledger`);
+    }
+    const engine = new SimulationEngine({
+      seed: snapshot.seed,
+      startTime: state.now,
+      poolCount: snapshot.poolCount,
+      userCount: 0,
+      tokens: state.tokens,
+      drawIntervalSec: snapshot.drawIntervalSec ?? undefined,
+      historyLimit: snapshot.historyLimit,
+      logLimit: snapshot.logLimit,
+      model: snapshot.model,
+      weighting: snapshot.weighting,
+    });
+    engine.contract = snapshot.contract ? ContractModel.restore(snapshot.contract) : null;
+    engine.rng = new SeededRandom(snapshot.rngState);
+    engine.logSeq = snapshot.logSeq;
+    engine.s = state;
+    return engine;
+  }
+
+  get state(): SimState {
+    return this.s;
+  }
+
+  snapshot(): SimSnapshot {
+    return {
+      seed: this.seed,
+      poolCount: this.poolCount,
+      weighting: this.weighting,
+      model: this.model,
+      historyLimit: this.historyLimit,
+      logLimit: this.logLimit,
+      drawIntervalSec: this.drawIntervalSec,
+      rngState: this.rng.state,
+      logSeq: this.logSeq,
+      state: this.s,
+      contract: this.contract?.snapshot() ?? null,
+    };
+  }
+
+  // True once the clock has passed the end of an open epoch
+  get drawDue(): boolean {
+    return this.s.epoch.status === "open" && this.s.now >= this.s.epoch.end;
+  }
+
+  log(type: SimLogEntry["type"], message: string, user?: string) {
+    if (this.logLimit <= 0) return;
+    const entry: SimLogEntry = { id: `log-${++this.logSeq}`, time: this.s.now, type, message, user };
+    this.s = { ...this.s, logs: [entry, ...this.s.logs.slice(0, this.logLimit - 1)] };
+  }
+
+  // Advances the clock by `seconds`. Yield accrues globally per token; pools
+  // integrate their balance over time for winner weighting.
+  step(seconds: number) {
+    if (seconds <= 0) return;
+    if (this.contract) {
+      const from = this.nowSec();
+      this.s = { ...this.s, now: new Date(this.s.now.getTime() + seconds * 1000) };
+      for (const t of this.s.tokens) this.contract.accrueYield(t.symbol, t.apy, this.nowSec() - from);
+      // Time alone changes no user balance
+      this.project(() => false);
+      return;
+    }
+    this.s = {
+      ...this.s,
+      now: new Date(this.s.now.getTime() + seconds * 1000),
+      tokens: this.s.tokens.map((token) => {
+        if (token.totalDeposits === 0) return token;
+        const yieldGenerated = (token.totalDeposits * (token.apy / 100) * seconds) / SECONDS_PER_YEAR;
+        return { ...token, prizePool: token.prizePool + yieldGenerated };
+      }),
+      pools: this.s.pools.map((p) => ({ ...p, cumulativeWeight: p.cumulativeWeight + sumValues(p.deposits) * seconds })),
+    };
+  }
+
+  deposit(userId: string, tokenSymbol: string, amount: number): boolean {
+    const user = this.s.users.find((u) => u.id === userId);
+    if (!user || amount <= 0) return false;
+    if (this.contract) {
+      const units = toUnits(amount, this.contract.decimals(tokenSymbol));
+      if (units === 0n) return false;
+      this.contract.deposit(tokenSymbol, user.poolId, user.address, units, this.nowSec());
+      this.project((u) => u.id === userId);
+    } else {
+      this.moveDeposit(user, tokenSymbol, amount);
+    }
+    this.log("deposit", `${user.name} deposited $${amount} ${tokenSymbol}`, userId);
+    return true;
+  }
+
+  withdraw(userId: string, tokenSymbol: string, amount: number): boolean {
+    const user = this.s.users.find((u) => u.id === userId);
+    if (!user || amount <= 0 || (user.deposits[tokenSymbol] || 0) < amount) return false;
+    if (this.contract) {
+      // `deposits` is rounded for display; never ask for more than the position
+      const held = this.contract.deposits(tokenSymbol, user.poolId, user.address);
+      const units = toUnits(amount, this.contract.decimals(tokenSymbol));
+      if (units === 0n || !this.contract.withdraw(tokenSymbol, user.poolId, user.address, units < held ? units : held, this.nowSec())) {
+        return false;
+      }
+      this.project((u) => u.id === userId);
+    } else {
+      this.moveDeposit(user, tokenSymbol, -amount);
+    }
+    this.log("withdraw", `${user.name} withdrew $${amount} ${tokenSymbol}`, userId);
+    return true;
+  }
+
+  // Returns the amount claimed (0 when nothing was claimable)
+  claim(userId: string, tokenSymbol: string): number {
+    const user = this.s.users.find((u) => u.id === userId);
+    let claimable = user?.claimable[tokenSymbol] || 0;
+    if (!user || claimable === 0) return 0;
+    if (this.contract) {
+      const prize = this.contract.claim(tokenSymbol, user.poolId, user.address);
+      claimable = fromUnits(prize, this.contract.decimals(tokenSymbol));
+      this.project((u) => u.id === userId);
+      if (prize === 0n) return 0;
+    } else {
+      this.s = {
+        ...this.s,
+        users: this.s.users.map((u) => (u.id === userId ? { ...u, claimable: { ...u.claimable, [tokenSymbol]: 0 } } : u)),
+      };
+    }
+    this.log("claim", `${user.name} claimed $${formatNumber(claimable)} ${tokenSymbol} prize! 🎉`, userId);
+    return claimable;
+  }
+
+  // Adds yield from outside the APY model to a token's prize pool
+  fundPrize(tokenSymbol: string, amount: number): boolean {
+    if (amount <= 0 || !this.s.tokens.some((t) => t.symbol === tokenSymbol)) return false;
+    if (this.contract) {
+      this.contract.addAssets(tokenSymbol, toUnits(amount, this.contract.decimals(tokenSymbol)));
+      this.project(() => false);
+      return true;
+    }
+    this.s = {
+      ...this.s,
+      tokens: this.s.tokens.map((t) => (t.symbol === tokenSymbol ? { ...t, prizePool: t.prizePool + amount } : t)),
+    };
+    return true;
+  }
+
+  // Name, avatar and address are made up unless given. The pool comes from
+  // the address in the exact model and round-robin in the simplified one.
+  addUser(profile: { name?: string; avatar?: string; address?: Address; poolId?: number } = {}): SimUser {
+    if (profile.poolId !== undefined && (profile.poolId < 0 || profile.poolId >= this.poolCount)) {
+      throw new Error(`poolId ${profile.poolId} out of range (${this.poolCount} pools)`);
+    }
+    const id = this.rng.id();
+    const address = profile.address ?? simAddress(this.seed, id);
+    const user: SimUser = {
+      id,
+      address,
+      name: profile.name ?? this.rng.pick(RANDOM_NAMES),
+      avatar: profile.avatar ?? this.rng.pick(AVATARS),
+      deposits: {},
+      claimable: {},
+      poolId: profile.poolId ?? (this.contract ? this.contract.assignedPool(address) : this.s.users.length % this.poolCount),
+      isYou: false,
+    };
+    this.s = { ...this.s, users: [...this.s.users, user] };
+    this.log("system", `${user.avatar} ${user.name} joined the lottery!`);
+    return user;
+  }
+
+  // One random bot action: 70% deposit, 20% withdraw, 10% nothing
+  botAction() {
+    const bots = this.s.users.filter((u) => !u.isYou);
+    if (this.s.users.length < 2 || bots.length === 0) return;
+
+    const bot = this.rng.pick(bots);
+    const token = this.rng.pick(this.s.tokens);
+    const action = this.rng.next();
+
+    if (action < 0.7) {
+      this.deposit(bot.id, token.symbol, this.rng.int(500) + 50);
+    } else if (action < 0.9) {
+      const deposited = bot.deposits[token.symbol] || 0;
+      if (deposited < 10) return;
+      this.withdraw(bot.id, token.symbol, Math.min(deposited, this.rng.int(200) + 10));
+    }
+  }
+
+  // Chance of each pool winning a draw run now, by pool id. All zeros when no
+  // pool could win. Simplified: only pools with deposits take part, and under
+  // "time" weighting current balances stand in while every weight is still 0.
+  // Exact: every pool's `cumulative`, including weight an emptied pool built
+  // up earlier; no fallback.
+  poolOdds(): number[] {
+    const weights = this.poolWeights();
+    const total = weights.reduce((a, b) => a + b, 0);
+    return weights.map((w) => (total > 0 ? w / total : 0));
+  }
+
+  // Prizes the exact model's reward index rounded away (credited, but nobody
+  // can claim them), by token symbol; empty in the simplified model
+  roundingDust(): Record<string, number> {
+    const contract = this.contract;
+    if (!contract) return {};
+    return Object.fromEntries(
+      this.s.tokens.map((t) => [t.symbol, fromUnits(contract.roundingDust(t.symbol), contract.decimals(t.symbol))])
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Keeper lifecycle: closeEpoch → requestRandomness → (entropy callback) → finalizeDraw
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  closeEpoch(): boolean {
+    if (this.s.epoch.status !== "open") return false;
+    this.contract?.accrueAllPools(this.nowSec());
+    this.log("draw", "Epoch closed. Keeper step: closeEpoch()");
+    this.setEpoch({ status: "closed" });
+    return true;
+  }
+
+  requestRandomness(): boolean {
+    if (this.s.epoch.status !== "closed") return false;
+    this.log("draw", "Keeper step: requestRandomness() via Pyth Entropy 🎲");
+    this.setEpoch({ status: "randomnessRequested" });
+    return true;
+  }
+
+  // The Entropy callback; `randomness` in [0, 1) defaults to the next PRNG draw
+  fulfillRandomness(randomness = this.rng.next()): boolean {
+    if (this.s.epoch.status !== "randomnessRequested") return false;
+    this.log("draw", "Entropy callback received ✅");
+    this.setEpoch({ status: "randomnessReady", randomness });
+    return true;
+  }
+
+  // Selects a winning pool by `poolOdds` and hands each token's whole prize
+  // pool to that pool's depositors of the token, pro rata (exact: through the
+  // reward index). When no pool can win the epoch is skipped, prizes carry
+  // forward and null is returned.
+  finalizeDraw(): SimDrawResult | null {
+    const { epoch } = this.s;
+    if (epoch.status !== "randomnessReady") return null;
+
+    const randomness = epoch.randomness ?? this.rng.next();
+    const winningPoolId = this.contract ? this.selectExact(randomness) : this.selectSimplified(randomness);
+
+    if (winningPoolId === null) {
+      this.log(
+        "system",
+        this.contract
+          ? "No pool has built up any weight yet: the vault selects pool 0, nobody wins and prizes carry forward."
+          : "No eligible deposits in any pool. Starting new epoch."
+      );
+      this.beginEpoch();
+      return null;
+    }
+
+    const prizes = this.contract ? this.payExact(winningPoolId) : this.paySimplified(winningPoolId);
+
+    let totalPrize = 0;
+    let winningToken: string | null = null;
+    let maxTokenPrize = 0;
+    for (const [symbol, prize] of Object.entries(prizes)) {
+      totalPrize += prize;
+      if (prize > maxTokenPrize) {
+        maxTokenPrize = prize;
+        winningToken = symbol;
+      }
+    }
+
+    this.log(
+      "winner",
+      Object.keys(prizes).length === 0
+        ? `🏆 Pool #${winningPoolId} won, but had no deposits in prize-bearing tokens — prizes carry forward.`
+        : `🏆 Pool #${winningPoolId} won $${formatNumber(totalPrize)} in prizes!`
+    );
+
+    // The pool is stored as a pseudo-winner for display
+    const winner: SimUser = {
+      id: `pool-${winningPoolId}`,
+      address: "0x0000000000000000000000000000000000000000",
+      name: `Pool #${winningPoolId}`,
+      avatar: "🏊",
+      deposits: {},
+      claimable: {},
+      poolId: winningPoolId,
+      isYou: false,
+    };
+    this.setEpoch({ status: "finalized", winner, prize: totalPrize, winningToken });
+
+    return { epochId: epoch.id, winningPoolId, totalPrize, prizes, winningToken };
+  }
+
+  // Archives a finalized epoch and opens the next one
+  startNewEpoch(): boolean {
+    if (this.s.epoch.status !== "finalized") return false;
+    this.beginEpoch();
+    return true;
+  }
+
+  // Runs the whole keeper lifecycle at once; for headless runs
+  draw(): SimDrawResult | null {
+    this.closeEpoch();
+    this.requestRandomness();
+    this.fulfillRandomness();
+    const result = this.finalizeDraw();
+    this.startNewEpoch();
+    return result;
+  }
+
+  private selectSimplified(randomness: number): number | null {
+    const weights = this.poolWeights();
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+    if (totalWeight === 0) return null;
+
+    let random = randomness * totalWeight;
+    let winningPoolId = weights.findIndex((w) => w > 0);
+    for (const [id, weight] of weights.entries()) {
+      if (weight === 0) continue;
+      random -= weight;
+      if (random <= 0) {
+        winningPoolId = id;
+        break;
+      }
+    }
+    return winningPoolId;
+  }
+
+  // `_accrueAllPools` then `_selectWinner`. The fraction becomes the offset
+  // `randomness % total` would produce, so both models land on the same point
+  // of the weight line for the same PRNG draw.
+  private selectExact(randomness: number): number | null {
+    const contract = this.contract!;
+    contract.accrueAllPools(this.nowSec());
+    const total = contract.totalWeight();
+    if (total === 0n) return null;
+    return contract.selectWinner((BigInt(Math.floor(randomness * 2 ** 53)) * total) >> 53n);
+  }
+
+  // Prize per token symbol that the winning pool's depositors now share
+  private paySimplified(winningPoolId: number): Record<string, number> {
+    const winningPool = this.s.pools.find((p) => p.id === winningPoolId);
+    const allocatable = new Map<string, { prize: number; poolTokenDeposits: number }>();
+    for (const t of this.s.tokens) {
+      const poolTokenDeposits = winningPool?.deposits[t.symbol] || 0;
+      if (t.prizePool > 0 && poolTokenDeposits > 0) {
+        allocatable.set(t.symbol, { prize: t.prizePool, poolTokenDeposits });
+      }
+    }
+    if (allocatable.size === 0) return {};
+
+    this.s = {
+      ...this.s,
+      users: this.s.users.map((u) => {
+        if (u.poolId !== winningPoolId) return u;
+        const claimable = { ...u.claimable };
+        for (const [symbol, a] of allocatable) {
+          const userDep = u.deposits[symbol] || 0;
+          if (userDep <= 0) continue;
+          claimable[symbol] = (claimable[symbol] || 0) + a.prize * (userDep / a.poolTokenDeposits);
+        }
+        return { ...u, claimable };
+      }),
+      tokens: this.s.tokens.map((t) => (allocatable.has(t.symbol) ? { ...t, prizePool: 0 } : t)),
+    };
+    return Object.fromEntries([...allocatable].map(([symbol, a]) => [symbol, a.prize]));
+  }
+
+  private payExact(winningPoolId: number): Record<string, number> {
+    const contract = this.contract!;
+    const recorded = contract.recordPrizes(winningPoolId);
+    this.project((u) => u.poolId === winningPoolId);
+    return Object.fromEntries(
+      [...recorded].map(([symbol, prize]) => [symbol, fromUnits(prize, contract.decimals(symbol))])
+    );
+  }
+
+  // Raw draw weight per pool id
+  private poolWeights(): number[] {
+    if (this.contract) {
+      const now = this.nowSec();
+      return this.s.pools.map((p) => Number(this.contract!.poolWeight(p.id, now)));
+    }
+    const balances = this.s.pools.map((p) => sumValues(p.deposits));
+    if (this.weighting === "balance") return balances;
+    const cumulative = this.s.pools.map((p, i) => (balances[i] > 0 ? p.cumulativeWeight || 0 : 0));
+    return cumulative.some((w) => w > 0) ? cumulative : balances;
+  }
+
+  private beginEpoch() {
+    const { epoch, now } = this.s;
+    const end = this.nextDrawTime(now);
+    this.s = {
+      ...this.s,
+      epochHistory: this.historyLimit > 0 ? [epoch, ...this.s.epochHistory.slice(0, this.historyLimit - 1)] : [],
+      // Pool weights are epoch-scoped in the simplified model; the vault never
+      // resets `cumulative`
+      pools: this.contract ? this.s.pools : this.s.pools.map((p) => ({ ...p, cumulativeWeight: 0 })),
+      epoch: newEpoch(epoch.id + 1, now, end),
+    };
+    this.log("system", `New epoch #${epoch.id + 1} started! Draw at ${end.toLocaleString()}`);
+  }
+
+  private nowSec(): bigint {
+    return BigInt(Math.floor(this.s.now.getTime() / 1000));
+  }
+
+  // Rebuilds prize pools, weights and the balances of users that `refresh`
+  // selects from the exact model
+  private project(refresh: (user: SimUser) => boolean) {
+    const contract = this.contract!;
+    const now = this.nowSec();
+    const symbols = this.s.tokens.map((t) => t.symbol);
+    const perToken = (value: (symbol: string) => bigint) =>
+      Object.fromEntries(symbols.map((symbol) => [symbol, fromUnits(value(symbol), contract.decimals(symbol))]));
+    this.s = {
+      ...this.s,
+      tokens: this.s.tokens.map((t) => ({
+        ...t,
+        totalDeposits: fromUnits(contract.totalDeposits(t.symbol), contract.decimals(t.symbol)),
+        prizePool: fromUnits(contract.currentPrizePool(t.symbol), contract.decimals(t.symbol)),
+      })),
+      pools: this.s.pools.map((p) => ({
+        ...p,
+        deposits: perToken((symbol) => contract.poolTokenDeposits(symbol, p.id)),
+        // Normalized balance × seconds, in whole token units
+        cumulativeWeight: fromUnits(contract.poolWeight(p.id, now), 18),
+      })),
+      users: this.s.users.map((u) =>
+        refresh(u)
+          ? {
+              ...u,
+              deposits: perToken((symbol) => contract.deposits(symbol, u.poolId, u.address)),
+              claimable: perToken((symbol) => contract.pendingPrize(symbol, u.poolId, u.address)),
+            }
+          : u
+      ),
+    };
+  }
+
+  private nextDrawTime(from: Date): Date {
+    return this.drawIntervalSec === null
+      ? getNextFriday(from)
+      : new Date(from.getTime() + this.drawIntervalSec * 1000);
+  }
+
+  private setEpoch(patch: Partial<SimEpoch>) {
+    this.s = { ...this.s, epoch: { ...this.s.epoch, ...patch } };
+  }
+
+  // Applies a signed deposit change to the user, their pool and the token total
+  private moveDeposit(user: SimUser, tokenSymbol: string, delta: number) {
+    this.s = {
+      ...this.s,
+      users: this.s.users.map((u) => (u.id === user.id ? { ...u, deposits: addTo(u.deposits, tokenSymbol, delta) } : u)),
+      pools: this.s.pools.map((p) =>
+        p.id === user.poolId ? { ...p, deposits: addTo(p.deposits, tokenSymbol, delta) } : p
+      ),
+      tokens: this.s.tokens.map((t) =>
+        t.symbol === tokenSymbol ? { ...t, totalDeposits: Math.max(0, t.totalDeposits + delta) } : t
+      ),
+    };
+  }
+}
+
+function newEpoch(id: number, start: Date, end: Date): SimEpoch {
+  return { id, start, end, status: "open", winner: null, prize: 0, winningToken: null, randomness: null };
+}
@@ -0,0 +1,19 @@
+export function formatNumber(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(2)}K`;
+  return n.toFixed(2);
+}
+
+export function formatMoney(n: number): string {
+  if (!Number.isFinite(n)) return "0.00";
+  const abs = Math.abs(n);
+  if (abs === 0) return "0.00";
+  if (abs < 0.01) return n.toFixed(6);
+  if (abs < 1) return n.toFixed(4);
+  return formatNumber(n);
+}
+
+export function formatSimDateTimeUTC(date: Date): string {
+  const pad2 = (n: number) => String(n).padStart(2, "0");
+  return `${date.getUTCFullYear()}-${pad2(date.getUTCMonth() + 1)}-${pad2(date.getUTCDate())} ${pad2(date.getUTCHours())}:${pad2(date.getUTCMinutes())}:${pad2(date.getUTCSeconds())} UTC`;
+}
@@ -0,0 +1,64 @@
+export { AVATARS, INITIAL_TOKENS, RANDOM_NAMES, SimulationEngine, getNextFriday } from "./engine";
+export type { SimSnapshot, SimWeighting, SimulationOptions } from "./engine";
+export { formatMoney, formatNumber, formatSimDateTimeUTC } from "./format";
+export { SeededRandom } from "./random";
+export type {
+  SimDrawResult,
+  SimEpoch,
+  SimEpochStatus,
+  SimLogEntry,
+  SimModel,
+  SimPool,
+  SimState,
+  SimToken,
+  SimUser,
+} from "./types";
+export { histogram, monteCarloHistogramCsv, monteCarloSummaryCsv, monteCarloToJson, runMonteCarlo } from "./montecarlo";
+export type {
+  DepositorGroup,
+  DepositorGroupStats,
+  HistogramBin,
+  MonteCarloConfig,
+  MonteCarloProgress,
+  MonteCarloResult,
+} from "./montecarlo";
+export { historyFromEvents, loadReplayHistory, parseReplayHistory, replayHistoryToJson, runReplay } from "./replay";
+export type {
+  ReplayBalanceEvent,
+  ReplayDraw,
+  ReplayEvent,
+  ReplayHistory,
+  ReplayHistoryMeta,
+  ReplayOptions,
+  ReplayPrizeEvent,
+  ReplayResult,
+  ReplayToken,
+  ReplayUserResult,
+  ReplayWinnerEvent,
+} from "./replay";
+export { ContractModel } from "./contract";
+export type { ContractModelSnapshot, ContractModelToken } from "./contract";
+export { compareModels } from "./compare";
+export type {
+  ModelComparison,
+  ModelComparisonConfig,
+  ModelDifference,
+  ModelDifferenceKind,
+  ModelDrawComparison,
+  ModelDrawSide,
+  ModelUserComparison,
+} from "./compare";
+export {
+  SCENARIO_PRESETS,
+  deleteSavedScenario,
+  listSavedScenarios,
+  parseScenario,
+  saveScenario,
+  scenarioFromEngine,
+  scenarioFromHash,
+  scenarioToHash,
+  scenarioToJson,
+} from "./scenario";
+export type { SavedScenario, Scenario, ScenarioPreset, ScenarioSettings, ScenarioStorage } from "./scenario";
+export { appendSample, epochBoundaries, sampleState } from "./timeline";
+export type { SimSample } from "./timeline";
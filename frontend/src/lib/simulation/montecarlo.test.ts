@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  histogram,
+  monteCarloHistogramCsv,
+  monteCarloSummaryCsv,
+  runMonteCarlo,
+  type MonteCarloConfig,
+  type MonteCarloResult,
+} from "./montecarlo";
+
+const CONFIG: MonteCarloConfig = {
+  seed: 7,
+  runs: 30,
+  epochsPerRun: 8,
+  poolCount: 3,
+  drawIntervalSec: 7 * 86400,
+  apys: { USDC: 5, USDT: 4 },
+  groups: [
+    { label: "Whale, big", count: 1, deposits: { USDC: 10000 } },
+    { label: "Minnows", count: 6, deposits: { USDC: 100, USDT: 50 } },
+  ],
+};
+
+const sum = (values: readonly number[]) => values.reduce((a, b) => a + b, 0);
+
+describe("runMonteCarlo", () => {
+  for (const model of ["simplified", "exact"] as const) {
+    it(`reproduces a run from its seed (${model})`, async () => {
+      const a = await runMonteCarlo({ ...CONFIG, model });
+      const b = await runMonteCarlo({ ...CONFIG, model });
+      assert.deepEqual(a, b);
+      const other = await runMonteCarlo({ ...CONFIG, model, seed: 8 });
+      assert.notDeepEqual(other.poolWins, a.poolWins);
+    });
+  }
+
+  it("counts every paid draw once across pools, histograms and groups", async () => {
+    const progress: number[] = [];
+    const result = await runMonteCarlo(CONFIG, { onProgress: (p) => progress.push(p.runsDone) });
+    assert.deepEqual(progress, [25, 30]);
+
+    // Deposits earn yield, so every draw pays
+    assert.equal(result.epochs, CONFIG.runs * CONFIG.epochsPerRun);
+    assert.equal(result.paidDraws, result.epochs);
+    assert.equal(sum(result.poolWins), result.paidDraws);
+    assert.equal(sum(result.drawPrizeHistogram.map((b) => b.count)), result.paidDraws);
+
+    for (const [g, group] of result.groups.entries()) {
+      const samples = CONFIG.groups[g].count * CONFIG.runs;
+      assert.equal(sum(group.winsHistogram.map((b) => b.count)), samples);
+      assert.equal(sum(group.prizeHistogram.map((b) => b.count)), samples);
+      assert.ok(group.winProbability > 0 && group.winProbability <= 1);
+      assert.equal(group.prizeStdDev, Math.sqrt(group.prizeVariance));
+    }
+    assert.deepEqual(result.groups.map((g) => g.depositPerDepositor), [10000, 150]);
+  });
+
+  it("rejects a bad config and stops when aborted", async () => {
+    await assert.rejects(runMonteCarlo({ ...CONFIG, runs: 0 }), /at least 1/);
+    await assert.rejects(runMonteCarlo({ ...CONFIG, poolCount: 0 }), /poolCount/);
+    await assert.rejects(runMonteCarlo({ ...CONFIG, drawIntervalSec: 0 }), /drawIntervalSec/);
+    await assert.rejects(runMonteCarlo(CONFIG, { signal: AbortSignal.abort() }), /aborted/);
+  });
+});
+
+describe("histogram", () => {
+  it("splits [min, max] into equal bins with the last one closed", () => {
+    assert.deepEqual(histogram([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 5), [
+      { from: 0, to: 2, count: 2 },
+      { from: 2, to: 4, count: 2 },
+      { from: 4, to: 6, count: 2 },
+      { from: 6, to: 8, count: 2 },
+      // 10 is the max and lands in the last bin, not past it
+      { from: 8, to: 10, count: 3 },
+    ]);
+    assert.deepEqual(
+      histogram([5, 15, 15], 2).map((b) => [b.from, b.to, b.count]),
+      [
+        [5, 10, 1],
+        [10, 15, 2],
+      ]
+    );
+  });
+
+  it("uses one bin for identical values and none for no values", () => {
+    assert.deepEqual(histogram([3, 3, 3]), [{ from: 3, to: 3, count: 3 }]);
+    assert.deepEqual(histogram([]), []);
+  });
+});
+
+describe("Monte Carlo CSV", () => {
+  const result: MonteCarloResult = {
+    config: { ...CONFIG, runs: 2, epochsPerRun: 1 },
+    epochs: 2,
+    paidDraws: 2,
+    poolWins: [1, 1, 0],
+    meanDrawPrize: 1.5,
+    drawPrizeHistogram: [{ from: 1, to: 2, count: 2 }],
+    groups: [
+      {
+        label: "Whale, big",
+        depositors: 1,
+        depositPerDepositor: 10000,
+        winProbability: 0.5,
+        meanWins: 0.5,
+        meanPrize: 1,
+        prizeVariance: 1,
+        prizeStdDev: 1,
+        winsHistogram: [
+          { from: 0, to: 1, count: 1 },
+          { from: 1, to: 2, count: 1 },
+        ],
+        prizeHistogram: [{ from: 0, to: 2, count: 2 }],
+      },
+    ],
+  };
+
+  it("writes one summary row per group and quotes labels", () => {
+    assert.equal(
+      monteCarloSummaryCsv(result),
+      "group,depositors,deposit_per_depositor,runs,epochs_per_run,pool_count,draw_interval_sec,model," +
+        "win_probability,mean_wins,mean_prize,prize_variance,prize_stddev\n" +
+        '"Whale, big",1,10000,2,1,3,604800,simplified,0.5,0.5,1,1,1\n'
+    );
+  });
+
+  it("writes every histogram in long form", () => {
+    assert.equal(
+      monteCarloHistogramCsv(result),
+      [
+        "histogram,group,from,to,count",
+        "draw_prize,,1,2,2",
+        'wins,"Whale, big",0,1,1',
+        'wins,"Whale, big",1,2,1',
+        'prize,"Whale, big",0,2,2',
+      ].join("\n") + "\n"
+    );
+  });
+});
@@ -0,0 +1,271 @@
+import { INITIAL_TOKENS, SimulationEngine } from "./engine";
+import { SeededRandom } from "./random";
+import type { SimModel, SimToken } from "./types";
+
+export interface DepositorGroup {
+  label: string;
+  // Depositors in the group, in every run
+  count: number;
+  // Amount each depositor holds, by token symbol
+  deposits: Record<string, number>;
+}
+
+export interface MonteCarloConfig {
+  seed: number;
+  // Independent timelines
+  runs: number;
+  epochsPerRun: number;
+  poolCount: number;
+  drawIntervalSec: number;
+  // APY (%) by token symbol; these are the simulated tokens
+  apys: Record<string, number>;
+  // Simplified assigns depositors to pools round-robin in group order, exact
+  // by their (made-up) address
+  groups: DepositorGroup[];
+  // "simplified" when missing
+  model?: SimModel;
+}
+
+export interface HistogramBin {
+  from: number;
+  // Exclusive, except for the last bin
+  to: number;
+  count: number;
+}
+
+export interface DepositorGroupStats {
+  label: string;
+  depositors: number;
+  // Sum over tokens
+  depositPerDepositor: number;
+  // Share of depositor-runs with at least one prize
+  winProbability: number;
+  meanWins: number;
+  // Prize per depositor per run (sum over tokens): mean is the expected value
+  meanPrize: number;
+  prizeVariance: number;
+  prizeStdDev: number;
+  winsHistogram: HistogramBin[];
+  prizeHistogram: HistogramBin[];
+}
+
+export interface MonteCarloResult {
+  config: MonteCarloConfig;
+  epochs: number;
+  // Epochs that paid out a prize
+  paidDraws: number;
+  // Wins per pool id
+  poolWins: number[];
+  meanDrawPrize: number;
+  drawPrizeHistogram: HistogramBin[];
+  groups: DepositorGroupStats[];
+}
+
+export interface MonteCarloProgress {
+  runsDone: number;
+  runs: number;
+}
+
+const PRIZE_BINS = 20;
+// Runs between yields to the event loop so a browser tab stays responsive
+const RUNS_PER_SLICE = 25;
+
+function tokensFor(apys: Record<string, number>): SimToken[] {
+  return Object.entries(apys).map(([symbol, apy]) => {
+    const known = INITIAL_TOKENS.find((t) => t.symbol === symbol);
+    return { ...(known ?? { symbol, name: symbol, icon: "🪙", color: "bg-zinc-100" }), totalDeposits: 0, prizePool: 0, apy };
+  });
+}
+
+function mean(values: readonly number[]): number {
+  return values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function variance(values: readonly number[], m = mean(values)): number {
+  return values.length === 0 ? 0 : values.reduce((a, v) => a + (v - m) ** 2, 0) / values.length;
+}
+
+// Equal-width bins over [min, max]
+export function histogram(values: readonly number[], bins = PRIZE_BINS): HistogramBin[] {
+  if (values.length === 0) return [];
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (min === max) return [{ from: min, to: max, count: values.length }];
+  const width = (max - min) / bins;
+  const out = Array.from({ length: bins }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  for (const v of values) out[Math.min(bins - 1, Math.floor((v - min) / width))].count++;
+  return out;
+}
+
+// One bin per integer 0..max
+function countHistogram(values: readonly number[]): HistogramBin[] {
+  const max = values.reduce((a, b) => Math.max(a, b), 0);
+  const out = Array.from({ length: max + 1 }, (_, i) => ({ from: i, to: i + 1, count: 0 }));
+  for (const v of values) out[v].count++;
+  return out;
+}
+
+// Plays `runs` headless timelines of `epochsPerRun` draws each on the
+// engine. Deposits stay fixed for the whole run; prizes accrue as
+// unclaimed. Every run gets its own seed from `config.seed`, so the result is
+// reproducible.
+export async function runMonteCarlo(
+  config: MonteCarloConfig,
+  opts: { onProgress?: (p: MonteCarloProgress) => void; signal?: AbortSignal } = {}
+): Promise<MonteCarloResult> {
+  if (config.runs < 1 || config.epochsPerRun < 1) throw new Error("runs and epochsPerRun must be at least 1");
+  if (config.poolCount < 1) throw new Error("poolCount must be at least 1");
+  if (config.drawIntervalSec <= 0) throw new Error("drawIntervalSec must be positive");
+
+  const tokens = tokensFor(config.apys);
+  const seeds = new SeededRandom(config.seed);
+  const poolWins = Array.from({ length: config.poolCount }, () => 0);
+  const drawPrizes: number[] = [];
+  // Per group: one sample per depositor per run
+  const wins = config.groups.map(() => [] as number[]);
+  const prizes = config.groups.map(() => [] as number[]);
+
+  for (let run = 0; run < config.runs; run++) {
+    if (opts.signal?.aborted) throw new Error("Monte Carlo run aborted");
+
+    const engine = new SimulationEngine({
+      seed: seeds.int(2 ** 32),
+      startTime: new Date(0),
+      poolCount: config.poolCount,
+      userCount: 0,
+      tokens,
+      drawIntervalSec: config.drawIntervalSec,
+      historyLimit: 0,
+      logLimit: 0,
+      model: config.model,
+    });
+    const members = config.groups.flatMap((group, g) =>
+      Array.from({ length: group.count }, () => {
+        const user = engine.addUser({ name: group.label });
+        for (const [symbol, amount] of Object.entries(group.deposits)) engine.deposit(user.id, symbol, amount);
+        return { id: user.id, group: g, wins: 0, prize: 0 };
+      })
+    );
+    const byId = new Map(members.map((m) => [m.id, m]));
+
+    for (let epoch = 0; epoch < config.epochsPerRun; epoch++) {
+      engine.step(config.drawIntervalSec);
+      const before = engine.state.users;
+      const result = engine.draw();
+      if (!result) continue;
+      poolWins[result.winningPoolId]++;
+      if (result.totalPrize > 0) drawPrizes.push(result.totalPrize);
+
+      engine.state.users.forEach((user, i) => {
+        if (user.poolId !== result.winningPoolId) return;
+        const gained =
+          Object.values(user.claimable).reduce((a, b) => a + b, 0) -
+          Object.values(before[i].claimable).reduce((a, b) => a + b, 0);
+        const member = byId.get(user.id);
+        if (!member || gained <= 0) return;
+        member.wins++;
+        member.prize += gained;
+      });
+    }
+
+    for (const m of members) {
+      wins[m.group].push(m.wins);
+      prizes[m.group].push(m.prize);
+    }
+
+    if ((run + 1) % RUNS_PER_SLICE === 0 || run + 1 === config.runs) {
+      opts.onProgress?.({ runsDone: run + 1, runs: config.runs });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  return {
+    config,
+    epochs: config.runs * config.epochsPerRun,
+    paidDraws: drawPrizes.length,
+    poolWins,
+    meanDrawPrize: mean(drawPrizes),
+    drawPrizeHistogram: histogram(drawPrizes),
+    groups: config.groups.map((group, g) => {
+      const m = mean(prizes[g]);
+      const v = variance(prizes[g], m);
+      return {
+        label: group.label,
+        depositors: group.count,
+        depositPerDepositor: Object.values(group.deposits).reduce((a, b) => a + b, 0),
+        winProbability: wins[g].length === 0 ? 0 : wins[g].filter((w) => w > 0).length / wins[g].length,
+        meanWins: mean(wins[g]),
+        meanPrize: m,
+        prizeVariance: v,
+        prizeStdDev: Math.sqrt(v),
+        winsHistogram: countHistogram(wins[g]),
+        prizeHistogram: histogram(prizes[g]),
+      };
+    }),
+  };
+}
+
+function csvCell(value: string | number): string {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+export function monteCarloToJson(result: MonteCarloResult): string {
+  return JSON.stringify(result, null, 2);
+}
+
+// One row per depositor group
+export function monteCarloSummaryCsv(result: MonteCarloResult): string {
+  const { runs, epochsPerRun, poolCount, drawIntervalSec, model = "simplified" } = result.config;
+  return toCsv([
+    [
+      "group",
+      "depositors",
+      "deposit_per_depositor",
+      "runs",
+      "epochs_per_run",
+      "pool_count",
+      "draw_interval_sec",
+      "model",
+      "win_probability",
+      "mean_wins",
+      "mean_prize",
+      "prize_variance",
+      "prize_stddev",
+    ],
+    ...result.groups.map((g) => [
+      g.label,
+      g.depositors,
+      g.depositPerDepositor,
+      runs,
+      epochsPerRun,
+      poolCount,
+      drawIntervalSec,
+      model,
+      g.winProbability,
+      g.meanWins,
+      g.meanPrize,
+      g.prizeVariance,
+      g.prizeStdDev,
+    ]),
+  ]);
+}
+
+// Every histogram in long form: draw prizes, then wins and prizes per group
+export function monteCarloHistogramCsv(result: MonteCarloResult): string {
+  const rows: (string | number)[][] = [["histogram", "group", "from", "to", "count"]];
+  for (const b of result.drawPrizeHistogram) rows.push(["draw_prize", "", b.from, b.to, b.count]);
+  for (const g of result.groups) {
+    for (const b of g.winsHistogram) rows.push(["wins", g.label, b.from, b.to, b.count]);
+    for (const b of g.prizeHistogram) rows.push(["prize", g.label, b.from, b.to, b.count]);
+  }
+  return toCsv(rows);
+}
@@ -0,0 +1,38 @@
+// Seeded PRNG (mulberry32). The whole generator state is one uint32, so a run
+// can be resumed from `state` and replayed exactly.
+export class SeededRandom {
+  private s: number;
+
+  constructor(seed: number) {
+    this.s = seed >>> 0;
+  }
+
+  get state(): number {
+    return this.s;
+  }
+
+  // Uniform in [0, 1)
+  next(): number {
+    this.s = (this.s + 0x6d2b79f5) >>> 0;
+    let t = this.s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Integer in [0, max)
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  // 8 base-36 characters
+  id(): string {
+    let out = "";
+    for (let i = 0; i < 8; i++) out += this.int(36).toString(36);
+    return out;
+  }
+}
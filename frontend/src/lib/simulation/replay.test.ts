@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { encodeAbiParameters, encodeEventTopics, getAddress, pad, toHex, type Address, type Log } from "viem";
+
+import { welotVaultAbi } from "../abis";
+import type { WelotClient } from "../welot/client";
+import {
+  loadReplayHistory,
+  parseReplayHistory,
+  replayHistoryToJson,
+  runReplay,
+  type ReplayHistory,
+} from "./replay";
+
+// Checksummed, as the RPC and `parseReplayHistory` return them
+const VAULT = getAddress("0x00000000000000000000000000000000000000f1");
+const USER = getAddress("0x00000000000000000000000000000000000000a1");
+const USDC = getAddress("0x00000000000000000000000000000000000000b1");
+// Was supported when the events were emitted, removed since
+const OLD = getAddress("0x00000000000000000000000000000000000000b2");
+
+function log(blockNumber: bigint, logIndex: number, topics: readonly unknown[], data: `0x${string}`): Log {
+  return {
+    address: VAULT,
+    topics: topics as Log["topics"],
+    data,
+    blockNumber,
+    blockHash: pad(toHex(blockNumber), { size: 32 }),
+    transactionHash: pad(toHex(blockNumber * 100n + BigInt(logIndex)), { size: 32 }),
+    transactionIndex: 0,
+    logIndex,
+    removed: false,
+  };
+}
+
+const deposited = (block: bigint, token: Address, amount: bigint) =>
+  log(
+    block,
+    0,
+    encodeEventTopics({ abi: welotVaultAbi, eventName: "Deposited", args: { user: USER, token, poolId: 1n } }),
+    encodeAbiParameters([{ type: "uint256" }], [amount])
+  );
+
+const prizeRecorded = (block: bigint, token: Address, prize: bigint) =>
+  log(
+    block,
+    1,
+    encodeEventTopics({ abi: welotVaultAbi, eventName: "TokenPrizeRecorded", args: { epochId: 1n, token } }),
+    encodeAbiParameters([{ type: "uint256" }], [prize])
+  );
+
+const winnerSelected = (block: bigint) =>
+  log(
+    block,
+    2,
+    encodeEventTopics({ abi: welotVaultAbi, eventName: "WinnerSelected", args: { epochId: 1n, winningPoolId: 1n } }),
+    encodeAbiParameters([{ type: "uint256" }], [5n * 10n ** 18n])
+  );
+
+// Only what `loadReplayHistory` calls
+function stubClient(logs: Log[]): WelotClient {
+  const client = {
+    vaultAddress: VAULT,
+    getPoolIds: async () => [1n, 2n],
+    getSupportedTokens: async () => [{ address: USDC, symbol: "USDC", config: { decimals: 6 } }],
+    getTokenConfig: async (token: Address) => {
+      assert.equal(token, OLD, "only the removed token should be looked up");
+      return { enabled: false, decimals: 18 };
+    },
+    getTokenSymbol: async () => "OLD",
+    publicClient: {
+      getChainId: async () => 31337,
+      getBlockNumber: async () => 20n,
+      getLogs: async () => logs,
+      getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: 1_700_000_000n + blockNumber }),
+    },
+  };
+  return client as unknown as WelotClient;
+}
+
+describe("replay history", () => {
+  it("keeps tokens removed since the events and re-imports its own JSON", async () => {
+    const client = stubClient([
+      deposited(3n, USDC, 100_000_000n),
+      deposited(4n, OLD, 2n * 10n ** 18n),
+      prizeRecorded(10n, OLD, 10n ** 17n),
+      winnerSelected(10n),
+    ]);
+    const history = await loadReplayHistory(client, { fromBlock: 1n });
+
+    assert.deepEqual(history.tokens, [
+      { address: USDC, symbol: "USDC", decimals: 6 },
+      { address: OLD, symbol: "OLD", decimals: 18 },
+    ]);
+    assert.deepEqual(history.events.map((e) => e.kind), ["deposit", "deposit", "prize", "winner"]);
+    assert.deepEqual(parseReplayHistory(JSON.parse(replayHistoryToJson(history))), history);
+  });
+
+  it("rejects an export whose events use a token it does not list", async () => {
+    const history = await loadReplayHistory(stubClient([deposited(4n, OLD, 1n)]), { fromBlock: 1n });
+    const raw = JSON.parse(replayHistoryToJson(history));
+    raw.tokens = raw.tokens.filter((t: { address: string }) => t.address !== OLD);
+    assert.throws(() => parseReplayHistory(raw), /events\[0\]\.token is not in tokens/);
+  });
+
+  it("creates no replay user for a deposit in a token it does not know", () => {
+    const other = getAddress("0x00000000000000000000000000000000000000a2");
+    const history: ReplayHistory = {
+      version: 1,
+      chainId: 31337,
+      vault: VAULT,
+      fromBlock: 1,
+      toBlock: 10,
+      poolIds: [1, 2],
+      tokens: [{ address: USDC, symbol: "USDC", decimals: 6 }],
+      events: [
+        { kind: "deposit", block: 2, timestamp: 100, user: USER, token: USDC, poolId: 1, amount: "5000000" },
+        { kind: "deposit", block: 3, timestamp: 200, user: other, token: OLD, poolId: 2, amount: "7" },
+      ],
+    };
+    const result = runReplay(history, { seed: 1, poolCount: null, weighting: "time", recordedPrizes: true });
+    assert.deepEqual(result.users.map((u) => u.address), [USER]);
+    assert.equal(result.state.users.length, 1);
+  });
+});
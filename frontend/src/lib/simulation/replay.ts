@@ -0,0 +1,475 @@
+import { formatUnits, getAddress, isAddress } from "viem";
+import type { Address } from "viem";
+
+import { shortAddr } from "../clients";
+import { fetchVaultEvents, getLogsChunked, type IndexedEvent } from "../indexer/events";
+import type { WelotClient } from "../welot/client";
+import { AVATARS, INITIAL_TOKENS, SimulationEngine, type SimWeighting } from "./engine";
+import type { SimModel, SimState, SimToken } from "./types";
+
+export interface ReplayToken {
+  address: Address;
+  symbol: string;
+  decimals: number;
+}
+
+interface ReplayEventBase {
+  block: number;
+  // Block timestamp (seconds)
+  timestamp: number;
+}
+
+export interface ReplayBalanceEvent extends ReplayEventBase {
+  kind: "deposit" | "withdraw";
+  user: Address;
+  token: Address;
+  poolId: number;
+  // Token decimals, as a decimal string
+  amount: string;
+}
+
+// A token's share of a draw (TokenPrizeRecorded)
+export interface ReplayPrizeEvent extends ReplayEventBase {
+  kind: "prize";
+  epochId: number;
+  token: Address;
+  // Token decimals, as a decimal string
+  amount: string;
+}
+
+export interface ReplayWinnerEvent extends ReplayEventBase {
+  kind: "winner";
+  epochId: number;
+  winningPoolId: number;
+  // Normalized to 18 decimals, as a decimal string
+  prize: string;
+}
+
+export type ReplayEvent = ReplayBalanceEvent | ReplayPrizeEvent | ReplayWinnerEvent;
+
+// A vault's deposit/withdraw/draw stream plus the pool layout and tokens
+// needed to replay it; also the JSON export format
+export interface ReplayHistory {
+  version: 1;
+  chainId: number;
+  vault: Address;
+  fromBlock: number;
+  toBlock: number;
+  // The vault's pool ids, in `poolIds(i)` order
+  poolIds: number[];
+  tokens: ReplayToken[];
+  // Chain order
+  events: ReplayEvent[];
+}
+
+export type ReplayHistoryMeta = Omit<ReplayHistory, "version" | "events">;
+
+export interface ReplayOptions {
+  seed: number;
+  // Pools in a what-if layout, with users assigned by `address % poolCount`
+  // like `assignedPoolId`; null keeps the vault's pools and each user's
+  // on-chain pool
+  poolCount: number | null;
+  // "simplified" when missing; the exact model needs "time" weighting
+  model?: SimModel;
+  weighting: SimWeighting;
+  // Add the prizes the vault actually recorded to the prize pools before each draw
+  recordedPrizes: boolean;
+  // Simulated APY (%) by token symbol, on top of recorded prizes; 0 when missing
+  apys?: Record<string, number>;
+}
+
+export interface ReplayDraw {
+  epochId: number;
+  timestamp: number;
+  // Pool ids are the vault's in the actual layout and 1..poolCount in a what-if one
+  actualWinningPoolId: number;
+  // null when the draw was skipped because nothing was deposited
+  simWinningPoolId: number | null;
+  // Chance the replayed odds gave the pool that actually won; null in a what-if layout
+  actualWinnerOdds: number | null;
+  // Sum over tokens: the vault's normalized prize and the replay's
+  actualPrize: number;
+  simPrize: number;
+}
+
+export interface ReplayUserResult {
+  address: Address;
+  poolId: number;
+  // Balances after the last event, by token symbol
+  deposits: Record<string, number>;
+  // Sum over draws of P(own pool wins) × own share of the prize pools
+  expectedPrize: number;
+  simPrize: number;
+  simWins: number;
+}
+
+export interface ReplayResult {
+  options: ReplayOptions;
+  // Pool ids of the replayed layout, by simulator pool index
+  poolIds: number[];
+  draws: ReplayDraw[];
+  // Most expected prize first
+  users: ReplayUserResult[];
+  // Draws the replay gave to the pool that actually won; null in a what-if layout
+  matches: number | null;
+  state: SimState;
+}
+
+const REPLAY_CHUNK_SIZE = 2000n;
+
+// Keeps the events a replay needs; claims and past-winner records are dropped
+export function historyFromEvents(meta: ReplayHistoryMeta, events: readonly IndexedEvent[]): ReplayHistory {
+  const out: ReplayEvent[] = [];
+  for (const e of events) {
+    const base = { block: Number(e.blockNumber), timestamp: Number(e.timestamp) };
+    switch (e.kind) {
+      case "Deposited":
+      case "Withdrawn":
+        out.push({
+          ...base,
+          kind: e.kind === "Deposited" ? "deposit" : "withdraw",
+          user: e.user,
+          token: e.token,
+          poolId: Number(e.poolId),
+          amount: e.amount.toString(),
+        });
+        break;
+      case "TokenPrizeRecorded":
+        out.push({ ...base, kind: "prize", epochId: Number(e.epochId), token: e.token, amount: e.prize.toString() });
+        break;
+      case "WinnerSelected":
+        out.push({
+          ...base,
+          kind: "winner",
+          epochId: Number(e.epochId),
+          winningPoolId: Number(e.winningPoolId),
+          prize: e.prize.toString(),
+        });
+        break;
+    }
+  }
+  return { version: 1, ...meta, events: out };
+}
+
+// Reads the pool layout and tokens, then every vault event in
+// `[fromBlock, toBlock]` (default: latest block)
+export async function loadReplayHistory(
+  client: WelotClient,
+  opts: { fromBlock: bigint; toBlock?: bigint; chunkSize?: bigint }
+): Promise<ReplayHistory> {
+  const [poolIds, supported, chainId, toBlock] = await Promise.all([
+    client.getPoolIds(),
+    client.getSupportedTokens(),
+    client.publicClient.getChainId(),
+    opts.toBlock ?? client.publicClient.getBlockNumber(),
+  ]);
+  const events = await getLogsChunked(opts.fromBlock, toBlock, opts.chunkSize ?? REPLAY_CHUNK_SIZE, (fromBlock, toBlock) =>
+    fetchVaultEvents(client.publicClient, { vaultAddress: client.vaultAddress, fromBlock, toBlock })
+  );
+
+  // `getSupportedTokens` only lists tokens enabled now; a removed token keeps
+  // its config (and decimals) in `tokenConfigs`, so read those for any token
+  // the events still mention
+  const tokens: ReplayToken[] = supported.map((t) => ({
+    address: t.address,
+    symbol: t.symbol,
+    decimals: t.config.decimals,
+  }));
+  const known = new Set(tokens.map((t) => t.address.toLowerCase()));
+  for (const e of events) {
+    if (e.kind === "WinnerSelected" || e.kind === "PastWinnerRecorded" || known.has(e.token.toLowerCase())) continue;
+    known.add(e.token.toLowerCase());
+    const [config, symbol] = await Promise.all([client.getTokenConfig(e.token), client.getTokenSymbol(e.token)]);
+    tokens.push({ address: e.token, symbol, decimals: config.decimals });
+  }
+
+  return historyFromEvents(
+    {
+      chainId,
+      vault: client.vaultAddress,
+      fromBlock: Number(opts.fromBlock),
+      toBlock: Number(toBlock),
+      poolIds: poolIds.map(Number),
+      tokens,
+    },
+    events
+  );
+}
+
+export function replayHistoryToJson(history: ReplayHistory): string {
+  return JSON.stringify(history, null, 2);
+}
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function int(entry: Raw, key: string, where: string): number {
+  const value = entry[key];
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${where}.${key} must be a non-negative integer`);
+  }
+  return value;
+}
+
+function address(entry: Raw, key: string, where: string): Address {
+  const value = entry[key];
+  if (typeof value !== "string" || !isAddress(value)) throw new Error(`${where}.${key} must be an address`);
+  return getAddress(value);
+}
+
+function amount(entry: Raw, key: string, where: string): string {
+  const value = entry[key];
+  if (typeof value !== "string" || !/^\d+$/.test(value)) throw new Error(`${where}.${key} must be an integer string`);
+  return value;
+}
+
+// Validates a JSON export (see `replayHistoryToJson`)
+export function parseReplayHistory(raw: unknown): ReplayHistory {
+  if (!isObject(raw) || raw.version !== 1) throw new Error("Not a replay history (expected version 1)");
+  if (!Array.isArray(raw.poolIds) || raw.poolIds.length === 0) throw new Error("poolIds must be a non-empty array");
+  if (!Array.isArray(raw.tokens) || !Array.isArray(raw.events)) throw new Error("tokens and events must be arrays");
+
+  const poolIds = raw.poolIds.map((id: unknown, i) => {
+    if (typeof id !== "number" || !Number.isInteger(id) || id <= 0) throw new Error(`poolIds[${i}] must be a positive integer`);
+    return id;
+  });
+
+  const tokens = raw.tokens.map((entry: unknown, i): ReplayToken => {
+    const where = `tokens[${i}]`;
+    if (!isObject(entry)) throw new Error(`${where} must be an object`);
+    if (typeof entry.symbol !== "string") throw new Error(`${where}.symbol must be a string`);
+    return { address: address(entry, "address", where), symbol: entry.symbol, decimals: int(entry, "decimals", where) };
+  });
+  const known = new Set(tokens.map((t) => t.address));
+
+  const events = raw.events.map((entry: unknown, i): ReplayEvent => {
+    const where = `events[${i}]`;
+    if (!isObject(entry)) throw new Error(`${where} must be an object`);
+    const base = { block: int(entry, "block", where), timestamp: int(entry, "timestamp", where) };
+    switch (entry.kind) {
+      case "deposit":
+      case "withdraw": {
+        const token = address(entry, "token", where);
+        if (!known.has(token)) throw new Error(`${where}.token is not in tokens`);
+        return {
+          ...base,
+          kind: entry.kind,
+          user: address(entry, "user", where),
+          token,
+          poolId: int(entry, "poolId", where),
+          amount: amount(entry, "amount", where),
+        };
+      }
+      case "prize": {
+        const token = address(entry, "token", where);
+        if (!known.has(token)) throw new Error(`${where}.token is not in tokens`);
+        return { ...base, kind: "prize", epochId: int(entry, "epochId", where), token, amount: amount(entry, "amount", where) };
+      }
+      case "winner":
+        return {
+          ...base,
+          kind: "winner",
+          epochId: int(entry, "epochId", where),
+          winningPoolId: int(entry, "winningPoolId", where),
+          prize: amount(entry, "prize", where),
+        };
+      default:
+        throw new Error(`${where}.kind must be deposit, withdraw, prize or winner`);
+    }
+  });
+
+  for (let i = 1; i < events.length; i++) {
+    if (events[i].block < events[i - 1].block) throw new Error(`events[${i}] is out of block order`);
+  }
+
+  return {
+    version: 1,
+    chainId: typeof raw.chainId === "number" ? raw.chainId : 0,
+    vault: address(raw, "vault", "history"),
+    fromBlock: typeof raw.fromBlock === "number" ? raw.fromBlock : 0,
+    toBlock: typeof raw.toBlock === "number" ? raw.toBlock : 0,
+    poolIds,
+    tokens,
+    events,
+  };
+}
+
+// Simulator symbol per token address; repeated symbols get a suffix
+function simSymbols(tokens: readonly ReplayToken[]): Map<Address, string> {
+  const out = new Map<Address, string>();
+  const used = new Set<string>();
+  for (const t of tokens) {
+    let symbol = t.symbol;
+    for (let n = 2; used.has(symbol); n++) symbol = `${t.symbol}-${n}`;
+    used.add(symbol);
+    out.set(t.address, symbol);
+  }
+  return out;
+}
+
+function sumValues(record: Record<string, number>): number {
+  return Object.values(record).reduce((a, b) => a + b, 0);
+}
+
+// Plays a vault's history through the engine, in the simplified model unless
+// `opts.model` says otherwise: real users, amounts and timing, with draws at
+// the blocks where the vault drew. The vault's randomness is not in its
+// events, so the replay draws its own winner from `seed`; `expectedPrize` and
+// `actualWinnerOdds` do not depend on it.
+//
+// A user keeps the pool of their first deposit. Withdrawals beyond the
+// replayed balance are clamped, which only happens to events outside the
+// loaded block range.
+export function runReplay(history: ReplayHistory, opts: ReplayOptions): ReplayResult {
+  const { poolCount } = opts;
+  if (poolCount !== null && (!Number.isInteger(poolCount) || poolCount < 1)) {
+    throw new Error("poolCount must be a positive integer");
+  }
+  const poolIds = poolCount === null ? history.poolIds : Array.from({ length: poolCount }, (_, i) => i + 1);
+
+  const symbols = simSymbols(history.tokens);
+  const decimals = new Map(history.tokens.map((t) => [t.address, t.decimals]));
+  const tokens: SimToken[] = history.tokens.map((t) => {
+    const symbol = symbols.get(t.address) ?? t.symbol;
+    const known = INITIAL_TOKENS.find((k) => k.symbol === t.symbol);
+    return {
+      ...(known ?? { name: t.symbol, icon: "🪙", color: "bg-zinc-100" }),
+      symbol,
+      totalDeposits: 0,
+      prizePool: 0,
+      apy: opts.apys?.[symbol] ?? 0,
+      decimals: t.decimals,
+    };
+  });
+
+  const start = history.events[0]?.timestamp ?? 0;
+  const engine = new SimulationEngine({
+    seed: opts.seed,
+    startTime: new Date(start * 1000),
+    poolCount: poolIds.length,
+    userCount: 0,
+    tokens,
+    model: opts.model,
+    weighting: opts.weighting,
+    logLimit: 0,
+  });
+
+  type Tally = { id: string; expectedPrize: number; simPrize: number; simWins: number };
+  const users = new Map<Address, Tally>();
+  const byId = new Map<string, Tally>();
+  const draws: ReplayDraw[] = [];
+  let matches = 0;
+
+  const userFor = (e: ReplayBalanceEvent) => {
+    const existing = users.get(e.user);
+    if (existing) return existing;
+    let poolIndex: number;
+    if (poolCount === null) {
+      poolIndex = poolIds.indexOf(e.poolId);
+      if (poolIndex < 0) throw new Error(`Event at block ${e.block} uses pool ${e.poolId}, which is not in poolIds`);
+    } else {
+      poolIndex = Number(BigInt(e.user) % BigInt(poolCount));
+    }
+    const { id } = engine.addUser({
+      address: e.user,
+      name: shortAddr(e.user),
+      avatar: AVATARS[users.size % AVATARS.length],
+      poolId: poolIndex,
+    });
+    const user: Tally = { id, expectedPrize: 0, simPrize: 0, simWins: 0 };
+    users.set(e.user, user);
+    byId.set(id, user);
+    return user;
+  };
+
+  for (const e of history.events) {
+    engine.step(e.timestamp - engine.state.now.getTime() / 1000);
+
+    if (e.kind === "prize") {
+      const symbol = symbols.get(e.token);
+      if (opts.recordedPrizes && symbol) {
+        engine.fundPrize(symbol, Number(formatUnits(BigInt(e.amount), decimals.get(e.token) ?? 18)));
+      }
+      continue;
+    }
+
+    if (e.kind !== "winner") {
+      // Check the token first so an unknown one creates no user
+      const symbol = symbols.get(e.token);
+      if (!symbol) continue;
+      const user = userFor(e);
+      const value = Number(formatUnits(BigInt(e.amount), decimals.get(e.token) ?? 18));
+      if (e.kind === "deposit") {
+        engine.deposit(user.id, symbol, value);
+      } else {
+        const held = engine.state.users.find((u) => u.id === user.id)?.deposits[symbol] ?? 0;
+        engine.withdraw(user.id, symbol, Math.min(value, held));
+      }
+      continue;
+    }
+
+    const { pools, tokens: simTokens, users: before } = engine.state;
+    const odds = engine.poolOdds();
+    for (const u of before) {
+      const pool = pools[u.poolId];
+      let share = 0;
+      for (const t of simTokens) {
+        const poolDeposits = pool.deposits[t.symbol] || 0;
+        if (poolDeposits > 0) share += t.prizePool * ((u.deposits[t.symbol] || 0) / poolDeposits);
+      }
+      const user = byId.get(u.id);
+      if (user) user.expectedPrize += odds[u.poolId] * share;
+    }
+
+    const actualIndex = poolIds.indexOf(e.winningPoolId);
+    const result = engine.draw();
+    const simWinningPoolId = result ? poolIds[result.winningPoolId] : null;
+    if (poolCount === null && simWinningPoolId === e.winningPoolId) matches++;
+
+    if (result) {
+      engine.state.users.forEach((u, i) => {
+        const gained = sumValues(u.claimable) - sumValues(before[i].claimable);
+        const user = byId.get(u.id);
+        if (!user || gained <= 0) return;
+        user.simWins++;
+        user.simPrize += gained;
+      });
+    }
+
+    draws.push({
+      epochId: e.epochId,
+      timestamp: e.timestamp,
+      actualWinningPoolId: e.winningPoolId,
+      simWinningPoolId,
+      actualWinnerOdds: poolCount === null && actualIndex >= 0 ? odds[actualIndex] : null,
+      actualPrize: Number(formatUnits(BigInt(e.prize), 18)),
+      simPrize: result?.totalPrize ?? 0,
+    });
+  }
+
+  const state = engine.state;
+  return {
+    options: opts,
+    poolIds,
+    draws,
+    users: [...users.entries()]
+      .map(([address, user]) => {
+        const simUser = state.users.find((u) => u.id === user.id);
+        return {
+          address,
+          poolId: poolIds[simUser?.poolId ?? 0],
+          deposits: simUser?.deposits ?? {},
+          expectedPrize: user.expectedPrize,
+          simPrize: user.simPrize,
+          simWins: user.simWins,
+        };
+      })
+      .sort((a, b) => b.expectedPrize - a.expectedPrize),
+    matches: poolCount === null ? matches : null,
+    state,
+  };
+}
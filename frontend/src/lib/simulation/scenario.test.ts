@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { SimulationEngine, type SimSnapshot } from "./engine";
+import {
+  SCENARIO_PRESETS,
+  parseScenario,
+  scenarioFromHash,
+  scenarioToHash,
+  scenarioToJson,
+  type Scenario,
+} from "./scenario";
+import type { SimModel } from "./types";
+
+const NOW = new Date("2025-03-12T15:00:00Z");
+
+// JSON drops `undefined` fields (e.g. `user` on system log entries), so
+// compare what survives an export; `parseScenario` must also revive the dates
+function assertSameScenario(actual: Scenario | null, expected: Scenario) {
+  assert.ok(actual);
+  assert.equal(scenarioToJson(actual), scenarioToJson(expected));
+  const { state } = actual.engine;
+  for (const d of [state.now, state.epoch.start, state.epoch.end, ...state.logs.map((l) => l.time)]) {
+    assert.ok(d instanceof Date);
+  }
+}
+
+const sameSnapshot = (a: SimSnapshot, b: SimSnapshot) => assert.equal(JSON.stringify(a), JSON.stringify(b));
+
+// Bots, time and draws for a little over a week
+function play(e: SimulationEngine) {
+  for (let i = 0; i < 24 * 8; i++) {
+    e.botAction();
+    e.step(3600);
+    if (e.drawDue) e.draw();
+  }
+}
+
+describe("scenario presets", () => {
+  for (const preset of SCENARIO_PRESETS) {
+    for (const model of ["simplified", "exact"] satisfies SimModel[]) {
+      it(`round-trips ${preset.id} (${model}) through JSON and a share link and keeps running`, async () => {
+        const scenario = preset.build({ now: NOW, model });
+        assert.deepEqual(preset.build({ now: NOW, model }), scenario, "a preset always builds the same world");
+
+        const fromJson = parseScenario(JSON.parse(scenarioToJson(scenario)));
+        assertSameScenario(fromJson, scenario);
+        const hash = await scenarioToHash(scenario);
+        assert.match(hash, /^#scenario=[\w-]+$/);
+        const fromHash = await scenarioFromHash(hash);
+        assertSameScenario(fromHash, scenario);
+
+        // Restored copies continue exactly like the one that never left memory
+        const reference = SimulationEngine.restore(structuredClone(scenario.engine));
+        const restored = [fromJson, fromHash!].map((s) => SimulationEngine.restore(s.engine));
+        for (const e of [reference, ...restored]) play(e);
+        for (const e of restored) sameSnapshot(e.snapshot(), reference.snapshot());
+        assert.ok(reference.state.epoch.id > scenario.engine.state.epoch.id, "the run should cross a draw");
+      });
+    }
+  }
+});
+
+describe("scenarioFromHash", () => {
+  it("returns null without a scenario and rejects a damaged link", async () => {
+    assert.equal(await scenarioFromHash(""), null);
+    assert.equal(await scenarioFromHash("#section"), null);
+
+    const hash = await scenarioToHash(SCENARIO_PRESETS[0].build({ now: NOW, model: "simplified" }));
+    await assert.rejects(scenarioFromHash(hash.slice(0, hash.length / 2)), /damaged or incomplete/);
+  });
+});
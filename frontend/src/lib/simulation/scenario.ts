@@ -0,0 +1,332 @@
+import type { Address } from "viem";
+
+import { INITIAL_TOKENS, SimulationEngine, getNextFriday, type SimSnapshot } from "./engine";
+import { SeededRandom } from "./random";
+import type { SimEpoch, SimLogEntry, SimModel, SimState } from "./types";
+
+// A saved live run: the engine snapshot plus the page settings it ran with
+export interface Scenario {
+  version: 1;
+  name: string;
+  description: string;
+  // Simulated seconds per real second
+  timeSpeed: number;
+  // Whether bots deposit and withdraw on their own
+  autoActions: boolean;
+  engine: SimSnapshot;
+}
+
+export interface ScenarioSettings {
+  name: string;
+  description?: string;
+  timeSpeed: number;
+  autoActions: boolean;
+}
+
+export function scenarioFromEngine(engine: SimulationEngine, settings: ScenarioSettings): Scenario {
+  return {
+    version: 1,
+    name: settings.name,
+    description: settings.description ?? "",
+    timeSpeed: settings.timeSpeed,
+    autoActions: settings.autoActions,
+    engine: engine.snapshot(),
+  };
+}
+
+// Dates become ISO strings; `parseScenario` turns them back
+export function scenarioToJson(scenario: Scenario): string {
+  return JSON.stringify(scenario, null, 2);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Parsing
+// ═══════════════════════════════════════════════════════════════════════════
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function object(entry: Raw, key: string, where: string): Raw {
+  const value = entry[key];
+  if (!isObject(value)) throw new Error(`${where}.${key} must be an object`);
+  return value;
+}
+
+function array(entry: Raw, key: string, where: string): unknown[] {
+  const value = entry[key];
+  if (!Array.isArray(value)) throw new Error(`${where}.${key} must be an array`);
+  return value;
+}
+
+function int(entry: Raw, key: string, where: string): number {
+  const value = entry[key];
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${where}.${key} must be a non-negative integer`);
+  }
+  return value;
+}
+
+function date(entry: Raw, key: string, where: string): Date {
+  const value = entry[key];
+  const d = typeof value === "string" ? new Date(value) : null;
+  if (!d || Number.isNaN(d.getTime())) throw new Error(`${where}.${key} must be an ISO date`);
+  return d;
+}
+
+function reviveEpoch(raw: unknown, where: string): SimEpoch {
+  if (!isObject(raw)) throw new Error(`${where} must be an object`);
+  int(raw, "id", where);
+  return { ...(raw as unknown as SimEpoch), start: date(raw, "start", where), end: date(raw, "end", where) };
+}
+
+function reviveState(raw: Raw, where: string): SimState {
+  for (const key of ["users", "tokens", "pools"]) {
+    array(raw, key, where).forEach((entry, i) => {
+      if (!isObject(entry)) throw new Error(`${where}.${key}[${i}] must be an object`);
+    });
+  }
+  return {
+    ...(raw as unknown as SimState),
+    now: date(raw, "now", where),
+    epoch: reviveEpoch(raw.epoch, `${where}.epoch`),
+    epochHistory: array(raw, "epochHistory", where).map((e, i) => reviveEpoch(e, `${where}.epochHistory[${i}]`)),
+    logs: array(raw, "logs", where).map((entry, i): SimLogEntry => {
+      if (!isObject(entry)) throw new Error(`${where}.logs[${i}] must be an object`);
+      return { ...(entry as unknown as SimLogEntry), time: date(entry, "time", `${where}.logs[${i}]`) };
+    }),
+  };
+}
+
+// Validates a JSON export (see `scenarioToJson`). The snapshot is checked
+// again by `SimulationEngine.restore`.
+export function parseScenario(raw: unknown): Scenario {
+  if (!isObject(raw) || raw.version !== 1) throw new Error("Not a simulation scenario (expected version 1)");
+  if (typeof raw.name !== "string") throw new Error("name must be a string");
+  if (typeof raw.timeSpeed !== "number" || !(raw.timeSpeed > 0)) throw new Error("timeSpeed must be a positive number");
+  if (typeof raw.autoActions !== "boolean") throw new Error("autoActions must be a boolean");
+
+  const engine = object(raw, "engine", "scenario");
+  const where = "engine";
+  if (engine.model !== "simplified" && engine.model !== "exact") throw new Error(`${where}.model must be simplified or exact`);
+  if (engine.weighting !== "time" && engine.weighting !== "balance") throw new Error(`${where}.weighting must be time or balance`);
+  if (engine.drawIntervalSec !== null && !(typeof engine.drawIntervalSec === "number" && engine.drawIntervalSec > 0)) {
+    throw new Error(`${where}.drawIntervalSec must be a positive number or null`);
+  }
+  for (const key of ["seed", "poolCount", "historyLimit", "logLimit", "rngState", "logSeq"]) int(engine, key, where);
+  if (engine.contract !== null) object(engine, "contract", where);
+
+  return {
+    version: 1,
+    name: raw.name,
+    description: typeof raw.description === "string" ? raw.description : "",
+    timeSpeed: raw.timeSpeed,
+    autoActions: raw.autoActions,
+    engine: {
+      ...(engine as unknown as SimSnapshot),
+      state: reviveState(object(engine, "state", where), `${where}.state`),
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Share links: deflate-raw + base64url in the URL fragment, which never
+// reaches the server
+// ═══════════════════════════════════════════════════════════════════════════
+
+const FRAGMENT_PREFIX = "#scenario=";
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export async function scenarioToHash(scenario: Scenario): Promise<string> {
+  const stream = new Blob([JSON.stringify(scenario)]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  return FRAGMENT_PREFIX + toBase64Url(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+// null when `hash` (e.g. `location.hash`) carries no scenario
+export async function scenarioFromHash(hash: string): Promise<Scenario | null> {
+  if (!hash.startsWith(FRAGMENT_PREFIX)) return null;
+  let json: string;
+  try {
+    const stream = new Blob([fromBase64Url(hash.slice(FRAGMENT_PREFIX.length))])
+      .stream()
+      .pipeThrough(new DecompressionStream("deflate-raw"));
+    json = await new Response(stream).text();
+  } catch {
+    throw new Error("The scenario link is damaged or incomplete");
+  }
+  return parseScenario(JSON.parse(json));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Saved scenarios (localStorage in the browser)
+// ═══════════════════════════════════════════════════════════════════════════
+
+const STORAGE_KEY = "welot.simulation.scenarios";
+
+export type ScenarioStorage = Pick<Storage, "getItem" | "setItem">;
+
+export interface SavedScenario {
+  name: string;
+  // ISO timestamp (wall clock)
+  savedAt: string;
+  scenario: Scenario;
+}
+
+// Newest first. Entries that no longer parse are dropped.
+export function listSavedScenarios(storage: ScenarioStorage): SavedScenario[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(storage.getItem(STORAGE_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry): SavedScenario[] => {
+    if (!isObject(entry) || typeof entry.savedAt !== "string") return [];
+    try {
+      const scenario = parseScenario(entry.scenario);
+      return [{ name: scenario.name, savedAt: entry.savedAt, scenario }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+function writeSaved(storage: ScenarioStorage, saved: readonly SavedScenario[]) {
+  storage.setItem(STORAGE_KEY, JSON.stringify(saved));
+}
+
+// Replaces any saved scenario with the same name
+export function saveScenario(storage: ScenarioStorage, scenario: Scenario, savedAt = new Date()): SavedScenario[] {
+  const saved = [
+    { name: scenario.name, savedAt: savedAt.toISOString(), scenario },
+    ...listSavedScenarios(storage).filter((s) => s.name !== scenario.name),
+  ];
+  writeSaved(storage, saved);
+  return saved;
+}
+
+export function deleteSavedScenario(storage: ScenarioStorage, name: string): SavedScenario[] {
+  const saved = listSavedScenarios(storage).filter((s) => s.name !== name);
+  writeSaved(storage, saved);
+  return saved;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Presets
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ScenarioPreset {
+  id: string;
+  name: string;
+  description: string;
+  // Presets start at the beginning of the epoch that contains `now`, so the
+  // same preset always builds the same world
+  build(opts: { now: Date; model: SimModel }): Scenario;
+}
+
+const DAY = 86400;
+
+function epochStart(now: Date): Date {
+  return new Date(getNextFriday(now).getTime() - 7 * DAY * 1000);
+}
+
+// A made-up address that `address % poolCount` places in `poolId`, so both
+// models agree on the pool
+function addressInPool(rng: SeededRandom, poolId: number, poolCount: number): Address {
+  let hex = "";
+  for (let i = 0; i < 5; i++) hex += rng.int(2 ** 32).toString(16).padStart(8, "0");
+  const base = BigInt(`0x${hex}`);
+  let value = base - (base % BigInt(poolCount)) + BigInt(poolId);
+  if (value >= 2n ** 160n) value -= BigInt(poolCount);
+  return `0x${value.toString(16).padStart(40, "0")}`;
+}
+
+function joinPool(
+  engine: SimulationEngine,
+  rng: SeededRandom,
+  profile: { name: string; avatar: string; poolId: number }
+): string {
+  return engine.addUser({ ...profile, address: addressInPool(rng, profile.poolId, engine.poolCount) }).id;
+}
+
+export const SCENARIO_PRESETS: readonly ScenarioPreset[] = [
+  {
+    id: "whale-vs-minnows",
+    name: "Whale vs. many minnows",
+    description:
+      "One whale holds most of the TVL in pool #0 while thirty small depositors spread over all five pools. " +
+      "Pool #0 takes most draws, but minnows elsewhere win their pool's whole prize when they hit.",
+    build({ now, model }) {
+      const engine = new SimulationEngine({ seed: 101, startTime: epochStart(now), poolCount: 5, userCount: 1, model });
+      const rng = new SeededRandom(101);
+      const whale = joinPool(engine, rng, { name: "Whale", avatar: "🐋", poolId: 0 });
+      engine.deposit(whale, "USDC", 50000);
+      engine.deposit(whale, "USDT", 25000);
+      for (let i = 0; i < 30; i++) {
+        const minnow = joinPool(engine, rng, { name: `Minnow ${i + 1}`, avatar: "🐟", poolId: i % engine.poolCount });
+        engine.deposit(minnow, rng.pick(INITIAL_TOKENS).symbol, rng.int(250) + 50);
+      }
+      engine.deposit(engine.state.users[0].id, "USDC", 100);
+      engine.step(DAY);
+      return scenarioFromEngine(engine, { name: this.name, description: this.description, timeSpeed: 3600, autoActions: false });
+    },
+  },
+  {
+    id: "single-token",
+    name: "Single-token pool",
+    description:
+      "Only USDC is supported, so every draw pays one prize in one token. The simplest world to explain before " +
+      "a second token makes prizes carry forward.",
+    build({ now, model }) {
+      const engine = new SimulationEngine({
+        seed: 202,
+        startTime: epochStart(now),
+        poolCount: 3,
+        userCount: 8,
+        tokens: INITIAL_TOKENS.filter((t) => t.symbol === "USDC"),
+        model,
+      });
+      const rng = new SeededRandom(202);
+      for (const u of engine.state.users.slice(1)) engine.deposit(u.id, "USDC", rng.int(900) + 100);
+      engine.step(DAY);
+      return scenarioFromEngine(engine, { name: this.name, description: this.description, timeSpeed: 3600, autoActions: true });
+    },
+  },
+  {
+    id: "empty-pool-wins",
+    name: "Empty pool wins",
+    description:
+      "An early whale built up six days of weight in pool #0 and then withdrew everything. The vault never resets " +
+      "`cumulative`, so the empty pool is the favourite in the next draw and its prize carries forward. Always uses " +
+      "the exact model: the simplified one drops empty pools from the draw.",
+    build({ now }) {
+      const engine = new SimulationEngine({ seed: 303, startTime: epochStart(now), poolCount: 3, userCount: 1, model: "exact" });
+      const rng = new SeededRandom(303);
+      const early = joinPool(engine, rng, { name: "Early Bird", avatar: "🐦", poolId: 0 });
+      engine.deposit(early, "USDC", 20000);
+      for (const poolId of [1, 2]) {
+        engine.deposit(joinPool(engine, rng, { name: `Saver ${poolId}`, avatar: "🐢", poolId }), "USDC", 500);
+      }
+      engine.step(6 * DAY);
+      engine.withdraw(early, "USDC", engine.state.users.find((u) => u.id === early)!.deposits.USDC);
+      // One simulated hour before the draw
+      engine.step((engine.state.epoch.end.getTime() - engine.state.now.getTime()) / 1000 - 3600);
+      return scenarioFromEngine(engine, { name: this.name, description: this.description, timeSpeed: 60, autoActions: false });
+    },
+  },
+];
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { SimulationEngine } from "./engine";
+import { appendSample, epochBoundaries, sampleState, type SimSample } from "./timeline";
+
+const sample = (time: number, epochId = 1): SimSample => ({
+  time,
+  epochId,
+  prizePools: {},
+  totalDeposits: time,
+  poolWeights: [],
+});
+
+const times = (samples: readonly SimSample[]) => samples.map((s) => s.time);
+
+function appendAll(at: readonly number[], limit?: number): SimSample[] {
+  return at.reduce<SimSample[]>((samples, t) => appendSample(samples, sample(t), limit), []);
+}
+
+describe("appendSample", () => {
+  it("appends, and replaces the last sample while the clock has not moved", () => {
+    const samples = appendAll([0, 1, 2]);
+    assert.deepEqual(times(samples), [0, 1, 2]);
+
+    const replaced = appendSample(samples, { ...sample(2), totalDeposits: 99 });
+    assert.deepEqual(times(replaced), [0, 1, 2]);
+    assert.equal(replaced[2].totalDeposits, 99);
+    // The input is not modified
+    assert.equal(samples[2].totalDeposits, 2);
+  });
+
+  it("starts over when time goes backwards", () => {
+    assert.deepEqual(times(appendSample(appendAll([10, 20, 30]), sample(5))), [5]);
+    assert.deepEqual(times(appendAll([10, 20, 30, 5, 6])), [5, 6]);
+  });
+
+  it("drops every other sample past the limit, keeping the first and last", () => {
+    // 11 samples: indexes 0, 2, …, 10 stay
+    assert.deepEqual(times(appendAll([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 10)), [0, 2, 4, 6, 8, 10]);
+    // 10 samples: the last one has an odd index and is kept anyway
+    assert.deepEqual(times(appendAll([0, 1, 2, 3, 4, 5, 6, 7, 8, 9], 9)), [0, 2, 4, 6, 8, 9]);
+  });
+
+  it("keeps spanning the whole run as it grows", () => {
+    let samples: SimSample[] = [];
+    for (let t = 0; t <= 5000; t++) {
+      samples = appendSample(samples, sample(t), 50);
+      assert.ok(samples.length <= 50);
+      assert.equal(samples[0].time, 0);
+      assert.equal(samples[samples.length - 1].time, t);
+    }
+    const t = times(samples);
+    assert.ok(t.every((x, i) => i === 0 || x > t[i - 1]), "times stay increasing");
+    assert.ok(samples.length > 25, "decimation halves at most once per overflow");
+  });
+});
+
+describe("epochBoundaries", () => {
+  it("lists the time of the first sample of each new epoch", () => {
+    const samples = [sample(0, 1), sample(5, 1), sample(9, 2), sample(12, 2), sample(20, 4)];
+    assert.deepEqual(epochBoundaries(samples), [9, 20]);
+    assert.deepEqual(epochBoundaries([]), []);
+  });
+});
+
+describe("sampleState", () => {
+  it("reads the clock, prize pools, deposits and pool weights", () => {
+    const engine = new SimulationEngine({ seed: 1, startTime: new Date("2025-01-01T00:00:00Z"), poolCount: 2 });
+    const user = engine.state.users[0];
+    assert.ok(engine.deposit(user.id, "USDC", 100));
+    engine.step(3600);
+
+    const s = sampleState(engine.state);
+    assert.equal(s.time, Date.parse("2025-01-01T01:00:00Z"));
+    assert.equal(s.epochId, engine.state.epoch.id);
+    assert.equal(s.totalDeposits, 100);
+    assert.equal(s.prizePools.USDC, engine.state.tokens.find((t) => t.symbol === "USDC")!.prizePool);
+    assert.ok(s.prizePools.USDC > 0);
+    assert.deepEqual(s.poolWeights, engine.state.pools.map((p) => p.cumulativeWeight));
+    assert.equal(s.poolWeights[user.poolId], 100 * 3600);
+  });
+});
@@ -0,0 +1,42 @@
+import type { SimState } from "./types";
+
+// One point of the live page's time series
+export interface SimSample {
+  // Simulated time, ms since the Unix epoch
+  time: number;
+  epochId: number;
+  // Per token symbol
+  prizePools: Record<string, number>;
+  totalDeposits: number;
+  // `cumulativeWeight` by pool id
+  poolWeights: number[];
+}
+
+export function sampleState(state: SimState): SimSample {
+  return {
+    time: state.now.getTime(),
+    epochId: state.epoch.id,
+    prizePools: Object.fromEntries(state.tokens.map((t) => [t.symbol, t.prizePool])),
+    totalDeposits: state.tokens.reduce((a, t) => a + t.totalDeposits, 0),
+    poolWeights: state.pools.map((p) => p.cumulativeWeight),
+  };
+}
+
+// Appends `sample`, replacing the last one when the clock has not moved. A
+// sample from before the last one (a new run) starts over. Past `limit`, every
+// other sample is dropped, so the series always spans the whole run at a
+// coarser resolution.
+export function appendSample(samples: readonly SimSample[], sample: SimSample, limit = 240): SimSample[] {
+  const last = samples[samples.length - 1];
+  if (!last || sample.time < last.time) return [sample];
+  const kept = sample.time === last.time ? samples.slice(0, -1) : [...samples];
+  kept.push(sample);
+  if (kept.length <= limit) return kept;
+  // Keep the first and last points
+  return kept.filter((_, i) => i % 2 === 0 || i === kept.length - 1);
+}
+
+// Times at which a new epoch began, for chart markers
+export function epochBoundaries(samples: readonly SimSample[]): number[] {
+  return samples.flatMap((s, i) => (i > 0 && s.epochId !== samples[i - 1].epochId ? [s.time] : []));
+}
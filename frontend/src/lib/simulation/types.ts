@@ -0,0 +1,85 @@
+import type { Address } from "viem";
+
+// "exact" runs the vault's bigint accounting underneath the state (see
+// `ContractModel`); "simplified" is the float model the demo started with
+export type SimModel = "simplified" | "exact";
+
+export interface SimUser {
+  id: string;
+  // Decides the pool in the exact model, like `assignedPoolId`
+  address: Address;
+  name: string;
+  avatar: string;
+  deposits: Record<string, number>;
+  claimable: Record<string, number>;
+  poolId: number;
+  isYou: boolean;
+}
+
+export interface SimToken {
+  symbol: string;
+  name: string;
+  icon: string;
+  color: string;
+  totalDeposits: number;
+  prizePool: number;
+  apy: number;
+  // Used by the exact model; 18 when missing
+  decimals?: number;
+}
+
+export interface SimPool {
+  id: number;
+  deposits: Record<string, number>; // per-token deposits in this pool
+  // Time-weighted cumulative balance used for pool winner weighting
+  cumulativeWeight: number;
+}
+
+export type SimEpochStatus = "open" | "closed" | "randomnessRequested" | "randomnessReady" | "finalized";
+
+export interface SimEpoch {
+  id: number;
+  start: Date;
+  end: Date;
+  status: SimEpochStatus;
+  winner: SimUser | null;
+  prize: number;
+  winningToken: string | null;
+  randomness: number | null;
+}
+
+export interface SimLogEntry {
+  id: string;
+  // Simulated time
+  time: Date;
+  type: "deposit" | "withdraw" | "yield" | "draw" | "claim" | "system" | "winner";
+  message: string;
+  user?: string;
+}
+
+// Everything the page renders. The engine replaces objects instead of mutating
+// them, so a new `SimState` (or nested object) means something changed.
+export interface SimState {
+  // PRNG seed the run started from
+  seed: number;
+  model: SimModel;
+  now: Date;
+  users: SimUser[];
+  tokens: SimToken[];
+  pools: SimPool[];
+  epoch: SimEpoch;
+  // Most recent first
+  epochHistory: SimEpoch[];
+  // Most recent first
+  logs: SimLogEntry[];
+}
+
+export interface SimDrawResult {
+  epochId: number;
+  winningPoolId: number;
+  // Sum over tokens, in token units
+  totalPrize: number;
+  // Per token symbol; tokens the winning pool held no deposits of carry over
+  prizes: Record<string, number>;
+  winningToken: string | null;
+}
@@ -0,0 +1,136 @@
+import { numberToHex, type Address, type Chain, type EIP1193Provider } from "viem";
+
+import { getChain, supportedChains } from "./chains";
+import { firstAddress } from "./wallets";
+
+// ════════════════════════════════════════════════════════════════════════════
+// Wallet session: follows the connected wallet's account and chain
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface WalletSessionHandlers {
+  // The wallet switched accounts; undefined when it locked or revoked this site
+  onAccountChanged: (account: Address | undefined) => void;
+  onChainChanged: (chainId: number) => void;
+  // The wallet lost its connection to every chain
+  onDisconnect: () => void;
+}
+
+function parseChainId(value: unknown): number | undefined {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const id = Number(value);
+  return Number.isSafeInteger(id) && id > 0 ? id : undefined;
+}
+
+// The chain the wallet is on now, or undefined if it would not say
+export async function getWalletChainId(provider: EIP1193Provider): Promise<number | undefined> {
+  try {
+    return parseChainId(await provider.request({ method: "eth_chainId" }));
+  } catch {
+    return undefined;
+  }
+}
+
+// Subscribes to the EIP-1193 `accountsChanged`, `chainChanged` and
+// `disconnect` events until the returned function is called
+export function watchWalletSession(provider: EIP1193Provider, handlers: WalletSessionHandlers): () => void {
+  const onAccountsChanged = (accounts: unknown) => handlers.onAccountChanged(firstAddress(accounts));
+  const onChainChanged = (chainId: unknown) => {
+    const id = parseChainId(chainId);
+    if (id !== undefined) handlers.onChainChanged(id);
+  };
+  const onDisconnect = () => handlers.onDisconnect();
+
+  provider.on("accountsChanged", onAccountsChanged);
+  provider.on("chainChanged", onChainChanged);
+  provider.on("disconnect", onDisconnect);
+
+  return () => {
+    // Some injected providers ship without `removeListener`
+    provider.removeListener?.("accountsChanged", onAccountsChanged);
+    provider.removeListener?.("chainChanged", onChainChanged);
+    provider.removeListener?.("disconnect", onDisconnect);
+  };
+}
+
+// True when the wallet is known to be on a different chain than the app.
+// An unknown wallet chain is not a mismatch: the wallet client still checks
+// the chain before sending.
+export function isChainMismatch(walletChainId: number | undefined, expectedChainId = getChain().id): boolean {
+  return walletChainId !== undefined && walletChainId !== expectedChainId;
+}
+
+// "Mantle Sepolia" for chains we know, else "chain 1234"
+export function chainLabel(chainId: number): string {
+  return supportedChains.find((c) => c.id === chainId)?.name ?? `chain ${chainId}`;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Network guard: puts the wallet on the app's chain before a write
+// ════════════════════════════════════════════════════════════════════════════
+
+// EIP-1193 / MetaMask error codes
+const USER_REJECTED = 4001;
+const UNRECOGNIZED_CHAIN = 4902;
+const REQUEST_PENDING = -32002;
+
+// Provider errors are plain objects; MetaMask mobile nests the code under `data.originalError`
+function providerErrorCode(err: unknown): number | undefined {
+  if (!err || typeof err !== "object") return undefined;
+  const rec = err as { code?: unknown; data?: { originalError?: { code?: unknown } } };
+  const code = rec.data?.originalError?.code ?? rec.code;
+  return typeof code === "number" ? code : undefined;
+}
+
+// `wallet_addEthereumChain` parameters (EIP-3085) for a `Chain` from chains.ts
+export function toAddChainParameters(chain: Chain) {
+  const explorer = chain.blockExplorers?.default?.url;
+  return {
+    chainId: numberToHex(chain.id),
+    chainName: chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: [...chain.rpcUrls.default.http],
+    ...(explorer ? { blockExplorerUrls: [explorer] } : {}),
+  };
+}
+
+// Messages for a switch the user can act on
+function switchError(err: unknown, chain: Chain): Error {
+  switch (providerErrorCode(err)) {
+    case USER_REJECTED:
+      return new Error(`Network switch rejected. Welot runs on ${chain.name}; switch your wallet to it to continue.`);
+    case REQUEST_PENDING:
+      return new Error(`A network switch is already waiting in your wallet. Approve it to continue on ${chain.name}.`);
+    default:
+      return new Error(
+        `Could not switch your wallet to ${chain.name}: ${err instanceof Error ? err.message : String(err)}`
+      );
+  }
+}
+
+// Asks the wallet to switch to `chain`, adding it first when the wallet does
+// not know it. Resolves with the chain id once the wallet is on `chain`;
+// throws with a user-facing message when the user rejects or the wallet fails.
+export async function ensureWalletChain(provider: EIP1193Provider, chain: Chain = getChain()): Promise<number> {
+  if ((await getWalletChainId(provider)) === chain.id) return chain.id;
+
+  const chainId = numberToHex(chain.id);
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (err) {
+    if (providerErrorCode(err) !== UNRECOGNIZED_CHAIN) throw switchError(err, chain);
+    try {
+      await provider.request({ method: "wallet_addEthereumChain", params: [toAddChainParameters(chain)] });
+      // Most wallets switch after adding; the rest need asking again
+      await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+    } catch (addErr) {
+      throw switchError(addErr, chain);
+    }
+  }
+
+  // Some wallets resolve before the switch lands; trust only what they report
+  const current = await getWalletChainId(provider);
+  if (current !== undefined && current !== chain.id) {
+    throw new Error(`Your wallet is still on ${chainLabel(current)}. Switch it to ${chain.name} to continue.`);
+  }
+  return chain.id;
+}
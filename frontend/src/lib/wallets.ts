@@ -0,0 +1,163 @@
+import { getAddress, isAddress, type Address, type EIP1193Provider } from "viem";
+
+// ════════════════════════════════════════════════════════════════════════════
+// EIP-6963 wallet discovery
+// ════════════════════════════════════════════════════════════════════════════
+
+// Metadata a wallet announces about itself (EIP-6963 `EIP6963ProviderInfo`)
+export interface WalletInfo {
+  // Random per page load; only good for telling wallets apart in this session
+  uuid: string;
+  name: string;
+  // Data URI; empty for legacy injections
+  icon: string;
+  // Reverse-DNS id (e.g. "io.metamask"), stable across reloads
+  rdns: string;
+}
+
+export interface DiscoveredWallet {
+  info: WalletInfo;
+  provider: EIP1193Provider;
+  // Found on `window.ethereum` rather than announced through EIP-6963
+  legacy: boolean;
+}
+
+type AnnounceProviderEvent = CustomEvent<{ info: WalletInfo; provider: EIP1193Provider }>;
+
+type LegacyProvider = EIP1193Provider & {
+  providers?: LegacyProvider[];
+  isMetaMask?: boolean;
+  isRabby?: boolean;
+  isCoinbaseWallet?: boolean;
+};
+
+const ANNOUNCE_EVENT = "eip6963:announceProvider";
+const REQUEST_EVENT = "eip6963:requestProvider";
+
+function legacyInfo(p: LegacyProvider, index: number): WalletInfo {
+  // Rabby also sets `isMetaMask`, so check it first
+  const [name, rdns] = p.isRabby
+    ? ["Rabby", "io.rabby"]
+    : p.isCoinbaseWallet
+      ? ["Coinbase Wallet", "com.coinbase.wallet"]
+      : p.isMetaMask
+        ? ["MetaMask", "io.metamask"]
+        : ["Browser wallet", "injected"];
+  return { uuid: `legacy-${index}`, name, icon: "", rdns };
+}
+
+// Wallets injected the pre-EIP-6963 way: `window.ethereum`, or its
+// `providers` array when several wallets share it
+export function getLegacyWallets(): DiscoveredWallet[] {
+  const eth = (globalThis as unknown as { ethereum?: LegacyProvider }).ethereum;
+  if (!eth) return [];
+  const providers = Array.isArray(eth.providers) ? eth.providers : [eth];
+  return providers
+    .filter((p) => typeof p?.request === "function")
+    .map((provider, i) => ({ info: legacyInfo(provider, i), provider, legacy: true }));
+}
+
+// Calls `onChange` with every wallet found so far: EIP-6963 announcements
+// first, then legacy injections that did not also announce themselves.
+// Wallets can announce at any time (e.g. after their extension loads), so this
+// keeps listening until the returned function is called.
+export function watchWallets(onChange: (wallets: DiscoveredWallet[]) => void): () => void {
+  const announced = new Map<string, DiscoveredWallet>();
+
+  const emit = () => {
+    const wallets = [...announced.values()];
+    const providers = new Set(wallets.map((w) => w.provider));
+    const rdns = new Set(wallets.map((w) => w.info.rdns));
+    for (const w of getLegacyWallets()) {
+      if (!providers.has(w.provider) && !rdns.has(w.info.rdns)) wallets.push(w);
+    }
+    onChange(wallets);
+  };
+
+  const onAnnounce = (event: Event) => {
+    const { info, provider } = (event as AnnounceProviderEvent).detail ?? {};
+    if (!info?.uuid || typeof provider?.request !== "function") return;
+    announced.set(info.uuid, { info, provider, legacy: false });
+    emit();
+  };
+
+  window.addEventListener(ANNOUNCE_EVENT, onAnnounce);
+  window.dispatchEvent(new Event(REQUEST_EVENT));
+  // Legacy-only browsers never announce; report them without waiting
+  const initial = setTimeout(emit, 0);
+
+  return () => {
+    clearTimeout(initial);
+    window.removeEventListener(ANNOUNCE_EVENT, onAnnounce);
+  };
+}
+
+// One-shot discovery: the wallets that announced within `waitMs`
+export function discoverWallets(waitMs = 300): Promise<DiscoveredWallet[]> {
+  return new Promise((resolve) => {
+    let latest: DiscoveredWallet[] = [];
+    const stop = watchWallets((wallets) => {
+      latest = wallets;
+    });
+    setTimeout(() => {
+      stop();
+      resolve(latest);
+    }, waitMs);
+  });
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// Accounts and the remembered wallet
+// ════════════════════════════════════════════════════════════════════════════
+
+const STORAGE_KEY = "welot.wallet";
+
+// First account in an `eth_accounts`-style result, checksummed
+export function firstAddress(result: unknown): Address | undefined {
+  const first = Array.isArray(result) ? result[0] : undefined;
+  return typeof first === "string" && isAddress(first) ? getAddress(first) : undefined;
+}
+
+// Prompts the wallet to connect and returns the selected account
+export async function requestAccount(provider: EIP1193Provider): Promise<Address | undefined> {
+  return firstAddress(await provider.request({ method: "eth_requestAccounts" }));
+}
+
+// The account already connected to this site, without prompting
+export async function getAuthorizedAccount(provider: EIP1193Provider): Promise<Address | undefined> {
+  try {
+    return firstAddress(await provider.request({ method: "eth_accounts" }));
+  } catch {
+    return undefined;
+  }
+}
+
+// Remembers the wallet by `rdns` (the uuid changes on every load); null forgets it
+export function rememberWallet(info: WalletInfo | null): void {
+  try {
+    if (info) localStorage.setItem(STORAGE_KEY, info.rdns);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage blocked (private mode): the user picks again next time
+  }
+}
+
+export function getRememberedWalletId(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+// The remembered wallet and its account, if it is installed and still has
+// this site connected. Never prompts.
+export async function reconnectRememberedWallet(
+  wallets: DiscoveredWallet[]
+): Promise<{ wallet: DiscoveredWallet; account: Address } | null> {
+  const rdns = getRememberedWalletId();
+  const wallet = rdns ? wallets.find((w) => w.info.rdns === rdns) : undefined;
+  if (!wallet) return null;
+  const account = await getAuthorizedAccount(wallet.provider);
+  return account ? { wallet, account } : null;
+}
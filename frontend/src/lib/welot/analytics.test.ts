@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Address } from "viem";
+
+import { summarizeProtocol } from "./analytics";
+import type { PastWinner, TokenSnapshot, VaultSnapshot } from "./types";
+
+const USDC: Address = "0x00000000000000000000000000000000000000b1";
+const WETH: Address = "0x00000000000000000000000000000000000000b2";
+const E6 = 10n ** 6n;
+const E18 = 10n ** 18n;
+
+function token(
+  address: Address,
+  symbol: string,
+  decimals: number,
+  amounts: { assets: bigint; deposits: bigint; unclaimed: bigint; prizePool: bigint },
+  poolDeposits: [bigint, bigint][]
+): TokenSnapshot {
+  return {
+    address,
+    symbol,
+    config: {
+      enabled: true,
+      yieldVault: address,
+      decimals,
+      totalDeposits: amounts.deposits,
+      totalUnclaimedPrizes: amounts.unclaimed,
+    },
+    prizePool: amounts.prizePool,
+    totalAssets: amounts.assets,
+    poolDeposits: poolDeposits.map(([poolId, deposits]) => ({ poolId, deposits })),
+  };
+}
+
+const winner = (epochId: bigint, winningPoolId: bigint, totalPrizeNormalized: bigint): PastWinner => ({
+  epochId,
+  timestamp: 1_700_000_000n + epochId,
+  winningPoolId,
+  totalPrizeNormalized,
+});
+
+function snapshot(tokens: TokenSnapshot[], pastWinners: PastWinner[]): VaultSnapshot {
+  return {
+    protocol: { pastWinners } as VaultSnapshot["protocol"],
+    poolIds: [1n, 2n, 3n],
+    pools: [],
+    tokens,
+  };
+}
+
+describe("summarizeProtocol", () => {
+  // USDC is solvent with 2 USDC of surplus; WETH lost 1 WETH in its yield vault
+  const usdcAmounts = { assets: 105n * E6, deposits: 100n * E6, unclaimed: 3n * E6, prizePool: 2n * E6 };
+  const usdc = token(USDC, "USDC", 6, usdcAmounts, [
+    [1n, 25n * E6],
+    [2n, 75n * E6],
+  ]);
+  const weth = token(WETH, "WETH", 18, { assets: 9n * E18, deposits: 10n * E18, unclaimed: 0n, prizePool: 0n }, [
+    [1n, 10n * E18],
+  ]);
+  const summary = summarizeProtocol(
+    snapshot([usdc, weth], [winner(3n, 2n, 3n * E18), winner(2n, 1n, E18), winner(1n, 2n, 5n * E18)])
+  );
+
+  it("reports liabilities and any shortfall per token", () => {
+    assert.deepEqual(
+      summary.tokens.map((t) => [t.symbol, t.liabilities, t.surplus, t.shortfall]),
+      [
+        ["USDC", 103n * E6, 2n * E6, 0n],
+        ["WETH", 10n * E18, 0n, E18],
+      ]
+    );
+    assert.equal(summary.tvlNormalized, 114n * E18);
+    assert.equal(summary.liabilitiesNormalized, 113n * E18);
+    assert.equal(summary.surplusNormalized, 2n * E18);
+  });
+
+  it("gives each pool its share of all deposits, normalized across tokens", () => {
+    // Pool 1: 25 USDC + 10 WETH = 35e18, pool 2: 75e18, of 110e18
+    assert.deepEqual(
+      summary.pools.map((p) => [p.poolId, p.deposits, p.totalNormalized, p.share]),
+      [
+        [1n, [25n * E6, 10n * E18], 35n * E18, 0.318181],
+        [2n, [75n * E6, 0n], 75n * E18, 0.681818],
+        [3n, [0n, 0n], 0n, 0],
+      ]
+    );
+  });
+
+  it("counts wins and sums the prize history", () => {
+    assert.deepEqual(summary.pools.map((p) => p.wins), [1, 2, 0]);
+    const { draws, ...totals } = summary.prizes;
+    assert.equal(draws.length, 3);
+    assert.deepEqual(totals, { totalNormalized: 9n * E18, averageNormalized: 3n * E18, largestNormalized: 5n * E18 });
+  });
+
+  it("reports zeros for an empty vault", () => {
+    const empty = summarizeProtocol(snapshot([], []));
+    assert.deepEqual(
+      empty.pools.map((p) => [p.share, p.wins]),
+      [
+        [0, 0],
+        [0, 0],
+        [0, 0],
+      ]
+    );
+    assert.deepEqual(empty.prizes, { draws: [], totalNormalized: 0n, averageNormalized: 0n, largestNormalized: 0n });
+    assert.equal(empty.tvlNormalized, 0n);
+  });
+});
@@ -0,0 +1,106 @@
+import type { Address } from "viem";
+
+import type { PastWinner, VaultSnapshot } from "./types";
+import { to18 } from "./units";
+
+export interface TokenAnalytics {
+  address: Address;
+  symbol: string;
+  decimals: number;
+  // Everything below is in token decimals
+  totalAssets: bigint;
+  totalDeposits: bigint;
+  totalUnclaimedPrizes: bigint;
+  // Deposits plus unclaimed prizes: what the vault owes its users
+  liabilities: bigint;
+  // `currentPrizePool`: assets above liabilities, 0 while under water
+  surplus: bigint;
+  // Liabilities the assets do not cover; 0 when solvent
+  shortfall: bigint;
+}
+
+export interface PoolAnalytics {
+  poolId: bigint;
+  // Per token, in the token's decimals; same order as `tokens`
+  deposits: bigint[];
+  // Across tokens, normalized to 18 decimals
+  totalNormalized: bigint;
+  // Share of all deposits, 0..1
+  share: number;
+  // Draws this pool won within `prizes`
+  wins: number;
+}
+
+export interface PrizeHistory {
+  // Newest first, as `getPastWinners` returns them
+  draws: PastWinner[];
+  // Sums over `draws`, normalized to 18 decimals
+  totalNormalized: bigint;
+  averageNormalized: bigint;
+  largestNormalized: bigint;
+}
+
+export interface ProtocolAnalytics {
+  tokens: TokenAnalytics[];
+  pools: PoolAnalytics[];
+  prizes: PrizeHistory;
+  // Normalized to 18 decimals
+  tvlNormalized: bigint;
+  liabilitiesNormalized: bigint;
+  surplusNormalized: bigint;
+}
+
+// Protocol-wide view of a snapshot (load it without a user and with as many
+// past winners as the history should cover). Liabilities and surplus follow
+// `currentPrizePool`: assets minus deposits and unclaimed prizes, floored at 0.
+export function summarizeProtocol(snapshot: VaultSnapshot): ProtocolAnalytics {
+  const tokens: TokenAnalytics[] = snapshot.tokens.map((t) => {
+    const { totalDeposits, totalUnclaimedPrizes, decimals } = t.config;
+    const liabilities = totalDeposits + totalUnclaimedPrizes;
+    return {
+      address: t.address,
+      symbol: t.symbol,
+      decimals,
+      totalAssets: t.totalAssets,
+      totalDeposits,
+      totalUnclaimedPrizes,
+      liabilities,
+      surplus: t.prizePool,
+      shortfall: liabilities > t.totalAssets ? liabilities - t.totalAssets : 0n,
+    };
+  });
+
+  const draws = snapshot.protocol.pastWinners;
+  const poolTotals = snapshot.poolIds.map((poolId) =>
+    snapshot.tokens.reduce(
+      (sum, t) => sum + to18(t.poolDeposits.find((p) => p.poolId === poolId)?.deposits ?? 0n, t.config.decimals),
+      0n
+    )
+  );
+  const allDeposits = poolTotals.reduce((a, b) => a + b, 0n);
+  const pools: PoolAnalytics[] = snapshot.poolIds.map((poolId, i) => ({
+    poolId,
+    deposits: snapshot.tokens.map((t) => t.poolDeposits.find((p) => p.poolId === poolId)?.deposits ?? 0n),
+    totalNormalized: poolTotals[i],
+    share: allDeposits === 0n ? 0 : Number((poolTotals[i] * 1_000_000n) / allDeposits) / 1_000_000,
+    wins: draws.filter((d) => d.winningPoolId === poolId).length,
+  }));
+
+  const totalPrizes = draws.reduce((sum, d) => sum + d.totalPrizeNormalized, 0n);
+  const sumNormalized = (value: (t: TokenAnalytics) => bigint) =>
+    tokens.reduce((sum, t) => sum + to18(value(t), t.decimals), 0n);
+
+  return {
+    tokens,
+    pools,
+    prizes: {
+      draws,
+      totalNormalized: totalPrizes,
+      averageNormalized: draws.length === 0 ? 0n : totalPrizes / BigInt(draws.length),
+      largestNormalized: draws.reduce((max, d) => (d.totalPrizeNormalized > max ? d.totalPrizeNormalized : max), 0n),
+    },
+    tvlNormalized: sumNormalized((t) => t.totalAssets),
+    liabilitiesNormalized: sumNormalized((t) => t.liabilities),
+    surplusNormalized: sumNormalized((t) => t.surplus),
+  };
+}
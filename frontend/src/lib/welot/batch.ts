@@ -0,0 +1,60 @@
+import type { Abi, Address } from "viem";
+
+import type { WelotPublicClient } from "./client";
+
+export interface ReadCall {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+export type ReadResult = { ok: true; value: unknown } | { ok: false; error: unknown };
+
+export function hasMulticall(client: WelotPublicClient): boolean {
+  return Boolean(client.chain.contracts?.multicall3);
+}
+
+// Executes `calls` as a single Multicall3 `aggregate3` when the chain has a
+// Multicall3 deployment, otherwise one `eth_call` at a time (e.g. local Anvil).
+// Individual failures are reported per call instead of failing the batch.
+// With `blockNumber` every call reads the same block.
+export async function readBatch(
+  client: WelotPublicClient,
+  calls: readonly ReadCall[],
+  opts: { blockNumber?: bigint } = {}
+): Promise<ReadResult[]> {
+  if (calls.length === 0) return [];
+
+  if (hasMulticall(client)) {
+    const results = await client.multicall({
+      contracts: calls as ReadCall[],
+      allowFailure: true,
+      blockNumber: opts.blockNumber,
+    });
+    return results.map((r) =>
+      r.status === "success" ? { ok: true, value: r.result } : { ok: false, error: r.error }
+    );
+  }
+
+  const out: ReadResult[] = [];
+  for (const call of calls) {
+    try {
+      out.push({ ok: true, value: await client.readContract({ ...call, blockNumber: opts.blockNumber }) });
+    } catch (error) {
+      out.push({ ok: false, error });
+    }
+  }
+  return out;
+}
+
+// Unwraps a required result, rethrowing the original call error.
+export function unwrap<T>(result: ReadResult): T {
+  if (!result.ok) throw result.error;
+  return result.value as T;
+}
+
+// Unwraps an optional result (e.g. a method missing on older deployments).
+export function unwrapOr<T>(result: ReadResult, fallback: T): T {
+  return result.ok ? (result.value as T) : fallback;
+}
@@ -0,0 +1,404 @@
+import { maxUint256 } from "viem";
+import type {
+  Address,
+  Chain,
+  EIP1193Provider,
+  Hash,
+  PublicClient,
+  TransactionReceipt,
+  Transport,
+  WalletClient,
+} from "viem";
+
+import { erc20Abi, erc4626Abi, lendleYieldVaultAbi, welotVaultAbi } from "../abis";
+import { getChain } from "../chains";
+import { getPublicClient, getWalletClient } from "../clients";
+import { CONFIG } from "../config";
+import { readBatch, unwrap, unwrapOr } from "./batch";
+import { decodeEpoch, decodePastWinners, decodePool, decodeTokenConfig } from "./decode";
+import { loadVaultSnapshot, type VaultSnapshotOptions } from "./snapshot";
+import type {
+  Epoch,
+  PastWinner,
+  PoolState,
+  ProtocolSnapshot,
+  TokenConfig,
+  UserPositions,
+  UserTokenPosition,
+  VaultSnapshot,
+  VaultToken,
+  WithdrawLiquidity,
+} from "./types";
+
+export type WelotPublicClient = PublicClient<Transport, Chain>;
+export type WelotWalletClient = WalletClient<Transport, Chain>;
+
+export interface WelotClientOptions {
+  vaultAddress: Address;
+  publicClient: WelotPublicClient;
+  // Required for writes only
+  walletClient?: WelotWalletClient;
+  account?: Address;
+}
+
+// Typed wrapper around a single WelotVault deployment.
+// Reads go through `publicClient`. Writes are simulated first, so a revert
+// throws before the wallet prompts (decode it with `describeContractError`),
+// then signed by `walletClient`; they wait for the receipt before resolving.
+export class WelotClient {
+  readonly vaultAddress: Address;
+  readonly publicClient: WelotPublicClient;
+  readonly walletClient?: WelotWalletClient;
+  readonly account?: Address;
+
+  constructor(opts: WelotClientOptions) {
+    this.vaultAddress = opts.vaultAddress;
+    this.publicClient = opts.publicClient;
+    this.walletClient = opts.walletClient;
+    this.account = opts.account;
+  }
+
+  // Returns a copy of this client that signs with the given wallet.
+  withWallet(walletClient: WelotWalletClient, account: Address): WelotClient {
+    return new WelotClient({
+      vaultAddress: this.vaultAddress,
+      publicClient: this.publicClient,
+      walletClient,
+      account,
+    });
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // READS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async getSupportedTokenAddresses(): Promise<Address[]> {
+    const len = await this.publicClient.readContract({
+      address: this.vaultAddress,
+      abi: welotVaultAbi,
+      functionName: "supportedTokensLength",
+    });
+
+    const out: Address[] = [];
+    for (let i = 0n; i < len; i++) {
+      out.push(
+        await this.publicClient.readContract({
+          address: this.vaultAddress,
+          abi: welotVaultAbi,
+          functionName: "getSupportedToken",
+          args: [i],
+        })
+      );
+    }
+    return out;
+  }
+
+  async getTokenConfig(token: Address): Promise<TokenConfig> {
+    const raw = await this.publicClient.readContract({
+      address: this.vaultAddress,
+      abi: welotVaultAbi,
+      functionName: "tokenConfigs",
+      args: [token],
+    });
+    return decodeTokenConfig(raw);
+  }
+
+  async getTokenSymbol(token: Address): Promise<string> {
+    try {
+      return await this.publicClient.readContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: "symbol",
+      });
+    } catch {
+      return "TOKEN";
+    }
+  }
+
+  async getSupportedTokens(): Promise<VaultToken[]> {
+    const addresses = await this.getSupportedTokenAddresses();
+    const tokens: VaultToken[] = [];
+    for (const address of addresses) {
+      const [config, symbol] = await Promise.all([
+        this.getTokenConfig(address),
+        this.getTokenSymbol(address),
+      ]);
+      tokens.push({ address, symbol, config });
+    }
+    return tokens;
+  }
+
+  async getEpoch(epochId: bigint): Promise<Epoch> {
+    const raw = await this.publicClient.readContract({
+      address: this.vaultAddress,
+      abi: welotVaultAbi,
+      functionName: "epochs",
+      args: [epochId],
+    });
+    return decodeEpoch(epochId, raw);
+  }
+
+  async getCurrentEpoch(): Promise<Epoch> {
+    const epochId = await this.publicClient.readContract({
+      address: this.vaultAddress,
+      abi: welotVaultAbi,
+      functionName: "currentEpochId",
+    });
+    return this.getEpoch(epochId);
+  }
+
+  async getPool(poolId: bigint): Promise<PoolState> {
+    const raw = await this.publicClient.readContract({
+      address: this.vaultAddress,
+      abi: welotVaultAbi,
+      functionName: "pools",
+      args: [poolId],
+    });
+    return decodePool(poolId, raw);
+  }
+
+  async getPoolIds(): Promise<bigint[]> {
+    const len = await this.publicClient.readContract({
+      address: this.vaultAddress,
+      abi: welotVaultAbi,
+      functionName: "poolIdsLength",
+    });
+
+    const out: bigint[] = [];
+    for (let i = 0n; i < len; i++) {
+      out.push(
+        await this.publicClient.readContract({
+          address: this.vaultAddress,
+          abi: welotVaultAbi,
+          functionName: "poolIds",
+          args: [i],
+        })
+      );
+    }
+    return out;
+  }
+
+  async getPoolTokenDeposits(token: Address, poolId: bigint): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.vaultAddress,
+      abi: welotVaultAbi,
+      functionName: "poolTokenDeposits",
+      args: [token, poolId],
+    });
+  }
+
+  async getCurrentPrizePool(token: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.vaultAddress,
+      abi: welotVaultAbi,
+      functionName: "currentPrizePool",
+      args: [token],
+    });
+  }
+
+  async getAssignedPoolId(user: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.vaultAddress,
+      abi: welotVaultAbi,
+      functionName: "assignedPoolId",
+      args: [user],
+    });
+  }
+
+  // Newest first. Returns an empty list on deployments without the ring buffer.
+  async getPastWinners(limit = 10n): Promise<PastWinner[]> {
+    try {
+      const rows = await this.publicClient.readContract({
+        address: this.vaultAddress,
+        abi: welotVaultAbi,
+        functionName: "getPastWinners",
+        args: [limit],
+      });
+      return decodePastWinners(rows);
+    } catch {
+      return [];
+    }
+  }
+
+  async getProtocolSnapshot(): Promise<ProtocolSnapshot> {
+    const [prizePoolTotal, epoch, timeUntilDraw, pastWinners] = await Promise.all([
+      this.publicClient.readContract({
+        address: this.vaultAddress,
+        abi: welotVaultAbi,
+        functionName: "currentPrizePoolTotal",
+      }),
+      this.getCurrentEpoch(),
+      this.publicClient.readContract({
+        address: this.vaultAddress,
+        abi: welotVaultAbi,
+        functionName: "getTimeUntilDraw",
+      }),
+      this.getPastWinners(),
+    ]);
+
+    return { epoch, timeUntilDraw, prizePoolTotal, pastWinners };
+  }
+
+  // Everything a dashboard needs in two batched round-trips (Multicall3 where
+  // available). See `loadVaultSnapshot`.
+  async getVaultSnapshot(opts?: VaultSnapshotOptions): Promise<VaultSnapshot> {
+    return loadVaultSnapshot(this, opts);
+  }
+
+  // Positions of `user` in their assigned pool, one entry per token.
+  // `tokens` defaults to every token currently supported by the vault;
+  // `poolId` defaults to `assignedPoolId(user)`.
+  async getUserPositions(user: Address, tokens?: Address[], poolId?: bigint): Promise<UserPositions> {
+    const [resolvedPoolId, tokenList] = await Promise.all([
+      poolId ?? this.getAssignedPoolId(user),
+      tokens ?? this.getSupportedTokenAddresses(),
+    ]);
+
+    const positions: UserTokenPosition[] = [];
+    for (const token of tokenList) {
+      const [pos, balance, allowance] = await Promise.all([
+        this.publicClient.readContract({
+          address: this.vaultAddress,
+          abi: welotVaultAbi,
+          functionName: "getUserPosition",
+          args: [token, resolvedPoolId, user],
+        }),
+        this.publicClient.readContract({
+          address: token,
+          abi: erc20Abi,
+          functionName: "balanceOf",
+          args: [user],
+        }),
+        this.publicClient.readContract({
+          address: token,
+          abi: erc20Abi,
+          functionName: "allowance",
+          args: [user, this.vaultAddress],
+        }),
+      ]);
+
+      positions.push({
+        token,
+        poolId: resolvedPoolId,
+        deposited: pos[0],
+        claimable: pos[1],
+        balance,
+        allowance,
+      });
+    }
+
+    return { user, poolId: resolvedPoolId, positions };
+  }
+
+  // Whether the vault could withdraw `amount` of `token` from its yield vault
+  // right now. Checks `maxWithdraw` and, for Lendle-backed vaults, the
+  // underlying left in the aToken, since a lent-out reserve makes `withdraw` revert.
+  async getWithdrawLiquidity(token: Address, amount: bigint): Promise<WithdrawLiquidity> {
+    const { yieldVault } = await this.getTokenConfig(token);
+    const [maxWithdraw, preview, aTokenResult] = await readBatch(this.publicClient, [
+      { address: yieldVault, abi: erc4626Abi, functionName: "maxWithdraw", args: [this.vaultAddress] },
+      { address: yieldVault, abi: erc4626Abi, functionName: "previewWithdraw", args: [amount] },
+      { address: yieldVault, abi: lendleYieldVaultAbi, functionName: "aToken" },
+    ]);
+
+    const max = unwrap<bigint>(maxWithdraw);
+    const aToken = unwrapOr<Address | null>(aTokenResult, null);
+    const aTokenLiquidity = aToken
+      ? await this.publicClient.readContract({ address: token, abi: erc20Abi, functionName: "balanceOf", args: [aToken] })
+      : null;
+    const available = aTokenLiquidity !== null && aTokenLiquidity < max ? aTokenLiquidity : max;
+
+    return {
+      token,
+      amount,
+      yieldVault,
+      maxWithdraw: max,
+      previewShares: unwrapOr<bigint | null>(preview, null),
+      aToken,
+      aTokenLiquidity,
+      available,
+      sufficient: amount <= available,
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // WRITES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async approve(token: Address, amount: bigint = maxUint256): Promise<TransactionReceipt> {
+    const { walletClient, account } = this.requireWallet();
+    const { request } = await this.publicClient.simulateContract({
+      address: token,
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [this.vaultAddress, amount],
+      account,
+    });
+    const hash = await walletClient.writeContract(request);
+    return this.waitFor(hash);
+  }
+
+  async deposit(token: Address, amount: bigint): Promise<TransactionReceipt> {
+    const { walletClient, account } = this.requireWallet();
+    const { request } = await this.publicClient.simulateContract({
+      address: this.vaultAddress,
+      abi: welotVaultAbi,
+      functionName: "deposit",
+      args: [token, amount],
+      account,
+    });
+    const hash = await walletClient.writeContract(request);
+    return this.waitFor(hash);
+  }
+
+  async withdraw(token: Address, amount: bigint): Promise<TransactionReceipt> {
+    const { walletClient, account } = this.requireWallet();
+    const { request } = await this.publicClient.simulateContract({
+      address: this.vaultAddress,
+      abi: welotVaultAbi,
+      functionName: "withdraw",
+      args: [token, amount],
+      account,
+    });
+    const hash = await walletClient.writeContract(request);
+    return this.waitFor(hash);
+  }
+
+  async claimPrize(token: Address): Promise<TransactionReceipt> {
+    const { walletClient, account } = this.requireWallet();
+    const { request } = await this.publicClient.simulateContract({
+      address: this.vaultAddress,
+      abi: welotVaultAbi,
+      functionName: "claimPrize",
+      args: [token],
+      account,
+    });
+    const hash = await walletClient.writeContract(request);
+    return this.waitFor(hash);
+  }
+
+  private requireWallet(): { walletClient: WelotWalletClient; account: Address } {
+    if (!this.walletClient || !this.account) {
+      throw new Error("WelotClient: wallet not connected");
+    }
+    return { walletClient: this.walletClient, account: this.account };
+  }
+
+  private waitFor(hash: Hash): Promise<TransactionReceipt> {
+    return this.publicClient.waitForTransactionReceipt({ hash });
+  }
+}
+
+// Client for the vault deployed on the selected chain (`CONFIG.vaultAddress`).
+// Pass an injected provider and account to enable writes.
+export function getWelotClient(ethereum?: EIP1193Provider, account?: Address): WelotClient {
+  if (!CONFIG.vaultAddress) {
+    throw new Error(`No vault configured for ${getChain().name}: add it to DEPLOYMENTS or set NEXT_PUBLIC_WELOT_VAULT`);
+  }
+  return new WelotClient({
+    vaultAddress: CONFIG.vaultAddress,
+    publicClient: getPublicClient(),
+    walletClient: ethereum ? getWalletClient(ethereum) : undefined,
+    account,
+  });
+}
@@ -0,0 +1,60 @@
+import type { Address, Hex } from "viem";
+
+import type { Epoch, EpochStatus, PastWinner, PoolState, TokenConfig } from "./types";
+
+// Public mapping getters return positional tuples; these helpers turn them
+// into named objects so callers never index into `epoch[2]` or `config[1]`.
+
+type EpochTuple = readonly [bigint, bigint, number, bigint, Hex, bigint, bigint];
+type TokenConfigTuple = readonly [boolean, Address, number, bigint, bigint];
+type PoolTuple = readonly [boolean, bigint, bigint, bigint, bigint];
+
+export function decodeEpoch(id: bigint, raw: EpochTuple): Epoch {
+  return {
+    id,
+    start: raw[0],
+    end: raw[1],
+    status: raw[2] as EpochStatus,
+    entropySequence: raw[3],
+    randomness: raw[4],
+    prize: raw[5],
+    winningPoolId: raw[6],
+  };
+}
+
+export function decodeTokenConfig(raw: TokenConfigTuple): TokenConfig {
+  return {
+    enabled: raw[0],
+    yieldVault: raw[1],
+    decimals: raw[2],
+    totalDeposits: raw[3],
+    totalUnclaimedPrizes: raw[4],
+  };
+}
+
+export function decodePool(id: bigint, raw: PoolTuple): PoolState {
+  return {
+    id,
+    exists: raw[0],
+    totalDeposits: raw[1],
+    cumulative: raw[2],
+    lastTimestamp: raw[3],
+    lastBalance: raw[4],
+  };
+}
+
+export function decodePastWinners(
+  rows: readonly {
+    epochId: bigint;
+    timestamp: bigint;
+    winningPoolId: bigint;
+    totalPrizeNormalized: bigint;
+  }[]
+): PastWinner[] {
+  return rows.map((r) => ({
+    epochId: r.epochId,
+    timestamp: r.timestamp,
+    winningPoolId: r.winningPoolId,
+    totalPrizeNormalized: r.totalPrizeNormalized,
+  }));
+}
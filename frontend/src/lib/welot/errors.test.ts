@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  encodeErrorResult,
+  UserRejectedRequestError,
+  type Abi,
+  type Address,
+  type Hex,
+} from "viem";
+
+import { externalErrorsAbi, welotVaultAbi } from "../abis";
+import { decodeContractError, describeContractError } from "./errors";
+
+const VAULT: Address = "0x00000000000000000000000000000000000000f1";
+const USER: Address = "0x00000000000000000000000000000000000000a1";
+const USDC: Address = "0x00000000000000000000000000000000000000b1";
+
+// The error viem throws from `writeContract` / `simulateContract` when the call
+// reverts with `data`. `abi` is the ABI of the called contract; an error from
+// a contract further down the call is not in it and only `raw` is set.
+function revert(data: Hex, abi: Abi = welotVaultAbi): ContractFunctionExecutionError {
+  const cause = new ContractFunctionRevertedError({ abi, data, functionName: "deposit" });
+  return new ContractFunctionExecutionError(cause, {
+    abi,
+    functionName: "deposit",
+    args: [USDC, 1n],
+    contractAddress: VAULT,
+  });
+}
+
+describe("decodeContractError", () => {
+  it("decodes a vault error and explains it", () => {
+    const err = revert(encodeErrorResult({ abi: welotVaultAbi, errorName: "WelotVault__TokenNotSupported" }));
+    const decoded = decodeContractError(err);
+    assert.equal(decoded?.errorName, "WelotVault__TokenNotSupported");
+    assert.deepEqual(decoded?.args, []);
+    assert.equal(decoded?.explanation?.message, "That token was removed from the vault.");
+    assert.equal(
+      describeContractError(err),
+      "That token was removed from the vault. " +
+        "Pick another token. Removed tokens hold no deposits; prizes left unclaimed in one can't be claimed anymore."
+    );
+  });
+
+  it("decodes an error raised by a contract the call went through", () => {
+    const data = encodeErrorResult({
+      abi: externalErrorsAbi,
+      errorName: "ERC20InsufficientAllowance",
+      args: [VAULT, 5n, 10n],
+    });
+    const err = revert(data, []);
+    assert.equal((err.cause as ContractFunctionRevertedError).data, undefined);
+
+    const decoded = decodeContractError(err);
+    assert.equal(decoded?.errorName, "ERC20InsufficientAllowance");
+    assert.deepEqual(decoded?.args, [VAULT, 5n, 10n]);
+    assert.equal(
+      describeContractError(err),
+      "The vault is not approved to spend that much. Approve the token, then deposit again."
+    );
+  });
+
+  it("names a known error without an explanation", () => {
+    const err = revert(encodeErrorResult({ abi: welotVaultAbi, errorName: "OwnableInvalidOwner", args: [USER] }));
+    assert.equal(decodeContractError(err)?.explanation, null);
+    assert.equal(describeContractError(err), "The transaction would revert with OwnableInvalidOwner.");
+  });
+
+  it("returns null for anything that is not a custom-error revert", () => {
+    const requireString = encodeErrorResult({
+      abi: [{ type: "error", name: "Error", inputs: [{ type: "string", name: "message" }] }],
+      errorName: "Error",
+      args: ["nope"],
+    });
+    assert.equal(decodeContractError(revert(requireString)), null);
+    // A selector none of our ABIs know
+    assert.equal(decodeContractError(revert("0xdeadbeef", [])), null);
+    assert.equal(decodeContractError(new UserRejectedRequestError(new Error("rejected"))), null);
+    assert.equal(decodeContractError(new Error("execution reverted")), null);
+    assert.equal(describeContractError("oops"), null);
+  });
+});
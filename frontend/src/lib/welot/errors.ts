@@ -0,0 +1,148 @@
+import { BaseError, ContractFunctionRevertedError, decodeErrorResult, type Abi, type Hex } from "viem";
+
+import { externalErrorsAbi, faucetAbi, welotVaultAbi } from "../abis";
+
+export interface ErrorExplanation {
+  // What went wrong, in the user's terms
+  message: string;
+  // What to do about it
+  fix?: string;
+}
+
+export interface DecodedContractError {
+  errorName: string;
+  args: readonly unknown[];
+  // Null for errors without an entry in `CONTRACT_ERRORS`
+  explanation: ErrorExplanation | null;
+}
+
+// Every custom error a user-facing write can hit, keyed by error name
+export const CONTRACT_ERRORS: Record<string, ErrorExplanation> = {
+  // WelotVault
+  WelotVault__ZeroAmount: { message: "The amount is zero.", fix: "Enter an amount greater than 0." },
+  WelotVault__InsufficientBalance: {
+    message: "You don't have that much deposited.",
+    fix: "Withdraw at most your deposited balance.",
+  },
+  WelotVault__TokenNotSupported: {
+    message: "That token was removed from the vault.",
+    fix: "Pick another token. Removed tokens hold no deposits; prizes left unclaimed in one can't be claimed anymore.",
+  },
+  WelotVault__TokenAlreadySupported: { message: "That token is already supported." },
+  WelotVault__InvalidToken: { message: "That is not a valid token address." },
+  WelotVault__InvalidAssignedPool: {
+    message: "That is not your pool. Every address is assigned one pool.",
+    fix: "Refresh the page so the app uses your assigned pool.",
+  },
+  WelotVault__PoolDoesNotExist: { message: "That pool does not exist.", fix: "Refresh the page and try again." },
+  WelotVault__MaxPoolsReached: { message: "The vault already has the maximum number of pools." },
+  WelotVault__InvalidEpochState: {
+    message: "The draw is in a different stage than this action needs.",
+    fix: "Wait for the current draw to finish, then try again.",
+  },
+  WelotVault__DrawNotReady: { message: "The draw is not due yet.", fix: "Wait until the countdown reaches zero." },
+  WelotVault__InsufficientFee: {
+    message: "The vault cannot pay the randomness fee for the draw.",
+    fix: "Send native tokens to the vault to cover the Entropy fee.",
+  },
+  WelotVault__NotAutomationForwarder: { message: "Only the automation forwarder can run upkeep." },
+  WelotVault__InvalidEntropy: { message: "The Entropy address is invalid." },
+  WelotVault__InvalidDrawInterval: { message: "The draw interval is invalid." },
+  WelotVault__HasDeposits: { message: "The vault still holds deposits in that token." },
+  EnforcedPause: {
+    message: "Deposits are paused.",
+    fix: "Withdrawals and prize claims still work. Deposit again once the vault is unpaused.",
+  },
+  ExpectedPause: { message: "The vault is not paused." },
+  OwnableUnauthorizedAccount: { message: "Only the vault owner can do this." },
+  ReentrancyGuardReentrantCall: { message: "The call re-entered the vault and was rejected." },
+  SafeERC20FailedOperation: {
+    message: "The token transfer failed.",
+    fix: "Check your balance and approval, then try again.",
+  },
+
+  // Tokens, yield vaults and Lendle
+  ERC20InsufficientBalance: {
+    message: "Your wallet balance is too low.",
+    fix: "Deposit less, or top up the token first (use Test Mode on testnets).",
+  },
+  ERC20InsufficientAllowance: {
+    message: "The vault is not approved to spend that much.",
+    fix: "Approve the token, then deposit again.",
+  },
+  ERC4626ExceededMaxDeposit: { message: "The yield vault does not accept that much right now.", fix: "Deposit less." },
+  ERC4626ExceededMaxWithdraw: {
+    message: "The lending pool doesn't have enough free liquidity for this withdrawal.",
+    fix: "Withdraw a smaller amount, or wait for borrowers to repay.",
+  },
+  MockLendlePool__InsufficientLiquidity: {
+    message: "The lending pool doesn't have enough free liquidity for this withdrawal.",
+    fix: "Withdraw a smaller amount, or wait for borrowers to repay.",
+  },
+  MockLendlePool__ReserveNotActive: { message: "The lending pool's reserve for this token is not active." },
+  LendleYieldVault__WithdrawAmountMismatch: {
+    message: "The lending pool returned less than requested.",
+    fix: "Try again with a smaller amount.",
+  },
+
+  // Test faucet
+  MockFaucet__ClaimCooldown: {
+    message: "You already claimed this token from the faucet.",
+    fix: "Wait for the cooldown to end.",
+  },
+  MockFaucet__TokenNotRegistered: { message: "The faucet does not hand out this token." },
+  MockFaucet__NotOwner: { message: "Only the faucet owner can do this." },
+};
+
+// Every error any of our contracts can revert with, for decoding raw revert data
+const REVERT_ABI = [...welotVaultAbi, ...faucetAbi, ...externalErrorsAbi].filter((item) => item.type === "error") as Abi;
+
+// Finds the revert in a viem error chain and decodes it. Reverts from a
+// contract the call went through are decoded too, as long as their error is
+// in one of our ABIs. Null when `err` is not a custom-error revert (e.g. the
+// user rejected the transaction, or a `require` string).
+export function decodeContractError(err: unknown): DecodedContractError | null {
+  if (!(err instanceof BaseError)) return null;
+  const reverted = err.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (!(reverted instanceof ContractFunctionRevertedError)) return null;
+
+  let errorName = reverted.data?.errorName;
+  let args: readonly unknown[] = reverted.data?.args ?? [];
+  if (!errorName && reverted.raw) {
+    try {
+      const decoded = decodeErrorResult({ abi: REVERT_ABI, data: reverted.raw as Hex });
+      errorName = decoded.errorName;
+      args = decoded.args ?? [];
+    } catch {
+      return null;
+    }
+  }
+  if (!errorName || errorName === "Error" || errorName === "Panic") return null;
+  return { errorName, args, explanation: CONTRACT_ERRORS[errorName] ?? null };
+}
+
+// "<message> <fix>" for a known custom error, else null so callers can fall
+// back to viem's own message
+export function describeContractError(err: unknown): string | null {
+  const decoded = decodeContractError(err);
+  if (!decoded) return null;
+  if (!decoded.explanation) return `The transaction would revert with ${decoded.errorName}.`;
+  const { message, fix } = decoded.explanation;
+  return fix ? `${message} ${fix}` : message;
+}
+
+// What to show for a failed action: the explanation of a custom-error revert,
+// else viem's short message (wallet rejections, RPC failures), else the message
+export function getErrorMessage(err: unknown): string {
+  if (typeof err === "string") return err;
+  const decoded = describeContractError(err);
+  if (decoded) return decoded;
+  if (err && typeof err === "object") {
+    const rec = err as Record<string, unknown>;
+    const shortMessage = rec["shortMessage"];
+    if (typeof shortMessage === "string" && shortMessage.trim()) return shortMessage;
+    const message = rec["message"];
+    if (typeof message === "string" && message.trim()) return message;
+  }
+  return String(err);
+}
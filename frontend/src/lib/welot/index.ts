@@ -0,0 +1,29 @@
+export { WelotClient, getWelotClient } from "./client";
+export type { WelotClientOptions, WelotPublicClient, WelotWalletClient } from "./client";
+export { hasMulticall, readBatch } from "./batch";
+export type { ReadCall, ReadResult } from "./batch";
+export { loadVaultSnapshot } from "./snapshot";
+export type { VaultSnapshotOptions } from "./snapshot";
+export { summarizeProtocol } from "./analytics";
+export type { PoolAnalytics, PrizeHistory, ProtocolAnalytics, TokenAnalytics } from "./analytics";
+export { estimatePoolOdds, estimateWinOdds, projectPoolWeight } from "./odds";
+export type { PoolOdds, TokenPrizeEstimate, WinOdds } from "./odds";
+export { CONTRACT_ERRORS, decodeContractError, describeContractError, getErrorMessage } from "./errors";
+export type { DecodedContractError, ErrorExplanation } from "./errors";
+export { decodeEpoch, decodePastWinners, decodePool, decodeTokenConfig } from "./decode";
+export { to18 } from "./units";
+export { EpochStatus } from "./types";
+export type {
+  Epoch,
+  PastWinner,
+  PoolState,
+  PoolTokenDeposits,
+  ProtocolSnapshot,
+  TokenConfig,
+  TokenSnapshot,
+  UserPositions,
+  UserTokenPosition,
+  VaultSnapshot,
+  VaultToken,
+  WithdrawLiquidity,
+} from "./types";
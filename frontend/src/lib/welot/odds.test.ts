@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Address } from "viem";
+
+import { estimatePoolOdds, estimateWinOdds, projectPoolWeight } from "./odds";
+import type { PoolState, TokenSnapshot, VaultSnapshot } from "./types";
+
+const USER: Address = "0x00000000000000000000000000000000000000a1";
+const USDC: Address = "0x00000000000000000000000000000000000000b1";
+const WETH: Address = "0x00000000000000000000000000000000000000b2";
+const END = 2000n;
+
+function pool(id: bigint, cumulative: bigint, lastTimestamp: bigint, lastBalance: bigint, exists = true): PoolState {
+  return { id, exists, totalDeposits: lastBalance, cumulative, lastTimestamp, lastBalance };
+}
+
+// Projected to END: pool 1 = 1000 + 2 × 500 = 2000, pool 2 = 0 + 3 × 1000 = 3000
+const POOLS = [pool(1n, 1000n, 1500n, 2n), pool(2n, 0n, 1000n, 3n), pool(3n, 999n, 0n, 1n, false)];
+
+const token = (address: Address, symbol: string, prizePool: bigint, pool2Deposits: bigint) =>
+  ({
+    address,
+    symbol,
+    prizePool,
+    poolDeposits: [
+      { poolId: 1n, deposits: 50n },
+      { poolId: 2n, deposits: pool2Deposits },
+    ],
+  }) as unknown as TokenSnapshot;
+
+function snapshot(pools: PoolState[]): VaultSnapshot {
+  return {
+    protocol: { epoch: { end: END } },
+    poolIds: pools.map((p) => p.id),
+    pools,
+    tokens: [token(USDC, "USDC", 1000n, 120n), token(WETH, "WETH", 10n ** 18n, 0n)],
+    user: {
+      user: USER,
+      poolId: 2n,
+      positions: [{ token: USDC, poolId: 2n, deposited: 30n }],
+    },
+  } as unknown as VaultSnapshot;
+}
+
+describe("projectPoolWeight", () => {
+  it("adds lastBalance for every second after the pool was last touched", () => {
+    const p = pool(1n, 1000n, 1500n, 7n);
+    assert.equal(projectPoolWeight(p, 1501n), 1000n + 7n * 1n);
+    assert.equal(projectPoolWeight(p, 4600n), 1000n + 7n * 3100n);
+  });
+
+  it("keeps the stored cumulative when `at` is not after lastTimestamp", () => {
+    const p = pool(1n, 1000n, 1500n, 7n);
+    assert.equal(projectPoolWeight(p, 1500n), 1000n);
+    assert.equal(projectPoolWeight(p, 1200n), 1000n);
+  });
+
+  it("gives a pool that does not exist no weight", () => {
+    assert.equal(projectPoolWeight(pool(3n, 999n, 0n, 1n, false), END), 0n);
+  });
+});
+
+describe("estimatePoolOdds", () => {
+  it("gives each pool weight / totalWeight", () => {
+    assert.deepEqual(estimatePoolOdds(POOLS, END), [
+      { poolId: 1n, weight: 2000n, probability: 0.4 },
+      { poolId: 2n, weight: 3000n, probability: 0.6 },
+      { poolId: 3n, weight: 0n, probability: 0 },
+    ]);
+  });
+
+  it("rounds probabilities down to PROBABILITY_SCALE", () => {
+    const [first] = estimatePoolOdds([pool(1n, 1n, END, 0n), pool(2n, 2n, END, 0n)], END);
+    assert.equal(first.probability, 0.333333);
+  });
+
+  it("gives every pool probability 0 while no pool has weight", () => {
+    const odds = estimatePoolOdds([pool(1n, 0n, 1000n, 0n), pool(2n, 0n, END, 5n)], END);
+    assert.deepEqual(
+      odds.map((o) => [o.weight, o.probability]),
+      [
+        [0n, 0],
+        [0n, 0],
+      ]
+    );
+  });
+});
+
+describe("estimateWinOdds", () => {
+  it("splits each prize pool by the reward index and weights it by the pool's chance", () => {
+    const odds = estimateWinOdds(snapshot(POOLS));
+    assert.ok(odds);
+    assert.equal(odds.at, END);
+    assert.equal(odds.poolId, 2n);
+    assert.equal(odds.probability, 0.6);
+
+    // 30 of pool 2's 120 USDC: 30 × (1000e18 / 120) / 1e18 = 249 (rounded down)
+    const index = (1000n * 10n ** 18n) / 120n;
+    assert.equal((30n * index) / 10n ** 18n, 249n);
+    assert.deepEqual(odds.prizes, [
+      { token: USDC, symbol: "USDC", prizePool: 1000n, ifWin: 249n, expected: (249n * 3000n) / 5000n },
+      // No WETH in the user's pool
+      { token: WETH, symbol: "WETH", prizePool: 10n ** 18n, ifWin: 0n, expected: 0n },
+    ]);
+  });
+
+  it("expects nothing while no pool has weight", () => {
+    const odds = estimateWinOdds(snapshot([pool(1n, 0n, END, 2n), pool(2n, 0n, END, 3n)]));
+    assert.ok(odds);
+    assert.equal(odds.probability, 0);
+    assert.deepEqual(
+      odds.prizes.map((p) => [p.ifWin, p.expected]),
+      [
+        [249n, 0n],
+        [0n, 0n],
+      ]
+    );
+  });
+
+  it("returns null without a user", () => {
+    assert.equal(estimateWinOdds({ ...snapshot(POOLS), user: undefined }), null);
+  });
+});
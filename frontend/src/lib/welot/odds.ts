@@ -0,0 +1,87 @@
+import type { Address } from "viem";
+
+import type { PoolState, VaultSnapshot } from "./types";
+
+const PRIZE_INDEX_SCALE = 10n ** 18n;
+const PROBABILITY_SCALE = 1_000_000n;
+
+export interface PoolOdds {
+  poolId: bigint;
+  // Cumulative time-weighted balance projected to the draw
+  weight: bigint;
+  // 0..1
+  probability: number;
+}
+
+export interface TokenPrizeEstimate {
+  token: Address;
+  symbol: string;
+  // Current prize pool of the token (token decimals)
+  prizePool: bigint;
+  // What the user is credited if their pool wins with the current prize pool
+  ifWin: bigint;
+  // `ifWin` weighted by the chance that their pool wins
+  expected: bigint;
+}
+
+export interface WinOdds {
+  // Timestamp the weights were projected to (the epoch end)
+  at: bigint;
+  poolId: bigint;
+  // Chance that the user's pool wins this draw, 0..1
+  probability: number;
+  pools: PoolOdds[];
+  prizes: TokenPrizeEstimate[];
+}
+
+// Mirrors `_accruePool`: the pool keeps accruing `lastBalance` per second
+// until `at`. A pool touched after `at` already includes that time.
+export function projectPoolWeight(pool: PoolState, at: bigint): bigint {
+  if (!pool.exists) return 0n;
+  if (at <= pool.lastTimestamp) return pool.cumulative;
+  return pool.cumulative + pool.lastBalance * (at - pool.lastTimestamp);
+}
+
+// Mirrors `_selectWinner`: each pool wins with probability
+// `weight / totalWeight`. Every probability is 0 when no pool has weight (the
+// draw then has no winner).
+export function estimatePoolOdds(pools: readonly PoolState[], at: bigint): PoolOdds[] {
+  const weights = pools.map((p) => ({ poolId: p.id, weight: projectPoolWeight(p, at) }));
+  const total = weights.reduce((sum, w) => sum + w.weight, 0n);
+  return weights.map((w) => ({
+    ...w,
+    probability: total === 0n ? 0 : Number((w.weight * PROBABILITY_SCALE) / total) / Number(PROBABILITY_SCALE),
+  }));
+}
+
+// Odds for the snapshot's user: pool weights are projected to the current
+// epoch's end, and prizes use the contract's reward-index split of the current
+// per-token prize pools. Yield accrued until the draw is not projected.
+export function estimateWinOdds(snapshot: VaultSnapshot): WinOdds | null {
+  const user = snapshot.user;
+  if (!user) return null;
+
+  const at = snapshot.protocol.epoch.end;
+  const pools = estimatePoolOdds(snapshot.pools, at);
+  const mine = pools.find((p) => p.poolId === user.poolId);
+  const total = pools.reduce((sum, p) => sum + p.weight, 0n);
+  const weight = mine?.weight ?? 0n;
+
+  const prizes: TokenPrizeEstimate[] = snapshot.tokens.map((token) => {
+    const deposited = user.positions.find((p) => p.token === token.address)?.deposited ?? 0n;
+    const poolDeposits = token.poolDeposits.find((p) => p.poolId === user.poolId)?.deposits ?? 0n;
+    const ifWin =
+      poolDeposits === 0n
+        ? 0n
+        : (deposited * ((token.prizePool * PRIZE_INDEX_SCALE) / poolDeposits)) / PRIZE_INDEX_SCALE;
+    return {
+      token: token.address,
+      symbol: token.symbol,
+      prizePool: token.prizePool,
+      ifWin,
+      expected: total === 0n ? 0n : (ifWin * weight) / total,
+    };
+  });
+
+  return { at, poolId: user.poolId, probability: mine?.probability ?? 0, pools, prizes };
+}
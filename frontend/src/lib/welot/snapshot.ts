@@ -0,0 +1,151 @@
+import type { Address, Hex } from "viem";
+
+import { erc20Abi, welotVaultAbi } from "../abis";
+import { readBatch, unwrap, unwrapOr, type ReadCall } from "./batch";
+import type { WelotClient } from "./client";
+import { decodePastWinners, decodePool, decodeTokenConfig } from "./decode";
+import type {
+  EpochStatus,
+  PastWinner,
+  PoolState,
+  TokenSnapshot,
+  UserPositions,
+  UserTokenPosition,
+  VaultSnapshot,
+} from "./types";
+
+export interface VaultSnapshotOptions {
+  // Load positions, balances and allowances for this account
+  user?: Address;
+  pastWinnersLimit?: bigint;
+}
+
+type RawEpoch = {
+  start: bigint;
+  end: bigint;
+  status: number;
+  entropySequence: bigint;
+  randomness: Hex;
+  prize: bigint;
+  winningPoolId: bigint;
+};
+
+type RawPastWinner = {
+  epochId: bigint;
+  timestamp: bigint;
+  winningPoolId: bigint;
+  totalPrizeNormalized: bigint;
+};
+
+// Loads globals, token configs, per-pool deposits and (optionally) a user's
+// positions in two batched round-trips:
+//
+//   1. epoch, prize total, countdown, past winners, token list, pool count,
+//      assigned pool
+//   2. every pool's time-weighted state, then per token: config, symbol, prize
+//      pool, total assets, deposits in every pool and the user's
+//      position/balance/allowance
+//
+// Pool ids are derived as `1..poolIdsLength`: the vault creates all pools in
+// its constructor via `++poolCount` and never removes them.
+export async function loadVaultSnapshot(
+  client: WelotClient,
+  opts: VaultSnapshotOptions = {}
+): Promise<VaultSnapshot> {
+  const vault = { address: client.vaultAddress, abi: welotVaultAbi } as const;
+  const user = opts.user;
+
+  const globals: ReadCall[] = [
+    { ...vault, functionName: "getCurrentEpoch" },
+    { ...vault, functionName: "currentEpochId" },
+    { ...vault, functionName: "currentPrizePoolTotal" },
+    { ...vault, functionName: "getTimeUntilDraw" },
+    { ...vault, functionName: "getPastWinners", args: [opts.pastWinnersLimit ?? 10n] },
+    { ...vault, functionName: "getSupportedTokens" },
+    { ...vault, functionName: "poolIdsLength" },
+  ];
+  if (user) globals.push({ ...vault, functionName: "assignedPoolId", args: [user] });
+
+  const g = await readBatch(client.publicClient, globals);
+
+  const rawEpoch = unwrap<RawEpoch>(g[0]);
+  const epochId = unwrap<bigint>(g[1]);
+  const prizePoolTotal = unwrap<bigint>(g[2]);
+  const timeUntilDraw = unwrap<bigint>(g[3]);
+  const pastWinners: PastWinner[] = decodePastWinners(unwrapOr<RawPastWinner[]>(g[4], []));
+  const tokenAddresses = unwrap<readonly Address[]>(g[5]);
+  const poolCount = unwrap<bigint>(g[6]);
+  // Older deployments without `assignedPoolId` used pool 1 for everyone.
+  const assigned = user ? unwrapOr<bigint>(g[7], 0n) : 0n;
+  const userPoolId = assigned > 0n ? assigned : 1n;
+
+  const poolIds: bigint[] = [];
+  for (let id = 1n; id <= poolCount; id++) poolIds.push(id);
+
+  const perToken: ReadCall[] = poolIds.map((poolId) => ({ ...vault, functionName: "pools", args: [poolId] }));
+  for (const token of tokenAddresses) {
+    perToken.push(
+      { ...vault, functionName: "tokenConfigs", args: [token] },
+      { address: token, abi: erc20Abi, functionName: "symbol" },
+      { ...vault, functionName: "currentPrizePool", args: [token] },
+      { ...vault, functionName: "totalAssets", args: [token] }
+    );
+    for (const poolId of poolIds) {
+      perToken.push({ ...vault, functionName: "poolTokenDeposits", args: [token, poolId] });
+    }
+    if (user) {
+      perToken.push(
+        { ...vault, functionName: "getUserPosition", args: [token, userPoolId, user] },
+        { address: token, abi: erc20Abi, functionName: "balanceOf", args: [user] },
+        { address: token, abi: erc20Abi, functionName: "allowance", args: [user, client.vaultAddress] }
+      );
+    }
+  }
+
+  const t = await readBatch(client.publicClient, perToken);
+
+  const pools: PoolState[] = poolIds.map((poolId, j) => decodePool(poolId, unwrap(t[j])));
+
+  const tokens: TokenSnapshot[] = [];
+  const positions: UserTokenPosition[] = [];
+  let i = poolIds.length;
+  for (const address of tokenAddresses) {
+    const config = decodeTokenConfig(unwrap(t[i++]));
+    const symbol = unwrapOr<string>(t[i++], "TOKEN");
+    const prizePool = unwrap<bigint>(t[i++]);
+    const totalAssets = unwrap<bigint>(t[i++]);
+    const poolDeposits = poolIds.map((poolId) => ({ poolId, deposits: unwrap<bigint>(t[i++]) }));
+    tokens.push({ address, symbol, config, prizePool, totalAssets, poolDeposits });
+
+    if (user) {
+      const pos = unwrap<readonly [bigint, bigint]>(t[i++]);
+      const balance = unwrap<bigint>(t[i++]);
+      const allowance = unwrap<bigint>(t[i++]);
+      positions.push({
+        token: address,
+        poolId: userPoolId,
+        deposited: pos[0],
+        claimable: pos[1],
+        balance,
+        allowance,
+      });
+    }
+  }
+
+  const userPositions: UserPositions | undefined = user
+    ? { user, poolId: userPoolId, positions }
+    : undefined;
+
+  return {
+    protocol: {
+      epoch: { id: epochId, ...rawEpoch, status: rawEpoch.status as EpochStatus },
+      timeUntilDraw,
+      prizePoolTotal,
+      pastWinners,
+    },
+    poolIds,
+    pools,
+    tokens,
+    user: userPositions,
+  };
+}
@@ -0,0 +1,121 @@
+import type { Address, Hex } from "viem";
+
+// Mirrors `WelotVault.EpochStatus`
+export const EpochStatus = {
+  Open: 0,
+  Closed: 1,
+  RandomnessRequested: 2,
+  RandomnessReady: 3,
+} as const;
+
+export type EpochStatus = (typeof EpochStatus)[keyof typeof EpochStatus];
+
+export interface Epoch {
+  id: bigint;
+  start: bigint;
+  end: bigint;
+  status: EpochStatus;
+  entropySequence: bigint;
+  randomness: Hex;
+  // Total prize awarded in this epoch (normalized to 18 decimals)
+  prize: bigint;
+  winningPoolId: bigint;
+}
+
+export interface TokenConfig {
+  enabled: boolean;
+  yieldVault: Address;
+  decimals: number;
+  totalDeposits: bigint;
+  totalUnclaimedPrizes: bigint;
+}
+
+export interface PoolState {
+  id: bigint;
+  exists: boolean;
+  // Pool balance across all tokens (normalized to 18 decimals)
+  totalDeposits: bigint;
+  cumulative: bigint;
+  lastTimestamp: bigint;
+  lastBalance: bigint;
+}
+
+export interface PastWinner {
+  epochId: bigint;
+  timestamp: bigint;
+  winningPoolId: bigint;
+  totalPrizeNormalized: bigint;
+}
+
+// A supported token as registered in the vault
+export interface VaultToken {
+  address: Address;
+  symbol: string;
+  config: TokenConfig;
+}
+
+export interface ProtocolSnapshot {
+  epoch: Epoch;
+  timeUntilDraw: bigint;
+  // Sum of all per-token prize pools (normalized to 18 decimals)
+  prizePoolTotal: bigint;
+  pastWinners: PastWinner[];
+}
+
+// A user's position in one token, within their assigned pool
+export interface UserTokenPosition {
+  token: Address;
+  poolId: bigint;
+  deposited: bigint;
+  claimable: bigint;
+  balance: bigint;
+  allowance: bigint;
+}
+
+export interface UserPositions {
+  user: Address;
+  poolId: bigint;
+  positions: UserTokenPosition[];
+}
+
+export interface PoolTokenDeposits {
+  poolId: bigint;
+  deposits: bigint;
+}
+
+export interface TokenSnapshot extends VaultToken {
+  prizePool: bigint;
+  // What the vault's yield-vault shares are worth now (token decimals)
+  totalAssets: bigint;
+  // Deposits of this token in every pool (token decimals)
+  poolDeposits: PoolTokenDeposits[];
+}
+
+// How much of a token the vault can pull out of its yield vault right now.
+// Lendle withdrawals revert when the reserve is lent out, so this can be far
+// below the user's deposits.
+export interface WithdrawLiquidity {
+  token: Address;
+  amount: bigint;
+  yieldVault: Address;
+  // `yieldVault.maxWithdraw(vault)`
+  maxWithdraw: bigint;
+  // `yieldVault.previewWithdraw(amount)`: shares burned; null if it reverts
+  previewShares: bigint | null;
+  // Lendle-backed vaults only: the aToken and the underlying it holds
+  aToken: Address | null;
+  aTokenLiquidity: bigint | null;
+  // Lower of `maxWithdraw` and `aTokenLiquidity`
+  available: bigint;
+  // Whether withdrawing `amount` would go through now
+  sufficient: boolean;
+}
+
+export interface VaultSnapshot {
+  protocol: ProtocolSnapshot;
+  poolIds: bigint[];
+  pools: PoolState[];
+  tokens: TokenSnapshot[];
+  // Present when the snapshot was loaded for a specific account
+  user?: UserPositions;
+}
@@ -0,0 +1,7 @@
+// Mirrors `WelotVault._to18`: scales a token amount to 18 decimals, rounding
+// down for tokens with more than 18
+export function to18(amount: bigint, decimals: number): bigint {
+  if (decimals === 18) return amount;
+  if (decimals < 18) return amount * 10n ** BigInt(18 - decimals);
+  return amount / 10n ** BigInt(decimals - 18);
+}